@@ -0,0 +1,15 @@
+use std::path::PathBuf;
+
+use tauri::{AppHandle, Manager};
+
+use super::CoverCache;
+use crate::error::Result;
+
+/// Whether `path` has a cover, embedded or in its folder.
+#[tauri::command]
+pub async fn cover_exists(app: AppHandle, path: PathBuf) -> Result<bool> {
+    tauri::async_runtime::spawn_blocking(move || -> Result<bool> {
+        Ok(app.state::<CoverCache>().resolve(&path)?.is_some())
+    })
+    .await?
+}
@@ -0,0 +1,328 @@
+//! Album art.
+//!
+//! Covers are the pictures embedded in the tracks, or image files like `cover.jpg`
+//! next to them. [`CoverCache`] copies them to the app cache dir under the hash of
+//! their content, so the tracks of an album sharing a cover store it once, and
+//! resizes them to [`THUMBNAIL_SIZES`] on demand. Reading a file of the cache
+//! refreshes its modification time, so pruning drops the least recently used. The
+//! frontend loads them through the [`PROTOCOL`] URI scheme, see [`protocol`].
+
+pub mod commands;
+pub mod protocol;
+mod thumbnail;
+
+use std::collections::HashMap;
+use std::fs::{self, File};
+use std::io;
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+use std::time::{Duration, Instant, SystemTime};
+
+use lofty::picture::MimeType;
+use tauri::{AppHandle, Manager};
+
+use crate::error::Result;
+use crate::files::write_atomic;
+use crate::library::scanner::read_cover;
+use crate::library::FileStamp;
+
+/// The URI scheme covers are served from, e.g. `cover://localhost/<track path>?size=256`.
+pub const PROTOCOL: &str = "cover";
+
+/// Side lengths of the thumbnails in pixels, smallest first.
+pub const THUMBNAIL_SIZES: &[u32] = &[128, 256, 512];
+
+/// The cache is pruned down to this size when the app starts.
+const CACHE_LIMIT: u64 = 256 * 1024 * 1024;
+
+/// Tracks whose cover is remembered in memory, the least recently used are forgotten.
+const ENTRIES_LIMIT: usize = 4096;
+
+/// Reading a file of the cache refreshes its modification time at most this often.
+const TOUCH_INTERVAL: Duration = Duration::from_secs(60 * 60);
+
+/// Stems of the cover files looked for next to a track, by priority.
+const SIDECAR_STEMS: &[&str] = &["cover", "folder", "front", "album"];
+
+const SIDECAR_EXTENSIONS: &[&str] = &["jpg", "jpeg", "png", "webp"];
+
+/// A cover stored in the cache.
+#[derive(Clone, Debug)]
+pub struct Cover {
+    /// Hex hash of the original image, which names its cache files.
+    pub hash: String,
+    pub mime: &'static str,
+}
+
+/// An image read from the cache.
+pub struct CoverImage {
+    pub data: Vec<u8>,
+    pub mime: &'static str,
+    /// Changes whenever the image does, used as the HTTP entity tag.
+    pub tag: String,
+}
+
+/// What a track resolved to, valid as long as the track and its folder are unchanged.
+struct Entry {
+    track: FileStamp,
+    folder: Option<FileStamp>,
+    cover: Option<Cover>,
+    used: Instant,
+}
+
+/// The on-disk cache of covers and thumbnails.
+///
+/// Lives in `covers` in the app cache dir. The covers found for each track are
+/// remembered while the app runs, the files of the cache are kept across runs.
+pub struct CoverCache {
+    dir: PathBuf,
+    entries: Mutex<HashMap<PathBuf, Entry>>,
+}
+
+impl CoverCache {
+    pub fn open(app: &AppHandle) -> Result<Self> {
+        let dir = app.path().app_cache_dir()?.join("covers");
+        fs::create_dir_all(&dir)?;
+        Ok(Self {
+            dir,
+            entries: Mutex::new(HashMap::new()),
+        })
+    }
+
+    /// Finds the cover of `track`, copying it to the cache the first time.
+    pub fn resolve(&self, track: &Path) -> Result<Option<Cover>> {
+        let stamp = FileStamp::read(track)?;
+        let folder = track.parent().and_then(|dir| FileStamp::read(dir).ok());
+        if let Some(entry) = self.entries.lock().unwrap().get_mut(track) {
+            if entry.track == stamp && entry.folder == folder {
+                entry.used = Instant::now();
+                return Ok(entry.cover.clone());
+            }
+        }
+
+        let cover = match find_image(track)? {
+            Some((data, mime)) => {
+                let hash = blake3::hash(&data).to_hex()[..32].to_owned();
+                let path = self.dir.join(&hash);
+                if !path.is_file() {
+                    write_atomic(&path, &data)?;
+                }
+                Some(Cover { hash, mime })
+            }
+            None => None,
+        };
+
+        let mut entries = self.entries.lock().unwrap();
+        if entries.len() >= ENTRIES_LIMIT && !entries.contains_key(track) {
+            let oldest = entries
+                .iter()
+                .min_by_key(|(_, entry)| entry.used)
+                .map(|(path, _)| path.clone());
+            if let Some(oldest) = oldest {
+                entries.remove(&oldest);
+            }
+        }
+        entries.insert(
+            track.to_owned(),
+            Entry {
+                track: stamp,
+                folder,
+                cover: cover.clone(),
+                used: Instant::now(),
+            },
+        );
+        Ok(cover)
+    }
+
+    /// Path of the cover of `track` in the cache, for readers outside of the webview.
+    pub fn file(&self, track: &Path) -> Result<Option<PathBuf>> {
+        let Some(cover) = self.resolve(track)? else {
+            return Ok(None);
+        };
+        let path = self.dir.join(cover.hash);
+        touch(&path);
+        Ok(Some(path))
+    }
+
+    /// Reads the cover of `track`, resized to the smallest thumbnail holding `size`
+    /// pixels, or in its original size if `size` is `None`.
+    ///
+    /// Thumbnails are stored as `<hash>-<size>.jpg`. Covers which are already small
+    /// enough are copied to `<hash>-<size>` instead, keeping their format, so that
+    /// they are not decoded again on every request.
+    pub fn read(&self, track: &Path, size: Option<u32>) -> Result<Option<CoverImage>> {
+        let Some(cover) = self.resolve(track)? else {
+            return Ok(None);
+        };
+        let original = self.dir.join(&cover.hash);
+
+        let Some(size) = size.map(thumbnail_size) else {
+            return Ok(Some(CoverImage {
+                data: read_touched(&original)?,
+                mime: cover.mime,
+                tag: cover.hash,
+            }));
+        };
+
+        let tag = format!("{}-{size}", cover.hash);
+        let resized = self.dir.join(format!("{tag}.jpg"));
+        let copied = self.dir.join(&tag);
+        if let Ok(data) = read_touched(&resized) {
+            return Ok(Some(CoverImage {
+                data,
+                mime: "image/jpeg",
+                tag,
+            }));
+        }
+        if let Ok(data) = read_touched(&copied) {
+            return Ok(Some(CoverImage {
+                data,
+                mime: cover.mime,
+                tag,
+            }));
+        }
+
+        let data = read_touched(&original)?;
+        let image = match thumbnail::resize(&data, size)? {
+            Some(thumbnail) => {
+                write_atomic(&resized, &thumbnail)?;
+                CoverImage {
+                    data: thumbnail,
+                    mime: "image/jpeg",
+                    tag,
+                }
+            }
+            None => {
+                write_atomic(&copied, &data)?;
+                CoverImage {
+                    data,
+                    mime: cover.mime,
+                    tag,
+                }
+            }
+        };
+        Ok(Some(image))
+    }
+
+    /// Deletes the least recently used files until the cache fits in [`CACHE_LIMIT`].
+    pub fn prune(&self) -> Result<()> {
+        let mut files: Vec<(SystemTime, u64, PathBuf)> = fs::read_dir(&self.dir)?
+            .filter_map(|entry| {
+                let entry = entry.ok()?;
+                let metadata = entry.metadata().ok()?;
+                if !metadata.is_file() {
+                    return None;
+                }
+                Some((metadata.modified().ok()?, metadata.len(), entry.path()))
+            })
+            .collect();
+
+        let mut total: u64 = files.iter().map(|(_, len, _)| len).sum();
+        files.sort_by_key(|(modified, _, _)| *modified);
+        for (_, len, path) in files {
+            if total <= CACHE_LIMIT {
+                break;
+            }
+            match fs::remove_file(&path) {
+                Ok(()) => total -= len,
+                Err(err) => log::warn!("failed to remove {}: {err}", path.display()),
+            }
+        }
+        Ok(())
+    }
+}
+
+/// Reads a file of the cache, marking it as used.
+fn read_touched(path: &Path) -> io::Result<Vec<u8>> {
+    let data = fs::read(path)?;
+    touch(path);
+    Ok(data)
+}
+
+/// Sets the modification time of `path` to now, unless it was set recently.
+///
+/// Access times are not used for this, as many file systems are mounted with
+/// `noatime` or only update them lazily.
+fn touch(path: &Path) {
+    let stale = fs::metadata(path)
+        .and_then(|metadata| metadata.modified())
+        .map(|modified| modified.elapsed().map_or(true, |age| age > TOUCH_INTERVAL))
+        .unwrap_or(false);
+    if !stale {
+        return;
+    }
+    if let Err(err) = File::options()
+        .write(true)
+        .open(path)
+        .and_then(|file| file.set_modified(SystemTime::now()))
+    {
+        log::warn!("failed to touch {}: {err}", path.display());
+    }
+}
+
+/// Rounds `size` up to a thumbnail size, or down to the largest one.
+fn thumbnail_size(size: u32) -> u32 {
+    THUMBNAIL_SIZES
+        .iter()
+        .copied()
+        .find(|&thumbnail| thumbnail >= size)
+        .unwrap_or(THUMBNAIL_SIZES[THUMBNAIL_SIZES.len() - 1])
+}
+
+/// Reads the embedded cover of `track`, falling back to a cover file in its folder.
+fn find_image(track: &Path) -> Result<Option<(Vec<u8>, &'static str)>> {
+    match read_cover(track) {
+        Ok(Some(picture)) => {
+            let mime = match picture.mime_type() {
+                Some(MimeType::Png) => "image/png",
+                Some(MimeType::Gif) => "image/gif",
+                Some(MimeType::Bmp) => "image/bmp",
+                Some(MimeType::Tiff) => "image/tiff",
+                _ => "image/jpeg",
+            };
+            return Ok(Some((picture.data().to_vec(), mime)));
+        }
+        Ok(None) => {}
+        Err(err) => log::warn!("failed to read the cover of {}: {err}", track.display()),
+    }
+
+    let Some(sidecar) = find_sidecar(track) else {
+        return Ok(None);
+    };
+    let extension = sidecar
+        .extension()
+        .map(|ext| ext.to_string_lossy().to_ascii_lowercase())
+        .unwrap_or_default();
+    Ok(Some((fs::read(&sidecar)?, mime_of_extension(&extension))))
+}
+
+/// Finds a cover file next to `track`, ignoring the case of its name.
+fn find_sidecar(track: &Path) -> Option<PathBuf> {
+    let candidates: Vec<(usize, PathBuf)> = fs::read_dir(track.parent()?)
+        .ok()?
+        .filter_map(|entry| {
+            let path = entry.ok()?.path();
+            let name = path.file_name()?.to_string_lossy().to_ascii_lowercase();
+            let (stem, extension) = name.rsplit_once('.')?;
+            let priority = SIDECAR_STEMS.iter().position(|known| *known == stem)?;
+            SIDECAR_EXTENSIONS
+                .contains(&extension)
+                .then(|| (priority, path))
+        })
+        .filter(|(_, path)| path.is_file())
+        .collect();
+    candidates
+        .into_iter()
+        .min_by_key(|(priority, _)| *priority)
+        .map(|(_, path)| path)
+}
+
+fn mime_of_extension(extension: &str) -> &'static str {
+    match extension {
+        "png" => "image/png",
+        "webp" => "image/webp",
+        "gif" => "image/gif",
+        "bmp" => "image/bmp",
+        _ => "image/jpeg",
+    }
+}
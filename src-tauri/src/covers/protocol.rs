@@ -0,0 +1,83 @@
+//! Handler of the [`PROTOCOL`](super::PROTOCOL) URI scheme.
+//!
+//! The path of a request is the percent-encoded path of a track, as built by
+//! `convertFileSrc` on the frontend. The optional `size` query parameter asks for
+//! a thumbnail, e.g. `?size=256`. Only tracks below the library folders are served.
+
+use std::path::Path;
+
+use percent_encoding::percent_decode_str;
+use tauri::http::{header, Request, Response, StatusCode};
+
+use super::{CoverCache, CoverImage};
+use crate::library::scanner::is_audio_file;
+use crate::library::Library;
+
+pub fn handle(
+    cache: &CoverCache,
+    library: &Library,
+    request: &Request<Vec<u8>>,
+) -> Response<Vec<u8>> {
+    let uri = request.uri();
+    let Ok(path) = percent_decode_str(uri.path().trim_start_matches('/')).decode_utf8() else {
+        return status(StatusCode::BAD_REQUEST);
+    };
+    let path = Path::new(path.as_ref());
+    // Only covers of tracks in the library are served, not arbitrary files.
+    if !is_audio_file(path) {
+        return status(StatusCode::FORBIDDEN);
+    }
+    match library.contains(path) {
+        Ok(true) => {}
+        Ok(false) => return status(StatusCode::FORBIDDEN),
+        Err(err) => {
+            log::warn!("failed to read the library folders: {err}");
+            return status(StatusCode::INTERNAL_SERVER_ERROR);
+        }
+    }
+
+    let size = uri
+        .query()
+        .unwrap_or_default()
+        .split('&')
+        .find_map(|pair| pair.strip_prefix("size="))
+        .and_then(|size| size.parse().ok());
+
+    match cache.read(path, size) {
+        Ok(Some(image)) => respond(request, image),
+        Ok(None) => status(StatusCode::NOT_FOUND),
+        Err(err) => {
+            log::warn!("failed to read the cover of {}: {err}", path.display());
+            status(StatusCode::INTERNAL_SERVER_ERROR)
+        }
+    }
+}
+
+fn respond(request: &Request<Vec<u8>>, image: CoverImage) -> Response<Vec<u8>> {
+    let tag = format!("\"{}\"", image.tag);
+    let unchanged = request
+        .headers()
+        .get(header::IF_NONE_MATCH)
+        .is_some_and(|value| value.as_bytes() == tag.as_bytes());
+
+    let builder = Response::builder()
+        .header(header::ETAG, &tag)
+        // The URL stays the same when the cover changes, so the webview has to revalidate.
+        .header(header::CACHE_CONTROL, "no-cache")
+        // The cover palette is read from a canvas, which needs CORS to stay untainted.
+        .header(header::ACCESS_CONTROL_ALLOW_ORIGIN, "*");
+    let response = if unchanged {
+        builder.status(StatusCode::NOT_MODIFIED).body(Vec::new())
+    } else {
+        builder
+            .header(header::CONTENT_TYPE, image.mime)
+            .body(image.data)
+    };
+    response.unwrap_or_else(|_| status(StatusCode::INTERNAL_SERVER_ERROR))
+}
+
+fn status(status: StatusCode) -> Response<Vec<u8>> {
+    let mut response = Response::new(Vec::new());
+    *response.status_mut() = status;
+    response
+}
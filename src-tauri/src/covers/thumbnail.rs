@@ -0,0 +1,24 @@
+use std::io::Cursor;
+
+use image::codecs::jpeg::JpegEncoder;
+use image::imageops::FilterType;
+
+use crate::error::Result;
+
+const JPEG_QUALITY: u8 = 85;
+
+/// Scales `data` down to fit in a `size` pixels square and encodes it as JPEG.
+///
+/// Returns `None` if the image already fits, it is served as it is then.
+pub fn resize(data: &[u8], size: u32) -> Result<Option<Vec<u8>>> {
+    let image = image::load_from_memory(data)?;
+    if image.width() <= size && image.height() <= size {
+        return Ok(None);
+    }
+
+    // JPEG has no alpha channel.
+    let resized = image.resize(size, size, FilterType::Lanczos3).into_rgb8();
+    let mut output = Cursor::new(Vec::new());
+    resized.write_with_encoder(JpegEncoder::new_with_quality(&mut output, JPEG_QUALITY))?;
+    Ok(Some(output.into_inner()))
+}
@@ -0,0 +1,71 @@
+use serde::{Serialize, Serializer};
+
+/// Errors returned by the backend.
+///
+/// They are serialized as plain strings, so a rejected `invoke` on the frontend
+/// receives the human readable message.
+#[derive(Debug, thiserror::Error)]
+pub enum Error {
+    #[error(transparent)]
+    Io(#[from] std::io::Error),
+
+    #[error("failed to decode audio: {0}")]
+    Decode(#[from] symphonia::core::errors::Error),
+
+    #[error("failed to read tags: {0}")]
+    Tag(#[from] lofty::error::LoftyError),
+
+    #[error("library database error: {0}")]
+    Database(#[from] rusqlite::Error),
+
+    #[error("failed to watch folder: {0}")]
+    Watch(#[from] notify_debouncer_mini::notify::Error),
+
+    #[error("failed to measure loudness: {0}")]
+    Loudness(#[from] ebur128::Error),
+
+    #[error("failed to process image: {0}")]
+    Image(#[from] image::ImageError),
+
+    #[error("failed to parse playlist: {0}")]
+    Xml(#[from] quick_xml::Error),
+
+    #[error("unsupported playlist format: {0}")]
+    UnknownPlaylistFormat(String),
+
+    #[error("playlist {0} does not exist")]
+    PlaylistNotFound(i64),
+
+    #[error("invalid JSON: {0}")]
+    Json(#[from] serde_json::Error),
+
+    #[error("the built-in preset {0:?} cannot be changed")]
+    BuiltinPreset(String),
+
+    #[error("the track has no album")]
+    NoAlbum,
+
+    #[cfg(target_os = "linux")]
+    #[error("D-Bus error: {0}")]
+    DBus(#[from] zbus::Error),
+
+    #[error(transparent)]
+    Tauri(#[from] tauri::Error),
+
+    #[error("no playable audio track found")]
+    NoAudioTrack,
+
+    #[error("audio output error: {0}")]
+    Output(String),
+
+    #[error("the playback engine is not running")]
+    PlayerGone,
+}
+
+impl Serialize for Error {
+    fn serialize<S: Serializer>(&self, serializer: S) -> std::result::Result<S::Ok, S::Error> {
+        serializer.serialize_str(&self.to_string())
+    }
+}
+
+pub type Result<T, E = Error> = std::result::Result<T, E>;
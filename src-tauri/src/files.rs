@@ -0,0 +1,17 @@
+//! Writing the files the app keeps for itself, such as the cover cache and the settings.
+
+use std::fs;
+use std::path::Path;
+use std::sync::atomic::{AtomicU64, Ordering};
+
+use crate::error::Result;
+
+/// Writes through a temporary file, so that concurrent readers never see a partial file.
+pub fn write_atomic(path: &Path, data: &[u8]) -> Result<()> {
+    static COUNTER: AtomicU64 = AtomicU64::new(0);
+    let mut temporary = path.as_os_str().to_owned();
+    temporary.push(format!(".{}.tmp", COUNTER.fetch_add(1, Ordering::Relaxed)));
+    fs::write(&temporary, data)?;
+    fs::rename(&temporary, path)?;
+    Ok(())
+}
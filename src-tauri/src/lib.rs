@@ -1,14 +1,128 @@
-// Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
-#[tauri::command]
-fn greet(name: &str) -> String {
-    format!("Hello, {}! You've been greeted from Rust!", name)
+mod covers;
+mod error;
+mod files;
+mod library;
+mod lyrics;
+#[cfg(target_os = "linux")]
+mod mpris;
+mod player;
+mod playlist;
+mod presets;
+mod session;
+mod settings;
+mod text;
+
+use tauri::{Manager, RunEvent};
+
+use player::sink::{AudioSink, CpalSink};
+
+/// There are no media applets to serve outside of Linux, the frontend still sends
+/// its updates though.
+#[cfg(not(target_os = "linux"))]
+mod mpris {
+    pub mod commands {
+        #[tauri::command]
+        pub fn mpris_update() {}
+    }
 }
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
-        .run(tauri::generate_context!())
-        .expect("error while running tauri application");
+        .plugin(tauri_plugin_dialog::init())
+        .register_asynchronous_uri_scheme_protocol(covers::PROTOCOL, |ctx, request, responder| {
+            let app = ctx.app_handle().clone();
+            tauri::async_runtime::spawn_blocking(move || {
+                let cache = app.state::<covers::CoverCache>();
+                let library = app.state::<library::Library>();
+                responder.respond(covers::protocol::handle(&cache, &library, &request));
+            });
+        })
+        .setup(|app| {
+            let events = player::AppEvents(app.handle().clone());
+            let open_sink =
+                || CpalSink::open_default().map(|sink| Box::new(sink) as Box<dyn AudioSink>);
+            app.manage(player::Player::spawn(open_sink, events));
+
+            app.manage(library::Library::open(app.handle())?);
+            app.manage(covers::CoverCache::open(app.handle())?);
+            app.manage(session::Session::open(app.handle())?);
+            session::Session::save_periodically(app.handle().clone())?;
+            let handle = app.handle().clone();
+            tauri::async_runtime::spawn_blocking(move || {
+                if let Err(err) = handle.state::<library::Library>().rescan() {
+                    log::error!("failed to rescan the library: {err}");
+                }
+                if let Err(err) = handle.state::<covers::CoverCache>().prune() {
+                    log::warn!("failed to prune the cover cache: {err}");
+                }
+            });
+
+            // Connecting to the session bus is quick, and the frontend must find the server
+            // once it starts sending updates.
+            #[cfg(target_os = "linux")]
+            match tauri::async_runtime::block_on(mpris::Mpris::start(app.handle())) {
+                Ok(mpris) => {
+                    app.manage(mpris);
+                }
+                Err(err) => log::warn!("failed to start the MPRIS server: {err}"),
+            }
+
+            Ok(())
+        })
+        .invoke_handler(tauri::generate_handler![
+            player::commands::player_load,
+            player::commands::player_play,
+            player::commands::player_pause,
+            player::commands::player_toggle,
+            player::commands::player_stop,
+            player::commands::player_seek,
+            player::commands::player_set_volume,
+            player::commands::player_set_equalizer,
+            player::commands::player_set_next,
+            player::commands::player_set_crossfade,
+            player::commands::player_set_gains,
+            player::commands::player_set_visualizer,
+            player::commands::player_clear_visualizer,
+            player::commands::player_get_state,
+            library::commands::library_get_folders,
+            library::commands::library_add_folder,
+            library::commands::library_remove_folder,
+            library::commands::library_get_tracks,
+            library::commands::library_rescan,
+            library::commands::library_read_track,
+            library::commands::library_get_peaks,
+            library::commands::library_search,
+            covers::commands::cover_exists,
+            lyrics::commands::lyrics_read,
+            mpris::commands::mpris_update,
+            playlist::commands::playlist_list,
+            playlist::commands::playlist_create,
+            playlist::commands::playlist_rename,
+            playlist::commands::playlist_delete,
+            playlist::commands::playlist_get_tracks,
+            playlist::commands::playlist_set_tracks,
+            playlist::commands::playlist_import,
+            playlist::commands::playlist_export,
+            presets::commands::preset_list,
+            presets::commands::preset_save,
+            presets::commands::preset_delete,
+            presets::commands::preset_get_assignment,
+            presets::commands::preset_assign,
+            settings::commands::settings_read,
+            settings::commands::settings_write,
+            session::commands::session_read,
+            session::commands::session_set_queue,
+        ])
+        .build(tauri::generate_context!())
+        .expect("error while building tauri application")
+        .run(|app, event| {
+            if let RunEvent::Exit = event {
+                let session = app.state::<session::Session>();
+                if let Err(err) = session.save(&app.state::<player::Player>()) {
+                    log::warn!("failed to save the session: {err}");
+                }
+            }
+        });
 }
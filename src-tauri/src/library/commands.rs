@@ -0,0 +1,53 @@
+use std::path::PathBuf;
+
+use tauri::{AppHandle, Manager, State};
+
+use super::{Library, Peaks, SearchResults, Track};
+use crate::error::Result;
+
+#[tauri::command]
+pub fn library_get_folders(library: State<'_, Library>) -> Result<Vec<PathBuf>> {
+    library.folders()
+}
+
+/// Adds a folder and waits until its tracks are indexed.
+#[tauri::command]
+pub async fn library_add_folder(app: AppHandle, path: PathBuf) -> Result<()> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().add_folder(&path)).await?
+}
+
+#[tauri::command]
+pub async fn library_remove_folder(app: AppHandle, path: PathBuf) -> Result<()> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().remove_folder(&path))
+        .await?
+}
+
+#[tauri::command]
+pub async fn library_get_tracks(app: AppHandle) -> Result<Vec<Track>> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().tracks()).await?
+}
+
+#[tauri::command]
+pub async fn library_rescan(app: AppHandle) -> Result<()> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().rescan()).await?
+}
+
+#[tauri::command]
+pub async fn library_read_track(app: AppHandle, path: String) -> Result<Track> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().track(&path)).await?
+}
+
+/// Peaks of a track for the waveform seek bar. Takes a while the first time, as the
+/// whole file is decoded.
+#[tauri::command]
+pub async fn library_get_peaks(app: AppHandle, path: String) -> Result<Peaks> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().peaks(&path)).await?
+}
+
+/// Tracks, albums and artists matching `query`, at most `limit` of each. Albums are
+/// given by the path of one of their tracks.
+#[tauri::command]
+pub async fn library_search(app: AppHandle, query: String, limit: usize) -> Result<SearchResults> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Library>().search(&query, limit))
+        .await?
+}
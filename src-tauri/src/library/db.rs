@@ -0,0 +1,535 @@
+use std::collections::HashMap;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::UNIX_EPOCH;
+
+use rusqlite::{params, Connection, OptionalExtension, Row};
+use serde::Serialize;
+
+use super::{Loudness, ReplayGain, Track};
+use crate::error::{Error, Result};
+
+/// Schema migrations, applied in order.
+/// The index of the last applied migration plus one is stored in `user_version`.
+const MIGRATIONS: &[&str] = &[
+    "
+    CREATE TABLE folders (
+        path TEXT PRIMARY KEY NOT NULL
+    );
+    CREATE TABLE tracks (
+        path TEXT PRIMARY KEY NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        artists TEXT NOT NULL,
+        album TEXT,
+        album_artist TEXT,
+        track_number INTEGER,
+        disc_number INTEGER,
+        year INTEGER,
+        genre TEXT,
+        duration REAL NOT NULL,
+        has_cover INTEGER NOT NULL
+    );
+",
+    "
+    CREATE TABLE playlists (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL
+    );
+    CREATE TABLE playlist_entries (
+        playlist_id INTEGER NOT NULL REFERENCES playlists (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        path TEXT NOT NULL,
+        PRIMARY KEY (playlist_id, position)
+    );
+",
+    "
+    CREATE TABLE eq_presets (
+        name TEXT PRIMARY KEY NOT NULL,
+        settings TEXT NOT NULL
+    );
+    CREATE TABLE eq_assignments (
+        scope TEXT NOT NULL,
+        key TEXT NOT NULL,
+        preset TEXT NOT NULL,
+        PRIMARY KEY (scope, key)
+    );
+",
+    "
+    ALTER TABLE tracks ADD COLUMN track_gain REAL;
+    ALTER TABLE tracks ADD COLUMN track_peak REAL;
+    ALTER TABLE tracks ADD COLUMN album_gain REAL;
+    ALTER TABLE tracks ADD COLUMN album_peak REAL;
+    CREATE TABLE loudness (
+        path TEXT PRIMARY KEY NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        integrated REAL NOT NULL,
+        true_peak REAL NOT NULL
+    );
+    -- Read every file again for the new tags.
+    UPDATE tracks SET mtime = -1;
+",
+    "
+    CREATE TABLE peaks (
+        path TEXT PRIMARY KEY NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        data BLOB NOT NULL
+    );
+",
+    "
+    -- Read every file again, artists are no longer split at slashes without spaces.
+    UPDATE tracks SET mtime = -1;
+",
+];
+
+const TRACK_COLUMNS: &str = "path, title, artists, album, album_artist, track_number, disc_number, year, genre, duration, has_cover, track_gain, track_peak, album_gain, album_peak";
+
+/// Selects the tracks as read by [`track_from_row`] from `tracks t`, along with the
+/// loudness measured for the current version of their file.
+fn select_tracks() -> String {
+    let columns = TRACK_COLUMNS
+        .split(", ")
+        .map(|column| format!("t.{column}"))
+        .collect::<Vec<_>>()
+        .join(", ");
+    format!(
+        "SELECT {columns}, l.integrated, l.true_peak FROM tracks t
+        LEFT JOIN loudness l ON l.path = t.path AND l.mtime = t.mtime AND l.size = t.size"
+    )
+}
+
+/// A user playlist, without its entries.
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PlaylistSummary {
+    pub id: i64,
+    pub name: String,
+    pub track_count: usize,
+}
+
+/// Modification time and size of a file, used to tell whether it needs to be read again.
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+pub struct FileStamp {
+    /// Milliseconds since the Unix epoch.
+    pub mtime: i64,
+    pub size: i64,
+}
+
+impl FileStamp {
+    pub fn read(path: &Path) -> Result<Self> {
+        let metadata = fs::metadata(path)?;
+        let mtime = metadata
+            .modified()?
+            .duration_since(UNIX_EPOCH)
+            .map(|time| time.as_millis() as i64)
+            .unwrap_or_default();
+        Ok(Self {
+            mtime,
+            size: metadata.len() as i64,
+        })
+    }
+}
+
+/// The on-disk library index.
+pub struct Database {
+    conn: Connection,
+}
+
+impl Database {
+    pub fn open(path: &Path) -> Result<Self> {
+        let mut conn = Connection::open(path)?;
+        conn.pragma_update(None, "journal_mode", "WAL")?;
+        conn.pragma_update(None, "foreign_keys", true)?;
+        migrate(&mut conn)?;
+        Ok(Self { conn })
+    }
+
+    pub fn folders(&self) -> Result<Vec<PathBuf>> {
+        let mut statement = self
+            .conn
+            .prepare_cached("SELECT path FROM folders ORDER BY path")?;
+        let folders = statement
+            .query_map([], |row| row.get::<_, String>(0))?
+            .map(|path| path.map(PathBuf::from))
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(folders)
+    }
+
+    /// Returns false if the folder was already in the library.
+    pub fn add_folder(&self, path: &Path) -> Result<bool> {
+        let inserted = self.conn.execute(
+            "INSERT OR IGNORE INTO folders (path) VALUES (?1)",
+            params![path.to_string_lossy()],
+        )?;
+        Ok(inserted > 0)
+    }
+
+    pub fn remove_folder(&self, path: &Path) -> Result<()> {
+        self.conn.execute(
+            "DELETE FROM folders WHERE path = ?1",
+            params![path.to_string_lossy()],
+        )?;
+        Ok(())
+    }
+
+    pub fn tracks(&self) -> Result<Vec<Track>> {
+        let mut statement = self.conn.prepare_cached(&select_tracks())?;
+        let tracks = statement
+            .query_map([], track_from_row)?
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(tracks)
+    }
+
+    pub fn track(&self, path: &str) -> Result<Option<Track>> {
+        let track = self
+            .conn
+            .query_row(
+                &format!("{} WHERE t.path = ?1", select_tracks()),
+                params![path],
+                track_from_row,
+            )
+            .optional()?;
+        Ok(track)
+    }
+
+    /// Stamps of all indexed files, keyed by path.
+    pub fn stamps(&self) -> Result<HashMap<String, FileStamp>> {
+        let mut statement = self
+            .conn
+            .prepare_cached("SELECT path, mtime, size FROM tracks")?;
+        let stamps = statement
+            .query_map([], |row| {
+                Ok((
+                    row.get(0)?,
+                    FileStamp {
+                        mtime: row.get(1)?,
+                        size: row.get(2)?,
+                    },
+                ))
+            })?
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(stamps)
+    }
+
+    /// Inserts or replaces tracks in a single transaction.
+    pub fn put_tracks(&mut self, tracks: &[(Track, FileStamp)]) -> Result<()> {
+        let transaction = self.conn.transaction()?;
+        {
+            let mut statement = transaction.prepare_cached(&format!(
+                "INSERT OR REPLACE INTO tracks (mtime, size, {TRACK_COLUMNS})
+                VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17)"
+            ))?;
+            for (track, stamp) in tracks {
+                statement.execute(params![
+                    stamp.mtime,
+                    stamp.size,
+                    track.path,
+                    track.title,
+                    serde_json::to_string(&track.artists).unwrap(),
+                    track.album,
+                    track.album_artist,
+                    track.track_number,
+                    track.disc_number,
+                    track.year,
+                    track.genre,
+                    track.duration,
+                    track.has_cover,
+                    track.replay_gain.track_gain,
+                    track.replay_gain.track_peak,
+                    track.replay_gain.album_gain,
+                    track.replay_gain.album_peak,
+                ])?;
+            }
+        }
+        transaction.commit()?;
+        Ok(())
+    }
+
+    /// Removes tracks in a single transaction.
+    pub fn remove_tracks(&mut self, paths: &[String]) -> Result<()> {
+        let transaction = self.conn.transaction()?;
+        {
+            let mut statement = transaction.prepare_cached("DELETE FROM tracks WHERE path = ?1")?;
+            let mut loudness =
+                transaction.prepare_cached("DELETE FROM loudness WHERE path = ?1")?;
+            let mut peaks = transaction.prepare_cached("DELETE FROM peaks WHERE path = ?1")?;
+            for path in paths {
+                statement.execute(params![path])?;
+                loudness.execute(params![path])?;
+                peaks.execute(params![path])?;
+            }
+        }
+        transaction.commit()?;
+        Ok(())
+    }
+
+    /// Paths and stamps of the tracks with neither a track gain tag nor a measured loudness.
+    pub fn unmeasured_tracks(&self) -> Result<Vec<(String, FileStamp)>> {
+        let mut statement = self.conn.prepare_cached(
+            "SELECT t.path, t.mtime, t.size FROM tracks t
+            LEFT JOIN loudness l ON l.path = t.path AND l.mtime = t.mtime AND l.size = t.size
+            WHERE t.track_gain IS NULL AND l.path IS NULL",
+        )?;
+        let tracks = statement
+            .query_map([], |row| {
+                Ok((
+                    row.get(0)?,
+                    FileStamp {
+                        mtime: row.get(1)?,
+                        size: row.get(2)?,
+                    },
+                ))
+            })?
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(tracks)
+    }
+
+    /// Stores the loudness measured for the version of a file given by `stamp`.
+    pub fn put_loudness(&self, path: &str, stamp: FileStamp, loudness: Loudness) -> Result<()> {
+        self.conn.execute(
+            "INSERT OR REPLACE INTO loudness (path, mtime, size, integrated, true_peak)
+            VALUES (?1, ?2, ?3, ?4, ?5)",
+            params![
+                path,
+                stamp.mtime,
+                stamp.size,
+                loudness.integrated,
+                loudness.true_peak
+            ],
+        )?;
+        Ok(())
+    }
+
+    /// Peaks stored for the version of a file given by `stamp`, as packed by
+    /// [`peaks::encode`](super::peaks::encode).
+    pub fn peaks(&self, path: &str, stamp: FileStamp) -> Result<Option<Vec<u8>>> {
+        let data = self
+            .conn
+            .query_row(
+                "SELECT data FROM peaks WHERE path = ?1 AND mtime = ?2 AND size = ?3",
+                params![path, stamp.mtime, stamp.size],
+                |row| row.get(0),
+            )
+            .optional()?;
+        Ok(data)
+    }
+
+    /// Stores the peaks of the version of a file given by `stamp`, replacing those of
+    /// older versions.
+    pub fn put_peaks(&self, path: &str, stamp: FileStamp, data: &[u8]) -> Result<()> {
+        self.conn.execute(
+            "INSERT OR REPLACE INTO peaks (path, mtime, size, data) VALUES (?1, ?2, ?3, ?4)",
+            params![path, stamp.mtime, stamp.size, data],
+        )?;
+        Ok(())
+    }
+
+    pub fn has_track(&self, path: &str) -> Result<bool> {
+        let found = self
+            .conn
+            .query_row(
+                "SELECT 1 FROM tracks WHERE path = ?1",
+                params![path],
+                |_| Ok(()),
+            )
+            .optional()?;
+        Ok(found.is_some())
+    }
+
+    pub fn playlists(&self) -> Result<Vec<PlaylistSummary>> {
+        let mut statement = self.conn.prepare_cached(
+            "SELECT p.id, p.name, COUNT(t.path) FROM playlists p
+            LEFT JOIN playlist_entries e ON e.playlist_id = p.id
+            LEFT JOIN tracks t ON t.path = e.path
+            GROUP BY p.id ORDER BY p.name",
+        )?;
+        let playlists = statement
+            .query_map([], |row| {
+                Ok(PlaylistSummary {
+                    id: row.get(0)?,
+                    name: row.get(1)?,
+                    track_count: row.get::<_, i64>(2)? as usize,
+                })
+            })?
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(playlists)
+    }
+
+    pub fn playlist(&self, id: i64) -> Result<PlaylistSummary> {
+        self.playlists()?
+            .into_iter()
+            .find(|playlist| playlist.id == id)
+            .ok_or(Error::PlaylistNotFound(id))
+    }
+
+    pub fn create_playlist(&self, name: &str) -> Result<i64> {
+        self.conn
+            .execute("INSERT INTO playlists (name) VALUES (?1)", params![name])?;
+        Ok(self.conn.last_insert_rowid())
+    }
+
+    pub fn rename_playlist(&self, id: i64, name: &str) -> Result<()> {
+        let updated = self.conn.execute(
+            "UPDATE playlists SET name = ?2 WHERE id = ?1",
+            params![id, name],
+        )?;
+        if updated == 0 {
+            return Err(Error::PlaylistNotFound(id));
+        }
+        Ok(())
+    }
+
+    pub fn delete_playlist(&self, id: i64) -> Result<()> {
+        self.conn
+            .execute("DELETE FROM playlists WHERE id = ?1", params![id])?;
+        Ok(())
+    }
+
+    /// Tracks of a playlist in order.
+    /// Entries whose file is no longer in the library are left out.
+    pub fn playlist_tracks(&self, id: i64) -> Result<Vec<Track>> {
+        let mut statement = self.conn.prepare_cached(&format!(
+            "{} JOIN playlist_entries e ON e.path = t.path
+            WHERE e.playlist_id = ?1 ORDER BY e.position",
+            select_tracks()
+        ))?;
+        let tracks = statement
+            .query_map(params![id], track_from_row)?
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(tracks)
+    }
+
+    /// Replaces the entries of a playlist.
+    pub fn set_playlist_paths(&mut self, id: i64, paths: &[String]) -> Result<()> {
+        let transaction = self.conn.transaction()?;
+        transaction.execute(
+            "DELETE FROM playlist_entries WHERE playlist_id = ?1",
+            params![id],
+        )?;
+        {
+            let mut statement = transaction.prepare_cached(
+                "INSERT INTO playlist_entries (playlist_id, position, path) VALUES (?1, ?2, ?3)",
+            )?;
+            for (position, path) in paths.iter().enumerate() {
+                statement.execute(params![id, position as i64, path])?;
+            }
+        }
+        transaction.commit()?;
+        Ok(())
+    }
+
+    /// User equalizer presets as pairs of name and JSON settings, ordered by name.
+    pub fn eq_presets(&self) -> Result<Vec<(String, String)>> {
+        let mut statement = self
+            .conn
+            .prepare_cached("SELECT name, settings FROM eq_presets ORDER BY name")?;
+        let presets = statement
+            .query_map([], |row| Ok((row.get(0)?, row.get(1)?)))?
+            .collect::<rusqlite::Result<_>>()?;
+        Ok(presets)
+    }
+
+    pub fn save_eq_preset(&self, name: &str, settings: &str) -> Result<()> {
+        self.conn.execute(
+            "INSERT INTO eq_presets (name, settings) VALUES (?1, ?2)
+            ON CONFLICT (name) DO UPDATE SET settings = excluded.settings",
+            params![name, settings],
+        )?;
+        Ok(())
+    }
+
+    /// Deletes a user preset together with its assignments.
+    pub fn delete_eq_preset(&mut self, name: &str) -> Result<()> {
+        let transaction = self.conn.transaction()?;
+        transaction.execute("DELETE FROM eq_presets WHERE name = ?1", params![name])?;
+        transaction.execute(
+            "DELETE FROM eq_assignments WHERE preset = ?1",
+            params![name],
+        )?;
+        transaction.commit()?;
+        Ok(())
+    }
+
+    pub fn eq_assignment(&self, scope: &str, key: &str) -> Result<Option<String>> {
+        let preset = self
+            .conn
+            .query_row(
+                "SELECT preset FROM eq_assignments WHERE scope = ?1 AND key = ?2",
+                params![scope, key],
+                |row| row.get(0),
+            )
+            .optional()?;
+        Ok(preset)
+    }
+
+    /// Assigns a preset to a track or album, or removes the assignment if `preset` is `None`.
+    pub fn set_eq_assignment(&self, scope: &str, key: &str, preset: Option<&str>) -> Result<()> {
+        match preset {
+            Some(preset) => self.conn.execute(
+                "INSERT INTO eq_assignments (scope, key, preset) VALUES (?1, ?2, ?3)
+                ON CONFLICT (scope, key) DO UPDATE SET preset = excluded.preset",
+                params![scope, key, preset],
+            )?,
+            None => self.conn.execute(
+                "DELETE FROM eq_assignments WHERE scope = ?1 AND key = ?2",
+                params![scope, key],
+            )?,
+        };
+        Ok(())
+    }
+
+    /// Paths of the indexed files inside `folder`.
+    pub fn paths_below(&self, folder: &Path) -> Result<Vec<String>> {
+        let mut statement = self.conn.prepare_cached("SELECT path FROM tracks")?;
+        let paths = statement
+            .query_map([], |row| row.get::<_, String>(0))?
+            .filter_map(|path| path.ok())
+            .filter(|path| Path::new(path).starts_with(folder))
+            .collect();
+        Ok(paths)
+    }
+}
+
+fn migrate(conn: &mut Connection) -> Result<()> {
+    let version: i64 = conn.pragma_query_value(None, "user_version", |row| row.get(0))?;
+    for (index, migration) in MIGRATIONS.iter().enumerate().skip(version as usize) {
+        let transaction = conn.transaction()?;
+        transaction.execute_batch(migration)?;
+        transaction.pragma_update(None, "user_version", (index + 1) as i64)?;
+        transaction.commit()?;
+    }
+    Ok(())
+}
+
+fn track_from_row(row: &Row) -> rusqlite::Result<Track> {
+    let artists: String = row.get(2)?;
+    Ok(Track {
+        path: row.get(0)?,
+        title: row.get(1)?,
+        artists: serde_json::from_str(&artists).unwrap_or_default(),
+        album: row.get(3)?,
+        album_artist: row.get(4)?,
+        track_number: row.get(5)?,
+        disc_number: row.get(6)?,
+        year: row.get(7)?,
+        genre: row.get(8)?,
+        duration: row.get(9)?,
+        has_cover: row.get(10)?,
+        replay_gain: ReplayGain {
+            track_gain: row.get(11)?,
+            track_peak: row.get(12)?,
+            album_gain: row.get(13)?,
+            album_peak: row.get(14)?,
+        },
+        loudness: match (row.get(15)?, row.get(16)?) {
+            (Some(integrated), Some(true_peak)) => Some(Loudness {
+                integrated,
+                true_peak,
+            }),
+            _ => None,
+        },
+    })
+}
@@ -0,0 +1,418 @@
+use std::collections::HashSet;
+use std::fs;
+use std::path::{Component, Path, PathBuf};
+use std::sync::mpsc::{self, Receiver, Sender};
+use std::sync::{Arc, Mutex, MutexGuard, Weak};
+use std::thread;
+use std::time::Duration;
+
+use notify_debouncer_mini::notify::{RecommendedWatcher, RecursiveMode};
+use notify_debouncer_mini::{new_debouncer, DebounceEventResult, Debouncer};
+use serde::Serialize;
+use tauri::{AppHandle, Emitter, Manager};
+
+use super::db::{Database, FileStamp};
+use super::loudness;
+use super::peaks::{self, Peaks};
+use super::scanner::{is_audio_file, read_track, walk_folders};
+use super::search::{Query, SearchIndex, SearchResults};
+use super::Track;
+use crate::error::Result;
+
+pub const EVENT_CHANGED: &str = "library://changed";
+
+/// Tracks are written and announced in batches of this size while rescanning,
+/// so the frontend fills up progressively on the first scan.
+const BATCH_SIZE: usize = 200;
+
+/// Measured tracks are announced in batches of this size.
+const MEASURE_BATCH_SIZE: usize = 20;
+
+/// How long the watcher waits for a burst of file system events to settle.
+const WATCH_DEBOUNCE: Duration = Duration::from_secs(2);
+
+/// Payload of [`EVENT_CHANGED`].
+#[derive(Clone, Debug, Default, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LibraryChanges {
+    /// Tracks which have been added or whose tags changed.
+    pub updated: Vec<Track>,
+    /// Paths of the tracks which have been removed.
+    pub removed: Vec<String>,
+}
+
+impl LibraryChanges {
+    fn is_empty(&self) -> bool {
+        self.updated.is_empty() && self.removed.is_empty()
+    }
+}
+
+struct Shared {
+    db: Mutex<Database>,
+    app: AppHandle,
+    /// Wakes the loudness analyzer.
+    analyze: Sender<()>,
+    /// Built on the first search after the index changed.
+    search: Mutex<Option<Arc<SearchIndex>>>,
+}
+
+/// The persistent library index.
+///
+/// Lives in `library.db` in the app data dir. Files are only read again when their
+/// modification time or size changed, and the library folders are watched while
+/// the app runs. Tracks without gain tags are measured on a background thread
+/// whenever the index changes.
+pub struct Library {
+    shared: Arc<Shared>,
+    watcher: Mutex<Option<Debouncer<RecommendedWatcher>>>,
+    /// Held while extracting peaks, so tracks skipped in a row are decoded one by one.
+    extracting: Mutex<()>,
+}
+
+impl Library {
+    pub fn open(app: &AppHandle) -> Result<Self> {
+        let dir = app.path().app_data_dir()?;
+        fs::create_dir_all(&dir)?;
+        let db = Database::open(&dir.join("library.db"))?;
+
+        let (analyze, requests) = mpsc::channel();
+        let shared = Arc::new(Shared {
+            db: Mutex::new(db),
+            app: app.clone(),
+            analyze,
+            search: Mutex::new(None),
+        });
+        {
+            let shared = Arc::downgrade(&shared);
+            thread::Builder::new()
+                .name("loudness".into())
+                .spawn(move || run_analyzer(shared, requests))?;
+        }
+
+        let watcher = {
+            let shared = shared.clone();
+            new_debouncer(
+                WATCH_DEBOUNCE,
+                move |result: DebounceEventResult| match result {
+                    Ok(events) => {
+                        shared.refresh(events.into_iter().map(|event| event.path).collect())
+                    }
+                    Err(err) => log::warn!("library watcher error: {err}"),
+                },
+            )
+        };
+        let library = Self {
+            shared,
+            watcher: Mutex::new(None),
+            extracting: Mutex::new(()),
+        };
+
+        match watcher {
+            Ok(watcher) => {
+                *library.watcher.lock().unwrap() = Some(watcher);
+                for folder in library.folders()? {
+                    library.watch(&folder);
+                }
+            }
+            Err(err) => log::error!("failed to start library watcher: {err}"),
+        }
+
+        Ok(library)
+    }
+
+    /// Gives other modules access to the database, e.g. for storing playlists.
+    pub(crate) fn db(&self) -> MutexGuard<'_, Database> {
+        self.shared.db.lock().unwrap()
+    }
+
+    pub fn folders(&self) -> Result<Vec<PathBuf>> {
+        self.shared.db.lock().unwrap().folders()
+    }
+
+    /// Whether `path` lies below one of the library folders. Paths going up with `..`
+    /// are never considered inside, whatever they resolve to.
+    pub fn contains(&self, path: &Path) -> Result<bool> {
+        if path
+            .components()
+            .any(|component| component == Component::ParentDir)
+        {
+            return Ok(false);
+        }
+        Ok(self
+            .folders()?
+            .iter()
+            .any(|folder| path.starts_with(folder)))
+    }
+
+    pub fn tracks(&self) -> Result<Vec<Track>> {
+        self.shared.db.lock().unwrap().tracks()
+    }
+
+    /// Reads a track from the index, or from the file if it is not indexed.
+    pub fn track(&self, path: &str) -> Result<Track> {
+        if let Some(track) = self.shared.db.lock().unwrap().track(path)? {
+            return Ok(track);
+        }
+        read_track(path.as_ref())
+    }
+
+    /// Peaks of a track, extracted on first use and then kept in the index until
+    /// the file changes.
+    pub fn peaks(&self, path: &str) -> Result<Peaks> {
+        let stamp = FileStamp::read(path.as_ref())?;
+        let cached = || -> Result<Option<Peaks>> {
+            let data = self.shared.db.lock().unwrap().peaks(path, stamp)?;
+            Ok(data.and_then(|data| peaks::decode(&data)))
+        };
+        if let Some(peaks) = cached()? {
+            return Ok(peaks);
+        }
+
+        let _extracting = self.extracting.lock().unwrap();
+        // Another request may have extracted them in the meantime.
+        if let Some(peaks) = cached()? {
+            return Ok(peaks);
+        }
+        let peaks = peaks::extract(path.as_ref())?;
+        self.shared
+            .db
+            .lock()
+            .unwrap()
+            .put_peaks(path, stamp, &peaks::encode(&peaks))?;
+        Ok(peaks)
+    }
+
+    /// Finds up to `limit` tracks, albums and artists matching `query`, see
+    /// [`Query::parse`] for its syntax.
+    pub fn search(&self, query: &str, limit: usize) -> Result<SearchResults> {
+        let query = Query::parse(query);
+        if query.is_empty() {
+            return Ok(SearchResults::default());
+        }
+        // Held while building, so changes announced meanwhile drop the new index.
+        let mut search = self.shared.search.lock().unwrap();
+        let index = match &*search {
+            Some(index) => index.clone(),
+            None => search
+                .insert(Arc::new(SearchIndex::build(&self.tracks()?)))
+                .clone(),
+        };
+        drop(search);
+        Ok(index.search(&query, limit))
+    }
+
+    pub fn add_folder(&self, folder: &Path) -> Result<()> {
+        if self.shared.db.lock().unwrap().add_folder(folder)? {
+            self.watch(folder);
+            self.shared.rescan(&[folder.to_owned()])?;
+        }
+        Ok(())
+    }
+
+    pub fn remove_folder(&self, folder: &Path) -> Result<()> {
+        self.shared.db.lock().unwrap().remove_folder(folder)?;
+        if let Some(watcher) = self.watcher.lock().unwrap().as_mut() {
+            if let Err(err) = watcher.watcher().unwatch(folder) {
+                log::warn!("failed to unwatch {}: {err}", folder.display());
+            }
+        }
+
+        // Keep the tracks which are still covered by another folder.
+        let folders = self.folders()?;
+        let mut db = self.shared.db.lock().unwrap();
+        let removed: Vec<String> = db
+            .paths_below(folder)?
+            .into_iter()
+            .filter(|path| {
+                !folders
+                    .iter()
+                    .any(|other| Path::new(path).starts_with(other))
+            })
+            .collect();
+        db.remove_tracks(&removed)?;
+        drop(db);
+
+        self.shared.emit(LibraryChanges {
+            updated: Vec::new(),
+            removed,
+        });
+        Ok(())
+    }
+
+    /// Brings the index up to date with all library folders.
+    pub fn rescan(&self) -> Result<()> {
+        let folders = self.folders()?;
+        self.shared.rescan(&folders)
+    }
+
+    fn watch(&self, folder: &Path) {
+        if let Some(watcher) = self.watcher.lock().unwrap().as_mut() {
+            if let Err(err) = watcher.watcher().watch(folder, RecursiveMode::Recursive) {
+                log::warn!("failed to watch {}: {err}", folder.display());
+            }
+        }
+    }
+}
+
+impl Shared {
+    fn rescan(&self, folders: &[PathBuf]) -> Result<()> {
+        let known = self.db.lock().unwrap().stamps()?;
+        let mut seen = HashSet::new();
+        let mut batch = Vec::new();
+
+        for path in walk_folders(folders) {
+            let key = path.to_string_lossy().into_owned();
+            let stamp = match FileStamp::read(&path) {
+                Ok(stamp) => stamp,
+                Err(err) => {
+                    log::warn!("skipping {}: {err}", path.display());
+                    continue;
+                }
+            };
+            let unchanged = known.get(&key) == Some(&stamp);
+            seen.insert(key);
+            if unchanged {
+                continue;
+            }
+
+            match read_track(&path) {
+                Ok(track) => batch.push((track, stamp)),
+                Err(err) => log::warn!("skipping {}: {err}", path.display()),
+            }
+            if batch.len() >= BATCH_SIZE {
+                self.put(std::mem::take(&mut batch))?;
+            }
+        }
+        self.put(batch)?;
+
+        let removed: Vec<String> = known
+            .into_keys()
+            .filter(|path| {
+                !seen.contains(path)
+                    && folders
+                        .iter()
+                        .any(|folder| Path::new(path).starts_with(folder))
+            })
+            .collect();
+        self.db.lock().unwrap().remove_tracks(&removed)?;
+        self.emit(LibraryChanges {
+            updated: Vec::new(),
+            removed,
+        });
+        let _ = self.analyze.send(());
+
+        Ok(())
+    }
+
+    /// Updates the index for paths reported by the watcher.
+    fn refresh(&self, paths: Vec<PathBuf>) {
+        let mut changes = LibraryChanges::default();
+        let mut updated = Vec::new();
+        let mut rescan = Vec::new();
+
+        for path in paths {
+            if path.is_dir() {
+                // A folder moved into the library, its files do not get events of their own.
+                rescan.push(path);
+            } else if path.is_file() {
+                if !is_audio_file(&path) {
+                    continue;
+                }
+                match FileStamp::read(&path).and_then(|stamp| Ok((read_track(&path)?, stamp))) {
+                    Ok(entry) => updated.push(entry),
+                    Err(err) => log::warn!("skipping {}: {err}", path.display()),
+                }
+            } else {
+                // Gone, either a single file or a whole folder.
+                match self.db.lock().unwrap().paths_below(&path) {
+                    Ok(paths) => changes.removed.extend(paths),
+                    Err(err) => log::warn!("failed to look up {}: {err}", path.display()),
+                }
+            }
+        }
+
+        let removed = self.db.lock().unwrap().remove_tracks(&changes.removed);
+        let result = removed
+            .and_then(|_| self.put(updated))
+            .and_then(|_| self.rescan(&rescan));
+        if let Err(err) = result {
+            log::error!("failed to update the library index: {err}");
+        }
+        self.emit(changes);
+    }
+
+    fn put(&self, tracks: Vec<(Track, FileStamp)>) -> Result<()> {
+        if tracks.is_empty() {
+            return Ok(());
+        }
+        self.db.lock().unwrap().put_tracks(&tracks)?;
+        self.emit(LibraryChanges {
+            updated: tracks.into_iter().map(|(track, _)| track).collect(),
+            removed: Vec::new(),
+        });
+        let _ = self.analyze.send(());
+        Ok(())
+    }
+
+    /// Measures the loudness of the tracks which have no gain tags yet.
+    fn measure_pending(&self) -> Result<()> {
+        let pending = self.db.lock().unwrap().unmeasured_tracks()?;
+        let mut updated = Vec::new();
+        for (path, stamp) in pending {
+            match loudness::measure(path.as_ref()) {
+                Ok(loudness) => {
+                    let db = self.db.lock().unwrap();
+                    db.put_loudness(&path, stamp, loudness)?;
+                    updated.extend(db.track(&path)?);
+                }
+                // Retried on the next pass.
+                Err(err) => log::warn!("failed to measure the loudness of {path}: {err}"),
+            }
+
+            if updated.len() >= MEASURE_BATCH_SIZE {
+                self.notify(LibraryChanges {
+                    updated: std::mem::take(&mut updated),
+                    removed: Vec::new(),
+                });
+            }
+        }
+        self.notify(LibraryChanges {
+            updated,
+            removed: Vec::new(),
+        });
+        Ok(())
+    }
+
+    /// Tells the frontend about `changes`, and drops the search index which they outdate.
+    fn emit(&self, changes: LibraryChanges) {
+        if changes.is_empty() {
+            return;
+        }
+        *self.search.lock().unwrap() = None;
+        self.notify(changes);
+    }
+
+    /// Tells the frontend about `changes` to fields which are not searched, like loudness.
+    fn notify(&self, changes: LibraryChanges) {
+        if changes.is_empty() {
+            return;
+        }
+        if let Err(err) = self.app.emit(EVENT_CHANGED, &changes) {
+            log::warn!("failed to emit {EVENT_CHANGED}: {err}");
+        }
+    }
+}
+
+/// Body of the loudness analyzer thread, which runs until the library is dropped.
+fn run_analyzer(shared: Weak<Shared>, requests: Receiver<()>) {
+    while requests.recv().is_ok() {
+        // Requests which piled up while measuring are covered by a single pass.
+        while requests.try_recv().is_ok() {}
+        let Some(shared) = shared.upgrade() else {
+            return;
+        };
+        if let Err(err) = shared.measure_pending() {
+            log::error!("failed to measure the loudness of the library: {err}");
+        }
+    }
+}
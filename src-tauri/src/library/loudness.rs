@@ -0,0 +1,48 @@
+//! EBU R128 loudness measurement, for tracks without ReplayGain tags.
+
+use std::path::Path;
+
+use ebur128::{EbuR128, Mode};
+
+use super::Loudness;
+use crate::error::{Error, Result};
+use crate::player::source::Source;
+
+/// Blocks quieter than this many LUFS are ignored by the measurement.
+const ABSOLUTE_GATE: f64 = -70.0;
+
+/// Decodes `path` completely and measures its integrated loudness and true peak.
+///
+/// Decoded blocks whose layout differs from the first one are skipped, they are rare
+/// enough not to matter for the result.
+pub fn measure(path: &Path) -> Result<Loudness> {
+    let mut source = Source::open(path)?;
+    let mut meter: Option<(EbuR128, u32, usize)> = None;
+
+    while let Some(chunk) = source.next_chunk()? {
+        if meter.is_none() {
+            let mode = Mode::I | Mode::TRUE_PEAK;
+            let ebu = EbuR128::new(chunk.channels as u32, chunk.sample_rate, mode)?;
+            meter = Some((ebu, chunk.sample_rate, chunk.channels));
+        }
+        let Some((ebu, sample_rate, channels)) = &mut meter else {
+            unreachable!();
+        };
+        if chunk.sample_rate == *sample_rate && chunk.channels == *channels {
+            ebu.add_frames_f32(chunk.samples)?;
+        }
+    }
+
+    let Some((meter, _, channels)) = meter else {
+        return Err(Error::NoAudioTrack);
+    };
+    let mut true_peak: f64 = 0.0;
+    for channel in 0..channels {
+        true_peak = true_peak.max(meter.true_peak(channel as u32)?);
+    }
+    Ok(Loudness {
+        // Silence is infinitely quiet, keep it at the gate of R128 instead.
+        integrated: meter.loudness_global()?.max(ABSOLUTE_GATE),
+        true_peak,
+    })
+}
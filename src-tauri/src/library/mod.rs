@@ -0,0 +1,70 @@
+//! The local music library.
+//!
+//! [`scanner`] walks folders and reads track metadata with lofty, which covers
+//! ID3v2, Vorbis comments, FLAC, MP4 atoms and APE tags. The results are kept in
+//! an SQLite index by [`Library`], which is also what the frontend talks to.
+//!
+//! Tracks without ReplayGain tags are measured in the background by [`loudness`].
+//! The peaks drawn by the waveform seek bar are extracted by [`peaks`] when first
+//! asked for, and kept in the index as well. Searches go through an in-memory
+//! [`search`] index, built from the tracks of the index when first needed.
+
+pub mod commands;
+mod db;
+mod index;
+mod loudness;
+mod peaks;
+pub mod scanner;
+mod search;
+
+use serde::{Deserialize, Serialize};
+
+pub use db::{FileStamp, PlaylistSummary};
+pub use index::{Library, LibraryChanges, EVENT_CHANGED};
+pub use peaks::Peaks;
+pub use search::SearchResults;
+
+/// Metadata of an audio file in the library.
+#[derive(Clone, Debug, Default, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Track {
+    pub path: String,
+    /// Falls back to the file name if the file has no title tag.
+    pub title: String,
+    pub artists: Vec<String>,
+    pub album: Option<String>,
+    pub album_artist: Option<String>,
+    pub track_number: Option<u32>,
+    pub disc_number: Option<u32>,
+    pub year: Option<u32>,
+    pub genre: Option<String>,
+    /// Duration in seconds.
+    pub duration: f64,
+    /// Whether the file has an embedded cover.
+    pub has_cover: bool,
+    pub replay_gain: ReplayGain,
+    /// Measured if the file has no track gain tag.
+    pub loudness: Option<Loudness>,
+}
+
+/// Gains read from ReplayGain tags, or converted from R128 tags.
+#[derive(Clone, Copy, Debug, Default, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ReplayGain {
+    /// Gain in dB bringing the track to the ReplayGain reference of -18 LUFS.
+    pub track_gain: Option<f32>,
+    /// Linear sample peak, 1 is full scale.
+    pub track_peak: Option<f32>,
+    pub album_gain: Option<f32>,
+    pub album_peak: Option<f32>,
+}
+
+/// EBU R128 loudness of a track.
+#[derive(Clone, Copy, Debug, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Loudness {
+    /// Integrated loudness in LUFS.
+    pub integrated: f64,
+    /// Linear true peak, 1 is full scale.
+    pub true_peak: f64,
+}
@@ -0,0 +1,168 @@
+//! Min/max peaks of tracks, drawn by the waveform seek bar of the frontend.
+
+use std::path::Path;
+
+use serde::Serialize;
+
+use crate::error::{Error, Result};
+use crate::player::source::Source;
+
+/// Number of buckets of each level, coarsest first. Short tracks have fewer buckets
+/// than this, one per [`BLOCK_SECS`] at most.
+pub const LEVELS: &[usize] = &[256, 1024, 4096];
+
+/// Length of the blocks the buckets are made of.
+const BLOCK_SECS: f64 = 0.01;
+
+/// Peaks at several resolutions, so a bar of any width finds a level matching it.
+#[derive(Clone, Debug, PartialEq, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Peaks {
+    /// Coarsest first, as given by [`LEVELS`].
+    pub levels: Vec<PeakLevel>,
+}
+
+/// The lowest and highest sample of each bucket over all channels, scaled to
+/// -127..=127 and spread evenly over the track.
+#[derive(Clone, Debug, PartialEq, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PeakLevel {
+    pub min: Vec<i8>,
+    pub max: Vec<i8>,
+}
+
+/// Decodes `path` completely and computes its peaks.
+pub fn extract(path: &Path) -> Result<Peaks> {
+    let mut source = Source::open(path)?;
+    let mut blocks: Vec<(f32, f32)> = Vec::new();
+    let mut block_frames = 0;
+    // Lowest and highest sample, and frames of the block being filled.
+    let mut current = (f32::MAX, f32::MIN, 0);
+
+    while let Some(chunk) = source.next_chunk()? {
+        if block_frames == 0 {
+            block_frames = ((chunk.sample_rate as f64 * BLOCK_SECS) as usize).max(1);
+        }
+        for frame in chunk.samples.chunks_exact(chunk.channels) {
+            for &sample in frame {
+                current.0 = current.0.min(sample);
+                current.1 = current.1.max(sample);
+            }
+            current.2 += 1;
+            if current.2 == block_frames {
+                blocks.push((current.0, current.1));
+                current = (f32::MAX, f32::MIN, 0);
+            }
+        }
+    }
+    if current.2 > 0 {
+        blocks.push((current.0, current.1));
+    }
+    if blocks.is_empty() {
+        return Err(Error::NoAudioTrack);
+    }
+
+    let levels = LEVELS
+        .iter()
+        .map(|&buckets| {
+            let buckets = buckets.min(blocks.len());
+            let (min, max) = (0..buckets)
+                .map(|bucket| {
+                    let range =
+                        bucket * blocks.len() / buckets..(bucket + 1) * blocks.len() / buckets;
+                    let (min, max) = blocks[range]
+                        .iter()
+                        .fold((f32::MAX, f32::MIN), |(min, max), block| {
+                            (min.min(block.0), max.max(block.1))
+                        });
+                    (quantize(min), quantize(max))
+                })
+                .unzip();
+            PeakLevel { min, max }
+        })
+        .collect();
+    Ok(Peaks { levels })
+}
+
+fn quantize(sample: f32) -> i8 {
+    (sample.clamp(-1.0, 1.0) * 127.0).round() as i8
+}
+
+/// Packs the peaks for the index: per level, the number of buckets as a little
+/// endian `u32`, then the lowest and the highest sample of each bucket.
+pub fn encode(peaks: &Peaks) -> Vec<u8> {
+    let mut data = Vec::new();
+    for level in &peaks.levels {
+        data.extend_from_slice(&(level.min.len() as u32).to_le_bytes());
+        for (&min, &max) in level.min.iter().zip(&level.max) {
+            data.extend_from_slice(&[min as u8, max as u8]);
+        }
+    }
+    data
+}
+
+/// Unpacks peaks written by [`encode`], `None` if `data` is damaged.
+pub fn decode(mut data: &[u8]) -> Option<Peaks> {
+    let mut levels = Vec::new();
+    while !data.is_empty() {
+        let (count, rest) = data.split_first_chunk::<4>()?;
+        let count = u32::from_le_bytes(*count) as usize;
+        let bytes = rest.get(..count * 2)?;
+        let (min, max) = bytes
+            .chunks_exact(2)
+            .map(|pair| (pair[0] as i8, pair[1] as i8))
+            .unzip();
+        levels.push(PeakLevel { min, max });
+        data = &rest[count * 2..];
+    }
+    (levels.len() == LEVELS.len()).then_some(Peaks { levels })
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn level(samples: &[(i8, i8)]) -> PeakLevel {
+        let (min, max) = samples.iter().copied().unzip();
+        PeakLevel { min, max }
+    }
+
+    fn peaks() -> Peaks {
+        Peaks {
+            levels: vec![
+                level(&[(-127, 127), (0, 0)]),
+                level(&[(-1, 1), (-64, 100), (-128, 3), (5, 7)]),
+                level(&[]),
+            ],
+        }
+    }
+
+    #[test]
+    fn round_trips() {
+        assert_eq!(decode(&encode(&peaks())), Some(peaks()));
+    }
+
+    #[test]
+    fn rejects_damaged_data() {
+        let data = encode(&peaks());
+        assert_eq!(decode(&data[..data.len() - 5]), None);
+        assert_eq!(decode(&data[..data.len() - 1]), None);
+        assert_eq!(decode(&data[..6]), None);
+    }
+
+    #[test]
+    fn rejects_other_level_counts() {
+        let mut fewer = peaks();
+        fewer.levels.pop();
+        assert_eq!(decode(&encode(&fewer)), None);
+        assert_eq!(decode(&[]), None);
+    }
+
+    #[test]
+    fn quantizes_and_clamps() {
+        assert_eq!(quantize(0.0), 0);
+        assert_eq!(quantize(0.5), 64);
+        assert_eq!(quantize(-1.0), -127);
+        assert_eq!(quantize(2.0), 127);
+    }
+}
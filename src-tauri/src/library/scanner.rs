@@ -0,0 +1,202 @@
+use std::path::{Path, PathBuf};
+
+use lofty::file::{AudioFile, TaggedFileExt};
+use lofty::picture::{Picture, PictureType};
+use lofty::probe::Probe;
+use lofty::tag::{Accessor, ItemKey, Tag};
+use walkdir::WalkDir;
+
+use super::{ReplayGain, Track};
+use crate::error::Result;
+
+/// File extensions the scanner picks up.
+pub const AUDIO_EXTENSIONS: &[&str] = &[
+    "mp3", "flac", "ogg", "oga", "opus", "wav", "m4a", "mp4", "aac", "ape", "wv",
+];
+
+/// Separators splitting a single artist tag into several artists.
+///
+/// `&` and `,` are left out on purpose, they show up in too many band names, and so
+/// does a slash without spaces around it, as in AC/DC.
+const ARTIST_SEPARATORS: &[&str] = &[";", " / ", "\0", "、", " feat. ", " ft. ", " feat "];
+
+/// R128 gains are relative to -23 LUFS, ReplayGain to -18 LUFS.
+const R128_TO_REPLAY_GAIN_DB: f32 = 5.0;
+
+pub fn is_audio_file(path: &Path) -> bool {
+    path.extension()
+        .and_then(|ext| ext.to_str())
+        .is_some_and(|ext| AUDIO_EXTENSIONS.contains(&ext.to_ascii_lowercase().as_str()))
+}
+
+/// Lists the audio files below `folders`, following symlinks.
+pub fn walk_folders(folders: &[PathBuf]) -> impl Iterator<Item = PathBuf> + '_ {
+    folders
+        .iter()
+        .flat_map(|folder| WalkDir::new(folder).follow_links(true))
+        .filter_map(|entry| match entry {
+            Ok(entry) => Some(entry),
+            Err(err) => {
+                log::warn!("skipping unreadable entry: {err}");
+                None
+            }
+        })
+        .filter(|entry| entry.file_type().is_file() && is_audio_file(entry.path()))
+        .map(|entry| entry.into_path())
+}
+
+pub fn read_track(path: &Path) -> Result<Track> {
+    let tagged = Probe::open(path)?.read()?;
+    let duration = tagged.properties().duration().as_secs_f64();
+    let tag = tagged.primary_tag().or_else(|| tagged.first_tag());
+
+    let file_stem = path
+        .file_stem()
+        .map(|stem| stem.to_string_lossy().into_owned())
+        .unwrap_or_default();
+
+    let Some(tag) = tag else {
+        return Ok(Track {
+            path: path.to_string_lossy().into_owned(),
+            title: file_stem,
+            duration,
+            ..Default::default()
+        });
+    };
+
+    Ok(Track {
+        path: path.to_string_lossy().into_owned(),
+        title: tag
+            .title()
+            .map(|title| title.trim().to_owned())
+            .filter(|title| !title.is_empty())
+            .unwrap_or(file_stem),
+        artists: split_artists(tag.get_strings(&ItemKey::TrackArtist)),
+        album: non_empty(tag.album().as_deref()),
+        album_artist: non_empty(tag.get_string(&ItemKey::AlbumArtist)),
+        track_number: tag.track(),
+        disc_number: tag.disk(),
+        year: tag.year(),
+        genre: non_empty(tag.genre().as_deref()),
+        duration,
+        has_cover: find_cover(tag).is_some(),
+        replay_gain: read_replay_gain(tag),
+        loudness: None,
+    })
+}
+
+/// Reads ReplayGain tags, falling back to the R128 tags of Opus files.
+fn read_replay_gain(tag: &Tag) -> ReplayGain {
+    // Values look like "-6.48 dB".
+    let decibels = |key: &ItemKey| {
+        let value = tag.get_string(key)?;
+        let value = value.trim();
+        let value = value
+            .strip_suffix("dB")
+            .or_else(|| value.strip_suffix("db"))
+            .unwrap_or(value);
+        value.trim().parse::<f32>().ok()
+    };
+    let number = |key: &ItemKey| tag.get_string(key)?.trim().parse::<f32>().ok();
+    // Q7.8 fixed point numbers.
+    let r128 = |key: &str| {
+        let value = tag.get_string(&ItemKey::Unknown(key.to_owned()))?;
+        let value = value.trim().parse::<i16>().ok()?;
+        Some(value as f32 / 256.0 + R128_TO_REPLAY_GAIN_DB)
+    };
+
+    ReplayGain {
+        track_gain: decibels(&ItemKey::ReplayGainTrackGain).or_else(|| r128("R128_TRACK_GAIN")),
+        track_peak: number(&ItemKey::ReplayGainTrackPeak),
+        album_gain: decibels(&ItemKey::ReplayGainAlbumGain).or_else(|| r128("R128_ALBUM_GAIN")),
+        album_peak: number(&ItemKey::ReplayGainAlbumPeak),
+    }
+}
+
+/// Reads the embedded cover of `path`.
+pub fn read_cover(path: &Path) -> Result<Option<Picture>> {
+    let tagged = Probe::open(path)?.read()?;
+    Ok(tagged.tags().iter().find_map(find_cover).cloned())
+}
+
+/// Prefers the front cover, but takes whatever picture there is otherwise.
+fn find_cover(tag: &Tag) -> Option<&Picture> {
+    let pictures = tag.pictures();
+    pictures
+        .iter()
+        .find(|picture| picture.pic_type() == PictureType::CoverFront)
+        .or_else(|| pictures.first())
+}
+
+fn non_empty(value: Option<&str>) -> Option<String> {
+    value
+        .map(str::trim)
+        .filter(|value| !value.is_empty())
+        .map(str::to_owned)
+}
+
+/// Splits artist tags into single artists.
+///
+/// Formats like ID3v2.4 and Vorbis comments store multiple values natively, but
+/// lots of files cram every artist into one value with a separator.
+pub fn split_artists<'a>(values: impl Iterator<Item = &'a str>) -> Vec<String> {
+    let mut artists: Vec<String> = Vec::new();
+    for value in values {
+        let mut parts = vec![value.to_owned()];
+        for separator in ARTIST_SEPARATORS {
+            parts = parts
+                .iter()
+                .flat_map(|part| part.split(separator))
+                .map(str::to_owned)
+                .collect();
+        }
+
+        for artist in parts {
+            let artist = artist.trim();
+            if !artist.is_empty() && !artists.iter().any(|known| known == artist) {
+                artists.push(artist.to_owned());
+            }
+        }
+    }
+    artists
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn split(values: &[&str]) -> Vec<String> {
+        split_artists(values.iter().copied())
+    }
+
+    #[test]
+    fn splits_at_separators() {
+        assert_eq!(split(&["Alice; Bob"]), ["Alice", "Bob"]);
+        assert_eq!(split(&["Alice / Bob"]), ["Alice", "Bob"]);
+        assert_eq!(split(&["Alice\0Bob"]), ["Alice", "Bob"]);
+        assert_eq!(split(&["初音ミク、鏡音リン"]), ["初音ミク", "鏡音リン"]);
+        assert_eq!(
+            split(&["Alice feat. Bob ft. Carol"]),
+            ["Alice", "Bob", "Carol"]
+        );
+    }
+
+    #[test]
+    fn keeps_band_names_whole() {
+        assert_eq!(split(&["AC/DC"]), ["AC/DC"]);
+        assert_eq!(split(&["Earth, Wind & Fire"]), ["Earth, Wind & Fire"]);
+        assert_eq!(
+            split(&["Simon & Garfunkel / AC/DC"]),
+            ["Simon & Garfunkel", "AC/DC"]
+        );
+    }
+
+    #[test]
+    fn merges_values_and_drops_duplicates() {
+        assert_eq!(
+            split(&["Alice", "Bob; Alice", " ", "Bob"]),
+            ["Alice", "Bob"]
+        );
+        assert!(split(&[]).is_empty());
+    }
+}
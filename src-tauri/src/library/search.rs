@@ -0,0 +1,494 @@
+//! Full-text search over the library.
+//!
+//! [`SearchIndex`] keeps folded copies of the searchable fields of every track, album
+//! and artist. Letters are lowercased, full-width forms are turned into ASCII and
+//! katakana into hiragana, so that each query matches however the tags were typed.
+//! Chinese characters are also spelled in pinyin, so that 周杰伦 is found by
+//! `zhoujielun` as well as by its initials `zjl`.
+//!
+//! A query is a list of terms which must all match, see [`Query::parse`].
+
+use std::collections::HashMap;
+
+use pinyin::ToPinyin;
+use serde::Serialize;
+
+use super::Track;
+
+/// Terms at least this long may match words with one typo, twice as long with two.
+const FUZZY_MIN_CHARS: usize = 4;
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+enum Field {
+    Title,
+    Artist,
+    Album,
+    AlbumArtist,
+    Genre,
+    File,
+}
+
+impl Field {
+    fn parse(name: &str) -> Option<Self> {
+        Some(match name {
+            "title" | "t" => Self::Title,
+            "artist" | "ar" => Self::Artist,
+            "album" | "al" => Self::Album,
+            "albumartist" | "aa" => Self::AlbumArtist,
+            "genre" | "g" => Self::Genre,
+            "file" | "path" | "f" => Self::File,
+            _ => return None,
+        })
+    }
+
+    /// How much a match in the field counts for the ranking.
+    fn weight(self) -> f32 {
+        match self {
+            Self::Title => 1.0,
+            Self::Artist => 0.9,
+            Self::Album => 0.8,
+            Self::AlbumArtist => 0.7,
+            Self::Genre => 0.5,
+            Self::File => 0.4,
+        }
+    }
+}
+
+/// A term of a [`Query`].
+#[derive(Clone, Debug, PartialEq)]
+enum Term {
+    /// Folded text to look for in `field`, or in any field.
+    Text { field: Option<Field>, text: String },
+    /// Inclusive range of years.
+    Year { min: u32, max: u32 },
+}
+
+/// A parsed search query.
+#[derive(Clone, Debug, Default, PartialEq)]
+pub struct Query {
+    terms: Vec<Term>,
+}
+
+impl Query {
+    /// Parses terms separated by whitespace. A term is looked for in all fields, unless
+    /// it is scoped like `artist:foo`. Double quotes keep whitespace in a term, as in
+    /// `album:"abbey road"`.
+    ///
+    /// The scopes are `title`, `artist`, `album`, `albumartist`, `genre`, `file` and
+    /// `year`, or their short forms `t`, `ar`, `al`, `aa`, `g`, `f` and `y`. Years are
+    /// compared as in `year:2010`, `year:>2010`, `year:<=1999` or `year:1990..1999`.
+    pub fn parse(query: &str) -> Self {
+        let terms = split_terms(query)
+            .into_iter()
+            .filter_map(|term| {
+                let Some((scope, value)) = term.split_once(':') else {
+                    return Some(Term::Text {
+                        field: None,
+                        text: fold(&term),
+                    });
+                };
+                let scope = scope.to_lowercase();
+                if scope == "year" || scope == "y" {
+                    return parse_years(value);
+                }
+                match Field::parse(&scope) {
+                    Some(field) if !value.is_empty() => Some(Term::Text {
+                        field: Some(field),
+                        text: fold(value),
+                    }),
+                    // Typed halfway, e.g. `artist:`.
+                    Some(_) => None,
+                    None => Some(Term::Text {
+                        field: None,
+                        text: fold(&term),
+                    }),
+                }
+            })
+            .filter(|term| !matches!(term, Term::Text { text, .. } if text.is_empty()))
+            .collect();
+        Self { terms }
+    }
+
+    pub fn is_empty(&self) -> bool {
+        self.terms.is_empty()
+    }
+}
+
+/// Splits at whitespace outside of double quotes, dropping the quotes.
+fn split_terms(query: &str) -> Vec<String> {
+    let mut terms = Vec::new();
+    let mut current = String::new();
+    let mut quoted = false;
+    for c in query.chars() {
+        match c {
+            '"' => quoted = !quoted,
+            c if c.is_whitespace() && !quoted => {
+                if !current.is_empty() {
+                    terms.push(std::mem::take(&mut current));
+                }
+            }
+            c => current.push(c),
+        }
+    }
+    if !current.is_empty() {
+        terms.push(current);
+    }
+    terms
+}
+
+/// Parses the value of a `year:` term, `None` if it is not a year or a comparison.
+fn parse_years(value: &str) -> Option<Term> {
+    let year = |text: &str| text.trim().parse::<u32>().ok();
+    let (min, max) = if let Some((min, max)) = value.split_once("..") {
+        (year(min)?, year(max)?)
+    } else if let Some(rest) = value.strip_prefix(">=") {
+        (year(rest)?, u32::MAX)
+    } else if let Some(rest) = value.strip_prefix("<=") {
+        (0, year(rest)?)
+    } else if let Some(rest) = value.strip_prefix('>') {
+        (year(rest)?.saturating_add(1), u32::MAX)
+    } else if let Some(rest) = value.strip_prefix('<') {
+        (0, year(rest)?.checked_sub(1)?)
+    } else {
+        let year = year(value.strip_prefix('=').unwrap_or(value))?;
+        (year, year)
+    };
+    Some(Term::Year { min, max })
+}
+
+/// Lowercases `text`, and turns full-width forms into ASCII and katakana into hiragana.
+fn fold(text: &str) -> String {
+    text.chars()
+        .map(|c| match c {
+            // Full-width ASCII.
+            '\u{ff01}'..='\u{ff5e}' => char::from_u32(c as u32 - 0xfee0).unwrap_or(c),
+            '\u{3000}' => ' ',
+            // Katakana which have a hiragana counterpart.
+            '\u{30a1}'..='\u{30f6}' => char::from_u32(c as u32 - 0x60).unwrap_or(c),
+            c => c,
+        })
+        .flat_map(char::to_lowercase)
+        .collect()
+}
+
+/// A folded field value.
+struct Text {
+    folded: String,
+    /// Alphanumeric runs of `folded`, matched with typos.
+    words: Vec<String>,
+    /// `folded` with the Chinese characters spelled in pinyin, and with their initials,
+    /// if there are any.
+    pinyin: Option<(String, String)>,
+}
+
+impl Text {
+    fn new(text: &str) -> Self {
+        let folded = fold(text);
+        let words = folded
+            .split(|c: char| !c.is_alphanumeric())
+            .filter(|word| !word.is_empty() && word.is_ascii())
+            .map(str::to_owned)
+            .collect();
+
+        let pinyin = folded.chars().any(|c| c.to_pinyin().is_some()).then(|| {
+            let mut full = String::new();
+            let mut initials = String::new();
+            for c in folded.chars() {
+                match c.to_pinyin() {
+                    Some(pinyin) => {
+                        full.push_str(pinyin.plain());
+                        initials.push_str(pinyin.first_letter());
+                    }
+                    None => {
+                        full.push(c);
+                        initials.push(c);
+                    }
+                }
+            }
+            (full, initials)
+        });
+
+        Self {
+            folded,
+            words,
+            pinyin,
+        }
+    }
+
+    /// How well `term` matches, between 0 and 1.
+    fn score(&self, term: &str) -> Option<f32> {
+        if let Some(index) = self.folded.find(term) {
+            let at_word_start = self.folded[..index]
+                .chars()
+                .next_back()
+                .map_or(true, |c| !c.is_alphanumeric());
+            return Some(if self.folded.len() == term.len() {
+                1.0
+            } else if at_word_start {
+                0.8
+            } else {
+                0.6
+            });
+        }
+        if let Some((full, initials)) = &self.pinyin {
+            if full.contains(term) || initials.contains(term) {
+                return Some(0.5);
+            }
+        }
+
+        let length = term.chars().count();
+        if length < FUZZY_MIN_CHARS || !term.is_ascii() {
+            return None;
+        }
+        let allowed = if length >= FUZZY_MIN_CHARS * 2 { 2 } else { 1 };
+        self.words
+            .iter()
+            .filter_map(|word| {
+                // The last word may be typed halfway, compare it with the start of words too.
+                let prefix = &word[..word.len().min(term.len())];
+                let distance = edit_distance(term, word).min(edit_distance(term, prefix));
+                (distance <= allowed).then_some(distance)
+            })
+            .min()
+            .map(|distance| 0.4 - 0.1 * distance as f32)
+    }
+}
+
+/// Levenshtein distance between two ASCII strings.
+fn edit_distance(a: &str, b: &str) -> usize {
+    let (a, b) = (a.as_bytes(), b.as_bytes());
+    let mut row: Vec<usize> = (0..=b.len()).collect();
+    for (i, &x) in a.iter().enumerate() {
+        let mut diagonal = row[0];
+        row[0] = i + 1;
+        for (j, &y) in b.iter().enumerate() {
+            let substitution = diagonal + usize::from(x != y);
+            diagonal = row[j + 1];
+            row[j + 1] = substitution.min(row[j] + 1).min(diagonal + 1);
+        }
+    }
+    row[b.len()]
+}
+
+/// Something which can be found: a track, an album or an artist.
+struct Entry {
+    /// What is returned for a hit.
+    id: String,
+    fields: Vec<(Field, Text)>,
+    year: Option<u32>,
+}
+
+impl Entry {
+    /// Sum of the scores of the terms, `None` unless all of them match.
+    fn score(&self, query: &Query) -> Option<f32> {
+        query.terms.iter().try_fold(0.0, |total, term| match term {
+            Term::Text { field, text } => {
+                let best = self
+                    .fields
+                    .iter()
+                    .filter(|(other, _)| field.map_or(true, |field| field == *other))
+                    .filter_map(|(field, value)| Some(value.score(text)? * field.weight()))
+                    .max_by(|a, b| a.total_cmp(b))?;
+                Some(total + best)
+            }
+            Term::Year { min, max } => {
+                let year = self.year?;
+                (*min..=*max).contains(&year).then_some(total)
+            }
+        })
+    }
+}
+
+/// Hits of a search, best first.
+#[derive(Clone, Debug, Default, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SearchResults {
+    /// Paths of the tracks.
+    pub tracks: Vec<String>,
+    /// Path of a track of each album.
+    pub albums: Vec<String>,
+    /// Names of the artists.
+    pub artists: Vec<String>,
+}
+
+/// The folded fields of the library, built again whenever it changes.
+pub struct SearchIndex {
+    tracks: Vec<Entry>,
+    albums: Vec<Entry>,
+    artists: Vec<Entry>,
+}
+
+impl SearchIndex {
+    pub fn build(tracks: &[Track]) -> Self {
+        let mut albums: HashMap<(&str, &str), Entry> = HashMap::new();
+        let mut artists: HashMap<&str, Entry> = HashMap::new();
+
+        let entries = tracks
+            .iter()
+            .map(|track| {
+                let mut fields = vec![(Field::Title, Text::new(&track.title))];
+                for artist in &track.artists {
+                    fields.push((Field::Artist, Text::new(artist)));
+                }
+                // Album artists are listed among the artists as well.
+                for artist in track.artists.iter().chain(&track.album_artist) {
+                    artists.entry(artist.as_str()).or_insert_with(|| Entry {
+                        id: artist.clone(),
+                        fields: vec![(Field::Artist, Text::new(artist))],
+                        year: None,
+                    });
+                }
+                if let Some(album) = &track.album {
+                    fields.push((Field::Album, Text::new(album)));
+                    let album_artist = track
+                        .album_artist
+                        .as_deref()
+                        .or(track.artists.first().map(String::as_str))
+                        .unwrap_or_default();
+                    let entry = albums
+                        .entry((album_artist, album.as_str()))
+                        .or_insert_with(|| Entry {
+                            id: track.path.clone(),
+                            fields: vec![
+                                (Field::Album, Text::new(album)),
+                                (Field::AlbumArtist, Text::new(album_artist)),
+                            ],
+                            year: None,
+                        });
+                    entry.year = entry.year.or(track.year);
+                }
+                if let Some(album_artist) = &track.album_artist {
+                    fields.push((Field::AlbumArtist, Text::new(album_artist)));
+                }
+                if let Some(genre) = &track.genre {
+                    fields.push((Field::Genre, Text::new(genre)));
+                }
+                let file_name = track.path.rsplit(['/', '\\']).next().unwrap_or(&track.path);
+                fields.push((Field::File, Text::new(file_name)));
+
+                Entry {
+                    id: track.path.clone(),
+                    fields,
+                    year: track.year,
+                }
+            })
+            .collect();
+
+        Self {
+            tracks: entries,
+            albums: albums.into_values().collect(),
+            artists: artists.into_values().collect(),
+        }
+    }
+
+    /// Finds up to `limit` hits of each kind. An empty query finds nothing.
+    pub fn search(&self, query: &Query, limit: usize) -> SearchResults {
+        if query.is_empty() {
+            return SearchResults::default();
+        }
+        SearchResults {
+            tracks: best(&self.tracks, query, limit),
+            albums: best(&self.albums, query, limit),
+            artists: best(&self.artists, query, limit),
+        }
+    }
+}
+
+/// Ids of the `limit` best scored entries matching `query`.
+fn best(entries: &[Entry], query: &Query, limit: usize) -> Vec<String> {
+    let mut hits: Vec<(f32, &Entry)> = entries
+        .iter()
+        .filter_map(|entry| Some((entry.score(query)?, entry)))
+        .collect();
+    hits.sort_by(|a, b| b.0.total_cmp(&a.0).then_with(|| a.1.id.cmp(&b.1.id)));
+    hits.into_iter()
+        .take(limit)
+        .map(|(_, entry)| entry.id.clone())
+        .collect()
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn text(field: Option<Field>, text: &str) -> Term {
+        Term::Text {
+            field,
+            text: text.to_owned(),
+        }
+    }
+
+    fn years(min: u32, max: u32) -> Term {
+        Term::Year { min, max }
+    }
+
+    #[test]
+    fn parses_scoped_and_quoted_terms() {
+        assert_eq!(
+            Query::parse(" Foo  ARTIST:Bar al:\"Abbey Road\" ").terms,
+            [
+                text(None, "foo"),
+                text(Some(Field::Artist), "bar"),
+                text(Some(Field::Album), "abbey road"),
+            ]
+        );
+        // Unknown scopes are looked for as they are.
+        assert_eq!(Query::parse("foo:bar").terms, [text(None, "foo:bar")]);
+        // Scopes typed halfway and empty quotes are dropped.
+        assert!(Query::parse("artist: \"\"").is_empty());
+        assert!(Query::parse("   ").is_empty());
+    }
+
+    #[test]
+    fn parses_years() {
+        let parse = |query: &str| Query::parse(query).terms;
+        assert_eq!(parse("year:2010"), [years(2010, 2010)]);
+        assert_eq!(parse("y:=2010"), [years(2010, 2010)]);
+        assert_eq!(parse("year:>2010"), [years(2011, u32::MAX)]);
+        assert_eq!(parse("year:>=2010"), [years(2010, u32::MAX)]);
+        assert_eq!(parse("year:<1999"), [years(0, 1998)]);
+        assert_eq!(parse("year:<=1999"), [years(0, 1999)]);
+        assert_eq!(parse("year:1990..1999"), [years(1990, 1999)]);
+        assert!(parse("year:<0 year:soon year:1990..").is_empty());
+    }
+
+    #[test]
+    fn folds_width_case_and_kana() {
+        assert_eq!(fold("ＡＢＣ　１２３"), "abc 123");
+        assert_eq!(fold("Hello World"), "hello world");
+        assert_eq!(fold("カタカナ"), "かたかな");
+        assert_eq!(fold("ひらがな"), "ひらがな");
+    }
+
+    #[test]
+    fn matches_pinyin_and_initials() {
+        let name = Text::new("周杰伦");
+        assert_eq!(name.score("周杰伦"), Some(1.0));
+        assert_eq!(name.score("zhoujielun"), Some(0.5));
+        assert_eq!(name.score("jielun"), Some(0.5));
+        assert_eq!(name.score("zjl"), Some(0.5));
+        assert_eq!(name.score("zjk"), None);
+        assert!(Text::new("Jay Chou").pinyin.is_none());
+    }
+
+    #[test]
+    fn matches_typos_in_long_terms() {
+        let name = Text::new("The Beatles");
+        assert!(name.score("beatls").is_some());
+        assert!(name.score("beetles").is_some());
+        // Typed halfway, with a typo.
+        assert!(name.score("beatl").is_some());
+        assert!(name.score("bextl").is_some());
+        assert_eq!(name.score("betls"), None);
+        assert_eq!(name.score("teh"), None);
+    }
+
+    #[test]
+    fn measures_edit_distance() {
+        assert_eq!(edit_distance("abc", "abc"), 0);
+        assert_eq!(edit_distance("", "abc"), 3);
+        assert_eq!(edit_distance("abc", ""), 3);
+        assert_eq!(edit_distance("flaw", "lawn"), 2);
+        assert_eq!(edit_distance("kitten", "sitting"), 3);
+    }
+}
@@ -0,0 +1,10 @@
+use std::path::PathBuf;
+
+use super::Lyrics;
+use crate::error::Result;
+
+/// Returns `null` if the track has no lyrics.
+#[tauri::command]
+pub async fn lyrics_read(path: PathBuf) -> Result<Option<Lyrics>> {
+    tauri::async_runtime::spawn_blocking(move || super::read(&path)).await?
+}
@@ -0,0 +1,79 @@
+//! Lyrics embedded in tags: ID3v2 SYLT frames with timestamps, and plain lyrics
+//! such as ID3v2 USLT frames, Vorbis `LYRICS` comments or MP4 `©lyr` atoms.
+
+use std::fs::File;
+use std::path::Path;
+
+use lofty::config::ParseOptions;
+use lofty::file::{AudioFile, TaggedFileExt};
+use lofty::id3::v2::{Frame, SynchronizedTextFrame, TimestampFormat};
+use lofty::mpeg::MpegFile;
+use lofty::probe::Probe;
+use lofty::tag::ItemKey;
+
+use super::LyricLine;
+use crate::error::Result;
+
+/// Reads the first SYLT frame with millisecond timestamps.
+/// Only MPEG files are checked, other containers have no such frame.
+pub fn read_synced(path: &Path) -> Result<Option<Vec<LyricLine>>> {
+    let is_mpeg = path
+        .extension()
+        .is_some_and(|ext| ext.eq_ignore_ascii_case("mp3"));
+    if !is_mpeg {
+        return Ok(None);
+    }
+
+    let mut file = File::open(path)?;
+    let mpeg = MpegFile::read_from(&mut file, ParseOptions::new())?;
+    let Some(tag) = mpeg.id3v2() else {
+        return Ok(None);
+    };
+
+    for frame in tag {
+        let Frame::Binary(binary) = frame else {
+            continue;
+        };
+        if frame.id_str() != "SYLT" {
+            continue;
+        }
+
+        let sylt = match SynchronizedTextFrame::parse(&binary.data, frame.flags()) {
+            Ok(sylt) => sylt,
+            Err(err) => {
+                log::warn!(
+                    "ignoring unreadable SYLT frame in {}: {err}",
+                    path.display()
+                );
+                continue;
+            }
+        };
+        if sylt.information.timestamp_format != TimestampFormat::MS {
+            continue;
+        }
+
+        let lines = sylt
+            .content
+            .into_iter()
+            .map(|(millis, text)| LyricLine {
+                time: Some(millis as f64 / 1000.0),
+                text: text.trim().to_owned(),
+                words: Vec::new(),
+            })
+            .collect();
+        return Ok(Some(lines));
+    }
+    Ok(None)
+}
+
+/// Reads the plain lyrics tag, which may still contain LRC timestamps.
+pub fn read_plain(path: &Path) -> Result<Option<String>> {
+    let tagged = Probe::open(path)?.read()?;
+    Ok(tagged
+        .tags()
+        .iter()
+        .find_map(|tag| tag.get_string(&ItemKey::Lyrics))
+        .map(str::trim)
+        .filter(|lyrics| !lyrics.is_empty())
+        .map(str::to_owned))
+}
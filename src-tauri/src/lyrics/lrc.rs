@@ -0,0 +1,111 @@
+//! LRC lyrics, including the enhanced format with word timestamps.
+//!
+//! ```text
+//! [offset:+250]
+//! [00:12.30][01:40.00]Line shown twice
+//! [00:15.00]<00:15.00>Word <00:15.40>by <00:15.80>word
+//! ```
+
+use super::{LyricLine, LyricWord};
+
+/// Parses a `mm:ss.xx` timestamp into seconds.
+fn parse_time(time: &str) -> Option<f64> {
+    let (minutes, seconds) = time.trim().split_once(':')?;
+    let minutes = minutes.parse::<u32>().ok()?;
+    // Some files use `mm:ss:xx` for the fraction.
+    let seconds = seconds.replacen(':', ".", 1).parse::<f64>().ok()?;
+    (seconds >= 0.0).then(|| minutes as f64 * 60.0 + seconds)
+}
+
+/// Splits the text of an enhanced line into its timed words.
+fn parse_words(text: &str, offset: f64) -> Option<(String, Vec<LyricWord>)> {
+    if !text.contains('<') {
+        return None;
+    }
+
+    let mut plain = String::new();
+    let mut words: Vec<LyricWord> = Vec::new();
+    let mut rest = text;
+    while let Some(start) = rest.find('<') {
+        let Some(end) = rest[start..].find('>').map(|end| start + end) else {
+            break;
+        };
+        let Some(time) = parse_time(&rest[start + 1..end]) else {
+            break;
+        };
+
+        let before = &rest[..start];
+        if let Some(word) = words.last_mut() {
+            word.text.push_str(before);
+        }
+        plain.push_str(before);
+        words.push(LyricWord {
+            time: (time - offset).max(0.0),
+            text: String::new(),
+        });
+        rest = &rest[end + 1..];
+    }
+    if let Some(word) = words.last_mut() {
+        word.text.push_str(rest);
+    }
+    plain.push_str(rest);
+
+    // A trailing timestamp only marks the end of the last word.
+    words.retain(|word| !word.text.is_empty());
+    (!words.is_empty()).then(|| (plain.trim().to_owned(), words))
+}
+
+/// Returns `None` if the text contains no line timestamps.
+pub fn parse(text: &str) -> Option<Vec<LyricLine>> {
+    let mut offset = 0.0;
+    let mut timed: Vec<(f64, &str)> = Vec::new();
+
+    for line in text.lines() {
+        let mut rest = line.trim();
+        let mut times = Vec::new();
+
+        while let Some(tag) = rest.strip_prefix('[') {
+            let Some(end) = tag.find(']') else {
+                break;
+            };
+            let content = &tag[..end];
+            rest = &tag[end + 1..];
+
+            if let Some(time) = parse_time(content) {
+                times.push(time);
+            } else if let Some((key, value)) = content.split_once(':') {
+                // Positive offsets show the lyrics earlier.
+                if key.trim().eq_ignore_ascii_case("offset") {
+                    if let Ok(millis) = value.trim().parse::<f64>() {
+                        offset = millis / 1000.0;
+                    }
+                }
+            }
+        }
+
+        timed.extend(times.into_iter().map(|time| (time, rest)));
+    }
+
+    if timed.is_empty() {
+        return None;
+    }
+
+    let mut lines: Vec<LyricLine> = timed
+        .into_iter()
+        .map(|(time, text)| {
+            let (text, words) =
+                parse_words(text, offset).unwrap_or_else(|| (text.trim().to_owned(), Vec::new()));
+            LyricLine {
+                time: Some((time - offset).max(0.0)),
+                text,
+                words,
+            }
+        })
+        .collect();
+    lines.sort_by(|a, b| {
+        a.time
+            .partial_cmp(&b.time)
+            .unwrap_or(std::cmp::Ordering::Equal)
+    });
+    Some(lines)
+}
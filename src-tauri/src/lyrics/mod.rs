@@ -0,0 +1,108 @@
+//! Lyrics of a track.
+//!
+//! A sidecar `.lrc` file next to the audio file wins over embedded lyrics, and
+//! synchronized embedded lyrics win over plain ones.
+
+pub mod commands;
+mod embedded;
+mod lrc;
+
+use std::path::{Path, PathBuf};
+
+use serde::Serialize;
+
+use crate::error::Result;
+use crate::text::read_text;
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq, Serialize)]
+#[serde(rename_all = "lowercase")]
+pub enum LyricsSource {
+    Sidecar,
+    Embedded,
+}
+
+/// A word of an enhanced LRC line.
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LyricWord {
+    /// Start time in seconds.
+    pub time: f64,
+    /// The word including its trailing whitespace.
+    pub text: String,
+}
+
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LyricLine {
+    /// Start time in seconds, `None` for unsynchronized lyrics.
+    pub time: Option<f64>,
+    pub text: String,
+    /// Timed words, empty unless the lyrics have word timestamps.
+    pub words: Vec<LyricWord>,
+}
+
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Lyrics {
+    pub source: LyricsSource,
+    /// Whether the lines have timestamps, sorted by time.
+    pub synced: bool,
+    pub lines: Vec<LyricLine>,
+}
+
+impl Lyrics {
+    /// Parses LRC text, treating it as plain lyrics if it has no timestamps.
+    fn from_text(text: &str, source: LyricsSource) -> Self {
+        match lrc::parse(text) {
+            Some(lines) => Self {
+                source,
+                synced: true,
+                lines,
+            },
+            None => Self {
+                source,
+                synced: false,
+                lines: text
+                    .lines()
+                    .map(|line| LyricLine {
+                        time: None,
+                        text: line.trim().to_owned(),
+                        words: Vec::new(),
+                    })
+                    .collect(),
+            },
+        }
+    }
+}
+
+/// Finds `<stem>.lrc` next to the audio file, ignoring the case of the extension.
+fn find_sidecar(path: &Path) -> Option<PathBuf> {
+    let stem = path.file_stem()?;
+    let dir = path.parent()?;
+    ["lrc", "LRC", "Lrc"]
+        .iter()
+        .map(|extension| {
+            let mut name = stem.to_os_string();
+            name.push(".");
+            name.push(extension);
+            dir.join(name)
+        })
+        .find(|candidate| candidate.is_file())
+}
+
+pub fn read(path: &Path) -> Result<Option<Lyrics>> {
+    if let Some(sidecar) = find_sidecar(path) {
+        let text = read_text(&sidecar)?;
+        return Ok(Some(Lyrics::from_text(&text, LyricsSource::Sidecar)));
+    }
+
+    if let Some(lines) = embedded::read_synced(path)? {
+        return Ok(Some(Lyrics {
+            source: LyricsSource::Embedded,
+            synced: true,
+            lines,
+        }));
+    }
+
+    Ok(embedded::read_plain(path)?.map(|text| Lyrics::from_text(&text, LyricsSource::Embedded)))
+}
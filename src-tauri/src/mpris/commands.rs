@@ -0,0 +1,17 @@
+use std::sync::Arc;
+
+use tauri::{AppHandle, Manager};
+
+use super::{Mpris, QueueInfo};
+use crate::error::Result;
+
+/// Sends the metadata and the queue state to the media applets. Does nothing if there
+/// is no session bus.
+#[tauri::command]
+pub async fn mpris_update(app: AppHandle, info: QueueInfo) -> Result<()> {
+    let Some(mpris) = app.try_state::<Arc<Mpris>>() else {
+        return Ok(());
+    };
+    let mpris = mpris.inner().clone();
+    mpris.update(info).await
+}
@@ -0,0 +1,346 @@
+use std::collections::HashMap;
+use std::path::{Path, PathBuf};
+use std::sync::Arc;
+
+use url::Url;
+use zbus::object_server::SignalEmitter;
+use zbus::zvariant::{ObjectPath, OwnedValue, Value};
+use zbus::{fdo, interface};
+
+use super::{Controls, QueueInfo, RepeatMode, Request};
+use crate::error::Error;
+use crate::player::PlaybackStatus;
+
+/// Shown by the media applets.
+const IDENTITY: &str = "Hachi Player";
+
+/// Name of the desktop file installed by the bundle, without extension.
+const DESKTOP_ENTRY: &str = "hachi-player";
+
+/// Track id MPRIS reserves for no track.
+const NO_TRACK: &str = "/org/mpris/MediaPlayer2/TrackList/NoTrack";
+
+/// Seconds to the microseconds used by MPRIS.
+pub fn micros(seconds: f64) -> i64 {
+    (seconds * 1e6) as i64
+}
+
+fn failed(err: Error) -> fdo::Error {
+    fdo::Error::Failed(err.to_string())
+}
+
+/// The object path naming `path` in the metadata. It only has to stay the same while
+/// the track plays.
+fn track_object_path(path: &str) -> String {
+    let hash = blake3::hash(path.as_bytes()).to_hex();
+    format!("/moe/kirisauce/hachiplayer/track/{}", &hash[..16])
+}
+
+fn file_url(path: &Path) -> Option<String> {
+    Url::from_file_path(path).ok().map(String::from)
+}
+
+/// The loaded track, as far as the backend knows it.
+pub struct TrackInfo {
+    pub path: String,
+    pub duration: Option<f64>,
+    pub cover: Option<PathBuf>,
+}
+
+/// `org.mpris.MediaPlayer2`
+pub struct RootInterface {
+    controls: Arc<dyn Controls>,
+}
+
+impl RootInterface {
+    pub fn new(controls: Arc<dyn Controls>) -> Self {
+        Self { controls }
+    }
+}
+
+#[interface(name = "org.mpris.MediaPlayer2")]
+impl RootInterface {
+    fn raise(&self) {
+        self.controls.raise();
+    }
+
+    fn quit(&self) {
+        self.controls.quit();
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn can_quit(&self) -> bool {
+        true
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn can_raise(&self) -> bool {
+        true
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn has_track_list(&self) -> bool {
+        false
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn identity(&self) -> String {
+        IDENTITY.to_owned()
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn desktop_entry(&self) -> String {
+        DESKTOP_ENTRY.to_owned()
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn supported_uri_schemes(&self) -> Vec<String> {
+        Vec::new()
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn supported_mime_types(&self) -> Vec<String> {
+        Vec::new()
+    }
+}
+
+/// `org.mpris.MediaPlayer2.Player`
+///
+/// The fields hold what has been announced, [`super::Mpris`] updates them and emits the
+/// changes. Only the position is read from the controls on demand, as it is polled.
+pub struct PlayerInterface {
+    controls: Arc<dyn Controls>,
+    pub status: PlaybackStatus,
+    pub volume: f32,
+    pub track: Option<TrackInfo>,
+    pub queue: QueueInfo,
+}
+
+impl PlayerInterface {
+    pub fn new(controls: Arc<dyn Controls>) -> Self {
+        Self {
+            controls,
+            status: PlaybackStatus::Stopped,
+            volume: 1.0,
+            track: None,
+            queue: QueueInfo::default(),
+        }
+    }
+}
+
+#[interface(name = "org.mpris.MediaPlayer2.Player")]
+impl PlayerInterface {
+    fn next(&self) {
+        self.controls.request(Request::Next);
+    }
+
+    fn previous(&self) {
+        self.controls.request(Request::Previous);
+    }
+
+    fn pause(&self) -> fdo::Result<()> {
+        self.controls.pause().map_err(failed)
+    }
+
+    fn play_pause(&self) -> fdo::Result<()> {
+        self.controls.toggle().map_err(failed)
+    }
+
+    fn stop(&self) -> fdo::Result<()> {
+        self.controls.stop().map_err(failed)
+    }
+
+    fn play(&self) -> fdo::Result<()> {
+        self.controls.play().map_err(failed)
+    }
+
+    /// Seeks by `offset` microseconds. Seeking past the end skips to the next track.
+    fn seek(&self, offset: i64) -> fdo::Result<()> {
+        let state = self.controls.state();
+        if state.path.is_none() {
+            return Ok(());
+        }
+        let position = state.position + offset as f64 / 1e6;
+        if state.duration.is_some_and(|duration| position > duration) {
+            self.controls.request(Request::Next);
+            return Ok(());
+        }
+        self.controls.seek(position.max(0.0)).map_err(failed)
+    }
+
+    /// Seeks to `position` microseconds, ignored if `track_id` is not the loaded track
+    /// any more or the position is out of range.
+    fn set_position(&self, track_id: ObjectPath<'_>, position: i64) -> fdo::Result<()> {
+        let Some(track) = &self.track else {
+            return Ok(());
+        };
+        let seconds = position as f64 / 1e6;
+        if track_id.as_str() != track_object_path(&track.path)
+            || position < 0
+            || track.duration.is_some_and(|duration| seconds > duration)
+        {
+            return Ok(());
+        }
+        self.controls.seek(seconds).map_err(failed)
+    }
+
+    fn open_uri(&self, _uri: String) -> fdo::Result<()> {
+        Err(fdo::Error::NotSupported(
+            "opening URIs is not supported".into(),
+        ))
+    }
+
+    #[zbus(signal)]
+    pub async fn seeked(emitter: &SignalEmitter<'_>, position: i64) -> zbus::Result<()>;
+
+    #[zbus(property)]
+    fn playback_status(&self) -> String {
+        match self.status {
+            PlaybackStatus::Playing => "Playing",
+            PlaybackStatus::Paused => "Paused",
+            PlaybackStatus::Stopped => "Stopped",
+        }
+        .to_owned()
+    }
+
+    #[zbus(property)]
+    fn loop_status(&self) -> String {
+        match self.queue.repeat {
+            RepeatMode::Off => "None",
+            RepeatMode::One => "Track",
+            RepeatMode::All => "Playlist",
+        }
+        .to_owned()
+    }
+
+    /// Asks the frontend, the property changes once it updated the queue.
+    #[zbus(property)]
+    fn set_loop_status(&mut self, status: String) {
+        let repeat = match status.as_str() {
+            "None" => RepeatMode::Off,
+            "Track" => RepeatMode::One,
+            "Playlist" => RepeatMode::All,
+            _ => return,
+        };
+        self.controls.request(Request::SetRepeat { repeat });
+    }
+
+    #[zbus(property)]
+    fn shuffle(&self) -> bool {
+        self.queue.shuffle
+    }
+
+    #[zbus(property)]
+    fn set_shuffle(&mut self, shuffle: bool) {
+        self.controls.request(Request::SetShuffle { shuffle });
+    }
+
+    #[zbus(property)]
+    fn rate(&self) -> f64 {
+        1.0
+    }
+
+    /// Only the normal rate is supported, other rates are ignored as the specification asks.
+    #[zbus(property)]
+    fn set_rate(&mut self, _rate: f64) {}
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn minimum_rate(&self) -> f64 {
+        1.0
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn maximum_rate(&self) -> f64 {
+        1.0
+    }
+
+    #[zbus(property)]
+    fn metadata(&self) -> HashMap<String, OwnedValue> {
+        let mut metadata = HashMap::new();
+        let mut insert = |key: &str, value: Value<'_>| {
+            if let Ok(value) = OwnedValue::try_from(value) {
+                metadata.insert(key.to_owned(), value);
+            }
+        };
+
+        let Some(track) = &self.track else {
+            insert(
+                "mpris:trackid",
+                ObjectPath::from_static_str_unchecked(NO_TRACK).into(),
+            );
+            return metadata;
+        };
+        if let Ok(id) = ObjectPath::try_from(track_object_path(&track.path)) {
+            insert("mpris:trackid", id.into());
+        }
+        if let Some(duration) = track.duration {
+            insert("mpris:length", micros(duration).into());
+        }
+        if let Some(url) = track.cover.as_deref().and_then(file_url) {
+            insert("mpris:artUrl", url.into());
+        }
+        if let Some(url) = file_url(track.path.as_ref()) {
+            insert("xesam:url", url.into());
+        }
+        if let Some(title) = &self.queue.title {
+            insert("xesam:title", title.clone().into());
+        }
+        if !self.queue.artists.is_empty() {
+            insert("xesam:artist", self.queue.artists.clone().into());
+        }
+        if let Some(album) = &self.queue.album {
+            insert("xesam:album", album.clone().into());
+        }
+        metadata
+    }
+
+    #[zbus(property)]
+    fn volume(&self) -> f64 {
+        self.volume as f64
+    }
+
+    #[zbus(property)]
+    fn set_volume(&mut self, volume: f64) {
+        if let Err(err) = self.controls.set_volume(volume.clamp(0.0, 1.0) as f32) {
+            log::warn!("failed to set the volume: {err}");
+        }
+    }
+
+    /// Polled by the remotes rather than announced, see [`PlayerInterface::seeked`].
+    #[zbus(property(emits_changed_signal = "false"))]
+    fn position(&self) -> i64 {
+        micros(self.controls.state().position)
+    }
+
+    #[zbus(property)]
+    fn can_go_next(&self) -> bool {
+        self.queue.can_go_next
+    }
+
+    #[zbus(property)]
+    fn can_go_previous(&self) -> bool {
+        self.queue.can_go_previous
+    }
+
+    #[zbus(property)]
+    fn can_play(&self) -> bool {
+        self.track.is_some()
+    }
+
+    #[zbus(property)]
+    fn can_pause(&self) -> bool {
+        self.track.is_some()
+    }
+
+    #[zbus(property)]
+    fn can_seek(&self) -> bool {
+        self.track
+            .as_ref()
+            .is_some_and(|track| track.duration.is_some())
+    }
+
+    #[zbus(property(emits_changed_signal = "const"))]
+    fn can_control(&self) -> bool {
+        true
+    }
+}
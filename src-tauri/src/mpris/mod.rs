@@ -0,0 +1,565 @@
+//! MPRIS2 remote control, which lists the player in the media applets of Linux
+//! desktops and makes the media keys work.
+//!
+//! `org.mpris.MediaPlayer2` and `org.mpris.MediaPlayer2.Player` are served at
+//! [`OBJECT_PATH`]. The playback state is followed through the player events, the
+//! queue lives in the frontend though: it sends the metadata and the queue state with
+//! [`commands::mpris_update`], and receives a [`Request`] for what only it can do.
+//!
+//! Without a session bus, as on Windows and macOS, the app runs without the server.
+//! [`Mpris::serve`] takes any connection, so the interfaces can be tried against a
+//! private bus, e.g. one started with `dbus-run-session`, or a peer-to-peer connection
+//! as in the tests.
+
+pub mod commands;
+mod interfaces;
+
+use std::path::PathBuf;
+use std::sync::Arc;
+use std::time::Instant;
+
+use serde::{Deserialize, Serialize};
+use tauri::async_runtime::Mutex;
+use tauri::{AppHandle, Emitter, Listener, Manager};
+use zbus::object_server::InterfaceRef;
+use zbus::Connection;
+
+use crate::covers::CoverCache;
+use crate::error::Result;
+use crate::player::{PlaybackStatus, Player, PlayerState, EVENT_POSITION, EVENT_STATE};
+use interfaces::{PlayerInterface, RootInterface, TrackInfo};
+
+/// Well-known name on the session bus. Further instances append `.instance<pid>`.
+pub const BUS_NAME: &str = "org.mpris.MediaPlayer2.hachiplayer";
+
+pub const OBJECT_PATH: &str = "/org/mpris/MediaPlayer2";
+
+pub const EVENT_REQUEST: &str = "mpris://request";
+
+/// Position jumps larger than this many seconds are announced as seeks.
+const SEEK_TOLERANCE: f64 = 1.0;
+
+/// Payload of [`EVENT_REQUEST`], what a remote asks of the queue.
+#[derive(Clone, Copy, Debug, Serialize)]
+#[serde(tag = "type", rename_all = "camelCase")]
+pub enum Request {
+    Next,
+    Previous,
+    SetShuffle { shuffle: bool },
+    SetRepeat { repeat: RepeatMode },
+}
+
+#[derive(Clone, Copy, Debug, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub enum RepeatMode {
+    #[default]
+    Off,
+    One,
+    All,
+}
+
+/// Metadata of the playing track and state of the queue, sent by the frontend.
+#[derive(Clone, Debug, Default, PartialEq, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct QueueInfo {
+    pub title: Option<String>,
+    pub artists: Vec<String>,
+    pub album: Option<String>,
+    pub shuffle: bool,
+    pub repeat: RepeatMode,
+    pub can_go_next: bool,
+    pub can_go_previous: bool,
+}
+
+/// What the interfaces act on. [`AppControls`] drives the app, other implementations
+/// can stand in for it.
+pub trait Controls: Send + Sync + 'static {
+    fn state(&self) -> PlayerState;
+    fn play(&self) -> Result<()>;
+    fn pause(&self) -> Result<()>;
+    fn toggle(&self) -> Result<()>;
+    fn stop(&self) -> Result<()>;
+    fn seek(&self, position: f64) -> Result<()>;
+    fn set_volume(&self, volume: f32) -> Result<()>;
+    /// Path of a cover image of `track` which other programs can read. May block.
+    fn cover(&self, track: &str) -> Option<PathBuf>;
+    fn request(&self, request: Request);
+    fn raise(&self);
+    fn quit(&self);
+}
+
+/// Controls the player, the cover cache and the main window of the app.
+pub struct AppControls(pub AppHandle);
+
+impl Controls for AppControls {
+    fn state(&self) -> PlayerState {
+        self.0.state::<Player>().state()
+    }
+
+    fn play(&self) -> Result<()> {
+        self.0.state::<Player>().play()
+    }
+
+    fn pause(&self) -> Result<()> {
+        self.0.state::<Player>().pause()
+    }
+
+    fn toggle(&self) -> Result<()> {
+        self.0.state::<Player>().toggle()
+    }
+
+    fn stop(&self) -> Result<()> {
+        self.0.state::<Player>().stop()
+    }
+
+    fn seek(&self, position: f64) -> Result<()> {
+        self.0.state::<Player>().seek(position)
+    }
+
+    fn set_volume(&self, volume: f32) -> Result<()> {
+        self.0.state::<Player>().set_volume(volume)
+    }
+
+    fn cover(&self, track: &str) -> Option<PathBuf> {
+        match self.0.state::<CoverCache>().file(track.as_ref()) {
+            Ok(path) => path,
+            Err(err) => {
+                log::warn!("failed to read the cover of {track}: {err}");
+                None
+            }
+        }
+    }
+
+    fn request(&self, request: Request) {
+        if let Err(err) = self.0.emit(EVENT_REQUEST, request) {
+            log::warn!("failed to emit {EVENT_REQUEST}: {err}");
+        }
+    }
+
+    fn raise(&self) {
+        let Some(window) = self.0.get_webview_window("main") else {
+            return;
+        };
+        let shown = window
+            .unminimize()
+            .and_then(|_| window.show())
+            .and_then(|_| window.set_focus());
+        if let Err(err) = shown {
+            log::warn!("failed to raise the main window: {err}");
+        }
+    }
+
+    fn quit(&self) {
+        self.0.exit(0);
+    }
+}
+
+/// The player state last announced on the bus.
+struct Announced {
+    state: PlayerState,
+    at: Instant,
+}
+
+/// The MPRIS server.
+pub struct Mpris {
+    connection: Connection,
+    controls: Arc<dyn Controls>,
+    announced: Mutex<Option<Announced>>,
+}
+
+impl Mpris {
+    /// Connects to the session bus and follows the player of `app`.
+    pub async fn start(app: &AppHandle) -> Result<Arc<Self>> {
+        let connection = Connection::session().await?;
+        let mpris = Arc::new(Self::serve(connection, Arc::new(AppControls(app.clone()))).await?);
+
+        for event in [EVENT_STATE, EVENT_POSITION] {
+            let mpris = mpris.clone();
+            app.listen(event, move |_| {
+                let mpris = mpris.clone();
+                tauri::async_runtime::spawn(async move {
+                    if let Err(err) = mpris.refresh().await {
+                        log::warn!("failed to update the MPRIS player state: {err}");
+                    }
+                });
+            });
+        }
+        Ok(mpris)
+    }
+
+    /// Serves the interfaces on `connection` and takes the MPRIS bus name, unless it is
+    /// a peer-to-peer connection, which has no bus to take names on.
+    ///
+    /// The player state is only read from `controls` by [`Mpris::refresh`].
+    pub async fn serve(connection: Connection, controls: Arc<dyn Controls>) -> Result<Self> {
+        let server = connection.object_server();
+        server
+            .at(OBJECT_PATH, RootInterface::new(controls.clone()))
+            .await?;
+        server
+            .at(OBJECT_PATH, PlayerInterface::new(controls.clone()))
+            .await?;
+
+        if connection.unique_name().is_some() {
+            if let Err(err) = connection.request_name(BUS_NAME).await {
+                log::info!("{BUS_NAME} is taken ({err}), registering another instance");
+                let name = format!("{BUS_NAME}.instance{}", std::process::id());
+                connection.request_name(name).await?;
+            }
+        }
+
+        let mpris = Self {
+            connection,
+            controls,
+            announced: Mutex::new(None),
+        };
+        mpris.refresh().await?;
+        Ok(mpris)
+    }
+
+    async fn player(&self) -> Result<InterfaceRef<PlayerInterface>> {
+        Ok(self
+            .connection
+            .object_server()
+            .interface::<_, PlayerInterface>(OBJECT_PATH)
+            .await?)
+    }
+
+    /// Reads the player state and announces what changed since the last time.
+    pub async fn refresh(&self) -> Result<()> {
+        let mut announced = self.announced.lock().await;
+        let state = self.controls.state();
+        let now = Instant::now();
+
+        let track_changed = announced.as_ref().map_or(true, |announced| {
+            announced.state.path != state.path || announced.state.duration != state.duration
+        });
+        let track = match (&state.path, track_changed) {
+            (Some(path), true) => {
+                let controls = self.controls.clone();
+                let path = path.clone();
+                let cover = tauri::async_runtime::spawn_blocking({
+                    let path = path.clone();
+                    move || controls.cover(&path)
+                })
+                .await?;
+                Some(Some(TrackInfo {
+                    path,
+                    duration: state.duration,
+                    cover,
+                }))
+            }
+            (None, true) => Some(None),
+            (_, false) => None,
+        };
+
+        let player = self.player().await?;
+        let emitter = player.signal_emitter();
+        let mut interface = player.get_mut().await;
+
+        if interface.status != state.status {
+            interface.status = state.status;
+            interface.playback_status_changed(emitter).await?;
+        }
+        if interface.volume != state.volume {
+            interface.volume = state.volume;
+            interface.volume_changed(emitter).await?;
+        }
+        if let Some(track) = track {
+            interface.track = track;
+            interface.metadata_changed(emitter).await?;
+            interface.can_play_changed(emitter).await?;
+            interface.can_pause_changed(emitter).await?;
+            interface.can_seek_changed(emitter).await?;
+        } else if let Some(announced) = announced.as_ref() {
+            let elapsed = match announced.state.status {
+                PlaybackStatus::Playing => now.duration_since(announced.at).as_secs_f64(),
+                _ => 0.0,
+            };
+            let expected = announced.state.position + elapsed;
+            if (state.position - expected).abs() > SEEK_TOLERANCE {
+                PlayerInterface::seeked(emitter, interfaces::micros(state.position)).await?;
+            }
+        }
+
+        *announced = Some(Announced { state, at: now });
+        Ok(())
+    }
+
+    /// Takes the metadata and the queue state from the frontend.
+    pub async fn update(&self, info: QueueInfo) -> Result<()> {
+        let player = self.player().await?;
+        let emitter = player.signal_emitter();
+        let mut interface = player.get_mut().await;
+
+        let previous = std::mem::replace(&mut interface.queue, info);
+        let current = &interface.queue;
+        if (&previous.title, &previous.artists, &previous.album)
+            != (&current.title, &current.artists, &current.album)
+        {
+            interface.metadata_changed(emitter).await?;
+        }
+        if previous.shuffle != current.shuffle {
+            interface.shuffle_changed(emitter).await?;
+        }
+        if previous.repeat != current.repeat {
+            interface.loop_status_changed(emitter).await?;
+        }
+        if previous.can_go_next != current.can_go_next {
+            interface.can_go_next_changed(emitter).await?;
+        }
+        if previous.can_go_previous != current.can_go_previous {
+            interface.can_go_previous_changed(emitter).await?;
+        }
+        Ok(())
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use std::collections::HashMap;
+    use std::os::unix::net::UnixStream as StdUnixStream;
+    use std::sync::Mutex as StdMutex;
+    use std::time::Duration;
+
+    use futures_util::StreamExt;
+    use tokio::net::UnixStream;
+    use zbus::connection::Builder;
+    use zbus::message::Type;
+    use zbus::zvariant::{OwnedValue, Value};
+    use zbus::{Guid, Message, MessageStream};
+
+    use super::*;
+
+    const PLAYER_INTERFACE: &str = "org.mpris.MediaPlayer2.Player";
+
+    const TRACK: &str = "/music/track.flac";
+
+    const TIMEOUT: Duration = Duration::from_secs(10);
+
+    /// Plays nothing, but records what the interfaces ask for.
+    #[derive(Default)]
+    struct MockControls {
+        state: StdMutex<PlayerState>,
+        calls: StdMutex<Vec<String>>,
+    }
+
+    impl MockControls {
+        fn record(&self, call: String) -> Result<()> {
+            self.calls.lock().unwrap().push(call);
+            Ok(())
+        }
+
+        /// Takes the calls recorded so far.
+        fn take_calls(&self) -> Vec<String> {
+            std::mem::take(&mut *self.calls.lock().unwrap())
+        }
+
+        fn set_state(&self, update: impl FnOnce(&mut PlayerState)) {
+            update(&mut self.state.lock().unwrap());
+        }
+    }
+
+    impl Controls for MockControls {
+        fn state(&self) -> PlayerState {
+            self.state.lock().unwrap().clone()
+        }
+
+        fn play(&self) -> Result<()> {
+            self.record("play".into())
+        }
+
+        fn pause(&self) -> Result<()> {
+            self.record("pause".into())
+        }
+
+        fn toggle(&self) -> Result<()> {
+            self.record("toggle".into())
+        }
+
+        fn stop(&self) -> Result<()> {
+            self.record("stop".into())
+        }
+
+        fn seek(&self, position: f64) -> Result<()> {
+            self.record(format!("seek {position}"))
+        }
+
+        fn set_volume(&self, volume: f32) -> Result<()> {
+            self.record(format!("volume {volume}"))
+        }
+
+        fn cover(&self, _track: &str) -> Option<PathBuf> {
+            None
+        }
+
+        fn request(&self, request: Request) {
+            let _ = self.record(format!("{request:?}"));
+        }
+
+        fn raise(&self) {
+            let _ = self.record("raise".into());
+        }
+
+        fn quit(&self) {
+            let _ = self.record("quit".into());
+        }
+    }
+
+    /// Serves a mock on one end of a socket pair, and returns the client on the other end
+    /// along with its incoming messages.
+    async fn serve() -> (Mpris, Arc<MockControls>, Connection, MessageStream) {
+        let (server, client) = StdUnixStream::pair().unwrap();
+        server.set_nonblocking(true).unwrap();
+        client.set_nonblocking(true).unwrap();
+
+        let server = Builder::unix_stream(UnixStream::from_std(server).unwrap())
+            .server(Guid::generate())
+            .unwrap()
+            .p2p()
+            .build();
+        let client = Builder::unix_stream(UnixStream::from_std(client).unwrap())
+            .p2p()
+            .build();
+        let (server, client) = tokio::try_join!(server, client).unwrap();
+        let messages = MessageStream::from(&client);
+
+        let controls = Arc::new(MockControls::default());
+        let mpris = Mpris::serve(server, controls.clone()).await.unwrap();
+        (mpris, controls, client, messages)
+    }
+
+    async fn call<B>(client: &Connection, method: &str, body: &B)
+    where
+        B: serde::Serialize + zbus::zvariant::DynamicType,
+    {
+        client
+            .call_method(
+                None::<&str>,
+                OBJECT_PATH,
+                Some(PLAYER_INTERFACE),
+                method,
+                body,
+            )
+            .await
+            .unwrap();
+    }
+
+    /// Waits for the next signal named `member`.
+    async fn signal(messages: &mut MessageStream, member: &str) -> Message {
+        let wait = async {
+            loop {
+                let message = messages.next().await.unwrap().unwrap();
+                let matches = message.message_type() == Type::Signal
+                    && message
+                        .header()
+                        .member()
+                        .is_some_and(|name| name.as_str() == member);
+                if matches {
+                    return message;
+                }
+            }
+        };
+        tokio::time::timeout(TIMEOUT, wait)
+            .await
+            .unwrap_or_else(|_| panic!("no {member} signal"))
+    }
+
+    /// Waits for a change of the player property `name`, skipping other changes.
+    async fn changed(messages: &mut MessageStream, name: &str) -> OwnedValue {
+        loop {
+            let message = signal(messages, "PropertiesChanged").await;
+            let (interface, mut changed, _): (String, HashMap<String, OwnedValue>, Vec<String>) =
+                message.body().deserialize().unwrap();
+            if interface == PLAYER_INTERFACE {
+                if let Some(value) = changed.remove(name) {
+                    return value;
+                }
+            }
+        }
+    }
+
+    fn owned(value: Value<'_>) -> OwnedValue {
+        OwnedValue::try_from(value).unwrap()
+    }
+
+    fn play_track(state: &mut PlayerState) {
+        state.status = PlaybackStatus::Playing;
+        state.path = Some(TRACK.to_owned());
+        state.position = 10.0;
+        state.duration = Some(100.0);
+    }
+
+    #[test]
+    fn dispatches_method_calls() {
+        tauri::async_runtime::block_on(async {
+            let (_mpris, controls, client, _) = serve().await;
+            controls.set_state(play_track);
+
+            call(&client, "PlayPause", &()).await;
+            call(&client, "Next", &()).await;
+            call(&client, "Previous", &()).await;
+            assert_eq!(controls.take_calls(), ["toggle", "Next", "Previous"]);
+
+            call(&client, "Seek", &5_000_000i64).await;
+            call(&client, "Seek", &-20_000_000i64).await;
+            assert_eq!(controls.take_calls(), ["seek 15", "seek 0"]);
+
+            // Past the end of the track.
+            call(&client, "Seek", &100_000_000i64).await;
+            assert_eq!(controls.take_calls(), ["Next"]);
+        });
+    }
+
+    #[test]
+    fn ignores_seeks_without_a_track() {
+        tauri::async_runtime::block_on(async {
+            let (_mpris, controls, client, _) = serve().await;
+
+            call(&client, "Seek", &5_000_000i64).await;
+            assert!(controls.take_calls().is_empty());
+        });
+    }
+
+    #[test]
+    fn announces_changes() {
+        tauri::async_runtime::block_on(async {
+            let (mpris, controls, _client, mut messages) = serve().await;
+
+            controls.set_state(play_track);
+            mpris.refresh().await.unwrap();
+            assert_eq!(
+                changed(&mut messages, "PlaybackStatus").await,
+                owned(Value::from("Playing"))
+            );
+            assert_eq!(
+                changed(&mut messages, "CanSeek").await,
+                owned(Value::from(true))
+            );
+
+            controls.set_state(|state| state.volume = 0.5);
+            mpris.refresh().await.unwrap();
+            assert_eq!(
+                changed(&mut messages, "Volume").await,
+                owned(Value::from(0.5))
+            );
+
+            controls.set_state(|state| state.position = 60.0);
+            mpris.refresh().await.unwrap();
+            let seeked = signal(&mut messages, "Seeked").await;
+            assert_eq!(seeked.body().deserialize::<i64>().unwrap(), 60_000_000);
+
+            mpris
+                .update(QueueInfo {
+                    shuffle: true,
+                    ..Default::default()
+                })
+                .await
+                .unwrap();
+            assert_eq!(
+                changed(&mut messages, "Shuffle").await,
+                owned(Value::from(true))
+            );
+        });
+    }
+}
@@ -0,0 +1,150 @@
+//! Spectrum and waveform of the audible output, for the visualizer of the frontend.
+
+use std::collections::VecDeque;
+use std::sync::Arc;
+
+use rustfft::num_complex::Complex;
+use rustfft::{Fft, FftPlanner};
+use serde::Serialize;
+
+/// Samples per transform, about 43 ms at 48 kHz.
+const FFT_SIZE: usize = 2048;
+
+/// Number of bands of the spectrum, spaced logarithmically.
+pub const BANDS: usize = 64;
+
+const MIN_FREQUENCY: f64 = 30.0;
+const MAX_FREQUENCY: f64 = 16000.0;
+
+/// Levels below this many dBFS show as empty bands.
+const FLOOR_DB: f32 = -80.0;
+
+/// Number of points of the waveform, taken from the end of the window.
+pub const WAVEFORM_POINTS: usize = 256;
+
+/// Every this many samples make one point of the waveform.
+const WAVEFORM_STRIDE: usize = 4;
+
+/// A snapshot of what is playing.
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct VisualizerFrame {
+    /// Levels of the [`BANDS`] bands from low to high, between 0 and 1.
+    pub spectrum: Vec<f32>,
+    /// The last [`WAVEFORM_POINTS`] points of the downmixed signal, between -1 and 1.
+    pub waveform: Vec<f32>,
+}
+
+/// Keeps the recent output downmixed to mono, and analyzes it at the playback position.
+///
+/// The output is written ahead of the device, so the samples are remembered with their
+/// frame number and looked up once they are heard.
+pub struct Analyzer {
+    channels: usize,
+    /// Range of bins of each band.
+    bands: Vec<(usize, usize)>,
+    fft: Arc<dyn Fft<f32>>,
+    window: Vec<f32>,
+    /// Makes a full scale sine 0 dB.
+    scale: f32,
+    history: VecDeque<f32>,
+    /// Frame number of the first sample of `history`.
+    history_start: u64,
+    /// How many frames `history` holds at most.
+    capacity: usize,
+    buffer: Vec<Complex<f32>>,
+}
+
+impl Analyzer {
+    /// `keep_secs` is how far the output may run ahead of the device.
+    pub fn new(sample_rate: u32, channels: usize, keep_secs: f64) -> Self {
+        let window: Vec<f32> = (0..FFT_SIZE)
+            .map(|i| {
+                let phase = 2.0 * std::f32::consts::PI * i as f32 / (FFT_SIZE - 1) as f32;
+                0.5 - 0.5 * phase.cos()
+            })
+            .collect();
+        let scale = 2.0 / window.iter().sum::<f32>();
+
+        let bin_width = sample_rate as f64 / FFT_SIZE as f64;
+        let ratio = MAX_FREQUENCY / MIN_FREQUENCY;
+        let bands = (0..BANDS)
+            .map(|band| {
+                let edge = |band: usize| MIN_FREQUENCY * ratio.powf(band as f64 / BANDS as f64);
+                // Low bands are narrower than a bin, they share it with their neighbours.
+                let low = ((edge(band) / bin_width).floor() as usize).clamp(1, FFT_SIZE / 2 - 1);
+                let high =
+                    ((edge(band + 1) / bin_width).ceil() as usize).clamp(low + 1, FFT_SIZE / 2);
+                (low, high)
+            })
+            .collect();
+
+        Self {
+            channels,
+            bands,
+            fft: FftPlanner::new().plan_fft_forward(FFT_SIZE),
+            window,
+            scale,
+            history: VecDeque::new(),
+            history_start: 0,
+            capacity: FFT_SIZE + (keep_secs * sample_rate as f64) as usize,
+            buffer: Vec::with_capacity(FFT_SIZE),
+        }
+    }
+
+    /// Forgets the output, the next frame written is frame 0.
+    pub fn reset(&mut self) {
+        self.history.clear();
+        self.history_start = 0;
+    }
+
+    /// Remembers interleaved output written after the previous samples.
+    pub fn push(&mut self, samples: &[f32]) {
+        let channels = self.channels as f32;
+        self.history.extend(
+            samples
+                .chunks_exact(self.channels)
+                .map(|frame| frame.iter().sum::<f32>() / channels),
+        );
+        let excess = self.history.len().saturating_sub(self.capacity);
+        self.history.drain(..excess);
+        self.history_start += excess as u64;
+    }
+
+    /// Analyzes the window of output which ends at frame `played`, if it is still remembered.
+    pub fn analyze(&mut self, played: u64) -> Option<VisualizerFrame> {
+        let end = played.checked_sub(self.history_start)? as usize;
+        if end < FFT_SIZE || end > self.history.len() {
+            return None;
+        }
+
+        self.buffer.clear();
+        self.buffer.extend(
+            self.history
+                .range(end - FFT_SIZE..end)
+                .zip(&self.window)
+                .map(|(sample, weight)| Complex::new(sample * weight, 0.0)),
+        );
+        let waveform = self
+            .history
+            .range(end - WAVEFORM_POINTS * WAVEFORM_STRIDE..end)
+            .step_by(WAVEFORM_STRIDE)
+            .map(|sample| sample.clamp(-1.0, 1.0))
+            .collect();
+
+        self.fft.process(&mut self.buffer);
+        let spectrum = self
+            .bands
+            .iter()
+            .map(|&(low, high)| {
+                let peak = self.buffer[low..high]
+                    .iter()
+                    .fold(0.0f32, |peak, bin| peak.max(bin.norm()));
+                let db = 20.0 * (peak * self.scale).max(1e-9).log10();
+                ((db - FLOOR_DB) / -FLOOR_DB).clamp(0.0, 1.0)
+            })
+            .collect();
+
+        Some(VisualizerFrame { spectrum, waveform })
+    }
+}
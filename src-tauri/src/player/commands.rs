@@ -0,0 +1,94 @@
+use std::collections::HashMap;
+use std::path::PathBuf;
+
+use tauri::ipc::Channel;
+use tauri::State;
+
+use super::analyzer::VisualizerFrame;
+use super::crossfade::CrossfadeSettings;
+use super::equalizer::EqualizerSettings;
+use super::{Player, PlayerState, VisualizerSink};
+use crate::error::Result;
+
+#[tauri::command]
+pub fn player_load(player: State<'_, Player>, path: String, autoplay: Option<bool>) -> Result<()> {
+    player.load(path.into(), autoplay.unwrap_or(true))
+}
+
+#[tauri::command]
+pub fn player_play(player: State<'_, Player>) -> Result<()> {
+    player.play()
+}
+
+#[tauri::command]
+pub fn player_pause(player: State<'_, Player>) -> Result<()> {
+    player.pause()
+}
+
+#[tauri::command]
+pub fn player_toggle(player: State<'_, Player>) -> Result<()> {
+    player.toggle()
+}
+
+#[tauri::command]
+pub fn player_stop(player: State<'_, Player>) -> Result<()> {
+    player.stop()
+}
+
+#[tauri::command]
+pub fn player_seek(player: State<'_, Player>, position: f64) -> Result<()> {
+    player.seek(position)
+}
+
+#[tauri::command]
+pub fn player_set_volume(player: State<'_, Player>, volume: f32) -> Result<()> {
+    player.set_volume(volume)
+}
+
+#[tauri::command]
+pub fn player_set_equalizer(player: State<'_, Player>, settings: EqualizerSettings) -> Result<()> {
+    player.set_equalizer(settings)
+}
+
+#[tauri::command]
+pub fn player_set_next(
+    player: State<'_, Player>,
+    path: Option<String>,
+    crossfade: bool,
+) -> Result<()> {
+    player.set_next(path.map(Into::into), crossfade)
+}
+
+#[tauri::command]
+pub fn player_set_crossfade(player: State<'_, Player>, settings: CrossfadeSettings) -> Result<()> {
+    player.set_crossfade(settings)
+}
+
+/// Sets the normalization gains of tracks in dB, keyed by path.
+#[tauri::command]
+pub fn player_set_gains(player: State<'_, Player>, gains: HashMap<PathBuf, f32>) -> Result<()> {
+    player.set_gains(gains)
+}
+
+/// Streams visualizer frames to `channel` while playing, instead of the previous channel.
+#[tauri::command]
+pub fn player_set_visualizer(
+    player: State<'_, Player>,
+    channel: Channel<VisualizerFrame>,
+) -> Result<()> {
+    let id = channel.id();
+    // Sending fails once the page is gone.
+    let sink: VisualizerSink = Box::new(move |frame| channel.send(frame).is_ok());
+    player.set_visualizer(id, sink)
+}
+
+/// Stops streaming to the channel with `id`, if it is still the one streamed to.
+#[tauri::command]
+pub fn player_clear_visualizer(player: State<'_, Player>, id: u32) -> Result<()> {
+    player.clear_visualizer(id)
+}
+
+#[tauri::command]
+pub fn player_get_state(player: State<'_, Player>) -> PlayerState {
+    player.state()
+}
@@ -0,0 +1,89 @@
+use super::sink::OutputSpec;
+
+/// Converts decoded samples to the layout of the output device.
+///
+/// Channels are remapped first (mono is duplicated, surplus channels are dropped),
+/// then the stream is linearly resampled. The last frame of each block is kept so
+/// interpolation stays continuous across packet boundaries.
+pub struct Converter {
+    output: OutputSpec,
+    input_rate: u32,
+    input_channels: usize,
+
+    /// Remapped frames waiting to be resampled, starting with the last frame of the previous block.
+    pending: Vec<f32>,
+    /// Read position in `pending`, in frames.
+    cursor: f64,
+}
+
+impl Converter {
+    pub fn new(output: OutputSpec) -> Self {
+        Self {
+            output,
+            input_rate: output.sample_rate,
+            input_channels: output.channels,
+            pending: Vec::new(),
+            cursor: 0.0,
+        }
+    }
+
+    /// Drops any carried-over state, e.g. after seeking or switching tracks.
+    pub fn reset(&mut self) {
+        self.pending.clear();
+        self.cursor = 0.0;
+    }
+
+    pub fn process(
+        &mut self,
+        input: &[f32],
+        sample_rate: u32,
+        channels: usize,
+        output: &mut Vec<f32>,
+    ) {
+        if sample_rate != self.input_rate || channels != self.input_channels {
+            self.input_rate = sample_rate;
+            self.input_channels = channels;
+            self.reset();
+        }
+
+        let out_channels = self.output.channels;
+        if sample_rate == self.output.sample_rate {
+            for frame in input.chunks_exact(channels) {
+                remap(frame, out_channels, output);
+            }
+            return;
+        }
+
+        for frame in input.chunks_exact(channels) {
+            remap(frame, out_channels, &mut self.pending);
+        }
+
+        let step = sample_rate as f64 / self.output.sample_rate as f64;
+        let frames = self.pending.len() / out_channels;
+        while self.cursor + 1.0 < frames as f64 {
+            let index = self.cursor as usize;
+            let weight = (self.cursor - index as f64) as f32;
+            let a = &self.pending[index * out_channels..(index + 1) * out_channels];
+            let b = &self.pending[(index + 1) * out_channels..(index + 2) * out_channels];
+            output.extend(a.iter().zip(b).map(|(a, b)| a + (b - a) * weight));
+            self.cursor += step;
+        }
+
+        if frames > 1 {
+            self.pending.drain(..(frames - 1) * out_channels);
+            self.cursor -= (frames - 1) as f64;
+        }
+    }
+}
+
+fn remap(frame: &[f32], out_channels: usize, output: &mut Vec<f32>) {
+    match (frame.len(), out_channels) {
+        (a, b) if a == b => output.extend_from_slice(frame),
+        (1, _) => output.extend(std::iter::repeat(frame[0]).take(out_channels)),
+        (_, 1) => output.push(frame.iter().sum::<f32>() / frame.len() as f32),
+        (a, b) => {
+            output.extend_from_slice(&frame[..a.min(b)]);
+            output.extend(std::iter::repeat(0.0).take(b.saturating_sub(a)));
+        }
+    }
+}
@@ -0,0 +1,110 @@
+//! Crossfades between consecutive tracks.
+
+use std::f32::consts::FRAC_PI_2;
+
+use serde::{Deserialize, Serialize};
+
+/// How the volumes of the two tracks change during a crossfade.
+#[derive(Clone, Copy, Debug, Default, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum CrossfadeCurve {
+    Linear,
+    /// Keeps the sum of the powers constant, so the loudness does not dip in the middle.
+    #[default]
+    EqualPower,
+    /// Holds both tracks near their volume longer, and swaps them quickly in the middle.
+    SCurve,
+}
+
+#[derive(Clone, Copy, Debug, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CrossfadeSettings {
+    /// Duration in seconds, 0 plays the tracks back to back.
+    pub duration: f64,
+    pub curve: CrossfadeCurve,
+}
+
+impl Default for CrossfadeSettings {
+    fn default() -> Self {
+        Self {
+            duration: 0.0,
+            curve: CrossfadeCurve::default(),
+        }
+    }
+}
+
+impl CrossfadeCurve {
+    /// Gains of the outgoing and the incoming track at `progress` between 0 and 1.
+    pub fn gains(self, progress: f32) -> (f32, f32) {
+        let t = progress.clamp(0.0, 1.0);
+        match self {
+            Self::Linear => (1.0 - t, t),
+            Self::EqualPower => ((t * FRAC_PI_2).cos(), (t * FRAC_PI_2).sin()),
+            Self::SCurve => {
+                let incoming = t * t * (3.0 - 2.0 * t);
+                (1.0 - incoming, incoming)
+            }
+        }
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    const CURVES: [CrossfadeCurve; 3] = [
+        CrossfadeCurve::Linear,
+        CrossfadeCurve::EqualPower,
+        CrossfadeCurve::SCurve,
+    ];
+
+    fn assert_close(actual: f32, expected: f32) {
+        assert!(
+            (actual - expected).abs() < 1e-6,
+            "{actual} is not {expected}"
+        );
+    }
+
+    #[test]
+    fn swaps_the_tracks_from_start_to_end() {
+        for curve in CURVES {
+            let (outgoing, incoming) = curve.gains(0.0);
+            assert_close(outgoing, 1.0);
+            assert_close(incoming, 0.0);
+            let (outgoing, incoming) = curve.gains(1.0);
+            assert_close(outgoing, 0.0);
+            assert_close(incoming, 1.0);
+            // Out of range progress is clamped.
+            assert_eq!(curve.gains(-0.5), curve.gains(0.0));
+            assert_eq!(curve.gains(1.5), curve.gains(1.0));
+        }
+    }
+
+    #[test]
+    fn fades_steadily() {
+        for curve in CURVES {
+            let mut last = curve.gains(0.0);
+            for step in 1..=100 {
+                let gains = curve.gains(step as f32 / 100.0);
+                assert!(
+                    gains.0 <= last.0 && gains.1 >= last.1,
+                    "{curve:?} at {step}"
+                );
+                last = gains;
+            }
+        }
+    }
+
+    #[test]
+    fn keeps_the_power_with_equal_power() {
+        for step in 0..=100 {
+            let (outgoing, incoming) = CrossfadeCurve::EqualPower.gains(step as f32 / 100.0);
+            assert_close(outgoing * outgoing + incoming * incoming, 1.0);
+        }
+        for curve in [CrossfadeCurve::Linear, CrossfadeCurve::SCurve] {
+            let (outgoing, incoming) = curve.gains(0.5);
+            assert_close(outgoing, 0.5);
+            assert_close(incoming, 0.5);
+        }
+    }
+}
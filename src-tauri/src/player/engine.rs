@@ -0,0 +1,1148 @@
+use std::collections::{HashMap, VecDeque};
+use std::path::{Path, PathBuf};
+use std::sync::mpsc::{self, Receiver, RecvTimeoutError, Sender, TryRecvError};
+use std::sync::{Arc, Mutex};
+use std::thread::{self, JoinHandle};
+use std::time::{Duration, Instant};
+
+use super::analyzer::{Analyzer, VisualizerFrame};
+use super::convert::Converter;
+use super::crossfade::CrossfadeSettings;
+use super::equalizer::{Equalizer, EqualizerSettings};
+use super::limiter::Limiter;
+use super::sink::{AudioSink, NullSink, OutputSpec};
+use super::source::Source;
+use super::{PlaybackStatus, PlayerEvents, PlayerState, PositionUpdate, POSITION_INTERVAL};
+use crate::error::{Error, Result};
+
+/// How much audio is decoded ahead of the output device.
+const BUFFER_AHEAD_SECS: f64 = 0.2;
+
+/// How often the worker wakes up while playing and the sink is full.
+const POLL_INTERVAL: Duration = Duration::from_millis(10);
+
+/// How often visualizer frames are sent, about 30 per second.
+const VISUALIZER_INTERVAL: Duration = Duration::from_millis(33);
+
+/// How far the output is remembered for the visualizer. Devices buffer more than
+/// [`BUFFER_AHEAD_SECS`] on top of it.
+const VISUALIZER_HISTORY_SECS: f64 = 1.0;
+
+/// Receives visualizer frames, and returns false once it wants no more.
+pub type VisualizerSink = Box<dyn FnMut(VisualizerFrame) -> bool + Send>;
+
+/// The next track is opened this many seconds before it starts, crossfade included,
+/// so that slow disks do not open a gap.
+const PRELOAD_SECS: f64 = 5.0;
+
+enum Command {
+    Load {
+        path: PathBuf,
+        autoplay: bool,
+        reply: Sender<Result<()>>,
+    },
+    Play,
+    Pause,
+    Toggle,
+    Stop,
+    Seek(f64),
+    SetVolume(f32),
+    SetEqualizer(EqualizerSettings),
+    SetNext {
+        path: Option<PathBuf>,
+        crossfade: bool,
+    },
+    SetCrossfade(CrossfadeSettings),
+    SetGains(HashMap<PathBuf, f32>),
+    SetVisualizer {
+        id: u32,
+        sink: VisualizerSink,
+    },
+    ClearVisualizer(u32),
+    Shutdown,
+}
+
+/// Handle to the playback engine.
+///
+/// Decoding and output happen on a dedicated thread, this handle only forwards
+/// commands to it and keeps a snapshot of the latest [`PlayerState`].
+pub struct Player {
+    commands: Sender<Command>,
+    state: Arc<Mutex<PlayerState>>,
+    worker: Option<JoinHandle<()>>,
+}
+
+impl Player {
+    /// Starts the engine thread.
+    ///
+    /// `open_sink` runs on the engine thread since audio streams are usually not `Send`.
+    /// If it fails, the engine falls back to a [`NullSink`].
+    pub fn spawn<S, E>(open_sink: S, events: E) -> Self
+    where
+        S: FnOnce() -> Result<Box<dyn AudioSink>> + Send + 'static,
+        E: PlayerEvents,
+    {
+        let (commands, receiver) = mpsc::channel();
+        let state = Arc::new(Mutex::new(PlayerState::default()));
+
+        let shared = state.clone();
+        let worker = thread::Builder::new()
+            .name("playback".into())
+            .spawn(move || {
+                let sink = open_sink().unwrap_or_else(|err| {
+                    log::error!("failed to open audio output, falling back to null sink: {err}");
+                    Box::new(NullSink::default())
+                });
+                Worker::new(receiver, shared, sink, events).run();
+            })
+            .expect("failed to spawn playback thread");
+
+        Self {
+            commands,
+            state,
+            worker: Some(worker),
+        }
+    }
+
+    fn send(&self, command: Command) -> Result<()> {
+        self.commands.send(command).map_err(|_| Error::PlayerGone)
+    }
+
+    /// Opens `path` and waits until it is ready to play.
+    pub fn load(&self, path: PathBuf, autoplay: bool) -> Result<()> {
+        let (reply, result) = mpsc::channel();
+        self.send(Command::Load {
+            path,
+            autoplay,
+            reply,
+        })?;
+        result.recv().map_err(|_| Error::PlayerGone)?
+    }
+
+    pub fn play(&self) -> Result<()> {
+        self.send(Command::Play)
+    }
+
+    pub fn pause(&self) -> Result<()> {
+        self.send(Command::Pause)
+    }
+
+    pub fn toggle(&self) -> Result<()> {
+        self.send(Command::Toggle)
+    }
+
+    pub fn stop(&self) -> Result<()> {
+        self.send(Command::Stop)
+    }
+
+    pub fn seek(&self, position: f64) -> Result<()> {
+        self.send(Command::Seek(position))
+    }
+
+    pub fn set_volume(&self, volume: f32) -> Result<()> {
+        self.send(Command::SetVolume(volume))
+    }
+
+    pub fn set_equalizer(&self, settings: EqualizerSettings) -> Result<()> {
+        self.send(Command::SetEqualizer(settings))
+    }
+
+    /// Sets the track played after the current one without a gap, or cross-faded
+    /// if `crossfade` is true and a crossfade duration is set.
+    pub fn set_next(&self, path: Option<PathBuf>, crossfade: bool) -> Result<()> {
+        self.send(Command::SetNext { path, crossfade })
+    }
+
+    pub fn set_crossfade(&self, settings: CrossfadeSettings) -> Result<()> {
+        self.send(Command::SetCrossfade(settings))
+    }
+
+    /// Sets the normalization gains of tracks in dB, replacing the previous ones.
+    /// Tracks without gain play at their own level.
+    pub fn set_gains(&self, gains: HashMap<PathBuf, f32>) -> Result<()> {
+        self.send(Command::SetGains(gains))
+    }
+
+    /// Sends frames of the playing audio to `sink` while playing, instead of the
+    /// previous sink. `id` names the sink for [`Player::clear_visualizer`].
+    pub fn set_visualizer(&self, id: u32, sink: VisualizerSink) -> Result<()> {
+        self.send(Command::SetVisualizer { id, sink })
+    }
+
+    /// Stops sending frames to the sink named `id`. A sink set after it keeps receiving
+    /// them, so that a late stop does not end a newer stream.
+    pub fn clear_visualizer(&self, id: u32) -> Result<()> {
+        self.send(Command::ClearVisualizer(id))
+    }
+
+    pub fn state(&self) -> PlayerState {
+        self.state.lock().unwrap().clone()
+    }
+}
+
+impl Drop for Player {
+    fn drop(&mut self) {
+        let _ = self.commands.send(Command::Shutdown);
+        if let Some(worker) = self.worker.take() {
+            let _ = worker.join();
+        }
+    }
+}
+
+/// A track being decoded, converted to the layout of the sink.
+struct Deck {
+    path: PathBuf,
+    source: Source,
+    converter: Converter,
+    /// Converted samples which have not been written to the sink yet.
+    pending: Vec<f32>,
+    channels: usize,
+    sample_rate: f64,
+    /// Linear normalization gain.
+    gain: f32,
+    /// Position of the first converted frame in seconds, moved by seeking.
+    start: f64,
+    /// Frames converted since `start`.
+    frames: u64,
+    /// Whether the source has been decoded to the end.
+    exhausted: bool,
+}
+
+impl Deck {
+    fn open(path: &Path, spec: OutputSpec, gains: &HashMap<PathBuf, f32>) -> Result<Self> {
+        let mut deck = Self {
+            path: path.to_owned(),
+            source: Source::open(path)?,
+            converter: Converter::new(spec),
+            pending: Vec::new(),
+            channels: spec.channels,
+            sample_rate: spec.sample_rate as f64,
+            gain: 1.0,
+            start: 0.0,
+            frames: 0,
+            exhausted: false,
+        };
+        deck.set_gain(gains);
+        Ok(deck)
+    }
+
+    /// Takes the gain of the track from `gains`. Samples which are already pending keep the old one.
+    fn set_gain(&mut self, gains: &HashMap<PathBuf, f32>) {
+        let decibels = gains.get(&self.path).copied().unwrap_or(0.0);
+        self.gain = 10f32.powf(decibels / 20.0);
+    }
+
+    fn duration(&self) -> Option<f64> {
+        self.source.duration()
+    }
+
+    fn pending_frames(&self) -> usize {
+        self.pending.len() / self.channels
+    }
+
+    /// Whether everything has been decoded and taken.
+    fn is_drained(&self) -> bool {
+        self.exhausted && self.pending.is_empty()
+    }
+
+    /// Seconds left after the frames taken so far, if the duration is known.
+    fn remaining(&self) -> Option<f64> {
+        let taken = self.frames - self.pending_frames() as u64;
+        self.duration()
+            .map(|duration| duration - self.start - taken as f64 / self.sample_rate)
+    }
+
+    /// Decodes until at least `frames` frames are pending or the source ends.
+    fn fill(&mut self, frames: usize) {
+        while !self.exhausted && self.pending_frames() < frames {
+            match self.source.next_chunk() {
+                Ok(Some(chunk)) => {
+                    let before = self.pending.len();
+                    self.converter.process(
+                        chunk.samples,
+                        chunk.sample_rate,
+                        chunk.channels,
+                        &mut self.pending,
+                    );
+                    let gain = self.gain;
+                    self.pending[before..]
+                        .iter_mut()
+                        .for_each(|sample| *sample *= gain);
+                    self.frames += ((self.pending.len() - before) / self.channels) as u64;
+                }
+                Ok(None) => self.exhausted = true,
+                Err(err) => {
+                    log::error!(
+                        "playback of {} stopped by a decoding error: {err}",
+                        self.path.display()
+                    );
+                    self.exhausted = true;
+                }
+            }
+        }
+    }
+
+    /// Moves up to `frames` pending frames to `output`.
+    fn take(&mut self, frames: usize, output: &mut Vec<f32>) {
+        let len = (frames.min(self.pending_frames())) * self.channels;
+        output.extend(self.pending.drain(..len));
+    }
+
+    /// Returns the position actually reached, see [`Source::seek`].
+    fn seek(&mut self, position: f64) -> Result<f64> {
+        let reached = self.source.seek(position)?;
+        self.converter.reset();
+        self.pending.clear();
+        self.start = reached;
+        self.frames = 0;
+        self.exhausted = false;
+        Ok(reached)
+    }
+}
+
+/// The track set by [`Player::set_next`].
+struct Next {
+    path: PathBuf,
+    crossfade: bool,
+    /// Opened ahead of time, see [`PRELOAD_SECS`].
+    deck: Option<Deck>,
+}
+
+/// The track fading out during a crossfade.
+struct Fade {
+    deck: Deck,
+    /// Length of the crossfade in frames.
+    length: u64,
+    /// Frames mixed so far.
+    done: u64,
+}
+
+/// Where a track decoded ahead starts in the written frames.
+struct Boundary {
+    frame: u64,
+    path: String,
+    duration: Option<f64>,
+    /// Whether the track has been cross-faded in, to set it again as next when seeking back.
+    crossfade: bool,
+}
+
+struct Worker<E: PlayerEvents> {
+    commands: Receiver<Command>,
+    shared: Arc<Mutex<PlayerState>>,
+    events: E,
+
+    sink: Box<dyn AudioSink>,
+    equalizer: Equalizer,
+    limiter: Limiter,
+    analyzer: Analyzer,
+    /// The visualizer sink and its id.
+    visualizer: Option<(u32, VisualizerSink)>,
+    last_visualizer_frame: Option<Instant>,
+    crossfade: CrossfadeSettings,
+    /// Normalization gains in dB by path, see [`Player::set_gains`].
+    gains: HashMap<PathBuf, f32>,
+    scratch: Vec<f32>,
+
+    /// The track being decoded. It runs ahead of the playing track near the end of a track.
+    deck: Option<Deck>,
+    fade: Option<Fade>,
+    next: Option<Next>,
+    /// Starts of the tracks which have been written but are not playing yet, oldest first.
+    boundaries: VecDeque<Boundary>,
+    /// Whether the last track has been decoded to the end.
+    exhausted: bool,
+
+    state: PlayerState,
+    /// Position of the playing track at `track_start`.
+    position_base: f64,
+    /// Frame of `frames_written` at which the playing track reached `position_base`.
+    track_start: u64,
+    /// Frames written to the sink since the last load or seek.
+    frames_written: u64,
+    last_position_update: Option<Instant>,
+}
+
+impl<E: PlayerEvents> Worker<E> {
+    fn new(
+        commands: Receiver<Command>,
+        shared: Arc<Mutex<PlayerState>>,
+        sink: Box<dyn AudioSink>,
+        events: E,
+    ) -> Self {
+        let state = shared.lock().unwrap().clone();
+        Self {
+            commands,
+            shared,
+            events,
+            equalizer: Equalizer::new(sink.spec().sample_rate, sink.spec().channels),
+            limiter: Limiter::new(sink.spec().sample_rate, sink.spec().channels),
+            analyzer: Analyzer::new(
+                sink.spec().sample_rate,
+                sink.spec().channels,
+                VISUALIZER_HISTORY_SECS,
+            ),
+            visualizer: None,
+            last_visualizer_frame: None,
+            sink,
+            crossfade: CrossfadeSettings::default(),
+            gains: HashMap::new(),
+            scratch: Vec::new(),
+            deck: None,
+            fade: None,
+            next: None,
+            boundaries: VecDeque::new(),
+            exhausted: false,
+            state,
+            position_base: 0.0,
+            track_start: 0,
+            frames_written: 0,
+            last_position_update: None,
+        }
+    }
+
+    fn run(mut self) {
+        loop {
+            let playing = self.state.status == PlaybackStatus::Playing;
+            let command = if self.needs_data() {
+                match self.commands.try_recv() {
+                    Ok(command) => Some(command),
+                    Err(TryRecvError::Empty) => None,
+                    Err(TryRecvError::Disconnected) => break,
+                }
+            } else if playing {
+                match self.commands.recv_timeout(POLL_INTERVAL) {
+                    Ok(command) => Some(command),
+                    Err(RecvTimeoutError::Timeout) => None,
+                    Err(RecvTimeoutError::Disconnected) => break,
+                }
+            } else {
+                match self.commands.recv() {
+                    Ok(command) => Some(command),
+                    Err(_) => break,
+                }
+            };
+
+            if let Some(command) = command {
+                if !self.handle(command) {
+                    break;
+                }
+                continue;
+            }
+
+            if self.needs_data() {
+                self.decode_next();
+            }
+            self.update_position();
+
+            if playing && self.exhausted && self.sink.buffered_frames() == 0 {
+                self.finish_track();
+            }
+        }
+    }
+
+    /// Returns false if the worker should exit.
+    fn handle(&mut self, command: Command) -> bool {
+        match command {
+            Command::Load {
+                path,
+                autoplay,
+                reply,
+            } => {
+                let result = self.load(&path);
+                if result.is_ok() {
+                    self.set_status(if autoplay {
+                        PlaybackStatus::Playing
+                    } else {
+                        PlaybackStatus::Paused
+                    });
+                }
+                let _ = reply.send(result);
+            }
+            Command::Play => self.play(),
+            Command::Pause => {
+                if self.state.status == PlaybackStatus::Playing {
+                    self.set_status(PlaybackStatus::Paused);
+                }
+            }
+            Command::Toggle => {
+                if self.state.status == PlaybackStatus::Playing {
+                    self.set_status(PlaybackStatus::Paused);
+                } else {
+                    self.play();
+                }
+            }
+            Command::Stop => {
+                if self.deck.is_some() {
+                    self.seek(0.0);
+                }
+                self.set_status(PlaybackStatus::Stopped);
+            }
+            Command::Seek(position) => {
+                self.seek(position);
+                self.publish();
+            }
+            Command::SetVolume(volume) => {
+                self.state.volume = volume.clamp(0.0, 1.0);
+                self.publish();
+            }
+            Command::SetEqualizer(settings) => self.equalizer.set_settings(settings),
+            Command::SetNext { path, crossfade } => self.set_next(path, crossfade),
+            Command::SetCrossfade(settings) => self.crossfade = settings,
+            Command::SetGains(gains) => {
+                self.gains = gains;
+                // The track fading out keeps its gain: the map no longer holds its path
+                // once the queue moved on, so re-gaining it would jump it to 0 dB.
+                let decks = self
+                    .deck
+                    .iter_mut()
+                    .chain(self.next.as_mut().and_then(|next| next.deck.as_mut()));
+                for deck in decks {
+                    deck.set_gain(&self.gains);
+                }
+            }
+            Command::SetVisualizer { id, sink } => self.visualizer = Some((id, sink)),
+            Command::ClearVisualizer(id) => {
+                if self
+                    .visualizer
+                    .as_ref()
+                    .is_some_and(|(current, _)| *current == id)
+                {
+                    self.visualizer = None;
+                }
+            }
+            Command::Shutdown => return false,
+        }
+        true
+    }
+
+    fn load(&mut self, path: &Path) -> Result<()> {
+        let deck = Deck::open(path, self.sink.spec(), &self.gains)?;
+
+        self.sink.clear();
+        self.equalizer.reset();
+        self.limiter.reset();
+        self.analyzer.reset();
+        self.state.path = Some(path.to_string_lossy().into_owned());
+        self.state.duration = deck.duration();
+        self.state.position = 0.0;
+        self.state.buffered = 0.0;
+        self.position_base = 0.0;
+        self.track_start = 0;
+        self.frames_written = 0;
+        self.exhausted = false;
+        self.deck = Some(deck);
+        self.fade = None;
+        self.boundaries.clear();
+
+        Ok(())
+    }
+
+    fn set_next(&mut self, path: Option<PathBuf>, crossfade: bool) {
+        match (&mut self.next, path) {
+            // Keep the preloaded track.
+            (Some(next), Some(path)) if next.path == path => next.crossfade = crossfade,
+            (next, path) => {
+                *next = path.map(|path| Next {
+                    path,
+                    crossfade,
+                    deck: None,
+                })
+            }
+        }
+        // The last track may have ended already, but still be playing.
+        if self.next.is_some() && self.deck.as_ref().is_some_and(Deck::is_drained) {
+            self.exhausted = false;
+        }
+    }
+
+    fn play(&mut self) {
+        if self.deck.is_none() {
+            return;
+        }
+        // Replay a finished track from the beginning.
+        if self.exhausted && self.state.status == PlaybackStatus::Stopped {
+            self.seek(0.0);
+        }
+        self.set_status(PlaybackStatus::Playing);
+    }
+
+    fn seek(&mut self, position: f64) {
+        // The decoder may have moved on to the next track already, go back to the playing one.
+        if let Some(boundary) = self.boundaries.front() {
+            let Some(playing) = self.state.path.clone() else {
+                return;
+            };
+            match Deck::open(playing.as_ref(), self.sink.spec(), &self.gains) {
+                Ok(deck) => {
+                    self.next = Some(Next {
+                        path: boundary.path.clone().into(),
+                        crossfade: boundary.crossfade,
+                        deck: None,
+                    });
+                    self.deck = Some(deck);
+                    self.boundaries.clear();
+                }
+                Err(err) => {
+                    log::warn!("failed to reopen {playing}: {err}");
+                    return;
+                }
+            }
+        }
+        self.fade = None;
+
+        let Some(deck) = self.deck.as_mut() else {
+            return;
+        };
+        let position = match self.state.duration {
+            Some(duration) => position.min(duration),
+            None => position,
+        };
+        match deck.seek(position) {
+            Ok(reached) => {
+                self.sink.clear();
+                self.equalizer.reset();
+                self.limiter.reset();
+                self.analyzer.reset();
+                self.position_base = reached;
+                self.track_start = 0;
+                self.frames_written = 0;
+                self.exhausted = false;
+                self.state.position = reached;
+                self.state.buffered = reached;
+            }
+            Err(err) => log::warn!("failed to seek to {position}: {err}"),
+        }
+    }
+
+    fn set_status(&mut self, status: PlaybackStatus) {
+        match status {
+            PlaybackStatus::Playing => self.sink.resume(),
+            _ => self.sink.pause(),
+        }
+        self.state.status = status;
+        self.publish();
+    }
+
+    fn needs_data(&self) -> bool {
+        let target = (self.sink.spec().sample_rate as f64 * BUFFER_AHEAD_SECS) as usize;
+        self.state.status == PlaybackStatus::Playing
+            && self.deck.is_some()
+            && !self.exhausted
+            && self.sink.buffered_frames() < target
+    }
+
+    fn decode_next(&mut self) {
+        self.preload_next();
+        self.start_crossfade();
+
+        let Some(deck) = self.deck.as_mut() else {
+            return;
+        };
+        deck.fill(1);
+        if deck.is_drained() && self.fade.is_none() {
+            self.advance();
+            return;
+        }
+
+        self.scratch.clear();
+        match self.fade.take() {
+            None => deck.take(usize::MAX, &mut self.scratch),
+            Some(mut fade) => {
+                mix(deck, &mut fade, self.crossfade, &mut self.scratch);
+                if fade.done < fade.length && !fade.deck.is_drained() {
+                    self.fade = Some(fade);
+                }
+            }
+        }
+        self.equalizer.process(&mut self.scratch);
+        // Before the volume, so that the visualizer does not shrink with it.
+        self.analyzer.push(&self.scratch);
+
+        let volume = self.state.volume;
+        self.scratch.iter_mut().for_each(|sample| *sample *= volume);
+        self.limiter.process(&mut self.scratch);
+        self.sink.write(&self.scratch);
+        self.frames_written += (self.scratch.len() / self.sink.spec().channels) as u64;
+    }
+
+    /// Opens the next track shortly before it is needed.
+    fn preload_next(&mut self) {
+        let Some(next) = self.next.as_mut().filter(|next| next.deck.is_none()) else {
+            return;
+        };
+        let lead = PRELOAD_SECS
+            + if next.crossfade {
+                self.crossfade.duration
+            } else {
+                0.0
+            };
+        let due = self.deck.as_ref().map_or(true, |deck| {
+            deck.exhausted || deck.remaining().is_some_and(|left| left < lead)
+        });
+        if !due {
+            return;
+        }
+
+        match Deck::open(&next.path, self.sink.spec(), &self.gains) {
+            Ok(deck) => next.deck = Some(deck),
+            Err(err) => {
+                log::error!(
+                    "failed to open the next track {}: {err}",
+                    next.path.display()
+                );
+                self.next = None;
+            }
+        }
+    }
+
+    /// Starts fading to the next track once the current one is about to end.
+    fn start_crossfade(&mut self) {
+        if self.fade.is_some() || self.crossfade.duration <= 0.0 {
+            return;
+        }
+        let Some(remaining) = self.deck.as_ref().and_then(Deck::remaining) else {
+            return;
+        };
+        let ready = self
+            .next
+            .as_ref()
+            .is_some_and(|next| next.crossfade && next.deck.is_some());
+        if !ready || remaining > self.crossfade.duration {
+            return;
+        }
+
+        let next = self.next.take().unwrap();
+        let incoming = next.deck.unwrap();
+        self.boundaries.push_back(Boundary {
+            frame: self.frames_written,
+            path: incoming.path.to_string_lossy().into_owned(),
+            duration: incoming.duration(),
+            crossfade: true,
+        });
+        let outgoing = self.deck.replace(incoming).unwrap();
+        self.fade = Some(Fade {
+            deck: outgoing,
+            length: ((remaining * self.sink.spec().sample_rate as f64) as u64).max(1),
+            done: 0,
+        });
+    }
+
+    /// Continues with the next track once the current one is decoded, without a gap.
+    fn advance(&mut self) {
+        let Some(next) = self.next.take() else {
+            self.exhausted = true;
+            return;
+        };
+        let deck = match next.deck {
+            Some(deck) => deck,
+            None => match Deck::open(&next.path, self.sink.spec(), &self.gains) {
+                Ok(deck) => deck,
+                Err(err) => {
+                    log::error!(
+                        "failed to open the next track {}: {err}",
+                        next.path.display()
+                    );
+                    self.exhausted = true;
+                    return;
+                }
+            },
+        };
+        self.boundaries.push_back(Boundary {
+            frame: self.frames_written,
+            path: deck.path.to_string_lossy().into_owned(),
+            duration: deck.duration(),
+            crossfade: false,
+        });
+        self.deck = Some(deck);
+    }
+
+    fn update_position(&mut self) {
+        let sample_rate = self.sink.spec().sample_rate as f64;
+        let played = self
+            .frames_written
+            .saturating_sub(self.sink.buffered_frames() as u64);
+
+        while let Some(boundary) = self.boundaries.front() {
+            if boundary.frame > played {
+                break;
+            }
+            let boundary = self.boundaries.pop_front().unwrap();
+            self.state.path = Some(boundary.path);
+            self.state.duration = boundary.duration;
+            self.position_base = 0.0;
+            self.track_start = boundary.frame;
+            if let Some(path) = &self.state.path {
+                self.events.track_advanced(path);
+            }
+            self.publish();
+        }
+
+        self.state.position =
+            self.position_base + played.saturating_sub(self.track_start) as f64 / sample_rate;
+        self.state.buffered = self.position_base
+            + self.frames_written.saturating_sub(self.track_start) as f64 / sample_rate;
+        if let Some(duration) = self.state.duration {
+            self.state.buffered = self.state.buffered.min(duration);
+        }
+
+        {
+            let mut shared = self.shared.lock().unwrap();
+            shared.position = self.state.position;
+            shared.buffered = self.state.buffered;
+        }
+
+        let due = self
+            .last_position_update
+            .map_or(true, |last| last.elapsed() >= POSITION_INTERVAL);
+        if self.state.status == PlaybackStatus::Playing && due {
+            self.last_position_update = Some(Instant::now());
+            self.events.position_changed(PositionUpdate {
+                position: self.state.position,
+                buffered: self.state.buffered,
+            });
+        }
+
+        self.send_visualizer_frame(played);
+    }
+
+    fn send_visualizer_frame(&mut self, played: u64) {
+        let Some((_, sink)) = self.visualizer.as_mut() else {
+            return;
+        };
+        let due = self
+            .last_visualizer_frame
+            .map_or(true, |last| last.elapsed() >= VISUALIZER_INTERVAL);
+        if self.state.status != PlaybackStatus::Playing || !due {
+            return;
+        }
+        self.last_visualizer_frame = Some(Instant::now());
+        if let Some(frame) = self.analyzer.analyze(played) {
+            if !sink(frame) {
+                self.visualizer = None;
+            }
+        }
+    }
+
+    fn finish_track(&mut self) {
+        if let Some(duration) = self.state.duration {
+            self.state.position = duration;
+            self.state.buffered = duration;
+        }
+        self.set_status(PlaybackStatus::Stopped);
+        if let Some(path) = &self.state.path {
+            self.events.track_ended(path);
+        }
+    }
+
+    fn publish(&mut self) {
+        *self.shared.lock().unwrap() = self.state.clone();
+        self.events.state_changed(&self.state);
+    }
+}
+
+/// Mixes the next frames of the incoming `deck` and the outgoing track of `fade` into `output`.
+fn mix(deck: &mut Deck, fade: &mut Fade, settings: CrossfadeSettings, output: &mut Vec<f32>) {
+    let channels = deck.channels;
+    fade.deck.fill(deck.pending_frames());
+    // A short incoming track may end first, the outgoing one fades out alone then.
+    let frames = if deck.is_drained() {
+        fade.deck.pending_frames()
+    } else {
+        deck.pending_frames().min(fade.deck.pending_frames())
+    };
+
+    let mut incoming = Vec::with_capacity(frames * channels);
+    let mut outgoing = Vec::with_capacity(frames * channels);
+    deck.take(frames, &mut incoming);
+    fade.deck.take(frames, &mut outgoing);
+    incoming.resize(frames * channels, 0.0);
+
+    for (i, (a, b)) in outgoing
+        .chunks_exact(channels)
+        .zip(incoming.chunks_exact(channels))
+        .enumerate()
+    {
+        let progress = (fade.done + i as u64) as f32 / fade.length as f32;
+        let (gain_out, gain_in) = settings.curve.gains(progress);
+        output.extend(a.iter().zip(b).map(|(a, b)| a * gain_out + b * gain_in));
+    }
+    fade.done += frames as u64;
+}
+
+#[cfg(test)]
+mod tests {
+    use std::fs;
+    use std::sync::atomic::{AtomicU64, Ordering};
+
+    use super::*;
+
+    const SAMPLE_RATE: u32 = 44100;
+
+    /// How long a test waits for an event before failing.
+    const TIMEOUT: Duration = Duration::from_secs(10);
+
+    #[derive(Debug)]
+    enum Event {
+        State(PlayerState),
+        Ended(String),
+        Advanced(String),
+    }
+
+    /// Forwards the events of the engine to the test thread. Positions are left out,
+    /// they are checked through [`Player::state`].
+    struct Recorder(Sender<Event>);
+
+    impl PlayerEvents for Recorder {
+        fn state_changed(&self, state: &PlayerState) {
+            let _ = self.0.send(Event::State(state.clone()));
+        }
+
+        fn position_changed(&self, _update: PositionUpdate) {}
+
+        fn track_ended(&self, path: &str) {
+            let _ = self.0.send(Event::Ended(path.to_owned()));
+        }
+
+        fn track_advanced(&self, path: &str) {
+            let _ = self.0.send(Event::Advanced(path.to_owned()));
+        }
+    }
+
+    /// A stereo 16 bit WAV file in the temp dir, removed when dropped.
+    struct TempWav(PathBuf);
+
+    impl TempWav {
+        fn new(name: &str, secs: f64) -> Self {
+            let path = std::env::temp_dir().join(format!(
+                "hachi-player-engine-{}-{name}.wav",
+                std::process::id()
+            ));
+            let frames = (secs * SAMPLE_RATE as f64) as u32;
+            let data_len = frames * 4;
+
+            let mut data = Vec::with_capacity(44 + data_len as usize);
+            data.extend_from_slice(b"RIFF");
+            data.extend_from_slice(&(36 + data_len).to_le_bytes());
+            data.extend_from_slice(b"WAVEfmt ");
+            data.extend_from_slice(&16u32.to_le_bytes());
+            data.extend_from_slice(&1u16.to_le_bytes()); // PCM
+            data.extend_from_slice(&2u16.to_le_bytes());
+            data.extend_from_slice(&SAMPLE_RATE.to_le_bytes());
+            data.extend_from_slice(&(SAMPLE_RATE * 4).to_le_bytes());
+            data.extend_from_slice(&4u16.to_le_bytes());
+            data.extend_from_slice(&16u16.to_le_bytes());
+            data.extend_from_slice(b"data");
+            data.extend_from_slice(&data_len.to_le_bytes());
+            for _ in 0..frames * 2 {
+                data.extend_from_slice(&8192i16.to_le_bytes());
+            }
+            fs::write(&path, data).unwrap();
+            Self(path)
+        }
+
+        fn path(&self) -> PathBuf {
+            self.0.clone()
+        }
+
+        fn name(&self) -> String {
+            self.0.to_string_lossy().into_owned()
+        }
+    }
+
+    impl Drop for TempWav {
+        fn drop(&mut self) {
+            let _ = fs::remove_file(&self.0);
+        }
+    }
+
+    /// Starts an engine writing to a [`NullSink`], and returns the counter of the frames written.
+    fn spawn() -> (Player, Receiver<Event>, Arc<AtomicU64>) {
+        let sink = NullSink::new(OutputSpec {
+            sample_rate: SAMPLE_RATE,
+            channels: 2,
+        });
+        let written = sink.counter();
+        let (events, received) = mpsc::channel();
+        let player = Player::spawn(
+            move || Ok(Box::new(sink) as Box<dyn AudioSink>),
+            Recorder(events),
+        );
+        (player, received, written)
+    }
+
+    /// Skips events until one matches, and returns the events skipped along with it.
+    fn wait_for(events: &Receiver<Event>, matches: impl Fn(&Event) -> bool) -> Vec<Event> {
+        let mut seen = Vec::new();
+        loop {
+            match events.recv_timeout(TIMEOUT) {
+                Ok(event) => {
+                    let found = matches(&event);
+                    seen.push(event);
+                    if found {
+                        return seen;
+                    }
+                }
+                Err(_) => panic!("no matching event within {TIMEOUT:?}, got {seen:?}"),
+            }
+        }
+    }
+
+    fn is_status(event: &Event, status: PlaybackStatus) -> bool {
+        matches!(event, Event::State(state) if state.status == status)
+    }
+
+    #[test]
+    fn plays_a_track_to_the_end() {
+        let track = TempWav::new("to-the-end", 1.0);
+        let (player, events, written) = spawn();
+
+        player.load(track.path(), true).unwrap();
+        wait_for(&events, |event| is_status(event, PlaybackStatus::Playing));
+        wait_for(
+            &events,
+            |event| matches!(event, Event::Ended(path) if *path == track.name()),
+        );
+
+        assert_eq!(written.load(Ordering::Relaxed), SAMPLE_RATE as u64);
+        let state = player.state();
+        assert_eq!(state.status, PlaybackStatus::Stopped);
+        assert_eq!(state.path, Some(track.name()));
+        assert_eq!(state.duration, Some(1.0));
+        assert_eq!(state.position, 1.0);
+    }
+
+    #[test]
+    fn loads_paused_and_plays_on_request() {
+        let track = TempWav::new("paused", 0.5);
+        let (player, events, written) = spawn();
+
+        player.load(track.path(), false).unwrap();
+        wait_for(&events, |event| is_status(event, PlaybackStatus::Paused));
+        thread::sleep(Duration::from_millis(50));
+        assert_eq!(written.load(Ordering::Relaxed), 0);
+
+        player.toggle().unwrap();
+        wait_for(&events, |event| is_status(event, PlaybackStatus::Playing));
+        wait_for(&events, |event| matches!(event, Event::Ended(_)));
+        assert_eq!(written.load(Ordering::Relaxed), SAMPLE_RATE as u64 / 2);
+    }
+
+    #[test]
+    fn pauses_while_playing() {
+        // Long enough not to be decoded completely before the pause arrives.
+        let track = TempWav::new("pause", 30.0);
+        let (player, events, written) = spawn();
+
+        player.load(track.path(), true).unwrap();
+        player.pause().unwrap();
+        let seen = wait_for(&events, |event| is_status(event, PlaybackStatus::Paused));
+        assert!(!seen.iter().any(|event| matches!(event, Event::Ended(_))));
+
+        let before = written.load(Ordering::Relaxed);
+        thread::sleep(Duration::from_millis(50));
+        assert_eq!(written.load(Ordering::Relaxed), before);
+        assert!(before < 30 * SAMPLE_RATE as u64);
+        assert_eq!(player.state().status, PlaybackStatus::Paused);
+    }
+
+    #[test]
+    fn seeks_and_plays_the_rest() {
+        let track = TempWav::new("seek", 1.0);
+        let (player, events, written) = spawn();
+
+        player.load(track.path(), false).unwrap();
+        wait_for(&events, |event| is_status(event, PlaybackStatus::Paused));
+        player.seek(0.5).unwrap();
+        let seen = wait_for(&events, |event| is_status(event, PlaybackStatus::Paused));
+        let Some(Event::State(state)) = seen.last() else {
+            unreachable!()
+        };
+        let reached = state.position;
+        assert!((0.45..=0.5).contains(&reached), "reached {reached}");
+
+        player.play().unwrap();
+        wait_for(&events, |event| matches!(event, Event::Ended(_)));
+        let expected = ((1.0 - reached) * SAMPLE_RATE as f64).round() as u64;
+        assert_eq!(written.load(Ordering::Relaxed), expected);
+    }
+
+    #[test]
+    fn continues_into_the_next_track() {
+        let first = TempWav::new("first", 0.5);
+        let second = TempWav::new("second", 0.5);
+        let (player, events, written) = spawn();
+
+        player.load(first.path(), false).unwrap();
+        player.set_next(Some(second.path()), false).unwrap();
+        player.play().unwrap();
+
+        let seen = wait_for(&events, |event| matches!(event, Event::Ended(_)));
+        let advanced = seen
+            .iter()
+            .position(|event| matches!(event, Event::Advanced(path) if *path == second.name()));
+        assert!(
+            advanced.is_some(),
+            "not advanced to the second track: {seen:?}"
+        );
+        assert!(matches!(seen.last(), Some(Event::Ended(path)) if *path == second.name()));
+        assert!(!seen
+            .iter()
+            .any(|event| matches!(event, Event::Ended(path) if *path == first.name())));
+
+        assert_eq!(written.load(Ordering::Relaxed), SAMPLE_RATE as u64);
+        assert_eq!(player.state().path, Some(second.name()));
+    }
+
+    #[test]
+    fn cross_fades_into_the_next_track() {
+        let first = TempWav::new("fade-first", 0.5);
+        let second = TempWav::new("fade-second", 0.5);
+        let (player, events, written) = spawn();
+
+        player
+            .set_crossfade(CrossfadeSettings {
+                duration: 0.2,
+                ..Default::default()
+            })
+            .unwrap();
+        player.load(first.path(), false).unwrap();
+        player.set_next(Some(second.path()), true).unwrap();
+        player.play().unwrap();
+
+        let seen = wait_for(&events, |event| matches!(event, Event::Ended(_)));
+        assert!(seen
+            .iter()
+            .any(|event| matches!(event, Event::Advanced(path) if *path == second.name())));
+        // The tracks overlap by at most the crossfade duration.
+        let written = written.load(Ordering::Relaxed);
+        let overlap = (SAMPLE_RATE as u64).saturating_sub(written);
+        assert!(
+            overlap > 0 && overlap <= SAMPLE_RATE as u64 / 5,
+            "wrote {written} frames"
+        );
+    }
+
+    #[test]
+    fn plays_tracks_without_crossfade_back_to_back() {
+        // As the frontend sets the next track of the same album.
+        let first = TempWav::new("album-first", 0.5);
+        let second = TempWav::new("album-second", 0.5);
+        let (player, events, written) = spawn();
+
+        player
+            .set_crossfade(CrossfadeSettings {
+                duration: 0.2,
+                ..Default::default()
+            })
+            .unwrap();
+        player.load(first.path(), false).unwrap();
+        player.set_next(Some(second.path()), false).unwrap();
+        player.play().unwrap();
+
+        wait_for(
+            &events,
+            |event| matches!(event, Event::Ended(path) if *path == second.name()),
+        );
+        assert_eq!(written.load(Ordering::Relaxed), SAMPLE_RATE as u64);
+    }
+}
@@ -0,0 +1,213 @@
+//! A graphic equalizer with optional parametric bands.
+//!
+//! Every band is a biquad filter with coefficients from the
+//! [Audio EQ Cookbook](https://www.w3.org/TR/audio-eq-cookbook/), applied in series
+//! after the preamp. Filters run on the converted stream, so they are designed for
+//! the sample rate of the output device.
+
+use std::f64::consts::PI;
+
+use serde::{Deserialize, Serialize};
+
+/// Center frequencies of the graphic bands in Hz.
+pub const GRAPHIC_FREQUENCIES: [f64; 10] = [
+    31.0, 62.0, 125.0, 250.0, 500.0, 1000.0, 2000.0, 4000.0, 8000.0, 16000.0,
+];
+
+/// Quality of the graphic bands, about one octave wide.
+const GRAPHIC_Q: f64 = 1.41;
+
+/// Gains are limited to this many dB in either direction.
+pub const MAX_GAIN_DB: f32 = 24.0;
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum FilterKind {
+    Peaking,
+    LowShelf,
+    HighShelf,
+}
+
+#[derive(Clone, Copy, Debug, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ParametricBand {
+    pub kind: FilterKind,
+    /// Center or corner frequency in Hz.
+    pub frequency: f64,
+    pub gain: f32,
+    pub q: f64,
+}
+
+#[derive(Clone, Debug, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct EqualizerSettings {
+    pub enabled: bool,
+    /// Gain applied before the filters in dB, usually negative to leave headroom for boosts.
+    pub preamp: f32,
+    /// Gains of the bands at [`GRAPHIC_FREQUENCIES`] in dB.
+    pub bands: [f32; 10],
+    #[serde(default)]
+    pub parametric: Vec<ParametricBand>,
+}
+
+impl Default for EqualizerSettings {
+    fn default() -> Self {
+        Self {
+            enabled: false,
+            preamp: 0.0,
+            bands: [0.0; 10],
+            parametric: Vec::new(),
+        }
+    }
+}
+
+fn db_to_gain(db: f32) -> f32 {
+    10f32.powf(db.clamp(-MAX_GAIN_DB, MAX_GAIN_DB) / 20.0)
+}
+
+/// Normalized biquad coefficients, with `a0` divided out.
+#[derive(Clone, Copy, Debug)]
+struct Coefficients {
+    b0: f32,
+    b1: f32,
+    b2: f32,
+    a1: f32,
+    a2: f32,
+}
+
+impl Coefficients {
+    fn new(kind: FilterKind, frequency: f64, gain_db: f32, q: f64, sample_rate: f64) -> Self {
+        // Keep the frequency below Nyquist so the filter stays stable on low output rates.
+        let frequency = frequency.clamp(10.0, sample_rate * 0.45);
+        let a = 10f64.powf(gain_db.clamp(-MAX_GAIN_DB, MAX_GAIN_DB) as f64 / 40.0);
+        let w0 = 2.0 * PI * frequency / sample_rate;
+        let (sin, cos) = w0.sin_cos();
+        let alpha = sin / (2.0 * q.max(0.05));
+
+        let (b0, b1, b2, a0, a1, a2) = match kind {
+            FilterKind::Peaking => (
+                1.0 + alpha * a,
+                -2.0 * cos,
+                1.0 - alpha * a,
+                1.0 + alpha / a,
+                -2.0 * cos,
+                1.0 - alpha / a,
+            ),
+            FilterKind::LowShelf => {
+                let root = 2.0 * a.sqrt() * alpha;
+                (
+                    a * ((a + 1.0) - (a - 1.0) * cos + root),
+                    2.0 * a * ((a - 1.0) - (a + 1.0) * cos),
+                    a * ((a + 1.0) - (a - 1.0) * cos - root),
+                    (a + 1.0) + (a - 1.0) * cos + root,
+                    -2.0 * ((a - 1.0) + (a + 1.0) * cos),
+                    (a + 1.0) + (a - 1.0) * cos - root,
+                )
+            }
+            FilterKind::HighShelf => {
+                let root = 2.0 * a.sqrt() * alpha;
+                (
+                    a * ((a + 1.0) + (a - 1.0) * cos + root),
+                    -2.0 * a * ((a - 1.0) + (a + 1.0) * cos),
+                    a * ((a + 1.0) + (a - 1.0) * cos - root),
+                    (a + 1.0) - (a - 1.0) * cos + root,
+                    2.0 * ((a - 1.0) - (a + 1.0) * cos),
+                    (a + 1.0) - (a - 1.0) * cos - root,
+                )
+            }
+        };
+
+        Self {
+            b0: (b0 / a0) as f32,
+            b1: (b1 / a0) as f32,
+            b2: (b2 / a0) as f32,
+            a1: (a1 / a0) as f32,
+            a2: (a2 / a0) as f32,
+        }
+    }
+}
+
+/// A biquad filter with separate state for every channel, in transposed direct form II.
+struct Biquad {
+    coefficients: Coefficients,
+    state: Vec<[f32; 2]>,
+}
+
+impl Biquad {
+    fn process(&mut self, samples: &mut [f32], channels: usize) {
+        let Coefficients { b0, b1, b2, a1, a2 } = self.coefficients;
+        for frame in samples.chunks_exact_mut(channels) {
+            for (sample, state) in frame.iter_mut().zip(self.state.iter_mut()) {
+                let input = *sample;
+                let output = b0 * input + state[0];
+                state[0] = b1 * input - a1 * output + state[1];
+                state[1] = b2 * input - a2 * output;
+                *sample = output;
+            }
+        }
+    }
+}
+
+pub struct Equalizer {
+    settings: EqualizerSettings,
+    sample_rate: u32,
+    channels: usize,
+    preamp: f32,
+    filters: Vec<Biquad>,
+}
+
+impl Equalizer {
+    pub fn new(sample_rate: u32, channels: usize) -> Self {
+        Self {
+            settings: EqualizerSettings::default(),
+            sample_rate,
+            channels,
+            preamp: 1.0,
+            filters: Vec::new(),
+        }
+    }
+
+    /// Redesigns the filters. Bands at 0 dB are skipped.
+    pub fn set_settings(&mut self, settings: EqualizerSettings) {
+        let sample_rate = self.sample_rate as f64;
+        let graphic = GRAPHIC_FREQUENCIES
+            .iter()
+            .zip(settings.bands)
+            .map(|(&frequency, gain)| (FilterKind::Peaking, frequency, gain, GRAPHIC_Q));
+        let parametric = settings
+            .parametric
+            .iter()
+            .map(|band| (band.kind, band.frequency, band.gain, band.q));
+
+        self.filters = graphic
+            .chain(parametric)
+            .filter(|(_, _, gain, _)| *gain != 0.0)
+            .map(|(kind, frequency, gain, q)| Biquad {
+                coefficients: Coefficients::new(kind, frequency, gain, q, sample_rate),
+                state: vec![[0.0; 2]; self.channels],
+            })
+            .collect();
+        self.preamp = db_to_gain(settings.preamp);
+        self.settings = settings;
+    }
+
+    /// Clears the filter state, e.g. after seeking or switching tracks.
+    pub fn reset(&mut self) {
+        for filter in &mut self.filters {
+            filter.state.iter_mut().for_each(|state| *state = [0.0; 2]);
+        }
+    }
+
+    /// Filters interleaved samples in place.
+    pub fn process(&mut self, samples: &mut [f32]) {
+        if !self.settings.enabled {
+            return;
+        }
+        if self.preamp != 1.0 {
+            samples.iter_mut().for_each(|sample| *sample *= self.preamp);
+        }
+        for filter in &mut self.filters {
+            filter.process(samples, self.channels);
+        }
+    }
+}
@@ -0,0 +1,46 @@
+//! Keeps the output below full scale, after normalization gains, the equalizer and
+//! crossfades may have pushed it over.
+
+/// Level the output is held below.
+const THRESHOLD: f32 = 0.98;
+
+/// Time for the gain to recover most of the way after a peak.
+const RELEASE_SECS: f32 = 0.2;
+
+/// A peak limiter reacting at once to peaks and recovering slowly.
+///
+/// It has no lookahead, so it bends the waveform of the loudest samples a little,
+/// but it is inaudible as long as it rarely kicks in.
+pub struct Limiter {
+    channels: usize,
+    /// Share of the missing gain recovered per frame.
+    release: f32,
+    gain: f32,
+}
+
+impl Limiter {
+    pub fn new(sample_rate: u32, channels: usize) -> Self {
+        Self {
+            channels,
+            release: 1.0 - (-1.0 / (RELEASE_SECS * sample_rate as f32)).exp(),
+            gain: 1.0,
+        }
+    }
+
+    pub fn reset(&mut self) {
+        self.gain = 1.0;
+    }
+
+    pub fn process(&mut self, samples: &mut [f32]) {
+        for frame in samples.chunks_exact_mut(self.channels) {
+            let peak = frame
+                .iter()
+                .fold(0.0f32, |peak, sample| peak.max(sample.abs()));
+            self.gain += (1.0 - self.gain) * self.release;
+            if peak * self.gain > THRESHOLD {
+                self.gain = THRESHOLD / peak;
+            }
+            frame.iter_mut().for_each(|sample| *sample *= self.gain);
+        }
+    }
+}
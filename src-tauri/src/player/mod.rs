@@ -0,0 +1,122 @@
+//! The audio playback engine.
+//!
+//! [`Player`] decodes files with symphonia on its own thread and writes them to an
+//! [`AudioSink`](sink::AudioSink). State changes are reported through [`PlayerEvents`],
+//! which the app forwards to the frontend as Tauri events.
+//!
+//! The track queued with [`Player::set_next`] follows the current one without a gap,
+//! or with a crossfade.
+//!
+//! While the frontend shows the visualizer, [`analyzer`] sends it the spectrum of what
+//! is heard.
+
+pub mod analyzer;
+pub mod commands;
+mod convert;
+pub mod crossfade;
+mod engine;
+pub mod equalizer;
+mod limiter;
+pub mod sink;
+pub mod source;
+
+use std::time::Duration;
+
+use serde::Serialize;
+use tauri::{AppHandle, Emitter};
+
+pub use engine::{Player, VisualizerSink};
+
+#[derive(Clone, Copy, Debug, Default, PartialEq, Eq, Serialize)]
+#[serde(rename_all = "lowercase")]
+pub enum PlaybackStatus {
+    #[default]
+    Stopped,
+    Playing,
+    Paused,
+}
+
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PlayerState {
+    pub status: PlaybackStatus,
+    /// Path of the loaded file.
+    pub path: Option<String>,
+    /// Playback position in seconds.
+    pub position: f64,
+    /// Position up to which the file has been decoded, in seconds.
+    pub buffered: f64,
+    /// Duration of the loaded file in seconds, if known.
+    pub duration: Option<f64>,
+    /// Linear gain between 0 and 1.
+    pub volume: f32,
+}
+
+impl Default for PlayerState {
+    fn default() -> Self {
+        Self {
+            status: PlaybackStatus::Stopped,
+            path: None,
+            position: 0.0,
+            buffered: 0.0,
+            duration: None,
+            volume: 1.0,
+        }
+    }
+}
+
+/// Payload of [`EVENT_POSITION`], sent periodically while playing.
+#[derive(Clone, Copy, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PositionUpdate {
+    pub position: f64,
+    pub buffered: f64,
+}
+
+/// Receives notifications from the engine thread.
+pub trait PlayerEvents: Send + 'static {
+    fn state_changed(&self, state: &PlayerState);
+    /// Called at most every [`POSITION_INTERVAL`] while playing.
+    fn position_changed(&self, update: PositionUpdate);
+    fn track_ended(&self, path: &str);
+    /// Called when playback continued into the track set by [`Player::set_next`].
+    fn track_advanced(&self, path: &str);
+}
+
+pub const EVENT_STATE: &str = "player://state";
+pub const EVENT_POSITION: &str = "player://position";
+pub const EVENT_TRACK_ENDED: &str = "player://track-ended";
+pub const EVENT_TRACK_ADVANCED: &str = "player://track-advanced";
+
+/// How often the position is reported while playing.
+/// The frontend interpolates in between.
+pub const POSITION_INTERVAL: Duration = Duration::from_millis(250);
+
+/// Forwards engine notifications to the webview.
+pub struct AppEvents(pub AppHandle);
+
+impl PlayerEvents for AppEvents {
+    fn state_changed(&self, state: &PlayerState) {
+        if let Err(err) = self.0.emit(EVENT_STATE, state) {
+            log::warn!("failed to emit {EVENT_STATE}: {err}");
+        }
+    }
+
+    fn position_changed(&self, update: PositionUpdate) {
+        if let Err(err) = self.0.emit(EVENT_POSITION, update) {
+            log::warn!("failed to emit {EVENT_POSITION}: {err}");
+        }
+    }
+
+    fn track_ended(&self, path: &str) {
+        if let Err(err) = self.0.emit(EVENT_TRACK_ENDED, path) {
+            log::warn!("failed to emit {EVENT_TRACK_ENDED}: {err}");
+        }
+    }
+
+    fn track_advanced(&self, path: &str) {
+        if let Err(err) = self.0.emit(EVENT_TRACK_ADVANCED, path) {
+            log::warn!("failed to emit {EVENT_TRACK_ADVANCED}: {err}");
+        }
+    }
+}
@@ -0,0 +1,187 @@
+use std::collections::VecDeque;
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::{Arc, Mutex};
+
+use cpal::traits::{DeviceTrait, HostTrait, StreamTrait};
+use cpal::{FromSample, Sample, SampleFormat, SizedSample};
+
+use crate::error::{Error, Result};
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+pub struct OutputSpec {
+    pub sample_rate: u32,
+    pub channels: usize,
+}
+
+impl Default for OutputSpec {
+    fn default() -> Self {
+        Self {
+            sample_rate: 44100,
+            channels: 2,
+        }
+    }
+}
+
+/// Where the engine writes its samples to.
+///
+/// Writing never blocks: the engine polls [`AudioSink::buffered_frames`] and only
+/// decodes more audio once the sink runs low.
+pub trait AudioSink {
+    fn spec(&self) -> OutputSpec;
+
+    /// Queues interleaved samples in the layout given by [`AudioSink::spec`].
+    fn write(&mut self, samples: &[f32]);
+
+    /// Number of frames queued but not played yet.
+    fn buffered_frames(&self) -> usize;
+
+    fn pause(&mut self);
+    fn resume(&mut self);
+
+    /// Drops everything queued.
+    fn clear(&mut self);
+}
+
+/// Plays audio through the default output device of the system.
+pub struct CpalSink {
+    stream: cpal::Stream,
+    queue: Arc<Mutex<VecDeque<f32>>>,
+    spec: OutputSpec,
+}
+
+impl CpalSink {
+    pub fn open_default() -> Result<Self> {
+        let device = cpal::default_host()
+            .default_output_device()
+            .ok_or_else(|| Error::Output("no output device available".into()))?;
+        let config = device
+            .default_output_config()
+            .map_err(|err| Error::Output(err.to_string()))?;
+
+        let spec = OutputSpec {
+            sample_rate: config.sample_rate().0,
+            channels: config.channels() as usize,
+        };
+        let queue = Arc::new(Mutex::new(VecDeque::new()));
+
+        let stream = match config.sample_format() {
+            SampleFormat::F32 => build_stream::<f32>(&device, &config.into(), queue.clone()),
+            SampleFormat::I16 => build_stream::<i16>(&device, &config.into(), queue.clone()),
+            SampleFormat::U16 => build_stream::<u16>(&device, &config.into(), queue.clone()),
+            SampleFormat::I32 => build_stream::<i32>(&device, &config.into(), queue.clone()),
+            format => {
+                return Err(Error::Output(format!(
+                    "unsupported sample format {format:?}"
+                )))
+            }
+        }?;
+        stream
+            .play()
+            .map_err(|err| Error::Output(err.to_string()))?;
+
+        Ok(Self {
+            stream,
+            queue,
+            spec,
+        })
+    }
+}
+
+fn build_stream<T>(
+    device: &cpal::Device,
+    config: &cpal::StreamConfig,
+    queue: Arc<Mutex<VecDeque<f32>>>,
+) -> Result<cpal::Stream>
+where
+    T: SizedSample + FromSample<f32>,
+{
+    device
+        .build_output_stream(
+            config,
+            move |data: &mut [T], _: &cpal::OutputCallbackInfo| {
+                let mut queue = queue.lock().unwrap();
+                for sample in data.iter_mut() {
+                    *sample = T::from_sample(queue.pop_front().unwrap_or(0.0));
+                }
+            },
+            |err| log::error!("audio output stream error: {err}"),
+            None,
+        )
+        .map_err(|err| Error::Output(err.to_string()))
+}
+
+impl AudioSink for CpalSink {
+    fn spec(&self) -> OutputSpec {
+        self.spec
+    }
+
+    fn write(&mut self, samples: &[f32]) {
+        self.queue.lock().unwrap().extend(samples);
+    }
+
+    fn buffered_frames(&self) -> usize {
+        self.queue.lock().unwrap().len() / self.spec.channels
+    }
+
+    fn pause(&mut self) {
+        if let Err(err) = self.stream.pause() {
+            log::warn!("failed to pause output stream: {err}");
+        }
+    }
+
+    fn resume(&mut self) {
+        if let Err(err) = self.stream.play() {
+            log::warn!("failed to resume output stream: {err}");
+        }
+    }
+
+    fn clear(&mut self) {
+        self.queue.lock().unwrap().clear();
+    }
+}
+
+/// Discards every sample immediately.
+///
+/// Used when no output device is available and for running the engine headlessly,
+/// where [`NullSink::counter`] tells how many frames have been "played".
+#[derive(Default)]
+pub struct NullSink {
+    spec: OutputSpec,
+    frames_written: Arc<AtomicU64>,
+}
+
+impl NullSink {
+    pub fn new(spec: OutputSpec) -> Self {
+        Self {
+            spec,
+            frames_written: Default::default(),
+        }
+    }
+
+    pub fn counter(&self) -> Arc<AtomicU64> {
+        self.frames_written.clone()
+    }
+}
+
+impl AudioSink for NullSink {
+    fn spec(&self) -> OutputSpec {
+        self.spec
+    }
+
+    fn write(&mut self, samples: &[f32]) {
+        self.frames_written.fetch_add(
+            (samples.len() / self.spec.channels) as u64,
+            Ordering::Relaxed,
+        );
+    }
+
+    fn buffered_frames(&self) -> usize {
+        0
+    }
+
+    fn pause(&mut self) {}
+
+    fn resume(&mut self) {}
+
+    fn clear(&mut self) {}
+}
@@ -0,0 +1,314 @@
+use std::fs::File;
+use std::io::ErrorKind;
+use std::ops::Range;
+use std::path::Path;
+use std::sync::OnceLock;
+
+use symphonia::core::audio::{SampleBuffer, SignalSpec};
+use symphonia::core::codecs::{CodecRegistry, Decoder, DecoderOptions, CODEC_TYPE_NULL};
+use symphonia::core::errors::Error as SymphoniaError;
+use symphonia::core::formats::{FormatOptions, FormatReader, SeekMode, SeekTo};
+use symphonia::core::io::MediaSourceStream;
+use symphonia::core::meta::{MetadataOptions, MetadataRevision};
+use symphonia::core::probe::Hint;
+use symphonia::core::units::{Time, TimeBase};
+
+use crate::error::{Error, Result};
+
+/// Codecs enabled in symphonia, plus libopus for Opus streams which symphonia
+/// cannot decode on its own.
+fn codec_registry() -> &'static CodecRegistry {
+    static REGISTRY: OnceLock<CodecRegistry> = OnceLock::new();
+    REGISTRY.get_or_init(|| {
+        let mut registry = CodecRegistry::new();
+        symphonia::default::register_enabled_codecs(&mut registry);
+        registry.register_all::<symphonia_adapter_libopus::OpusDecoder>();
+        registry
+    })
+}
+
+pub(crate) fn time_to_secs(time: Time) -> f64 {
+    time.seconds as f64 + time.frac
+}
+
+/// Encoder delay and padding of a file, from an `iTunSMPB` tag.
+///
+/// symphonia trims the delay and padding stored in LAME headers by itself, but
+/// not those iTunes and many AAC encoders write in this tag.
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+struct Gapless {
+    /// Frames of silence added by the encoder at the start.
+    delay: u64,
+    /// Frames of actual audio, the rest is padding.
+    frames: u64,
+}
+
+impl Gapless {
+    /// Parses a value like ` 00000000 00000840 000001C0 0000000000A3E9C0 ...`,
+    /// whose second and fourth fields are the delay and the length in hex.
+    fn parse(value: &str) -> Option<Self> {
+        let fields = value
+            .split_whitespace()
+            .map(|field| u64::from_str_radix(field, 16))
+            .collect::<std::result::Result<Vec<_>, _>>()
+            .ok()?;
+        let (delay, frames) = (*fields.get(1)?, *fields.get(3)?);
+        (frames > 0).then_some(Self { delay, frames })
+    }
+
+    /// Frames to keep of a chunk of `len` frames starting at frame `first` of the stream,
+    /// `None` once the audio is over. The range is empty for chunks of delay only.
+    fn keep(self, first: u64, len: usize) -> Option<Range<usize>> {
+        let end = self.delay + self.frames;
+        if first >= end {
+            return None;
+        }
+        let len = len as u64;
+        let start = self.delay.saturating_sub(first).min(len);
+        Some(start as usize..(end - first).min(len) as usize)
+    }
+
+    fn find(revision: &MetadataRevision) -> Option<Self> {
+        revision
+            .tags()
+            .iter()
+            .find(|tag| tag.key.to_ascii_lowercase().ends_with("itunsmpb"))
+            .and_then(|tag| Self::parse(&tag.value.to_string()))
+    }
+}
+
+/// A block of decoded interleaved samples.
+pub struct Chunk<'a> {
+    pub samples: &'a [f32],
+    pub sample_rate: u32,
+    pub channels: usize,
+}
+
+/// A decoded audio file.
+pub struct Source {
+    format: Box<dyn FormatReader>,
+    decoder: Box<dyn Decoder>,
+    track_id: u32,
+    time_base: Option<TimeBase>,
+    sample_rate: Option<u32>,
+    duration: Option<f64>,
+    gapless: Option<Gapless>,
+    /// Frames decoded since the start of the stream, including the encoder delay.
+    decoded_frames: u64,
+
+    buffer: Option<SampleBuffer<f32>>,
+    buffer_spec: Option<SignalSpec>,
+    buffer_frames: u64,
+}
+
+impl Source {
+    pub fn open(path: &Path) -> Result<Self> {
+        let file = File::open(path)?;
+        let stream = MediaSourceStream::new(Box::new(file), Default::default());
+
+        let mut hint = Hint::new();
+        if let Some(extension) = path.extension().and_then(|ext| ext.to_str()) {
+            hint.with_extension(extension);
+        }
+
+        let format_options = FormatOptions {
+            enable_gapless: true,
+            ..Default::default()
+        };
+        let probed = symphonia::default::get_probe().format(
+            &hint,
+            stream,
+            &format_options,
+            &MetadataOptions::default(),
+        )?;
+        let mut metadata = probed.metadata;
+        let mut format = probed.format;
+        let tagged_gapless = metadata
+            .get()
+            .as_ref()
+            .and_then(|metadata| metadata.current().and_then(Gapless::find))
+            .or_else(|| format.metadata().current().and_then(Gapless::find));
+
+        let track = format
+            .tracks()
+            .iter()
+            .find(|track| track.codec_params.codec != CODEC_TYPE_NULL)
+            .ok_or(Error::NoAudioTrack)?;
+        let params = &track.codec_params;
+
+        let decoder = codec_registry().make(params, &DecoderOptions::default())?;
+
+        // Only needed if the container has no gapless info of its own.
+        let gapless = tagged_gapless.filter(|_| {
+            params.delay.is_none() && params.padding.is_none() && params.sample_rate.is_some()
+        });
+        let duration = match (gapless, params.sample_rate) {
+            (Some(gapless), Some(rate)) => Some(gapless.frames as f64 / rate as f64),
+            _ => params
+                .time_base
+                .zip(params.n_frames)
+                .map(|(time_base, frames)| time_to_secs(time_base.calc_time(frames))),
+        };
+
+        Ok(Self {
+            track_id: track.id,
+            time_base: params.time_base,
+            sample_rate: params.sample_rate,
+            duration,
+            gapless,
+            decoded_frames: 0,
+            format,
+            decoder,
+            buffer: None,
+            buffer_spec: None,
+            buffer_frames: 0,
+        })
+    }
+
+    /// Duration of the track in seconds, if the container reports it.
+    pub fn duration(&self) -> Option<f64> {
+        self.duration
+    }
+
+    /// Decodes the next packet.
+    /// Returns `None` once the end of the stream is reached.
+    pub fn next_chunk(&mut self) -> Result<Option<Chunk<'_>>> {
+        loop {
+            let packet = match self.format.next_packet() {
+                Ok(packet) => packet,
+                Err(SymphoniaError::IoError(err)) if err.kind() == ErrorKind::UnexpectedEof => {
+                    return Ok(None)
+                }
+                Err(SymphoniaError::ResetRequired) => return Ok(None),
+                Err(err) => return Err(err.into()),
+            };
+
+            if packet.track_id() != self.track_id {
+                continue;
+            }
+
+            let decoded = match self.decoder.decode(&packet) {
+                Ok(decoded) => decoded,
+                // A corrupted packet is not fatal, skip it.
+                Err(SymphoniaError::DecodeError(err)) => {
+                    log::warn!("skipping undecodable packet: {err}");
+                    continue;
+                }
+                Err(err) => return Err(err.into()),
+            };
+
+            let spec = *decoded.spec();
+            let frames = decoded.capacity() as u64;
+            if self.buffer_spec != Some(spec) || frames > self.buffer_frames {
+                self.buffer = Some(SampleBuffer::new(frames, spec));
+                self.buffer_spec = Some(spec);
+                self.buffer_frames = frames;
+            }
+
+            let buffer = self.buffer.as_mut().unwrap();
+            buffer.copy_interleaved_ref(decoded);
+
+            let channels = spec.channels.count();
+            let mut samples = buffer.samples();
+            let first = self.decoded_frames;
+            self.decoded_frames += (samples.len() / channels) as u64;
+
+            if let Some(gapless) = self.gapless {
+                let Some(keep) = gapless.keep(first, samples.len() / channels) else {
+                    return Ok(None);
+                };
+                if keep.is_empty() {
+                    continue;
+                }
+                samples = &samples[keep.start * channels..keep.end * channels];
+            }
+
+            return Ok(Some(Chunk {
+                samples,
+                sample_rate: spec.rate,
+                channels,
+            }));
+        }
+    }
+
+    /// Seeks to `position` seconds.
+    /// Returns the position actually reached, which may be slightly earlier than requested.
+    pub fn seek(&mut self, position: f64) -> Result<f64> {
+        let position = position.max(0.0);
+        // Positions exclude the encoder delay, timestamps of the stream do not.
+        let delay = match (self.gapless, self.sample_rate) {
+            (Some(gapless), Some(rate)) => gapless.delay as f64 / rate as f64,
+            _ => 0.0,
+        };
+        let target = position + delay;
+        let seeked = self.format.seek(
+            SeekMode::Accurate,
+            SeekTo::Time {
+                time: Time::new(target.trunc() as u64, target.fract()),
+                track_id: Some(self.track_id),
+            },
+        )?;
+        self.decoder.reset();
+
+        let reached = self
+            .time_base
+            .map(|time_base| time_to_secs(time_base.calc_time(seeked.actual_ts)))
+            .unwrap_or(target);
+        self.decoded_frames = (reached * self.sample_rate.unwrap_or_default() as f64) as u64;
+        Ok((reached - delay).max(0.0))
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn gapless(delay: u64, frames: u64) -> Option<Gapless> {
+        Some(Gapless { delay, frames })
+    }
+
+    #[test]
+    fn parses_itunsmpb() {
+        assert_eq!(
+            Gapless::parse(
+                " 00000000 00000840 000001C0 0000000000A3E9C0 00000000 00000000 00000000"
+            ),
+            gapless(0x840, 0xa3e9c0)
+        );
+        assert_eq!(Gapless::parse("0 840 1c0 1000"), gapless(0x840, 0x1000));
+    }
+
+    #[test]
+    fn rejects_short_or_garbage_itunsmpb() {
+        assert_eq!(Gapless::parse(""), None);
+        assert_eq!(Gapless::parse(" 00000000 00000840 000001C0"), None);
+        assert_eq!(Gapless::parse("00000000 00000840 000001C0 nonsense"), None);
+        assert_eq!(Gapless::parse("iTunes 4.0"), None);
+        // No audio at all.
+        assert_eq!(Gapless::parse("0 840 1c0 0"), None);
+    }
+
+    #[test]
+    fn trims_delay_and_padding() {
+        let gapless = Gapless {
+            delay: 100,
+            frames: 1000,
+        };
+        // Delay only.
+        assert_eq!(gapless.keep(0, 100), Some(100..100));
+        // Delay, then audio.
+        assert_eq!(gapless.keep(0, 250), Some(100..250));
+        assert_eq!(gapless.keep(250, 250), Some(0..250));
+        // Audio, then padding.
+        assert_eq!(gapless.keep(1000, 250), Some(0..100));
+        // Padding only.
+        assert_eq!(gapless.keep(1100, 250), None);
+
+        let kept: usize = (0..1200)
+            .step_by(64)
+            .map_while(|first| gapless.keep(first, 64))
+            .map(|keep| keep.len())
+            .sum();
+        assert_eq!(kept, 1000);
+    }
+}
@@ -0,0 +1,89 @@
+use std::path::PathBuf;
+
+use tauri::{AppHandle, Manager, State};
+
+use super::{emit_changed, ImportReport};
+use crate::error::Result;
+use crate::library::{Library, PlaylistSummary, Track};
+
+#[tauri::command]
+pub fn playlist_list(library: State<'_, Library>) -> Result<Vec<PlaylistSummary>> {
+    library.db().playlists()
+}
+
+#[tauri::command]
+pub fn playlist_create(
+    app: AppHandle,
+    library: State<'_, Library>,
+    name: String,
+    paths: Vec<String>,
+) -> Result<PlaylistSummary> {
+    let playlist = {
+        let mut db = library.db();
+        let id = db.create_playlist(&name)?;
+        db.set_playlist_paths(id, &paths)?;
+        db.playlist(id)?
+    };
+    emit_changed(&app, &library);
+    Ok(playlist)
+}
+
+#[tauri::command]
+pub fn playlist_rename(
+    app: AppHandle,
+    library: State<'_, Library>,
+    id: i64,
+    name: String,
+) -> Result<()> {
+    library.db().rename_playlist(id, &name)?;
+    emit_changed(&app, &library);
+    Ok(())
+}
+
+#[tauri::command]
+pub fn playlist_delete(app: AppHandle, library: State<'_, Library>, id: i64) -> Result<()> {
+    library.db().delete_playlist(id)?;
+    emit_changed(&app, &library);
+    Ok(())
+}
+
+#[tauri::command]
+pub fn playlist_get_tracks(library: State<'_, Library>, id: i64) -> Result<Vec<Track>> {
+    library.db().playlist_tracks(id)
+}
+
+#[tauri::command]
+pub fn playlist_set_tracks(
+    app: AppHandle,
+    library: State<'_, Library>,
+    id: i64,
+    paths: Vec<String>,
+) -> Result<()> {
+    {
+        let mut db = library.db();
+        db.playlist(id)?;
+        db.set_playlist_paths(id, &paths)?;
+    }
+    emit_changed(&app, &library);
+    Ok(())
+}
+
+/// Imports a playlist file as a new playlist.
+#[tauri::command]
+pub async fn playlist_import(app: AppHandle, path: PathBuf) -> Result<ImportReport> {
+    tauri::async_runtime::spawn_blocking(move || {
+        let library = app.state::<Library>();
+        let report = super::import(&library, &path)?;
+        emit_changed(&app, &library);
+        Ok(report)
+    })
+    .await?
+}
+
+#[tauri::command]
+pub async fn playlist_export(app: AppHandle, id: i64, path: PathBuf, relative: bool) -> Result<()> {
+    tauri::async_runtime::spawn_blocking(move || {
+        super::export(&app.state::<Library>(), id, &path, relative)
+    })
+    .await?
+}
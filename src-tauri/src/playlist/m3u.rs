@@ -0,0 +1,69 @@
+//! M3U and M3U8 playlists, including the `#EXTINF` extension.
+
+use std::fmt::Write;
+
+use super::Entry;
+
+pub fn parse(text: &str) -> Vec<Entry> {
+    let mut entries = Vec::new();
+    let mut info: Option<Entry> = None;
+
+    for line in text.trim_start_matches('\u{feff}').lines() {
+        let line = line.trim();
+        if line.is_empty() {
+            continue;
+        }
+
+        if let Some(extinf) = line.strip_prefix("#EXTINF:") {
+            info = Some(parse_extinf(extinf));
+        } else if !line.starts_with('#') {
+            entries.push(Entry {
+                location: line.to_owned(),
+                ..info.take().unwrap_or_default()
+            });
+        }
+    }
+
+    entries
+}
+
+/// Parses `<duration> [attributes],<artist> - <title>`.
+fn parse_extinf(extinf: &str) -> Entry {
+    let (head, display) = extinf.split_once(',').unwrap_or((extinf, ""));
+    let duration = head
+        .split_whitespace()
+        .next()
+        .and_then(|duration| duration.parse::<f64>().ok())
+        .filter(|duration| *duration >= 0.0);
+
+    let display = display.trim();
+    let (artist, title) = match display.split_once(" - ") {
+        Some((artist, title)) => (Some(artist.trim().to_owned()), title.trim()),
+        None => (None, display),
+    };
+
+    Entry {
+        location: String::new(),
+        title: Some(title.to_owned()).filter(|title| !title.is_empty()),
+        artist: artist.filter(|artist| !artist.is_empty()),
+        duration,
+    }
+}
+
+pub fn write(entries: &[Entry]) -> String {
+    let mut text = String::from("#EXTM3U\n");
+    for entry in entries {
+        let duration = entry
+            .duration
+            .map(|duration| duration.round() as i64)
+            .unwrap_or(-1);
+        let display = match (&entry.artist, &entry.title) {
+            (Some(artist), Some(title)) => format!("{artist} - {title}"),
+            (None, Some(title)) => title.clone(),
+            _ => String::new(),
+        };
+        let _ = writeln!(text, "#EXTINF:{duration},{display}");
+        let _ = writeln!(text, "{}", entry.location);
+    }
+    text
+}
@@ -0,0 +1,182 @@
+//! User playlists and their import and export.
+//!
+//! Playlists are stored in the library database and refer to library tracks by
+//! path. Files in M3U/M3U8, PLS and XSPF format can be imported, locations in them
+//! are resolved against the folder of the playlist file.
+
+pub mod commands;
+mod m3u;
+mod pls;
+mod xspf;
+
+use std::fs;
+use std::path::{Component, Path, PathBuf};
+
+use serde::Serialize;
+use tauri::{AppHandle, Emitter};
+use url::Url;
+
+use crate::error::{Error, Result};
+use crate::library::{Library, PlaylistSummary};
+use crate::text::read_text;
+
+pub const EVENT_CHANGED: &str = "playlist://changed";
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+pub enum Format {
+    M3u,
+    Pls,
+    Xspf,
+}
+
+impl Format {
+    pub fn from_path(path: &Path) -> Result<Self> {
+        let extension = path
+            .extension()
+            .map(|ext| ext.to_string_lossy().to_ascii_lowercase())
+            .unwrap_or_default();
+        match extension.as_str() {
+            "m3u" | "m3u8" => Ok(Self::M3u),
+            "pls" => Ok(Self::Pls),
+            "xspf" => Ok(Self::Xspf),
+            _ => Err(Error::UnknownPlaylistFormat(extension)),
+        }
+    }
+}
+
+/// An entry as written in a playlist file.
+#[derive(Clone, Debug, Default)]
+pub struct Entry {
+    /// A path, absolute or relative to the playlist file, or a `file:` URL.
+    pub location: String,
+    pub title: Option<String>,
+    pub artist: Option<String>,
+    /// Duration in seconds.
+    pub duration: Option<f64>,
+}
+
+/// Result of [`import`].
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ImportReport {
+    pub playlist: PlaylistSummary,
+    /// Locations which could not be resolved to library tracks, as written in the file.
+    pub unresolved: Vec<String>,
+}
+
+/// Removes `.` and `..` components without touching the file system,
+/// so the result compares equal to the paths stored in the library.
+fn normalize(path: &Path) -> PathBuf {
+    let mut normalized = PathBuf::new();
+    for component in path.components() {
+        match component {
+            Component::CurDir => {}
+            Component::ParentDir => {
+                normalized.pop();
+            }
+            component => normalized.push(component),
+        }
+    }
+    normalized
+}
+
+/// Turns a playlist location into an absolute path.
+/// Returns `None` for remote URLs.
+pub fn resolve_location(location: &str, base: &Path) -> Option<PathBuf> {
+    if location.contains("://") {
+        return Url::parse(location).ok()?.to_file_path().ok();
+    }
+
+    // Playlists written on Windows use backslashes.
+    let location = if cfg!(windows) {
+        location.to_owned()
+    } else {
+        location.replace('\\', "/")
+    };
+    Some(normalize(&base.join(location)))
+}
+
+pub fn import(library: &Library, path: &Path) -> Result<ImportReport> {
+    let format = Format::from_path(path)?;
+    let text = read_text(path)?;
+    let entries = match format {
+        Format::M3u => m3u::parse(&text),
+        Format::Pls => pls::parse(&text),
+        Format::Xspf => xspf::parse(&text)?,
+    };
+
+    let base = path.parent().unwrap_or(Path::new(""));
+    let mut db = library.db();
+    let mut paths = Vec::new();
+    let mut unresolved = Vec::new();
+    for entry in entries {
+        let resolved = resolve_location(&entry.location, base)
+            .map(|resolved| resolved.to_string_lossy().into_owned());
+        match resolved {
+            Some(resolved) if db.has_track(&resolved)? => paths.push(resolved),
+            _ => unresolved.push(entry.location),
+        }
+    }
+
+    let name = path
+        .file_stem()
+        .map(|stem| stem.to_string_lossy().into_owned())
+        .unwrap_or_default();
+    let id = db.create_playlist(&name)?;
+    db.set_playlist_paths(id, &paths)?;
+
+    Ok(ImportReport {
+        playlist: db.playlist(id)?,
+        unresolved,
+    })
+}
+
+/// Writes a playlist to `path`, in the format given by its extension.
+///
+/// With `relative`, locations are written relative to the folder of `path`,
+/// which keeps the file usable when the whole music folder moves.
+pub fn export(library: &Library, id: i64, path: &Path, relative: bool) -> Result<()> {
+    let format = Format::from_path(path)?;
+    let db = library.db();
+    let playlist = db.playlist(id)?;
+    let tracks = db.playlist_tracks(id)?;
+    drop(db);
+
+    let base = path.parent().unwrap_or(Path::new(""));
+    let entries: Vec<Entry> = tracks
+        .into_iter()
+        .map(|track| {
+            let location = relative
+                .then(|| pathdiff::diff_paths(&track.path, base))
+                .flatten()
+                .map(|location| location.to_string_lossy().replace('\\', "/"))
+                .unwrap_or(track.path);
+            Entry {
+                location,
+                title: Some(track.title),
+                artist: Some(track.artists.join(", ")).filter(|artist| !artist.is_empty()),
+                duration: Some(track.duration),
+            }
+        })
+        .collect();
+
+    let text = match format {
+        Format::M3u => m3u::write(&entries),
+        Format::Pls => pls::write(&entries),
+        Format::Xspf => xspf::write(&playlist.name, &entries),
+    };
+    fs::write(path, text)?;
+    Ok(())
+}
+
+/// Announces the current list of playlists to the frontend.
+pub fn emit_changed(app: &AppHandle, library: &Library) {
+    match library.db().playlists() {
+        Ok(playlists) => {
+            if let Err(err) = app.emit(EVENT_CHANGED, playlists) {
+                log::warn!("failed to emit {EVENT_CHANGED}: {err}");
+            }
+        }
+        Err(err) => log::error!("failed to list playlists: {err}"),
+    }
+}
@@ -0,0 +1,60 @@
+//! PLS playlists, an INI file with numbered `FileN`, `TitleN` and `LengthN` keys.
+
+use std::collections::BTreeMap;
+use std::fmt::Write;
+
+use super::Entry;
+
+pub fn parse(text: &str) -> Vec<Entry> {
+    let mut entries: BTreeMap<u32, Entry> = BTreeMap::new();
+
+    for line in text.trim_start_matches('\u{feff}').lines() {
+        let Some((key, value)) = line.trim().split_once('=') else {
+            continue;
+        };
+        let key = key.trim().to_ascii_lowercase();
+        let value = value.trim();
+
+        let split = key.find(|c: char| c.is_ascii_digit()).unwrap_or(key.len());
+        let (field, index) = key.split_at(split);
+        let Ok(index) = index.parse::<u32>() else {
+            continue;
+        };
+
+        let entry = entries.entry(index).or_default();
+        match field {
+            "file" => entry.location = value.to_owned(),
+            "title" if !value.is_empty() => entry.title = Some(value.to_owned()),
+            "length" => entry.duration = value.parse::<f64>().ok().filter(|length| *length >= 0.0),
+            _ => {}
+        }
+    }
+
+    entries
+        .into_values()
+        .filter(|entry| !entry.location.is_empty())
+        .collect()
+}
+
+pub fn write(entries: &[Entry]) -> String {
+    let mut text = String::from("[playlist]\n");
+    for (index, entry) in entries.iter().enumerate() {
+        let number = index + 1;
+        let _ = writeln!(text, "File{number}={}", entry.location);
+        if let Some(title) = &entry.title {
+            let title = match &entry.artist {
+                Some(artist) => format!("{artist} - {title}"),
+                None => title.clone(),
+            };
+            let _ = writeln!(text, "Title{number}={title}");
+        }
+        let length = entry
+            .duration
+            .map(|duration| duration.round() as i64)
+            .unwrap_or(-1);
+        let _ = writeln!(text, "Length{number}={length}");
+    }
+    let _ = writeln!(text, "NumberOfEntries={}", entries.len());
+    let _ = writeln!(text, "Version=2");
+    text
+}
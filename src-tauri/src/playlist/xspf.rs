@@ -0,0 +1,143 @@
+//! XSPF ("spiff") playlists.
+//!
+//! Locations are URIs. Relative ones are decoded to plain relative paths when
+//! parsing and encoded again when writing, `file:` URLs are left to
+//! [`resolve_location`](super::resolve_location).
+
+use std::fmt::Write;
+use std::path::Path;
+
+use percent_encoding::{percent_decode_str, utf8_percent_encode, AsciiSet, CONTROLS};
+use quick_xml::escape::escape;
+use quick_xml::events::Event;
+use quick_xml::Reader;
+use url::Url;
+
+use super::Entry;
+use crate::error::Result;
+
+/// Characters escaped in a relative URI path segment.
+const SEGMENT: &AsciiSet = &CONTROLS
+    .add(b' ')
+    .add(b'"')
+    .add(b'#')
+    .add(b'%')
+    .add(b'<')
+    .add(b'>')
+    .add(b'?')
+    .add(b'`')
+    .add(b'{')
+    .add(b'}')
+    .add(b'/');
+
+pub fn parse(text: &str) -> Result<Vec<Entry>> {
+    let mut reader = Reader::from_str(text);
+    reader.config_mut().trim_text(true);
+
+    let mut entries = Vec::new();
+    let mut elements: Vec<String> = Vec::new();
+    let mut entry: Option<Entry> = None;
+
+    loop {
+        match reader.read_event()? {
+            Event::Start(start) => {
+                let name = String::from_utf8_lossy(start.local_name().as_ref()).into_owned();
+                if name == "track" {
+                    entry = Some(Entry::default());
+                }
+                elements.push(name);
+            }
+            Event::End(_) => {
+                if elements.pop().as_deref() == Some("track") {
+                    if let Some(entry) = entry.take().filter(|entry| !entry.location.is_empty()) {
+                        entries.push(entry);
+                    }
+                }
+            }
+            Event::Text(content) => {
+                let Some(entry) = entry.as_mut() else {
+                    continue;
+                };
+                // Only direct children of <track>, <extension> may contain anything.
+                if elements.len() < 2 || elements[elements.len() - 2] != "track" {
+                    continue;
+                }
+
+                let content = content.unescape()?;
+                match elements.last().map(String::as_str) {
+                    Some("location") if entry.location.is_empty() => {
+                        entry.location = decode_location(&content);
+                    }
+                    Some("title") => entry.title = Some(content.into_owned()),
+                    Some("creator") => entry.artist = Some(content.into_owned()),
+                    Some("duration") => {
+                        entry.duration = content.parse::<f64>().ok().map(|millis| millis / 1000.0);
+                    }
+                    _ => {}
+                }
+            }
+            Event::Eof => break,
+            _ => {}
+        }
+    }
+
+    Ok(entries)
+}
+
+fn decode_location(location: &str) -> String {
+    if location.contains(':') {
+        // An absolute URI, e.g. `file:///music/a.flac`.
+        return location.to_owned();
+    }
+    percent_decode_str(location)
+        .decode_utf8_lossy()
+        .into_owned()
+}
+
+fn encode_location(location: &str) -> String {
+    if location.contains("://") {
+        return location.to_owned();
+    }
+    if Path::new(location).is_absolute() {
+        if let Ok(url) = Url::from_file_path(location) {
+            return url.to_string();
+        }
+    }
+    location
+        .split('/')
+        .map(|segment| utf8_percent_encode(segment, SEGMENT).to_string())
+        .collect::<Vec<_>>()
+        .join("/")
+}
+
+pub fn write(name: &str, entries: &[Entry]) -> String {
+    let mut text = String::from("<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n");
+    text.push_str("<playlist version=\"1\" xmlns=\"http://xspf.org/ns/0/\">\n");
+    let _ = writeln!(text, "  <title>{}</title>", escape(name));
+    text.push_str("  <trackList>\n");
+    for entry in entries {
+        text.push_str("    <track>\n");
+        let _ = writeln!(
+            text,
+            "      <location>{}</location>",
+            escape(&encode_location(&entry.location))
+        );
+        if let Some(title) = &entry.title {
+            let _ = writeln!(text, "      <title>{}</title>", escape(title));
+        }
+        if let Some(artist) = &entry.artist {
+            let _ = writeln!(text, "      <creator>{}</creator>", escape(artist));
+        }
+        if let Some(duration) = entry.duration {
+            let _ = writeln!(
+                text,
+                "      <duration>{}</duration>",
+                (duration * 1000.0).round() as i64
+            );
+        }
+        text.push_str("    </track>\n");
+    }
+    text.push_str("  </trackList>\n");
+    text.push_str("</playlist>\n");
+    text
+}
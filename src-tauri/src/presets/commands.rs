@@ -0,0 +1,40 @@
+use tauri::State;
+
+use super::{Assignment, AssignmentScope, Preset};
+use crate::error::Result;
+use crate::library::Library;
+use crate::player::equalizer::EqualizerSettings;
+
+#[tauri::command]
+pub fn preset_list(library: State<'_, Library>) -> Result<Vec<Preset>> {
+    super::list(&library)
+}
+
+#[tauri::command]
+pub fn preset_save(
+    library: State<'_, Library>,
+    name: String,
+    settings: EqualizerSettings,
+) -> Result<()> {
+    super::save(&library, &name, &settings)
+}
+
+#[tauri::command]
+pub fn preset_delete(library: State<'_, Library>, name: String) -> Result<()> {
+    super::delete(&library, &name)
+}
+
+#[tauri::command]
+pub fn preset_get_assignment(library: State<'_, Library>, path: String) -> Result<Assignment> {
+    super::assignment(&library, &path)
+}
+
+#[tauri::command]
+pub fn preset_assign(
+    library: State<'_, Library>,
+    scope: AssignmentScope,
+    path: String,
+    preset: Option<String>,
+) -> Result<()> {
+    super::assign(&library, scope, &path, preset.as_deref())
+}
@@ -0,0 +1,182 @@
+//! Equalizer presets.
+//!
+//! Built-in presets live in code, user presets in the library database. Presets can
+//! be assigned to a track or to an album, the track assignment wins.
+
+pub mod commands;
+
+use serde::{Deserialize, Serialize};
+
+use crate::error::{Error, Result};
+use crate::library::{Library, Track};
+use crate::player::equalizer::EqualizerSettings;
+
+#[derive(Clone, Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Preset {
+    pub name: String,
+    pub settings: EqualizerSettings,
+    /// Built-in presets cannot be overwritten or deleted.
+    pub builtin: bool,
+}
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub enum AssignmentScope {
+    Track,
+    Album,
+}
+
+impl AssignmentScope {
+    fn as_str(self) -> &'static str {
+        match self {
+            Self::Track => "track",
+            Self::Album => "album",
+        }
+    }
+
+    /// The key under which the assignment of `track` is stored.
+    fn key(self, track: &Track) -> Option<String> {
+        match self {
+            Self::Track => Some(track.path.clone()),
+            Self::Album => {
+                let album = track.album.as_deref()?;
+                let artist = track
+                    .album_artist
+                    .as_deref()
+                    .or(track.artists.first().map(String::as_str))
+                    .unwrap_or_default();
+                Some(format!("{artist}\u{1f}{album}"))
+            }
+        }
+    }
+}
+
+/// Presets assigned to a track, directly or through its album.
+#[derive(Clone, Debug, Default, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Assignment {
+    pub track: Option<String>,
+    pub album: Option<String>,
+}
+
+fn builtin(name: &str, preamp: f32, bands: [f32; 10]) -> Preset {
+    Preset {
+        name: name.to_owned(),
+        settings: EqualizerSettings {
+            enabled: true,
+            preamp,
+            bands,
+            parametric: Vec::new(),
+        },
+        builtin: true,
+    }
+}
+
+fn builtin_presets() -> Vec<Preset> {
+    vec![
+        builtin("Flat", 0.0, [0.0; 10]),
+        builtin(
+            "Rock",
+            -4.0,
+            [4.5, 3.5, 2.0, -0.5, -1.5, -1.0, 1.0, 2.5, 3.5, 4.0],
+        ),
+        builtin(
+            "Pop",
+            -3.0,
+            [-1.0, 0.5, 2.0, 3.0, 3.5, 2.5, 1.0, 0.0, -0.5, -1.0],
+        ),
+        builtin(
+            "Jazz",
+            -3.0,
+            [3.0, 2.0, 1.0, 1.5, -1.0, -1.0, 0.0, 1.0, 2.0, 3.0],
+        ),
+        builtin(
+            "Classical",
+            -3.0,
+            [3.0, 2.5, 1.5, 0.5, -0.5, -0.5, 0.0, 1.5, 2.5, 3.0],
+        ),
+        builtin(
+            "Electronic",
+            -4.5,
+            [4.5, 4.0, 1.5, 0.0, -1.5, 1.5, 0.5, 1.5, 4.0, 4.5],
+        ),
+        builtin(
+            "Vocal",
+            -3.5,
+            [-2.0, -2.5, -1.0, 1.5, 3.5, 3.5, 3.0, 1.5, 0.0, -1.0],
+        ),
+        builtin(
+            "Bass Boost",
+            -6.0,
+            [6.0, 5.0, 4.0, 2.5, 1.0, 0.0, 0.0, 0.0, 0.0, 0.0],
+        ),
+        builtin(
+            "Treble Boost",
+            -6.0,
+            [0.0, 0.0, 0.0, 0.0, 0.0, 1.0, 2.5, 4.0, 5.0, 6.0],
+        ),
+    ]
+}
+
+fn is_builtin(name: &str) -> bool {
+    builtin_presets().iter().any(|preset| preset.name == name)
+}
+
+/// Built-in presets followed by the user presets.
+pub fn list(library: &Library) -> Result<Vec<Preset>> {
+    let mut presets = builtin_presets();
+    for (name, settings) in library.db().eq_presets()? {
+        match serde_json::from_str(&settings) {
+            Ok(settings) => presets.push(Preset {
+                name,
+                settings,
+                builtin: false,
+            }),
+            Err(err) => log::warn!("ignoring equalizer preset {name:?}: {err}"),
+        }
+    }
+    Ok(presets)
+}
+
+/// Creates or overwrites a user preset.
+pub fn save(library: &Library, name: &str, settings: &EqualizerSettings) -> Result<()> {
+    if is_builtin(name) {
+        return Err(Error::BuiltinPreset(name.to_owned()));
+    }
+    library
+        .db()
+        .save_eq_preset(name, &serde_json::to_string(settings)?)
+}
+
+pub fn delete(library: &Library, name: &str) -> Result<()> {
+    if is_builtin(name) {
+        return Err(Error::BuiltinPreset(name.to_owned()));
+    }
+    library.db().delete_eq_preset(name)
+}
+
+pub fn assignment(library: &Library, path: &str) -> Result<Assignment> {
+    let track = library.track(path)?;
+    let db = library.db();
+    let lookup = |scope: AssignmentScope| match scope.key(&track) {
+        Some(key) => db.eq_assignment(scope.as_str(), &key),
+        None => Ok(None),
+    };
+    Ok(Assignment {
+        track: lookup(AssignmentScope::Track)?,
+        album: lookup(AssignmentScope::Album)?,
+    })
+}
+
+/// Assigns `preset` to the track at `path` or its album, or removes the assignment if `preset` is `None`.
+pub fn assign(
+    library: &Library,
+    scope: AssignmentScope,
+    path: &str,
+    preset: Option<&str>,
+) -> Result<()> {
+    let track = library.track(path)?;
+    let key = scope.key(&track).ok_or(Error::NoAlbum)?;
+    library.db().set_eq_assignment(scope.as_str(), &key, preset)
+}
@@ -0,0 +1,17 @@
+use serde_json::Value;
+use tauri::{AppHandle, Manager, State};
+
+use super::{SavedSession, Session};
+use crate::error::Result;
+
+/// Returns `null` if there is no session to restore.
+#[tauri::command]
+pub async fn session_read(app: AppHandle) -> Result<Option<SavedSession>> {
+    tauri::async_runtime::spawn_blocking(move || app.state::<Session>().read()).await?
+}
+
+/// Sets the queue saved with the session.
+#[tauri::command]
+pub fn session_set_queue(session: State<'_, Session>, queue: Value) {
+    session.set_queue(queue);
+}
@@ -0,0 +1,127 @@
+//! The playback session, restored when the app starts again.
+//!
+//! The frontend sends the queue shortly after it changes. The playing track, the
+//! position and the volume are taken from the [`Player`]. [`Session`] writes all of it
+//! to `session.json` in the app data dir every [`SAVE_INTERVAL`] while it changes, and
+//! once more when the app exits.
+
+pub mod commands;
+
+use std::fs;
+use std::io::ErrorKind;
+use std::path::PathBuf;
+use std::sync::Mutex;
+use std::time::Duration;
+
+use serde::{Deserialize, Serialize};
+use serde_json::Value;
+use tauri::{AppHandle, Manager};
+
+use crate::error::Result;
+use crate::files::write_atomic;
+use crate::player::Player;
+
+const FILE_NAME: &str = "session.json";
+
+/// How often the session is saved while it changes.
+pub const SAVE_INTERVAL: Duration = Duration::from_secs(10);
+
+/// What is saved of a session.
+#[derive(Clone, Debug, PartialEq, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SavedSession {
+    /// The queue as sent by the frontend, which owns its schema.
+    pub queue: Option<Value>,
+    /// Path of the loaded file.
+    pub path: Option<String>,
+    /// Playback position in seconds.
+    pub position: f64,
+    /// Linear gain between 0 and 1.
+    pub volume: f32,
+}
+
+struct Inner {
+    queue: Option<Value>,
+    /// What is in the file, to skip writes while nothing changes.
+    saved: Option<SavedSession>,
+}
+
+pub struct Session {
+    path: PathBuf,
+    inner: Mutex<Inner>,
+}
+
+impl Session {
+    pub fn open(app: &AppHandle) -> Result<Self> {
+        let dir = app.path().app_data_dir()?;
+        fs::create_dir_all(&dir)?;
+        Ok(Self {
+            path: dir.join(FILE_NAME),
+            inner: Mutex::new(Inner {
+                queue: None,
+                saved: None,
+            }),
+        })
+    }
+
+    /// Reads the session saved by the previous run, `None` if there is none or if it
+    /// cannot be read.
+    pub fn read(&self) -> Result<Option<SavedSession>> {
+        let data = match fs::read(&self.path) {
+            Ok(data) => data,
+            Err(err) if err.kind() == ErrorKind::NotFound => return Ok(None),
+            Err(err) => return Err(err.into()),
+        };
+        match serde_json::from_slice(&data) {
+            Ok(session) => Ok(Some(session)),
+            Err(err) => {
+                log::warn!("ignoring the damaged {}: {err}", self.path.display());
+                Ok(None)
+            }
+        }
+    }
+
+    pub fn set_queue(&self, queue: Value) {
+        self.inner.lock().unwrap().queue = Some(queue);
+    }
+
+    /// Writes the session if it changed since the last time.
+    ///
+    /// Nothing is written before the frontend sent the queue, so that the session of the
+    /// previous run is kept until it has been restored.
+    pub fn save(&self, player: &Player) -> Result<()> {
+        let mut inner = self.inner.lock().unwrap();
+        if inner.queue.is_none() {
+            return Ok(());
+        }
+
+        let state = player.state();
+        let session = SavedSession {
+            queue: inner.queue.clone(),
+            path: state.path,
+            position: state.position,
+            volume: state.volume,
+        };
+        if inner.saved.as_ref() == Some(&session) {
+            return Ok(());
+        }
+        write_atomic(&self.path, &serde_json::to_vec(&session)?)?;
+        inner.saved = Some(session);
+        Ok(())
+    }
+
+    /// Saves the session every [`SAVE_INTERVAL`] on a background thread, as long as the
+    /// app runs.
+    pub fn save_periodically(app: AppHandle) -> Result<()> {
+        std::thread::Builder::new()
+            .name("session".into())
+            .spawn(move || loop {
+                std::thread::sleep(SAVE_INTERVAL);
+                let session = app.state::<Session>();
+                if let Err(err) = session.save(&app.state::<Player>()) {
+                    log::warn!("failed to save the session: {err}");
+                }
+            })?;
+        Ok(())
+    }
+}
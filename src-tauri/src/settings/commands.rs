@@ -0,0 +1,15 @@
+use serde_json::Value;
+use tauri::AppHandle;
+
+use crate::error::Result;
+
+/// Returns `null` if no settings have been saved yet.
+#[tauri::command]
+pub async fn settings_read(app: AppHandle) -> Result<Option<Value>> {
+    tauri::async_runtime::spawn_blocking(move || super::read(&app)).await?
+}
+
+#[tauri::command]
+pub async fn settings_write(app: AppHandle, settings: Value) -> Result<()> {
+    tauri::async_runtime::spawn_blocking(move || super::write(&app, &settings)).await?
+}
@@ -0,0 +1,53 @@
+//! User preferences.
+//!
+//! They are kept as JSON in `settings.json` in the app config dir. The schema and its
+//! migrations belong to the frontend, the backend only reads and writes the file.
+
+pub mod commands;
+
+use std::fs;
+use std::io::ErrorKind;
+use std::path::PathBuf;
+
+use serde_json::Value;
+use tauri::{AppHandle, Manager};
+
+use crate::error::Result;
+use crate::files::write_atomic;
+
+const FILE_NAME: &str = "settings.json";
+
+fn path(app: &AppHandle) -> Result<PathBuf> {
+    Ok(app.path().app_config_dir()?.join(FILE_NAME))
+}
+
+/// Reads the stored settings, `None` if there are none yet.
+///
+/// A file which is not valid JSON is moved aside to `settings.json.bak`, so that the
+/// defaults written next do not silently replace what the user may want to repair.
+pub fn read(app: &AppHandle) -> Result<Option<Value>> {
+    let path = path(app)?;
+    let data = match fs::read(&path) {
+        Ok(data) => data,
+        Err(err) if err.kind() == ErrorKind::NotFound => return Ok(None),
+        Err(err) => return Err(err.into()),
+    };
+    match serde_json::from_slice(&data) {
+        Ok(settings) => Ok(Some(settings)),
+        Err(err) => {
+            log::warn!("{} is damaged, starting over: {err}", path.display());
+            let mut backup = path.clone().into_os_string();
+            backup.push(".bak");
+            fs::rename(&path, backup)?;
+            Ok(None)
+        }
+    }
+}
+
+pub fn write(app: &AppHandle, settings: &Value) -> Result<()> {
+    let path = path(app)?;
+    if let Some(dir) = path.parent() {
+        fs::create_dir_all(dir)?;
+    }
+    write_atomic(&path, &serde_json::to_vec_pretty(settings)?)
+}
@@ -0,0 +1,18 @@
+//! Reading the plain text files that sit next to music, such as playlists and lyrics.
+
+use std::fs;
+use std::path::Path;
+
+use crate::error::Result;
+
+/// Reads a text file as UTF-8, falling back to Latin-1 which older tools still write.
+/// A leading byte order mark is removed.
+pub fn read_text(path: &Path) -> Result<String> {
+    let bytes = fs::read(path)?;
+    let text = String::from_utf8(bytes)
+        .unwrap_or_else(|err| err.into_bytes().into_iter().map(char::from).collect());
+    Ok(match text.strip_prefix('\u{feff}') {
+        Some(text) => text.to_owned(),
+        None => text,
+    })
+}
@@ -1,18 +1,82 @@
-import { createEffect, createSignal, JSX, Show } from "solid-js";
+import { createEffect, createSignal, JSX, on, onCleanup, Show } from "solid-js";
 import "./App.scss";
 import { MusicBar } from "./top-widgets/MusicBar";
 import { createStore } from "solid-js/store";
 import { PlayPage } from "./top-widgets/PlayPage";
 import { SharedElement, startTransitionSE } from "./SharedElement";
 import { ContentPage } from "./top-widgets/ContentPage";
+import { QueuePanel } from "./top-widgets/QueuePanel";
+import { EqualizerPanel } from "./top-widgets/EqualizerPanel";
+import { Transition } from "solid-transition-group";
+import { useLibrarySideBarItems } from "./top-widgets/LibrarySideBarItems";
+import { usePlaylistSideBarItems } from "./top-widgets/PlaylistSideBarItems";
+import { useSettingsSideBarItem } from "./top-widgets/SettingsSideBarItem";
+import { useApp } from "./Contexts";
+import { Theme } from "./Theme";
+import { Motion } from "./Motion";
+import { extractPalette, Palette } from "./Palette";
+import { logError } from "./Util";
+import { LibraryViews } from "./views/LibraryViews";
+import { SharedElementInspector } from "./top-widgets/SharedElementInspector";
+import { ShortcutSheet } from "./top-widgets/ShortcutSheet";
+import { Shortcuts } from "./Shortcuts";
 
 
+Theme.registerProperties();
+
+/**
+ * Whether the system prefers a dark color scheme.
+ */
+function createSystemDark() {
+    const query = window.matchMedia("(prefers-color-scheme: dark)");
+    const [dark, setDark] = createSignal(query.matches);
+    const onChange = (e: MediaQueryListEvent) => setDark(e.matches);
+    query.addEventListener("change", onChange);
+    onCleanup(() => query.removeEventListener("change", onChange));
+    return dark;
+}
+
+/**
+ * Palette of the cover of the playing track, `undefined` while there is none.
+ */
+function createCoverPalette() {
+    const app = useApp();
+    const [palette, setPalette] = createSignal<Palette>();
+
+    createEffect(on(() => app.musicInfo.picture, picture => {
+        if (picture === undefined) {
+            setPalette(undefined);
+            return;
+        }
+        extractPalette(picture)
+            .then(result => {
+                // The track may have changed while the cover was loading.
+                if (app.musicInfo.picture === picture)
+                    setPalette(result);
+            })
+            .catch(err => {
+                logError("extract the cover palette")(err);
+                setPalette(undefined);
+            });
+    }));
+
+    return palette;
+}
+
 function App(): JSX.Element {
-    const [globalStyle, _setGlobalStyle] = createStore({
-        "--theme-color": "#c1d3fe",
-        "--shadow-color": "#2f2f2f22",
-        "--deep-shadow-color": "#2f2f2f55",
-    });
+    const app = useApp();
+    const [globalStyle, setGlobalStyle] = createStore(Theme.variables(app.theme, undefined, false));
+
+    const systemDark = createSystemDark();
+    const coverPalette = createCoverPalette();
+    createEffect(() => setGlobalStyle(Theme.variables(app.theme, coverPalette(), systemDark())));
+
+    createEffect(() => Motion.configure({ mode: app.motion.mode, speed: app.motion.speed }));
+    createEffect(on(Motion.level, (level, previous) => {
+        if (previous)
+            document.body.classList.remove(`--motion-${previous}`);
+        document.body.classList.add(`--motion-${level}`);
+    }));
 
     createEffect(() => {
         Object.entries(globalStyle).forEach((entry) => {
@@ -21,7 +85,20 @@ function App(): JSX.Element {
         })
     });
 
+    useLibrarySideBarItems();
+    usePlaylistSideBarItems();
+    useSettingsSideBarItem();
+
     const [playPageShow, setPlayPageShow] = createSignal(false);
+    const [queuePanelShow, setQueuePanelShow] = createSignal(false);
+    const [equalizerPanelShow, setEqualizerPanelShow] = createSignal(false);
+    const [shortcutSheetShow, setShortcutSheetShow] = createSignal(false);
+
+    const togglePlayPage = () => startTransitionSE(() => setPlayPageShow(val => !val), { policy: "reverse" });
+    Shortcuts.useHandler("togglePlayPage", togglePlayPage);
+    Shortcuts.useHandler("toggleQueue", () => setQueuePanelShow(val => !val));
+    Shortcuts.useHandler("toggleSideBar", () => app.setLayout("showSideBar", val => !val));
+    Shortcuts.useHandler("showShortcuts", () => setShortcutSheetShow(val => !val));
 
     return (
         <main class="container">
@@ -30,7 +107,21 @@ function App(): JSX.Element {
                     <PlayPage />
                 </Show>
 
-                <ContentPage />
+                <ContentPage showSideBar={app.layout.showSideBar}>
+                    <LibraryViews />
+                </ContentPage>
+
+                <Transition name="queue-panel">
+                    <Show when={queuePanelShow()}>
+                        <QueuePanel onClose={() => setQueuePanelShow(false)} />
+                    </Show>
+                </Transition>
+
+                <Transition name="equalizer-panel">
+                    <Show when={equalizerPanelShow()}>
+                        <EqualizerPanel onClose={() => setEqualizerPanelShow(false)} />
+                    </Show>
+                </Transition>
             </div>
             <SharedElement
                 name="music-bar"
@@ -42,11 +133,22 @@ function App(): JSX.Element {
                         el.style.flexBasis = "4rem";
                     }}
 
-                    onSwitchPage={() => startTransitionSE(() => setPlayPageShow(val => !val))}
+                    onSwitchPage={togglePlayPage}
+                    onToggleQueue={() => setQueuePanelShow(val => !val)}
+                    onToggleEqualizer={() => setEqualizerPanelShow(val => !val)}
                     showPicture={!playPageShow()}
                     showInfoText={!playPageShow()}
+                    showSeekBar={!playPageShow()}
                 />
             </SharedElement>
+
+            <Show when={shortcutSheetShow()}>
+                <ShortcutSheet onClose={() => setShortcutSheetShow(false)} />
+            </Show>
+
+            <Show when={import.meta.env.DEV}>
+                <SharedElementInspector />
+            </Show>
         </main>
     );
 }
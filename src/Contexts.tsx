@@ -1,38 +1,232 @@
-import { Accessor, children, createContext, JSX, useContext } from "solid-js";
-import { createStore, SetStoreFunction, Store } from "solid-js/store";
+import { Accessor, children, createContext, createEffect, createMemo, createSignal, JSX, on, onCleanup, onMount, untrack, useContext } from "solid-js";
+import { createStore, reconcile, SetStoreFunction, Store, unwrap } from "solid-js/store";
+import { CrossfadeSettings, Player } from "./Player";
+import { Library, LibraryChanges, Track } from "./Library";
+import { Playlist, PlaylistSummary } from "./Playlist";
+import { Equalizer, EqualizerSettings, Preset, PresetAssignment } from "./Equalizer";
+import { Theme, ThemeSettings } from "./Theme";
+import { Motion, MotionSettings } from "./Motion";
+import { Mpris } from "./Mpris";
+import { Normalization, NormalizationSettings } from "./Normalization";
+import { LayoutSettings, Settings } from "./Settings";
+import { Session, SessionSettings } from "./Session";
+import { Shortcuts, ShortcutSettings } from "./Shortcuts";
+import { Visualizer, VisualizerSettings } from "./Visualizer";
+import { DEFAULT_QUEUE_STATE, Queue, QueueState } from "./Queue";
+import { DEFAULT_ROUTER_STATE, Route, Router, RouterState } from "./Router";
+import { DEFAULT_SEARCH_STATE, Search, SearchState } from "./Search";
+import { clamp, logError } from "./Util";
 
 export interface MusicInfo {
-    picture?: any;
+    /**
+     * URL of the cover image.
+     */
+    picture?: string;
     title?: string;
     artist?: string[];
     album?: string;
 }
 
+export type PlaybackStatus = "stopped" | "playing" | "paused";
+
+/**
+ * Mirrors the state of the playback engine in the backend.
+ */
+export interface PlayerState {
+    status: PlaybackStatus;
+    /**
+     * Path of the loaded file.
+     */
+    path: string | null;
+    /**
+     * Playback position in seconds.
+     */
+    position: number;
+    /**
+     * Position up to which the file has been decoded, in seconds.
+     */
+    buffered: number;
+    /**
+     * Duration of the loaded file in seconds, if known.
+     */
+    duration: number | null;
+    /**
+     * Linear gain between 0 and 1.
+     */
+    volume: number;
+}
+
+export interface LibraryState {
+    folders: string[];
+    tracks: Track[];
+    playlists: PlaylistSummary[];
+}
+
+export interface EqualizerState {
+    /**
+     * Settings applied to the playback engine.
+     */
+    settings: EqualizerSettings;
+    /**
+     * Name of the preset `settings` have been loaded from, or null once they are edited.
+     */
+    preset: string | null;
+    presets: Preset[];
+    /**
+     * Presets assigned to the playing track.
+     */
+    assignment: PresetAssignment;
+}
+
 export interface SideBarItem {
     name: string;
+    /**
+     * View opened by clicking the item. The item is highlighted while the view is shown.
+     */
+    route?: Route;
     noShadow?: boolean;
     el: JSX.Element;
 }
 
 export interface SideBarSettings {
     items: Accessor<SideBarItem>[];
-    withLogo: boolean;
 }
 
 export interface AppState {
     musicInfo: Store<MusicInfo>;
     setMusicInfo: SetStoreFunction<MusicInfo>;
 
+    /**
+     * Info of the track played after the current one, so that it can be shown ahead of time.
+     */
+    nextMusicInfo: Store<MusicInfo>;
+    setNextMusicInfo: SetStoreFunction<MusicInfo>;
+
+    playerState: Store<PlayerState>;
+    setPlayerState: SetStoreFunction<PlayerState>;
+
+    library: Store<LibraryState>;
+    setLibrary: SetStoreFunction<LibraryState>;
+
+    queue: Store<QueueState>;
+    setQueue: SetStoreFunction<QueueState>;
+
+    equalizer: Store<EqualizerState>;
+    setEqualizer: SetStoreFunction<EqualizerState>;
+
+    crossfade: Store<CrossfadeSettings>;
+    setCrossfade: SetStoreFunction<CrossfadeSettings>;
+
+    normalization: Store<NormalizationSettings>;
+    setNormalization: SetStoreFunction<NormalizationSettings>;
+
+    theme: Store<ThemeSettings>;
+    setTheme: SetStoreFunction<ThemeSettings>;
+
+    motion: Store<MotionSettings>;
+    setMotion: SetStoreFunction<MotionSettings>;
+
+    shortcuts: Store<ShortcutSettings>;
+    setShortcuts: SetStoreFunction<ShortcutSettings>;
+
+    visualizer: Store<VisualizerSettings>;
+    setVisualizer: SetStoreFunction<VisualizerSettings>;
+
+    layout: Store<LayoutSettings>;
+    setLayout: SetStoreFunction<LayoutSettings>;
+
+    session: Store<SessionSettings>;
+    setSession: SetStoreFunction<SessionSettings>;
+
+    router: Store<RouterState>;
+    setRouter: SetStoreFunction<RouterState>;
+
+    search: Store<SearchState>;
+    setSearch: SetStoreFunction<SearchState>;
+
     sideBarSettings: Store<SideBarSettings>;
     setSideBarSettings: SetStoreFunction<SideBarSettings>;
 }
 
+/**
+ * Shows `items` in the side bar while the calling component lives.
+ *
+ * The names of the items must start with `${group}:`. The items of a group stay
+ * where they were first inserted when they change, new groups are appended.
+ */
+export function useSideBarItems(group: string, items: Accessor<Accessor<SideBarItem>[]>) {
+    const app = useContext(AppContext);
+    const isOwn = (item: Accessor<SideBarItem>) => item().name.startsWith(`${group}:`);
+
+    createEffect(() => {
+        const own = items();
+        untrack(() => {
+            const current = app.sideBarSettings.items;
+            const index = current.findIndex(isOwn);
+            const others = current.filter(item => !isOwn(item));
+            const at = index < 0 ? others.length : index;
+            app.setSideBarSettings("items", [...others.slice(0, at), ...own, ...others.slice(at)]);
+        });
+    });
+    onCleanup(() => app.setSideBarSettings("items", items => items.filter(item => !isOwn(item))));
+}
+
 const DEFAULT_APP_STATE = (() => {
     const [musicInfo, setMusicInfo] = createStore<MusicInfo>();
-    const [sideBarSettings, setSideBarSettings] = createStore<SideBarSettings>({ items: [], withLogo: true });
+    const [nextMusicInfo, setNextMusicInfo] = createStore<MusicInfo>();
+    const [playerState, setPlayerState] = createStore<PlayerState>({ status: "stopped", path: null, position: 0, buffered: 0, duration: null, volume: 1 });
+    const [library, setLibrary] = createStore<LibraryState>({ folders: [], tracks: [], playlists: [] });
+    const [queue, setQueue] = createStore<QueueState>(structuredClone(DEFAULT_QUEUE_STATE));
+    const [equalizer, setEqualizer] = createStore<EqualizerState>({
+        settings: structuredClone(Equalizer.DEFAULT_SETTINGS),
+        preset: null,
+        presets: [],
+        assignment: { track: null, album: null },
+    });
+    const [crossfade, setCrossfade] = createStore<CrossfadeSettings>(structuredClone(Player.DEFAULT_CROSSFADE));
+    const [normalization, setNormalization] = createStore<NormalizationSettings>(structuredClone(Normalization.DEFAULT_SETTINGS));
+    const [theme, setTheme] = createStore<ThemeSettings>(structuredClone(Theme.DEFAULT_SETTINGS));
+    const [motion, setMotion] = createStore<MotionSettings>(structuredClone(Motion.DEFAULT_SETTINGS));
+    const [shortcuts, setShortcuts] = createStore<ShortcutSettings>(structuredClone(Shortcuts.DEFAULT_SETTINGS));
+    const [visualizer, setVisualizer] = createStore<VisualizerSettings>(structuredClone(Visualizer.DEFAULT_SETTINGS));
+    const [layout, setLayout] = createStore<LayoutSettings>(structuredClone(Settings.DEFAULT_LAYOUT));
+    const [session, setSession] = createStore<SessionSettings>(structuredClone(Session.DEFAULT_SETTINGS));
+    const [router, setRouter] = createStore<RouterState>(structuredClone(DEFAULT_ROUTER_STATE));
+    const [search, setSearch] = createStore<SearchState>(structuredClone(DEFAULT_SEARCH_STATE));
+    const [sideBarSettings, setSideBarSettings] = createStore<SideBarSettings>({ items: [] });
     const appState = {
         musicInfo,
         setMusicInfo,
+        nextMusicInfo,
+        setNextMusicInfo,
+        playerState,
+        setPlayerState,
+        library,
+        setLibrary,
+        queue,
+        setQueue,
+        equalizer,
+        setEqualizer,
+        crossfade,
+        setCrossfade,
+        normalization,
+        setNormalization,
+        theme,
+        setTheme,
+        motion,
+        setMotion,
+        shortcuts,
+        setShortcuts,
+        visualizer,
+        setVisualizer,
+        layout,
+        setLayout,
+        session,
+        setSession,
+        router,
+        setRouter,
+        search,
+        setSearch,
         sideBarSettings,
         setSideBarSettings,
     };
@@ -40,11 +234,488 @@ const DEFAULT_APP_STATE = (() => {
     return appState;
 })();
 
+/**
+ * The playback position, advanced every frame between the position events of the backend.
+ */
+export function createLivePosition(app: AppState): Accessor<number> {
+    const [position, setPosition] = createSignal(app.playerState.position);
+    let updatedAt = performance.now();
+    let frame: number | undefined = undefined;
+
+    const tick = () => {
+        // Never run ahead by more than one event, in case events stop coming.
+        const elapsed = Math.min(performance.now() - updatedAt, Player.POSITION_INTERVAL * 2) / 1000;
+        setPosition(Math.min(app.playerState.position + elapsed, app.playerState.duration ?? Infinity));
+        frame = requestAnimationFrame(tick);
+    };
+    const stop = () => {
+        if (frame !== undefined)
+            cancelAnimationFrame(frame);
+        frame = undefined;
+    };
+
+    createEffect(on(() => app.playerState.position, position => {
+        updatedAt = performance.now();
+        setPosition(position);
+    }));
+    createEffect(on(() => app.playerState.status, status => {
+        stop();
+        if (status === "playing")
+            frame = requestAnimationFrame(tick);
+    }));
+    onCleanup(stop);
+
+    return position;
+}
+
+/**
+ * Keeps `playerState` in sync with the backend, and `musicInfo` with the loaded file.
+ * Advances the queue whenever a track ends.
+ */
+function bindPlayerState(appState: AppState) {
+    const unlistenState = Player.onStateChanged(state => appState.setPlayerState(state));
+    const unlistenPosition = Player.onPositionChanged(update => appState.setPlayerState(update));
+    const unlistenEnded = Player.onTrackEnded(() => {
+        Queue.next(appState, true).catch(logError("play the next track"));
+    });
+    const unlistenAdvanced = Player.onTrackAdvanced(path => Queue.advance(appState, path));
+    onCleanup(() => {
+        unlistenState.then(f => f());
+        unlistenPosition.then(f => f());
+        unlistenEnded.then(f => f());
+        unlistenAdvanced.then(f => f());
+    });
+
+    Player.getState()
+        .then(state => appState.setPlayerState(state))
+        .catch(logError("fetch player state"));
+
+    createEffect(on(() => appState.playerState.path, path => {
+        if (path === null) {
+            appState.setMusicInfo({ title: undefined, artist: undefined, album: undefined, picture: undefined });
+            return;
+        }
+
+        Library.readTrack(path)
+            .then(Library.toMusicInfo)
+            .then(info => {
+                // Another track may have been loaded in the meantime.
+                if (appState.playerState.path === path)
+                    appState.setMusicInfo(info);
+            })
+            .catch(logError(`read track info of ${path}`));
+    }, { defer: true }));
+}
+
+/**
+ * Loads the library index and the playlists, and applies the changes reported by the backend afterwards.
+ */
+function bindLibrary(appState: AppState) {
+    const setPlaylists = (playlists: PlaylistSummary[]) =>
+        appState.setLibrary("playlists", reconcile(playlists, { key: "id" }));
+
+    // Changes received while the tracks are fetched, which the reply may or may not include.
+    // Applying a change twice does no harm, so they are all applied over the reply.
+    let fetching: LibraryChanges[] | null = null;
+    const unlistenTracks = Library.onChanged(changes => {
+        fetching?.push(changes);
+        appState.setLibrary("tracks", tracks => Library.applyChanges(tracks, changes));
+    });
+    const unlistenPlaylists = Playlist.onChanged(setPlaylists);
+    onCleanup(() => {
+        unlistenTracks.then(f => f());
+        unlistenPlaylists.then(f => f());
+    });
+
+    Library.getFolders()
+        .then(folders => appState.setLibrary("folders", folders))
+        .catch(logError("fetch library folders"));
+    // Only fetched once listening, so that no change is missed.
+    unlistenTracks
+        .then(() => {
+            fetching = [];
+            return Library.getTracks();
+        })
+        .then(tracks => {
+            const missed = fetching ?? [];
+            appState.setLibrary("tracks", missed.reduce(Library.applyChanges, tracks));
+        })
+        .catch(logError("fetch library tracks"))
+        .finally(() => fetching = null);
+    Playlist.list()
+        .then(setPlaylists)
+        .catch(logError("fetch playlists"));
+}
+
+/**
+ * Sends the equalizer settings to the backend whenever they change, and switches to
+ * the preset assigned to the playing track. The settings in use before are restored
+ * once a track without assignment plays.
+ */
+function bindEqualizer(appState: AppState) {
+    let overridden: Pick<EqualizerState, "settings" | "preset"> | null = null;
+
+    Equalizer.listPresets()
+        .then(presets => appState.setEqualizer("presets", presets))
+        .catch(logError("fetch equalizer presets"));
+
+    createEffect(() => {
+        // Serializing reads every field, so the effect tracks the whole settings object.
+        const settings = JSON.parse(JSON.stringify(appState.equalizer.settings));
+        Equalizer.apply(settings).catch(logError("apply equalizer settings"));
+    });
+
+    createEffect(on(() => appState.playerState.path, path => {
+        const loaded = path === null
+            ? Promise.resolve({ track: null, album: null })
+            : Equalizer.getAssignment(path);
+
+        loaded.then(assignment => {
+            if (appState.playerState.path !== path)
+                return;
+            appState.setEqualizer("assignment", assignment);
+
+            const name = assignment.track ?? assignment.album;
+            const preset = appState.equalizer.presets.find(preset => preset.name === name);
+            if (preset) {
+                overridden ??= { settings: structuredClone(unwrap(appState.equalizer.settings)), preset: appState.equalizer.preset };
+                appState.setEqualizer({ settings: structuredClone(preset.settings), preset: preset.name });
+            } else if (overridden) {
+                appState.setEqualizer(overridden);
+                overridden = null;
+            }
+        }).catch(logError(`fetch the equalizer preset of ${path}`));
+    }));
+}
+
+/**
+ * Tells the backend which track follows the current one, so that it plays without a gap,
+ * and keeps `nextMusicInfo` in sync with it. Tracks of the same album are never cross-faded,
+ * their transitions are part of the music.
+ */
+function bindNextTrack(appState: AppState) {
+    const next = createMemo(() => {
+        const current = appState.queue.entries[appState.queue.current]?.track;
+        const next = Queue.upNext(appState.queue)?.track;
+        return { track: next, crossfade: current !== undefined && next !== undefined && !Library.sameAlbum(current, next) };
+    }, undefined, { equals: (a, b) => a.track === b.track && a.crossfade === b.crossfade });
+
+    createEffect(() => {
+        const { track, crossfade } = next();
+        Player.setNext(track?.path ?? null, crossfade).catch(logError("set the next track"));
+    });
+
+    createEffect(on(() => next().track, track => {
+        if (track === undefined) {
+            appState.setNextMusicInfo({ title: undefined, artist: undefined, album: undefined, picture: undefined });
+            return;
+        }
+
+        Library.toMusicInfo(track)
+            .then(info => {
+                if (next().track !== track)
+                    return;
+                appState.setNextMusicInfo(info);
+                // Load the cover ahead, so it shows at once when the track starts.
+                if (info.picture !== undefined)
+                    new Image().src = info.picture;
+            })
+            .catch(logError(`read track info of ${track.path}`));
+    }));
+
+    createEffect(() => {
+        const settings = { duration: appState.crossfade.duration, curve: appState.crossfade.curve };
+        Player.setCrossfade(settings).catch(logError("apply crossfade settings"));
+    });
+}
+
+/**
+ * Sends the normalization gains of the current and the next track to the backend.
+ * They are recomputed as the library measures tracks, so the newest loudness applies.
+ */
+function bindNormalization(appState: AppState) {
+    const gains = createMemo(() => {
+        const { entries, current } = appState.queue;
+        const next = Queue.upNext(appState.queue);
+        const indices = [current, next === undefined ? -1 : entries.indexOf(next)];
+
+        const tracks = appState.library.tracks;
+        const byPath = new Map(tracks.map(track => [track.path, track]));
+        // Queued tracks are copies, the library has their latest loudness.
+        const neighbours = entries.map(entry => byPath.get(entry.track.path) ?? entry.track);
+
+        const result: Record<string, number> = {};
+        for (const index of indices.filter(index => index >= 0)) {
+            const album = Normalization.prefersAlbumGain(appState.normalization.mode, neighbours, index);
+            const gain = Normalization.gain(appState.normalization, neighbours[index], album, tracks);
+            if (gain !== null)
+                result[neighbours[index].path] = gain;
+        }
+        return result;
+    }, undefined, { equals: (a, b) => JSON.stringify(a) === JSON.stringify(b) });
+
+    createEffect(() => {
+        Player.setGains(gains()).catch(logError("set normalization gains"));
+    });
+}
+
+/**
+ * Keeps the media applets of the desktop in sync with the playing track and the queue,
+ * and carries out what they ask of the queue.
+ */
+function bindMpris(appState: AppState) {
+    createEffect(() => {
+        const info = {
+            title: appState.musicInfo.title ?? null,
+            artists: [...appState.musicInfo.artist ?? []],
+            album: appState.musicInfo.album ?? null,
+            shuffle: appState.queue.shuffle,
+            repeat: appState.queue.repeat,
+            canGoNext: Queue.nextIndex(appState.queue, false) >= 0,
+            canGoPrevious: appState.queue.current >= 0,
+        };
+        Mpris.update(info).catch(logError("update the media controls"));
+    });
+
+    const unlisten = Mpris.onRequest(request => {
+        switch (request.type) {
+            case "next":
+                Queue.next(appState).catch(logError("play the next track"));
+                break;
+            case "previous":
+                Queue.previous(appState).catch(logError("play the previous track"));
+                break;
+            case "setShuffle":
+                Queue.setShuffle(appState, request.shuffle);
+                break;
+            case "setRepeat":
+                Queue.setRepeat(appState, request.repeat);
+                break;
+        }
+    });
+    onCleanup(() => unlisten.then(f => f()));
+}
+
+/**
+ * Seconds skipped by the short and the long seek commands.
+ */
+const SEEK_STEP = 5;
+const SEEK_STEP_LONG = 30;
+
+const VOLUME_STEP = 0.05;
+
+/**
+ * Listens to the keyboard shortcuts, and handles the playback commands.
+ * The commands of the interface are handled by the components they act on.
+ */
+function bindShortcuts(appState: AppState) {
+    Shortcuts.listen(appState);
+
+    const seekBy = (delta: number) => {
+        const { path, position, duration } = appState.playerState;
+        if (path !== null)
+            Player.seek(clamp(0, position + delta, duration ?? Infinity)).catch(logError("seek"));
+    };
+    const changeVolume = (delta: number) =>
+        Player.setVolume(clamp(0, appState.playerState.volume + delta, 1)).catch(logError("set the volume"));
+
+    Shortcuts.useHandler("playPause", () => Player.toggle().catch(logError("toggle playback")));
+    Shortcuts.useHandler("next", () => Queue.next(appState).catch(logError("play the next track")));
+    Shortcuts.useHandler("previous", () => Queue.previous(appState).catch(logError("play the previous track")));
+    Shortcuts.useHandler("seekForward", () => seekBy(SEEK_STEP));
+    Shortcuts.useHandler("seekBackward", () => seekBy(-SEEK_STEP));
+    Shortcuts.useHandler("seekForwardLong", () => seekBy(SEEK_STEP_LONG));
+    Shortcuts.useHandler("seekBackwardLong", () => seekBy(-SEEK_STEP_LONG));
+    Shortcuts.useHandler("volumeUp", () => changeVolume(VOLUME_STEP));
+    Shortcuts.useHandler("volumeDown", () => changeVolume(-VOLUME_STEP));
+}
+
+/**
+ * Mouse buttons 4 and 5, usually labelled back and forward.
+ */
+const MOUSE_BACK = 3;
+const MOUSE_FORWARD = 4;
+
+/**
+ * Opens the route in the location hash at startup and when it is edited,
+ * and keeps the hash in sync with the current route.
+ */
+function bindRouter(appState: AppState) {
+    const initial = Router.parseHash(location.hash);
+    if (initial)
+        appState.setRouter({ entries: [initial], index: 0 });
+
+    createEffect(() => {
+        const hash = Router.toHash(Router.current(appState));
+        // Replace rather than push, the router keeps its own history.
+        if (location.hash !== hash)
+            history.replaceState(null, "", hash);
+    });
+
+    const onHashChange = () => {
+        const route = Router.parseHash(location.hash);
+        if (route)
+            Router.navigate(appState, route);
+    };
+    const onMouseUp = (e: MouseEvent) => {
+        if (e.button === MOUSE_BACK)
+            Router.back(appState);
+        else if (e.button === MOUSE_FORWARD)
+            Router.forward(appState);
+    };
+    window.addEventListener("hashchange", onHashChange);
+    window.addEventListener("mouseup", onMouseUp);
+    onCleanup(() => {
+        window.removeEventListener("hashchange", onHashChange);
+        window.removeEventListener("mouseup", onMouseUp);
+    });
+}
+
+/**
+ * Searches the library for the query of the search route a moment after it is typed,
+ * and again whenever the library changes. Replies to older queries are dropped.
+ */
+function bindSearch(appState: AppState) {
+    let timeout: number | undefined = undefined;
+    let latest = 0;
+    // Query of the hits shown, whose selection is kept when they are searched again.
+    let shown = "";
+
+    // The loudness analyzer updates tracks without changing what is found, only added
+    // and removed tracks are worth searching again for.
+    const paths = createMemo(() => appState.library.tracks.map(track => track.path).join("\0"));
+
+    createEffect(on([() => Search.currentQuery(appState), paths], ([query]) => {
+        clearTimeout(timeout);
+        const request = ++latest;
+        if (query.trim() === "") {
+            shown = "";
+            appState.setSearch(structuredClone(DEFAULT_SEARCH_STATE));
+            return;
+        }
+
+        appState.setSearch("pending", true);
+        timeout = window.setTimeout(() => {
+            Search.query(query)
+                .then(results => {
+                    if (request !== latest)
+                        return;
+                    const items = Search.resolve(appState.library.tracks, results);
+                    const selected = query === shown ? clamp(0, appState.search.selected, Math.max(0, items.length - 1)) : 0;
+                    shown = query;
+                    appState.setSearch({ items, selected, pending: false });
+                })
+                .catch(err => {
+                    if (request === latest)
+                        appState.setSearch("pending", false);
+                    logError("search the library")(err);
+                });
+        }, Search.DEBOUNCE);
+    }));
+    onCleanup(() => clearTimeout(timeout));
+}
+
+/**
+ * Loads the saved settings into the app state, then saves them a moment after each change.
+ * Nothing is saved if loading failed, so that a file which could not be read is not
+ * overwritten with the defaults.
+ *
+ * @returns A promise resolved once loading is over, whether it succeeded or not.
+ */
+function bindSettings(appState: AppState): Promise<void> {
+    const [loaded, setLoaded] = createSignal(false);
+    let saved = "";
+    let timeout: number | undefined = undefined;
+    const save = () => {
+        timeout = undefined;
+        Settings.write(Settings.current(appState)).catch(logError("save the settings"));
+    };
+
+    const loading = Settings.read()
+        .then(settings => {
+            Settings.apply(appState, settings);
+            saved = JSON.stringify(Settings.current(appState));
+            setLoaded(true);
+        })
+        .catch(logError("load the settings"));
+
+    createEffect(() => {
+        if (!loaded())
+            return;
+        const settings = JSON.stringify(Settings.current(appState));
+        if (settings === saved)
+            return;
+        saved = settings;
+        clearTimeout(timeout);
+        timeout = window.setTimeout(save, Settings.SAVE_DELAY);
+    });
+    onCleanup(() => {
+        if (timeout !== undefined) {
+            clearTimeout(timeout);
+            save();
+        }
+    });
+    return loading;
+}
+
+/**
+ * Restores the session of the previous run once the settings are known, then keeps the
+ * backend informed of the queue, which it saves along with the playback position.
+ */
+function bindSession(appState: AppState, settingsLoaded: Promise<void>) {
+    const [restored, setRestored] = createSignal(false);
+    settingsLoaded
+        .then(() => Session.read())
+        .then(session => session && Session.restore(appState, session, appState.session.autoResume))
+        .catch(logError("restore the session"))
+        .finally(() => setRestored(true));
+
+    // Changes are sent shortly after the last of them, so that a burst of edits is
+    // serialized once, and right away when the page goes away.
+    let timeout: number | undefined = undefined;
+    const flush = () => {
+        if (timeout === undefined)
+            return;
+        clearTimeout(timeout);
+        timeout = undefined;
+        Session.setQueue(unwrap(appState.queue)).catch(logError("save the queue"));
+    };
+    // Reads every part of the queue, without copying the tracks.
+    const trackQueue = (queue: QueueState) =>
+        [queue.current, queue.shuffle, queue.repeat, ...queue.entries, ...queue.unshuffledOrder, ...queue.history];
+    createEffect(on(() => restored() && trackQueue(appState.queue), changed => {
+        if (!changed)
+            return;
+        clearTimeout(timeout);
+        timeout = window.setTimeout(flush, Session.SEND_DELAY);
+    }));
+
+    window.addEventListener("pagehide", flush);
+    onCleanup(() => {
+        window.removeEventListener("pagehide", flush);
+        flush();
+    });
+}
+
 export const AppContext = createContext<AppState>(DEFAULT_APP_STATE, { name: "AppContext" });
 export const useApp = () => useContext(AppContext);
 export const AppContextProvider = (props: any) => {
     const appState = DEFAULT_APP_STATE;
     const currentChildren = children(props.children);
 
+    onMount(() => {
+        const settingsLoaded = bindSettings(appState);
+        bindSession(appState, settingsLoaded);
+        bindPlayerState(appState);
+        bindLibrary(appState);
+        bindEqualizer(appState);
+        bindNextTrack(appState);
+        bindNormalization(appState);
+        bindMpris(appState);
+        bindShortcuts(appState);
+        bindRouter(appState);
+        bindSearch(appState);
+    });
+
     return <AppContext.Provider value={appState}>{currentChildren()}</AppContext.Provider>
-};
\ No newline at end of file
+};
@@ -0,0 +1,159 @@
+import { invoke } from "@tauri-apps/api/core";
+
+export type FilterKind = "peaking" | "lowShelf" | "highShelf";
+
+export interface ParametricBand {
+    kind: FilterKind;
+    /**
+     * Center or corner frequency in Hz.
+     */
+    frequency: number;
+    /**
+     * Gain in dB.
+     */
+    gain: number;
+    q: number;
+}
+
+export interface EqualizerSettings {
+    enabled: boolean;
+    /**
+     * Gain applied before the filters in dB, usually negative to leave headroom for boosts.
+     */
+    preamp: number;
+    /**
+     * Gains of the bands at {@link Equalizer.FREQUENCIES} in dB.
+     */
+    bands: number[];
+    parametric: ParametricBand[];
+}
+
+export interface Preset {
+    name: string;
+    settings: EqualizerSettings;
+    /**
+     * Built-in presets cannot be overwritten or deleted.
+     */
+    builtin: boolean;
+}
+
+export type AssignmentScope = "track" | "album";
+
+/**
+ * Presets assigned to a track, directly or through its album.
+ */
+export interface PresetAssignment {
+    track: string | null;
+    album: string | null;
+}
+
+/**
+ * Bindings to the equalizer of the playback engine and its presets.
+ */
+export namespace Equalizer {
+    /**
+     * Center frequencies of the graphic bands in Hz.
+     */
+    export const FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+    /**
+     * Gains are limited to this many dB in either direction.
+     */
+    export const MAX_GAIN = 24;
+
+    /**
+     * Quality of the graphic bands, as used by the backend.
+     */
+    const GRAPHIC_Q = 1.41;
+
+    export const DEFAULT_SETTINGS: EqualizerSettings = {
+        enabled: false,
+        preamp: 0,
+        bands: FREQUENCIES.map(() => 0),
+        parametric: [],
+    };
+
+    export const apply = (settings: EqualizerSettings) => invoke<void>("player_set_equalizer", { settings });
+
+    /**
+     * Built-in presets followed by the user presets.
+     */
+    export const listPresets = () => invoke<Preset[]>("preset_list");
+
+    /**
+     * Creates or overwrites a user preset.
+     */
+    export const savePreset = (name: string, settings: EqualizerSettings) => invoke<void>("preset_save", { name, settings });
+
+    /**
+     * Deletes a user preset and its assignments.
+     */
+    export const deletePreset = (name: string) => invoke<void>("preset_delete", { name });
+
+    export const getAssignment = (path: string) => invoke<PresetAssignment>("preset_get_assignment", { path });
+
+    /**
+     * Assigns a preset to the track at `path` or to its album, or removes the assignment if `preset` is null.
+     */
+    export const assign = (scope: AssignmentScope, path: string, preset: string | null) =>
+        invoke<void>("preset_assign", { scope, path, preset });
+
+    /**
+     * Coefficients of a biquad filter, the same design as in the backend.
+     */
+    function coefficients(kind: FilterKind, frequency: number, gain: number, q: number, sampleRate: number) {
+        const f = Math.min(Math.max(frequency, 10), sampleRate * 0.45);
+        const a = Math.pow(10, Math.min(Math.max(gain, -MAX_GAIN), MAX_GAIN) / 40);
+        const w0 = 2 * Math.PI * f / sampleRate;
+        const [sin, cos] = [Math.sin(w0), Math.cos(w0)];
+        const alpha = sin / (2 * Math.max(q, 0.05));
+        const root = 2 * Math.sqrt(a) * alpha;
+
+        switch (kind) {
+            case "peaking":
+                return [1 + alpha * a, -2 * cos, 1 - alpha * a, 1 + alpha / a, -2 * cos, 1 - alpha / a];
+            case "lowShelf":
+                return [
+                    a * ((a + 1) - (a - 1) * cos + root),
+                    2 * a * ((a - 1) - (a + 1) * cos),
+                    a * ((a + 1) - (a - 1) * cos - root),
+                    (a + 1) + (a - 1) * cos + root,
+                    -2 * ((a - 1) + (a + 1) * cos),
+                    (a + 1) + (a - 1) * cos - root,
+                ];
+            case "highShelf":
+                return [
+                    a * ((a + 1) + (a - 1) * cos + root),
+                    -2 * a * ((a - 1) + (a + 1) * cos),
+                    a * ((a + 1) + (a - 1) * cos - root),
+                    (a + 1) - (a - 1) * cos + root,
+                    2 * ((a - 1) - (a + 1) * cos),
+                    (a + 1) - (a - 1) * cos - root,
+                ];
+        }
+    }
+
+    /**
+     * Gain of the whole equalizer at each of `frequencies`, in dB.
+     */
+    export function response(settings: EqualizerSettings, frequencies: number[], sampleRate: number = 48000): number[] {
+        const filters = [
+            ...settings.bands.map((gain, i) => coefficients("peaking", FREQUENCIES[i], gain, GRAPHIC_Q, sampleRate)),
+            ...settings.parametric.map(band => coefficients(band.kind, band.frequency, band.gain, band.q, sampleRate)),
+        ];
+
+        return frequencies.map(frequency => {
+            const w = 2 * Math.PI * frequency / sampleRate;
+            const [cos1, sin1, cos2, sin2] = [Math.cos(w), Math.sin(w), Math.cos(2 * w), Math.sin(2 * w)];
+
+            let db = settings.preamp;
+            for (const [b0, b1, b2, a0, a1, a2] of filters) {
+                // |H(e^jw)| = |b0 + b1 e^-jw + b2 e^-2jw| / |a0 + a1 e^-jw + a2 e^-2jw|
+                const numerator = Math.hypot(b0 + b1 * cos1 + b2 * cos2, b1 * sin1 + b2 * sin2);
+                const denominator = Math.hypot(a0 + a1 * cos1 + a2 * cos2, a1 * sin1 + a2 * sin2);
+                db += 20 * Math.log10(numerator / denominator);
+            }
+            return db;
+        });
+    }
+}
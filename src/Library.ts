@@ -0,0 +1,286 @@
+import { convertFileSrc, invoke } from "@tauri-apps/api/core";
+import { listen } from "@tauri-apps/api/event";
+import type { MusicInfo } from "./Contexts";
+
+/**
+ * Metadata of an audio file, as read by the library scanner in the backend.
+ */
+export interface Track {
+    path: string;
+    /**
+     * Falls back to the file name if the file has no title tag.
+     */
+    title: string;
+    artists: string[];
+    album: string | null;
+    albumArtist: string | null;
+    trackNumber: number | null;
+    discNumber: number | null;
+    year: number | null;
+    genre: string | null;
+    /**
+     * Duration in seconds.
+     */
+    duration: number;
+    /**
+     * Whether the file has an embedded cover. There may be a cover image in its folder otherwise.
+     */
+    hasCover: boolean;
+    replayGain: ReplayGain;
+    /**
+     * Measured in the background if the file has no track gain tag, null until then.
+     */
+    loudness: Loudness | null;
+}
+
+/**
+ * Gains read from ReplayGain tags, or converted from R128 tags.
+ */
+export interface ReplayGain {
+    /**
+     * Gain in dB bringing the track to the ReplayGain reference of -18 LUFS.
+     */
+    trackGain: number | null;
+    /**
+     * Linear sample peak, 1 is full scale.
+     */
+    trackPeak: number | null;
+    albumGain: number | null;
+    albumPeak: number | null;
+}
+
+/**
+ * EBU R128 loudness of a track.
+ */
+export interface Loudness {
+    /**
+     * Integrated loudness in LUFS.
+     */
+    integrated: number;
+    /**
+     * Linear true peak, 1 is full scale.
+     */
+    truePeak: number;
+}
+
+/**
+ * Peaks of a track at several resolutions, coarsest first.
+ */
+export interface Peaks {
+    levels: PeakLevel[];
+}
+
+/**
+ * The lowest and highest sample of each bucket over all channels, scaled to -127..127 and
+ * spread evenly over the track.
+ */
+export interface PeakLevel {
+    min: number[];
+    max: number[];
+}
+
+/**
+ * Payload of the change events sent while the library index is updated.
+ */
+export interface LibraryChanges {
+    /**
+     * Tracks which have been added or whose tags changed.
+     */
+    updated: Track[];
+    /**
+     * Paths of the tracks which have been removed.
+     */
+    removed: string[];
+}
+
+/**
+ * Tracks sharing an album tag and an album artist.
+ */
+export interface Album {
+    /**
+     * Identifies the album, built the same way as the album keys of the backend.
+     */
+    key: string;
+    title: string;
+    artist: string;
+    year: number | null;
+    /**
+     * Tracks in disc and track number order.
+     */
+    tracks: Track[];
+    /**
+     * Track the cover is read from: the first one with an embedded cover, or else the first
+     * one, whose folder may hold a cover image.
+     */
+    coverPath: string;
+}
+
+export interface Artist {
+    name: string;
+    albums: Album[];
+    /**
+     * All tracks of the artist, including those without album.
+     */
+    tracks: Track[];
+}
+
+/**
+ * Bindings to the music library in the Tauri backend.
+ */
+export namespace Library {
+    export const EVENT_CHANGED = "library://changed";
+
+    export const getFolders = () => invoke<string[]>("library_get_folders");
+
+    /**
+     * Adds a folder to the library, resolving once its tracks are indexed.
+     */
+    export const addFolder = (path: string) => invoke<void>("library_add_folder", { path });
+    export const removeFolder = (path: string) => invoke<void>("library_remove_folder", { path });
+    export const getTracks = () => invoke<Track[]>("library_get_tracks");
+
+    /**
+     * Checks all library folders for added, removed or modified files.
+     * Changes are reported through {@link onChanged}.
+     */
+    export const rescan = () => invoke<void>("library_rescan");
+
+    /**
+     * Reads a track from the library index, or from the file if it is not indexed.
+     */
+    export const readTrack = (path: string) => invoke<Track>("library_read_track", { path });
+
+    /**
+     * Reads the peaks drawn by the waveform seek bar. The first call for a file decodes it
+     * completely, which takes a while.
+     */
+    export const getPeaks = (path: string) => invoke<Peaks>("library_get_peaks", { path });
+
+    export const onChanged = (handler: (changes: LibraryChanges) => void) =>
+        listen<LibraryChanges>(EVENT_CHANGED, event => handler(event.payload));
+
+    /**
+     * Returns a copy of `tracks` with `changes` applied.
+     * Updated tracks keep their position, added ones are appended.
+     */
+    export function applyChanges(tracks: Track[], changes: LibraryChanges): Track[] {
+        const removed = new Set(changes.removed);
+        const updated = new Map(changes.updated.map(track => [track.path, track]));
+
+        const result = tracks
+            .filter(track => !removed.has(track.path))
+            .map(track => {
+                const newTrack = updated.get(track.path);
+                if (newTrack === undefined)
+                    return track;
+
+                updated.delete(track.path);
+                return newTrack;
+            });
+        result.push(...updated.values());
+        return result;
+    }
+
+    export const UNKNOWN_ARTIST = "Unknown artist";
+
+    /**
+     * The artist an album is filed under: the album artist, or the first track artist.
+     */
+    export const albumArtist = (track: Track) => track.albumArtist ?? track.artists[0] ?? UNKNOWN_ARTIST;
+
+    export const albumKey = (artist: string, title: string) => `${artist}\u{1f}${title}`;
+
+    /**
+     * Whether `a` and `b` belong to the same album.
+     */
+    export const sameAlbum = (a: Track, b: Track) =>
+        a.album !== null && a.album === b.album && albumArtist(a) === albumArtist(b);
+
+    export function compareTracks(a: Track, b: Track): number {
+        return (a.discNumber ?? 0) - (b.discNumber ?? 0)
+            || (a.trackNumber ?? 0) - (b.trackNumber ?? 0)
+            || a.title.localeCompare(b.title);
+    }
+
+    /**
+     * Groups the tracks with an album tag into albums, sorted by artist and title.
+     */
+    export function groupAlbums(tracks: Track[]): Album[] {
+        const albums = new Map<string, Album>();
+        for (const track of tracks) {
+            if (track.album === null)
+                continue;
+
+            const artist = albumArtist(track);
+            const key = albumKey(artist, track.album);
+            let album = albums.get(key);
+            if (album === undefined) {
+                album = { key, title: track.album, artist, year: null, tracks: [], coverPath: track.path };
+                albums.set(key, album);
+            }
+            // Prefer embedded covers, which belong to the album for sure.
+            if (track.hasCover && !album.tracks.some(track => track.hasCover))
+                album.coverPath = track.path;
+            album.tracks.push(track);
+            album.year ??= track.year;
+        }
+
+        const result = [...albums.values()];
+        result.forEach(album => album.tracks.sort(compareTracks));
+        return result.sort((a, b) => a.artist.localeCompare(b.artist) || a.title.localeCompare(b.title));
+    }
+
+    /**
+     * Groups the tracks by each of their artists, sorted by name.
+     * Albums are listed under their album artist.
+     */
+    export function groupArtists(tracks: Track[]): Artist[] {
+        const artists = new Map<string, Artist>();
+        const get = (name: string) => {
+            let artist = artists.get(name);
+            if (artist === undefined) {
+                artist = { name, albums: [], tracks: [] };
+                artists.set(name, artist);
+            }
+            return artist;
+        };
+
+        for (const track of tracks) {
+            const names = track.artists.length > 0 ? track.artists : [UNKNOWN_ARTIST];
+            names.forEach(name => get(name).tracks.push(track));
+        }
+        for (const album of groupAlbums(tracks))
+            get(album.artist).albums.push(album);
+
+        return [...artists.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * URL of the cover of `path`, served by the backend from its cover cache.
+     * The cover is embedded in the track, or an image like `cover.jpg` in its folder.
+     *
+     * @param size Size in CSS pixels the cover is shown at. A thumbnail large enough for the
+     * device pixel ratio is served, the cover is served in its original size if it is omitted.
+     */
+    export function coverUrl(path: string, size?: number): string {
+        const url = convertFileSrc(path, "cover");
+        return size === undefined ? url : `${url}?size=${Math.ceil(size * window.devicePixelRatio)}`;
+    }
+
+    /**
+     * Whether `path` has a cover, embedded or in its folder.
+     */
+    export const hasCover = (path: string) => invoke<boolean>("cover_exists", { path });
+
+    /**
+     * Converts a track to the info shown by `MusicBar` and `PlayPage`.
+     */
+    export async function toMusicInfo(track: Track): Promise<MusicInfo> {
+        return {
+            title: track.title,
+            artist: track.artists,
+            album: track.album ?? undefined,
+            picture: track.hasCover || await hasCover(track.path) ? coverUrl(track.path) : undefined,
+        };
+    }
+}
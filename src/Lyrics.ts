@@ -0,0 +1,65 @@
+import { invoke } from "@tauri-apps/api/core";
+
+/**
+ * A word of a line with word timestamps.
+ */
+export interface LyricWord {
+    /**
+     * Start time in seconds.
+     */
+    time: number;
+    /**
+     * The word including its trailing whitespace.
+     */
+    text: string;
+}
+
+export interface LyricLine {
+    /**
+     * Start time in seconds, null for unsynchronized lyrics.
+     */
+    time: number | null;
+    text: string;
+    /**
+     * Timed words, empty unless the lyrics have word timestamps.
+     */
+    words: LyricWord[];
+}
+
+export interface TrackLyrics {
+    /**
+     * Whether the lyrics come from a `.lrc` file next to the track or from its tags.
+     */
+    source: "sidecar" | "embedded";
+    /**
+     * Whether the lines have timestamps, sorted by time.
+     */
+    synced: boolean;
+    lines: LyricLine[];
+}
+
+/**
+ * Bindings to the lyrics loader in the Tauri backend.
+ */
+export namespace Lyrics {
+    /**
+     * Resolves to null if the track has no lyrics.
+     */
+    export const read = (path: string) => invoke<TrackLyrics | null>("lyrics_read", { path });
+
+    /**
+     * Returns the index of the last item starting at or before `position`, or -1 if there is none.
+     * `items` must be sorted by time.
+     */
+    export function indexAt(items: { time: number | null }[], position: number): number {
+        let [low, high] = [0, items.length];
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if ((items[middle].time ?? Infinity) <= position)
+                low = middle + 1;
+            else
+                high = middle;
+        }
+        return low - 1;
+    }
+}
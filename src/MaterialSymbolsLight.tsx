@@ -1,3 +1,100 @@
 export function PauseRounded(props: any) {
 	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M15 18q-.402 0-.701-.299T14 17V7q0-.402.299-.701T15 6h1.5q.402 0 .701.299T17.5 7v10q0 .402-.299.701T16.5 18zm-7.5 0q-.402 0-.701-.299T6.5 17V7q0-.402.299-.701T7.5 6H9q.402 0 .701.299T10 7v10q0 .402-.299.701T9 18z"></path></svg>);
-}
\ No newline at end of file
+}
+
+export function PlayArrowRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M8 17.175V6.825q0-.425.3-.713t.7-.287q.125 0 .263.037t.262.113l8.15 5.175q.225.15.338.375t.112.475t-.112.475t-.338.375l-8.15 5.175q-.125.075-.262.113T9 18.175q-.4 0-.7-.288t-.3-.712"></path></svg>);
+}
+
+
+export function SkipNextRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M16.5 17V7q0-.425.288-.712T17.5 6t.713.288T18.5 7v10q0 .425-.288.713T17.5 18t-.712-.288T16.5 17m-11-1.075v-7.85q0-.45.3-.725t.7-.275q.125 0 .275.025t.275.125l5.9 3.95q.225.15.338.363t.112.462t-.112.463t-.338.362l-5.9 3.95q-.125.1-.275.125t-.275.025q-.4 0-.7-.275t-.3-.725"></path></svg>);
+}
+
+export function SkipPreviousRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M5.5 17V7q0-.425.288-.712T6.5 6t.713.288T7.5 7v10q0 .425-.288.713T6.5 18t-.712-.288T5.5 17m11.45-.975l-5.9-3.95q-.225-.15-.337-.362T10.6 12.25t.113-.462t.337-.363l5.9-3.95q.125-.1.275-.125t.275-.025q.4 0 .7.275t.3.725v7.85q0 .45-.3.725t-.7.275q-.125 0-.275-.025t-.275-.125"></path></svg>);
+}
+
+export function QueueMusicRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M15.5 20q-1.05 0-1.775-.725T13 17.5t.725-1.775T15.5 15q.275 0 .525.038t.475.137V7q0-.425.288-.712T17.5 6h2q.425 0 .713.288T20.5 7t-.288.713T19.5 8H18v9.5q0 1.05-.725 1.775T15.5 20M5 16q-.425 0-.712-.288T4 15t.288-.712T5 14h5q.425 0 .713.288T11 15t-.288.713T10 16zm0-4q-.425 0-.712-.288T4 11t.288-.712T5 10h9q.425 0 .713.288T15 11t-.288.713T14 12zm0-4q-.425 0-.712-.288T4 7t.288-.712T5 6h9q.425 0 .713.288T15 7t-.288.713T14 8z"></path></svg>);
+}
+
+export function ShuffleRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M15 20q-.425 0-.712-.288T14 19t.288-.712T15 18h1.6l-3.175-3.175q-.3-.3-.3-.712t.3-.713t.713-.3t.712.3L18 16.525V15q0-.425.288-.712T19 14t.713.288T20 15v4q0 .425-.288.713T19 20zm-10.3-.3q-.275-.275-.275-.7t.275-.7L16.6 6H15q-.425 0-.712-.288T14 5t.288-.712T15 4h4q.425 0 .713.288T20 5v4q0 .425-.288.713T19 10t-.712-.288T18 9V7.4L6.1 19.3q-.275.275-.7.275t-.7-.275m-.025-11.6q-.275-.275-.275-.7t.275-.7t.7-.275t.7.275L10.1 10.7q.275.275.275.7t-.275.7t-.7.275t-.7-.275z"></path></svg>);
+}
+
+export function RepeatRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M7.825 18l.9.9q.275.275.275.688t-.3.712q-.275.275-.7.275t-.7-.275L4.7 17.7q-.15-.15-.213-.325T4.425 17t.063-.375t.212-.325l2.6-2.6q.275-.275.7-.275t.7.275q.3.3.3.713t-.3.712L7.825 16H17v-3q0-.425.288-.712T18 12t.713.288T19 13v3q0 .825-.587 1.413T17 18zm8.35-10H7v3q0 .425-.288.713T6 12t-.712-.288T5 11V8q0-.825.588-1.412T7 6h9.175l-.9-.9Q15 4.825 15 4.413t.3-.713q.275-.275.7-.275t.7.275l2.6 2.6q.15.15.213.325t.062.375t-.062.375t-.213.325l-2.6 2.6q-.275.275-.7.275t-.7-.275q-.3-.3-.3-.712t.3-.713z"></path></svg>);
+}
+
+export function RepeatOneRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M7.825 18l.9.9q.275.275.275.688t-.3.712q-.275.275-.7.275t-.7-.275L4.7 17.7q-.15-.15-.213-.325T4.425 17t.063-.375t.212-.325l2.6-2.6q.275-.275.7-.275t.7.275q.3.3.3.713t-.3.712L7.825 16H17v-3q0-.425.288-.712T18 12t.713.288T19 13v3q0 .825-.587 1.413T17 18zm8.35-10H7v3q0 .425-.288.713T6 12t-.712-.288T5 11V8q0-.825.588-1.412T7 6h9.175l-.9-.9Q15 4.825 15 4.413t.3-.713q.275-.275.7-.275t.7.275l2.6 2.6q.15.15.213.325t.062.375t-.062.375t-.213.325l-2.6 2.6q-.275.275-.7.275t-.7-.275q-.3-.3-.3-.712t.3-.713zM11.5 14.25V10.5h-.75q-.325 0-.537-.213T10 9.75t.213-.537T10.75 9h1.5q.325 0 .538.213T13 9.75v4.5q0 .325-.213.538T12.25 15t-.537-.213t-.213-.537"></path></svg>);
+}
+
+export function CloseRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M12 13.4l-4.9 4.9q-.275.275-.7.275t-.7-.275t-.275-.7t.275-.7l4.9-4.9l-4.9-4.9q-.275-.275-.275-.7t.275-.7t.7-.275t.7.275l4.9 4.9l4.9-4.9q.275-.275.7-.275t.7.275t.275.7t-.275.7L13.4 12l4.9 4.9q.275.275.275.7t-.275.7t-.7.275t-.7-.275z"></path></svg>);
+}
+
+export function DragIndicator(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M9 20q-.825 0-1.412-.587T7 18t.588-1.412T9 16t1.413.588T11 18t-.587 1.413T9 20m6 0q-.825 0-1.412-.587T13 18t.588-1.412T15 16t1.413.588T17 18t-.587 1.413T15 20m-6-6q-.825 0-1.412-.587T7 12t.588-1.412T9 10t1.413.588T11 12t-.587 1.413T9 14m6 0q-.825 0-1.412-.587T13 12t.588-1.412T15 10t1.413.588T17 12t-.587 1.413T15 14M9 8q-.825 0-1.412-.587T7 6t.588-1.412T9 4t1.413.588T11 6t-.587 1.413T9 8m6 0q-.825 0-1.412-.587T13 6t.588-1.412T15 4t1.413.588T17 6t-.587 1.413T15 8"></path></svg>);
+}
+
+export function DeleteSweepRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M16 18q-.425 0-.712-.288T15 17t.288-.712T16 16h2q.425 0 .713.288T19 17t-.288.713T18 18zm0-8q-.425 0-.712-.288T15 9t.288-.712T16 8h5q.425 0 .713.288T22 9t-.288.713T21 10zm0 4q-.425 0-.712-.288T15 13t.288-.712T16 12h4q.425 0 .713.288T21 13t-.288.713T20 14zM5 20q-.825 0-1.412-.587T3 18V8q-.425 0-.712-.288T2 7t.288-.712T3 6h3v-.5q0-.425.288-.712T7 4.5h2q.425 0 .713.288T10 5.5V6h3q.425 0 .713.288T14 7t-.288.713T13 8v10q0 .825-.587 1.413T11 20z"></path></svg>);
+}
+
+export function UploadRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M11 8.85L9.125 10.725q-.3.3-.712.288T7.7 10.7q-.275-.3-.288-.7t.288-.7l3.6-3.6q.15-.15.325-.212T12 5.425t.375.063t.325.212l3.6 3.6q.3.3.288.7t-.288.7q-.3.3-.712.313t-.713-.288L13 8.85V16q0 .425-.288.713T12 17t-.712-.288T11 16zM6 20q-.825 0-1.412-.587T4 18v-2q0-.425.288-.712T5 15t.713.288T6 16v2h12v-2q0-.425.288-.712T19 15t.713.288T20 16v2q0 .825-.587 1.413T18 20z"></path></svg>);
+}
+
+export function DownloadRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M12 15.575q-.2 0-.375-.062T11.3 15.3l-3.6-3.6q-.3-.3-.288-.7t.288-.7q.3-.3.713-.312t.712.287L11 12.15V5q0-.425.288-.712T12 4t.713.288T13 5v7.15l1.875-1.875q.3-.3.713-.288t.712.313q.275.3.288.7t-.288.7l-3.6 3.6q-.15.15-.325.213t-.375.062M6 20q-.825 0-1.412-.587T4 18v-2q0-.425.288-.712T5 15t.713.288T6 16v2h12v-2q0-.425.288-.712T19 15t.713.288T20 16v2q0 .825-.587 1.413T18 20z"></path></svg>);
+}
+
+export function DeleteRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M7 21q-.825 0-1.412-.587T5 19V6q-.425 0-.712-.288T4 5t.288-.712T5 4h4q0-.425.288-.712T10 3h4q.425 0 .713.288T15 4h4q.425 0 .713.288T20 5t-.288.713T19 6v13q0 .825-.587 1.413T17 21zm3-4q.425 0 .713-.288T11 16V9q0-.425-.288-.712T10 8t-.712.288T9 9v7q0 .425.288.713T10 17m4 0q.425 0 .713-.288T15 16V9q0-.425-.288-.712T14 8t-.712.288T13 9v7q0 .425.288.713T14 17"></path></svg>);
+}
+
+export function EqualizerRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M7 20q-.425 0-.712-.288T6 19v-6q0-.425.288-.712T7 12t.713.288T8 13v6q0 .425-.288.713T7 20m5 0q-.425 0-.712-.288T11 19V5q0-.425.288-.712T12 4t.713.288T13 5v14q0 .425-.288.713T12 20m5 0q-.425 0-.712-.288T16 19v-9q0-.425.288-.712T17 9t.713.288T18 10v9q0 .425-.288.713T17 20"></path></svg>);
+}
+
+export function AddRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M11 13H6q-.425 0-.712-.288T5 12t.288-.712T6 11h5V6q0-.425.288-.712T12 5t.713.288T13 6v5h5q.425 0 .713.288T19 12t-.288.713T18 13h-5v5q0 .425-.288.713T12 19t-.712-.288T11 18z"></path></svg>);
+}
+
+export function ArrowBackRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="m7.825 13l4.9 4.9q.3.3.288.7t-.313.7q-.3.275-.7.288t-.7-.288l-6.6-6.6q-.15-.15-.213-.325T4.426 12t.063-.375t.212-.325l6.6-6.6q.275-.275.688-.275t.712.275q.3.3.3.713t-.3.712L7.825 11H19q.425 0 .713.288T20 12t-.288.713T19 13z"></path></svg>);
+}
+
+export function ArrowForwardRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M16.175 13H5q-.425 0-.712-.288T4 12t.288-.712T5 11h11.175l-4.9-4.9q-.3-.3-.288-.7t.313-.7q.3-.275.7-.288t.7.288l6.6 6.6q.15.15.213.325t.062.375t-.062.375t-.213.325l-6.6 6.6q-.275.275-.687.275T11.3 19.3q-.3-.3-.3-.712t.3-.713z"></path></svg>);
+}
+
+export function MusicNoteRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M10 21q-1.65 0-2.825-1.175T6 17t1.175-2.825T10 13q.575 0 1.063.138t.937.412V4q0-.425.288-.712T13 3h4q.425 0 .713.288T18 4v2q0 .425-.288.713T17 7h-3v10q0 1.65-1.175 2.825T10 21"></path></svg>);
+}
+
+export function AlbumRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M12 16.5q1.875 0 3.188-1.312T16.5 12t-1.312-3.187T12 7.5T8.813 8.813T7.5 12t1.313 3.188T12 16.5m0-3.5q-.425 0-.712-.288T11 12t.288-.712T12 11t.713.288T13 12t-.288.713T12 13m0 9q-2.075 0-3.9-.788t-3.175-2.137T2.788 15.9T2 12t.788-3.9t2.137-3.175T8.1 2.788T12 2t3.9.788t3.175 2.137T21.213 8.1T22 12t-.788 3.9t-2.137 3.175t-3.175 2.138T12 22"></path></svg>);
+}
+
+export function PersonRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M12 12q-1.65 0-2.825-1.175T8 8t1.175-2.825T12 4t2.825 1.175T16 8t-1.175 2.825T12 12m-8 6v-.8q0-.85.438-1.562T5.6 14.55q1.55-.775 3.15-1.162T12 13t3.25.388t3.15 1.162q.725.375 1.163 1.088T20 17.2v.8q0 .825-.587 1.413T18 20H6q-.825 0-1.412-.587T4 18"></path></svg>);
+}
+
+export function FolderRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M4 20q-.825 0-1.412-.587T2 18V6q0-.825.588-1.412T4 4h5.175q.4 0 .763.15t.637.425L12 6h8q.825 0 1.413.588T22 8v10q0 .825-.587 1.413T20 20z"></path></svg>);
+}
+
+export function SettingsRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" fill-rule="evenodd" d="M18.97 10.21L21.38 10.51L21.38 13.49L18.97 13.79L18.20 15.67L19.69 17.58L17.58 19.69L15.67 18.20L13.79 18.97L13.49 21.38L10.51 21.38L10.21 18.97L8.33 18.20L6.42 19.69L4.31 17.58L5.80 15.67L5.03 13.79L2.62 13.49L2.62 10.51L5.03 10.21L5.80 8.33L4.31 6.42L6.42 4.31L8.33 5.80L10.21 5.03L10.51 2.62L13.49 2.62L13.79 5.03L15.67 5.80L17.58 4.31L19.69 6.42L18.20 8.33ZM15 12a3 3 0 1 0 -6 0a3 3 0 1 0 6 0"></path></svg>);
+}
+
+export function SearchRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M9.5 16q-2.725 0-4.612-1.888T3 9.5t1.888-4.612T9.5 3t4.613 1.888T16 9.5q0 1.1-.35 2.075T14.7 13.3l5.6 5.6q.275.275.275.7t-.275.7t-.7.275t-.7-.275l-5.6-5.6q-.75.6-1.725.95T9.5 16m0-2q1.875 0 3.188-1.312T14 9.5t-1.312-3.187T9.5 5T6.313 6.313T5 9.5t1.313 3.188T9.5 14"></path></svg>);
+}
+
+export function EditRounded(props: any) {
+	return (<svg xmlns="http://www.w3.org/2000/svg" width={24} height={24} viewBox="0 0 24 24" {...props}><path fill="currentColor" d="M5 19h1.425L16.2 9.225L14.775 7.8L5 17.575zm-1 2q-.425 0-.712-.288T3 20v-2.425q0-.4.15-.763t.425-.637L16.2 3.575q.3-.275.663-.425t.762-.15t.775.15t.65.45L20.425 5q.3.275.438.65T21 6.4q0 .4-.137.763t-.438.662l-12.6 12.6q-.275.275-.637.425t-.763.15zM19 6.4L17.6 5zm-3.525 2.125l-.7-.725L16.2 9.225z"></path></svg>);
+}
@@ -0,0 +1,102 @@
+import { createSignal } from "solid-js";
+
+/**
+ * How much the interface moves.
+ * - `system`: `reduced` if the system asks for reduced motion, `full` otherwise.
+ * - `full`: all animations.
+ * - `reduced`: cross-fades instead of movement.
+ * - `none`: no animation, changes apply at once.
+ */
+export type MotionMode = "system" | "full" | "reduced" | "none";
+
+export type MotionLevel = Exclude<MotionMode, "system">;
+
+export interface MotionSettings {
+    mode: MotionMode;
+    /**
+     * Animations run this many times faster, e.g. 0.5 doubles their durations.
+     */
+    speed: number;
+}
+
+/**
+ * Keyframe properties which move elements, left out of the animations in reduced mode.
+ */
+const MOVEMENT_PROPERTIES = ["transform", "translate", "scale", "rotate", "left", "top", "right", "bottom"];
+
+/**
+ * Keyframe members which are not animated properties.
+ */
+const KEYFRAME_META = ["offset", "easing", "composite"];
+
+const reducedMotionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+const [systemReduced, setSystemReduced] = createSignal(reducedMotionQuery.matches);
+reducedMotionQuery.addEventListener("change", e => setSystemReduced(e.matches));
+
+/**
+ * The motion policy of the whole app. It is global rather than part of the app state,
+ * as `SharedElement` runs outside of any component.
+ */
+export namespace Motion {
+    export const DEFAULT_SETTINGS: MotionSettings = {
+        mode: "system",
+        speed: 1,
+    };
+
+    export const MODES: [MotionMode, string][] = [
+        ["system", "System"],
+        ["full", "Full"],
+        ["reduced", "Reduced"],
+        ["none", "None"],
+    ];
+
+    export const SPEEDS = [0.5, 0.75, 1, 1.5, 2];
+
+    const [settings, setSettings] = createSignal<MotionSettings>(DEFAULT_SETTINGS);
+
+    export const configure = (newSettings: MotionSettings) => setSettings({ ...newSettings });
+
+    export function level(): MotionLevel {
+        const mode = settings().mode;
+        return mode === "system" ? (systemReduced() ? "reduced" : "full") : mode;
+    }
+
+    export const speed = () => settings().speed > 0 ? settings().speed : 1;
+
+    /**
+     * Scales a duration in milliseconds by the speed, it is 0 if there is no motion.
+     */
+    export const duration = (ms: number) => level() === "none" ? 0 : ms / speed();
+
+    /**
+     * Returns `options` with the duration and the delays scaled, see {@link duration}.
+     */
+    export function timing<T extends KeyframeAnimationOptions>(options: T): T {
+        const scale = (value: unknown) => typeof value == "number" ? duration(value) : value;
+        return {
+            ...options,
+            duration: scale(options.duration ?? 0),
+            delay: scale(options.delay ?? 0),
+            endDelay: scale(options.endDelay ?? 0),
+        };
+    }
+
+    /**
+     * Animates `el` following the policy: the timing is scaled, and in reduced mode
+     * `reducedKeyframes` are played instead. They default to `keyframes` without the
+     * movement, or to a fade in if nothing is left.
+     */
+    export function animate(el: Element, keyframes: Keyframe[], options: KeyframeAnimationOptions, reducedKeyframes?: Keyframe[]): Animation {
+        if (level() === "reduced")
+            keyframes = reducedKeyframes ?? withoutMovement(keyframes);
+        return el.animate(keyframes, timing(options));
+    }
+
+    function withoutMovement(keyframes: Keyframe[]): Keyframe[] {
+        const result = keyframes.map(keyframe => Object.fromEntries(
+            Object.entries(keyframe).filter(([property]) => !MOVEMENT_PROPERTIES.includes(property)),
+        ) as Keyframe);
+        const animated = result.some(keyframe => Object.keys(keyframe).some(property => !KEYFRAME_META.includes(property)));
+        return animated ? result : [{ opacity: 0 }, { opacity: 1 }];
+    }
+}
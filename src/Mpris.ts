@@ -0,0 +1,37 @@
+import { invoke } from "@tauri-apps/api/core";
+import { listen } from "@tauri-apps/api/event";
+import type { RepeatMode } from "./Queue";
+
+/**
+ * Metadata of the playing track and state of the queue, shown by the media applets.
+ */
+export interface MprisInfo {
+    title: string | null;
+    artists: string[];
+    album: string | null;
+    shuffle: boolean;
+    repeat: RepeatMode;
+    canGoNext: boolean;
+    canGoPrevious: boolean;
+}
+
+/**
+ * What a media applet asks of the queue. Playback itself is controlled by the backend.
+ */
+export type MprisRequest =
+    | { type: "next" }
+    | { type: "previous" }
+    | { type: "setShuffle", shuffle: boolean }
+    | { type: "setRepeat", repeat: RepeatMode };
+
+/**
+ * Bindings to the MPRIS server of the backend, which only runs on Linux desktops.
+ */
+export namespace Mpris {
+    export const EVENT_REQUEST = "mpris://request";
+
+    export const update = (info: MprisInfo) => invoke<void>("mpris_update", { info });
+
+    export const onRequest = (handler: (request: MprisRequest) => void) =>
+        listen<MprisRequest>(EVENT_REQUEST, event => handler(event.payload));
+}
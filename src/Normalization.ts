@@ -0,0 +1,122 @@
+import { Library, Track } from "./Library";
+
+/**
+ * Which gain evens out the loudness of tracks.
+ * - `off`: tracks play at their own level.
+ * - `track`: every track is brought to the same loudness.
+ * - `album`: albums are brought to the same loudness, keeping the level differences within them.
+ * - `auto`: album gain while tracks of the same album follow each other in the queue, track gain otherwise.
+ */
+export type NormalizationMode = "off" | "track" | "album" | "auto";
+
+export interface NormalizationSettings {
+    mode: NormalizationMode;
+    /**
+     * Lowers the gain of tracks whose peaks would clip otherwise.
+     * The backend limiter catches what is left either way.
+     */
+    preventClipping: boolean;
+}
+
+interface Gain {
+    /**
+     * Gain in dB.
+     */
+    gain: number;
+    /**
+     * Linear peak, if known.
+     */
+    peak: number | null;
+}
+
+/**
+ * Loudness normalization from ReplayGain tags, falling back to the loudness measured by the backend.
+ */
+export namespace Normalization {
+    export const DEFAULT_SETTINGS: NormalizationSettings = {
+        mode: "auto",
+        preventClipping: true,
+    };
+
+    export const MODES: [NormalizationMode, string][] = [
+        ["off", "Off"],
+        ["track", "Track"],
+        ["album", "Album"],
+        ["auto", "Auto"],
+    ];
+
+    /**
+     * Loudness in LUFS which ReplayGain gains bring tracks to.
+     */
+    export const REFERENCE_LUFS = -18;
+
+    function trackGain(track: Track): Gain | null {
+        const { trackGain, trackPeak } = track.replayGain;
+        if (trackGain !== null)
+            return { gain: trackGain, peak: trackPeak ?? track.loudness?.truePeak ?? null };
+        if (track.loudness !== null)
+            return { gain: REFERENCE_LUFS - track.loudness.integrated, peak: track.loudness.truePeak };
+        return null;
+    }
+
+    /**
+     * The album gain from the tags of `track`, or else computed from the track gains of
+     * the album tracks in `tracks`, once all of them are known.
+     */
+    function albumGain(track: Track, tracks: Track[]): Gain | null {
+        const { albumGain, albumPeak } = track.replayGain;
+        if (albumGain !== null)
+            return { gain: albumGain, peak: albumPeak ?? trackGain(track)?.peak ?? null };
+
+        if (track.album === null)
+            return null;
+        const album = tracks.filter(other => Library.sameAlbum(track, other));
+        const gains = album.map(trackGain);
+        if (album.length === 0 || gains.some(gain => gain === null))
+            return null;
+
+        // Mean power of the tracks weighted by duration, as loudness is measured over the whole album.
+        let energy = 0;
+        let duration = 0;
+        album.forEach((other, i) => {
+            const loudness = REFERENCE_LUFS - gains[i]!.gain;
+            const weight = Math.max(other.duration, 1);
+            energy += weight * Math.pow(10, loudness / 10);
+            duration += weight;
+        });
+        const peaks = gains.map(gain => gain!.peak);
+        return {
+            gain: REFERENCE_LUFS - 10 * Math.log10(energy / duration),
+            peak: peaks.includes(null) ? null : Math.max(...peaks as number[]),
+        };
+    }
+
+    /**
+     * The gain in dB to play `track` at, or null if it is unknown or normalization is off.
+     *
+     * @param album Whether to prefer the album gain, see {@link prefersAlbumGain}.
+     * @param tracks The library, which album gains are computed from if there is no tag.
+     */
+    export function gain(settings: NormalizationSettings, track: Track, album: boolean, tracks: Track[]): number | null {
+        if (settings.mode === "off")
+            return null;
+
+        const result = (album ? albumGain(track, tracks) : null) ?? trackGain(track);
+        if (result === null)
+            return null;
+        if (settings.preventClipping && result.peak !== null && result.peak > 0)
+            return Math.min(result.gain, -20 * Math.log10(result.peak));
+        return result.gain;
+    }
+
+    /**
+     * Whether the album gain applies to the track at `index` of `neighbours`, which are in play order.
+     */
+    export function prefersAlbumGain(mode: NormalizationMode, neighbours: Track[], index: number): boolean {
+        if (mode !== "auto")
+            return mode === "album";
+        const track = neighbours[index];
+        return [neighbours[index - 1], neighbours[index + 1]]
+            .some(other => other !== undefined && Library.sameAlbum(track, other));
+    }
+}
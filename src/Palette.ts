@@ -0,0 +1,204 @@
+/**
+ * Color helpers and palette extraction from cover art.
+ */
+
+export type Rgb = [number, number, number];
+export type Hsl = [number, number, number];
+
+export interface Swatch {
+    /**
+     * Hex color, e.g. `#c1d3fe`.
+     */
+    color: string;
+    /**
+     * Share of the image covered by colors close to this one, between 0 and 1.
+     */
+    population: number;
+    /**
+     * Black or white text, whichever contrasts more with `color`.
+     */
+    textColor: string;
+}
+
+export interface Palette {
+    /**
+     * The most common color.
+     */
+    dominant: Swatch;
+    /**
+     * A saturated color of medium lightness, if the image has one.
+     */
+    vibrant?: Swatch;
+    /**
+     * A desaturated color of medium lightness, if the image has one.
+     */
+    muted?: Swatch;
+}
+
+/**
+ * Side length the image is scaled down to before counting colors.
+ */
+const SAMPLE_SIZE = 48;
+
+export namespace Color {
+    export const BLACK = "#1f1f1f";
+    export const WHITE = "#f6f6f6";
+
+    export function parseHex(hex: string): Rgb {
+        const value = hex.replace("#", "");
+        const full = value.length == 3 ? [...value].map(c => c + c).join("") : value.slice(0, 6);
+        const n = Number.parseInt(full, 16);
+        return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+    }
+
+    export function toHex([r, g, b]: Rgb): string {
+        return "#" + [r, g, b].map(c => Math.round(Math.min(Math.max(c, 0), 255)).toString(16).padStart(2, "0")).join("");
+    }
+
+    export function toHsl([r, g, b]: Rgb): Hsl {
+        [r, g, b] = [r / 255, g / 255, b / 255];
+        const [max, min] = [Math.max(r, g, b), Math.min(r, g, b)];
+        const l = (max + min) / 2;
+        if (max == min)
+            return [0, 0, l];
+
+        const d = max - min;
+        const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+        const h = max == r ? (g - b) / d + (g < b ? 6 : 0)
+            : max == g ? (b - r) / d + 2
+            : (r - g) / d + 4;
+        return [h * 60, s, l];
+    }
+
+    export function fromHsl([h, s, l]: Hsl): Rgb {
+        const a = s * Math.min(l, 1 - l);
+        const f = (n: number) => {
+            const k = (n + h / 30) % 12;
+            return (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+        };
+        return [f(0), f(8), f(4)];
+    }
+
+    /**
+     * Relative luminance as defined by WCAG.
+     */
+    export function luminance(rgb: Rgb): number {
+        const [r, g, b] = rgb.map(c => {
+            c /= 255;
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        });
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    }
+
+    /**
+     * WCAG contrast ratio between 1 and 21.
+     */
+    export function contrast(a: string, b: string): number {
+        const [la, lb] = [luminance(parseHex(a)), luminance(parseHex(b))];
+        return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+    }
+
+    export function readableText(background: string): string {
+        return contrast(background, BLACK) >= contrast(background, WHITE) ? BLACK : WHITE;
+    }
+
+    /**
+     * Darkens or lightens `color` until it reaches `ratio` against `background`.
+     */
+    export function ensureContrast(color: string, background: string, ratio: number): string {
+        const [h, s, l] = toHsl(parseHex(color));
+        const darken = luminance(parseHex(background)) > 0.18;
+        let result = color;
+        for (let step = 0; step <= 20 && contrast(result, background) < ratio; step++) {
+            const lightness = darken ? l * (1 - step / 20) : l + (1 - l) * step / 20;
+            result = toHex(fromHsl([h, s, lightness]));
+        }
+        return result;
+    }
+
+    export function withLightness(color: string, lightness: number, maxSaturation: number = 1): string {
+        const [h, s] = toHsl(parseHex(color));
+        return toHex(fromHsl([h, Math.min(s, maxSaturation), lightness]));
+    }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        // Covers are served from another origin, the canvas would be tainted without CORS.
+        image.crossOrigin = "anonymous";
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Failed to load image ${url}`));
+        image.src = url;
+    });
+}
+
+const toSwatch = (rgb: Rgb, population: number): Swatch => {
+    const color = Color.toHex(rgb);
+    return { color, population, textColor: Color.readableText(color) };
+};
+
+/**
+ * Extracts the dominant, vibrant and muted colors of an image.
+ *
+ * Pixels are grouped into buckets of similar colors, 5 bits per channel, and the
+ * swatches are picked from the averages of the buckets.
+ */
+export async function extractPalette(url: string): Promise<Palette> {
+    const image = await loadImage(url);
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = SAMPLE_SIZE;
+    const context = canvas.getContext("2d", { willReadFrequently: true })!;
+    context.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+    const buckets = new Map<number, { count: number, sum: Rgb }>();
+    let total = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        // Skip transparent pixels.
+        if (data[i + 3] < 128)
+            continue;
+        const key = (data[i] >> 3) << 10 | (data[i + 1] >> 3) << 5 | (data[i + 2] >> 3);
+        const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+        bucket.count++;
+        bucket.sum[0] += data[i];
+        bucket.sum[1] += data[i + 1];
+        bucket.sum[2] += data[i + 2];
+        buckets.set(key, bucket);
+        total++;
+    }
+
+    const colors = [...buckets.values()]
+        .map(({ count, sum }) => {
+            const rgb = sum.map(c => c / count) as Rgb;
+            return { rgb, hsl: Color.toHsl(rgb), population: count / Math.max(total, 1) };
+        })
+        .sort((a, b) => b.population - a.population);
+    if (colors.length == 0)
+        return { dominant: toSwatch([193, 211, 254], 1) };
+
+    /**
+     * Picks the color closest to the target saturation and lightness, favoring common ones.
+     */
+    const pick = (minSaturation: number, maxSaturation: number, targetSaturation: number) => {
+        let best: typeof colors[number] | undefined = undefined;
+        let bestScore = -Infinity;
+        for (const color of colors) {
+            const [, s, l] = color.hsl;
+            if (s < minSaturation || s > maxSaturation || l < 0.25 || l > 0.75)
+                continue;
+            const score = (1 - Math.abs(s - targetSaturation)) * 3
+                + (1 - Math.abs(l - 0.5)) * 6
+                + Math.sqrt(color.population) * 4;
+            if (score > bestScore)
+                [best, bestScore] = [color, score];
+        }
+        return best && toSwatch(best.rgb, best.population);
+    };
+
+    return {
+        dominant: toSwatch(colors[0].rgb, colors[0].population),
+        vibrant: pick(0.35, 1, 1),
+        muted: pick(0, 0.4, 0.3),
+    };
+}
@@ -0,0 +1,136 @@
+import { Channel, invoke } from "@tauri-apps/api/core";
+import { listen } from "@tauri-apps/api/event";
+import type { PlayerState } from "./Contexts";
+
+/**
+ * Payload of the position events sent while playing.
+ */
+export interface PositionUpdate {
+    position: number;
+    buffered: number;
+}
+
+/**
+ * A snapshot of the playing audio, streamed while the visualizer is shown.
+ */
+export interface VisualizerFrame {
+    /**
+     * Levels of logarithmically spaced bands from low to high, between 0 and 1.
+     */
+    spectrum: number[];
+    /**
+     * The most recent samples, downmixed and between -1 and 1.
+     */
+    waveform: number[];
+}
+
+/**
+ * How the volumes of two tracks change during a crossfade.
+ * `equalPower` keeps the loudness constant, `sCurve` swaps the tracks quickly in the middle.
+ */
+export type CrossfadeCurve = "linear" | "equalPower" | "sCurve";
+
+export interface CrossfadeSettings {
+    /**
+     * Duration in seconds, 0 plays the tracks back to back.
+     */
+    duration: number;
+    curve: CrossfadeCurve;
+}
+
+/**
+ * Bindings to the playback engine in the Tauri backend.
+ */
+export namespace Player {
+    export const EVENT_STATE = "player://state";
+    export const EVENT_POSITION = "player://position";
+    export const EVENT_TRACK_ENDED = "player://track-ended";
+    export const EVENT_TRACK_ADVANCED = "player://track-advanced";
+
+    export const DEFAULT_CROSSFADE: CrossfadeSettings = {
+        duration: 0,
+        curve: "equalPower",
+    };
+
+    /**
+     * Crossfade durations offered in the settings, in seconds.
+     */
+    export const CROSSFADE_DURATIONS = [0, 2, 4, 6, 8, 12];
+
+    export const CROSSFADE_CURVES: [CrossfadeCurve, string][] = [
+        ["equalPower", "Equal power"],
+        ["linear", "Linear"],
+        ["sCurve", "S-curve"],
+    ];
+
+    /**
+     * Interval of the position events in milliseconds, as sent by the backend.
+     */
+    export const POSITION_INTERVAL = 250;
+
+    /**
+     * Opens an audio file, starting playback immediately unless `autoplay` is false.
+     */
+    export const load = (path: string, autoplay: boolean = true) => invoke<void>("player_load", { path, autoplay });
+    export const play = () => invoke<void>("player_play");
+    export const pause = () => invoke<void>("player_pause");
+    export const toggle = () => invoke<void>("player_toggle");
+    export const stop = () => invoke<void>("player_stop");
+
+    /**
+     * @param position Target position in seconds.
+     */
+    export const seek = (position: number) => invoke<void>("player_seek", { position });
+
+    /**
+     * @param volume Linear gain between 0 and 1.
+     */
+    export const setVolume = (volume: number) => invoke<void>("player_set_volume", { volume });
+    export const getState = () => invoke<PlayerState>("player_get_state");
+
+    /**
+     * Sets the track played once the current one ends, without a gap. It is cross-faded in
+     * if `crossfade` is true and a crossfade duration is set.
+     */
+    export const setNext = (path: string | null, crossfade: boolean) => invoke<void>("player_set_next", { path, crossfade });
+    export const setCrossfade = (settings: CrossfadeSettings) => invoke<void>("player_set_crossfade", { settings });
+
+    /**
+     * Sets the normalization gains in dB by path, replacing the previous ones.
+     */
+    export const setGains = (gains: Record<string, number>) => invoke<void>("player_set_gains", { gains });
+
+    /**
+     * Streams frames of the playing audio to `handler`, until the returned function is called.
+     * There is one stream at a time, starting another one ends the previous one. Stopping
+     * a stream which was already replaced leaves the new one running.
+     */
+    export async function streamVisualizer(handler: (frame: VisualizerFrame) => void): Promise<() => Promise<void>> {
+        const channel = new Channel<VisualizerFrame>();
+        channel.onmessage = handler;
+        await invoke<void>("player_set_visualizer", { channel });
+        return () => invoke<void>("player_clear_visualizer", { id: channel.id });
+    }
+
+    export const onStateChanged = (handler: (state: PlayerState) => void) =>
+        listen<PlayerState>(EVENT_STATE, event => handler(event.payload));
+
+    /**
+     * Called every {@link POSITION_INTERVAL} milliseconds while playing.
+     */
+    export const onPositionChanged = (handler: (update: PositionUpdate) => void) =>
+        listen<PositionUpdate>(EVENT_POSITION, event => handler(event.payload));
+
+    /**
+     * The handler receives the path of the track which has been played to the end.
+     */
+    export const onTrackEnded = (handler: (path: string) => void) =>
+        listen<string>(EVENT_TRACK_ENDED, event => handler(event.payload));
+
+    /**
+     * Called when playback continued into the track set with {@link setNext}.
+     * The handler receives its path.
+     */
+    export const onTrackAdvanced = (handler: (path: string) => void) =>
+        listen<string>(EVENT_TRACK_ADVANCED, event => handler(event.payload));
+}
@@ -0,0 +1,66 @@
+import { invoke } from "@tauri-apps/api/core";
+import { listen } from "@tauri-apps/api/event";
+import type { Track } from "./Library";
+
+/**
+ * A user playlist, without its entries.
+ */
+export interface PlaylistSummary {
+    id: number;
+    name: string;
+    /**
+     * Number of entries which are in the library.
+     */
+    trackCount: number;
+}
+
+export interface ImportReport {
+    playlist: PlaylistSummary;
+    /**
+     * Locations which could not be resolved to library tracks, as written in the file.
+     */
+    unresolved: string[];
+}
+
+/**
+ * Bindings to the user playlists in the Tauri backend.
+ */
+export namespace Playlist {
+    export const EVENT_CHANGED = "playlist://changed";
+
+    /**
+     * Extensions of the playlist files which can be imported and exported.
+     */
+    export const EXTENSIONS = ["m3u8", "m3u", "pls", "xspf"];
+
+    export const list = () => invoke<PlaylistSummary[]>("playlist_list");
+    export const create = (name: string, paths: string[] = []) => invoke<PlaylistSummary>("playlist_create", { name, paths });
+    export const rename = (id: number, name: string) => invoke<void>("playlist_rename", { id, name });
+    export const remove = (id: number) => invoke<void>("playlist_delete", { id });
+
+    /**
+     * Tracks of a playlist in order. Entries which are no longer in the library are left out.
+     */
+    export const getTracks = (id: number) => invoke<Track[]>("playlist_get_tracks", { id });
+    export const setTracks = (id: number, paths: string[]) => invoke<void>("playlist_set_tracks", { id, paths });
+
+    /**
+     * Imports an M3U/M3U8, PLS or XSPF file as a new playlist.
+     * Only entries which resolve to library tracks are kept.
+     */
+    export const importFile = (path: string) => invoke<ImportReport>("playlist_import", { path });
+
+    /**
+     * Writes a playlist to `path`, in the format given by its extension.
+     *
+     * @param relative Whether to write paths relative to the folder of `path`.
+     */
+    export const exportFile = (id: number, path: string, relative: boolean) =>
+        invoke<void>("playlist_export", { id, path, relative });
+
+    /**
+     * Called with the full list of playlists whenever one is created, changed or deleted.
+     */
+    export const onChanged = (handler: (playlists: PlaylistSummary[]) => void) =>
+        listen<PlaylistSummary[]>(EVENT_CHANGED, event => handler(event.payload));
+}
@@ -0,0 +1,317 @@
+import { produce, reconcile } from "solid-js/store";
+import type { AppState } from "./Contexts";
+import type { Track } from "./Library";
+import { Player } from "./Player";
+
+export type RepeatMode = "off" | "one" | "all";
+
+/**
+ * A track in the queue.
+ * The same track may be queued several times, `id` tells the entries apart.
+ */
+export interface QueueEntry {
+    id: number;
+    track: Track;
+}
+
+export interface QueueState {
+    /**
+     * Entries in play order.
+     */
+    entries: QueueEntry[];
+    /**
+     * Index of the playing entry in `entries`, or -1 if nothing is playing.
+     */
+    current: number;
+    shuffle: boolean;
+    /**
+     * Ids of `entries` in the order before shuffling.
+     * Only maintained while `shuffle` is on.
+     */
+    unshuffledOrder: number[];
+    repeat: RepeatMode;
+    /**
+     * Previously played tracks, most recent first.
+     */
+    history: Track[];
+}
+
+export const DEFAULT_QUEUE_STATE: QueueState = {
+    entries: [],
+    current: -1,
+    shuffle: false,
+    unshuffledOrder: [],
+    repeat: "off",
+    history: [],
+};
+
+let nextEntryId = 0;
+
+const createEntries = (tracks: Track[]): QueueEntry[] => tracks.map(track => ({ id: nextEntryId++, track }));
+
+function shuffleInPlace<T>(list: T[]) {
+    for (let i = list.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [list[i], list[j]] = [list[j], list[i]];
+    }
+}
+
+/**
+ * Operations on the play queue in {@link AppState}.
+ */
+export namespace Queue {
+    export const HISTORY_SIZE = 100;
+
+    /**
+     * Seconds into a track after which "previous" restarts the track instead of going back.
+     */
+    export const RESTART_THRESHOLD = 3;
+
+    /**
+     * Returns the index of the entry to play after the current one, or -1 if the queue ends.
+     *
+     * @param auto Whether the current track ended by itself, rather than being skipped.
+     *             Only then "repeat one" repeats the track.
+     */
+    export function nextIndex(queue: QueueState, auto: boolean): number {
+        if (queue.entries.length == 0)
+            return -1;
+        if (queue.current < 0)
+            return 0;
+        if (auto && queue.repeat === "one")
+            return queue.current;
+        if (queue.current + 1 < queue.entries.length)
+            return queue.current + 1;
+        return queue.repeat === "all" ? 0 : -1;
+    }
+
+    /**
+     * The entry played when the current one ends by itself, if any.
+     */
+    export const upNext = (queue: QueueState): QueueEntry | undefined =>
+        queue.current < 0 ? undefined : queue.entries[nextIndex(queue, true)];
+
+    /**
+     * Makes the entry at `index` the current one, moving the previous one into the history.
+     */
+    function setCurrent(app: AppState, index: number) {
+        app.setQueue(produce(queue => {
+            const previous = queue.entries[queue.current];
+            if (previous !== undefined && queue.current !== index) {
+                queue.history.unshift(previous.track);
+                queue.history.splice(HISTORY_SIZE);
+            }
+            queue.current = index;
+        }));
+    }
+
+    /**
+     * Plays the entry at `index`, moving the current one into the history.
+     */
+    export function play(app: AppState, index: number, autoplay: boolean = true): Promise<void> {
+        const entry = app.queue.entries[index];
+        if (entry === undefined)
+            return Promise.resolve();
+
+        setCurrent(app, index);
+        return Player.load(entry.track.path, autoplay);
+    }
+
+    /**
+     * Follows the engine after it continued into the next track by itself, see {@link Player.setNext}.
+     */
+    export function advance(app: AppState, path: string) {
+        const expected = nextIndex(app.queue, true);
+        // The queue may have changed since the next track was set.
+        const index = app.queue.entries[expected]?.track.path === path
+            ? expected
+            : app.queue.entries.findIndex(entry => entry.track.path === path);
+        if (index >= 0)
+            setCurrent(app, index);
+    }
+
+    /**
+     * Replaces the queue with `tracks` and plays the one at `start`.
+     */
+    export function replace(app: AppState, tracks: Track[], start: number = 0): Promise<void> {
+        if (tracks.length == 0)
+            return clear(app);
+
+        const entries = createEntries(tracks);
+        app.setQueue(produce(queue => {
+            queue.entries = entries;
+            queue.current = -1;
+            if (queue.shuffle) {
+                queue.unshuffledOrder = entries.map(entry => entry.id);
+                // Start with the chosen track, shuffle the rest.
+                const [first] = queue.entries.splice(start, 1);
+                shuffleInPlace(queue.entries);
+                queue.entries.unshift(first);
+            }
+        }));
+        return play(app, app.queue.shuffle ? 0 : start);
+    }
+
+    /**
+     * Replaces the queue with a saved one without playing anything. The entries get new ids,
+     * so that they do not clash with those given out since.
+     */
+    export function restore(app: AppState, saved: QueueState) {
+        const ids = new Map<number, number>();
+        const entries = saved.entries.map(entry => {
+            const [restored] = createEntries([entry.track]);
+            ids.set(entry.id, restored.id);
+            return restored;
+        });
+        app.setQueue(reconcile({
+            ...saved,
+            entries,
+            unshuffledOrder: saved.unshuffledOrder.flatMap(id => ids.get(id) ?? []),
+        }));
+    }
+
+    /**
+     * Appends `tracks` to the end of the queue.
+     */
+    export function enqueue(app: AppState, tracks: Track[]) {
+        const entries = createEntries(tracks);
+        app.setQueue(produce(queue => {
+            queue.entries.push(...entries);
+            if (queue.shuffle)
+                queue.unshuffledOrder.push(...entries.map(entry => entry.id));
+        }));
+    }
+
+    /**
+     * Inserts `tracks` right after the current entry.
+     */
+    export function playNext(app: AppState, tracks: Track[]) {
+        const entries = createEntries(tracks);
+        app.setQueue(produce(queue => {
+            const currentId = queue.entries[queue.current]?.id;
+            queue.entries.splice(queue.current + 1, 0, ...entries);
+            if (queue.shuffle) {
+                const position = queue.unshuffledOrder.indexOf(currentId ?? -1);
+                queue.unshuffledOrder.splice(position + 1, 0, ...entries.map(entry => entry.id));
+            }
+        }));
+    }
+
+    /**
+     * Removes an entry. Removing the current entry skips to the following one.
+     */
+    export function remove(app: AppState, id: number): Promise<void> {
+        const index = app.queue.entries.findIndex(entry => entry.id === id);
+        if (index < 0)
+            return Promise.resolve();
+
+        const wasCurrent = index === app.queue.current;
+        app.setQueue(produce(queue => {
+            queue.entries.splice(index, 1);
+            queue.unshuffledOrder = queue.unshuffledOrder.filter(other => other !== id);
+            if (wasCurrent)
+                // Keeps the removed track out of the history.
+                queue.current = -1;
+            else if (index < queue.current)
+                queue.current -= 1;
+        }));
+
+        if (!wasCurrent)
+            return Promise.resolve();
+        if (index < app.queue.entries.length)
+            return play(app, index, app.playerState.status === "playing");
+        return Player.stop();
+    }
+
+    /**
+     * Moves the entry at `from` to `to`, keeping track of the current entry.
+     */
+    export function move(app: AppState, from: number, to: number) {
+        if (from === to)
+            return;
+
+        app.setQueue(produce(queue => {
+            const [entry] = queue.entries.splice(from, 1);
+            queue.entries.splice(to, 0, entry);
+
+            if (queue.current === from)
+                queue.current = to;
+            else if (from < queue.current && to >= queue.current)
+                queue.current -= 1;
+            else if (from > queue.current && to <= queue.current)
+                queue.current += 1;
+        }));
+    }
+
+    export function clear(app: AppState): Promise<void> {
+        app.setQueue(produce(queue => {
+            queue.entries = [];
+            queue.unshuffledOrder = [];
+            queue.current = -1;
+        }));
+        return Player.stop();
+    }
+
+    /**
+     * Moves the current entry to the top and shuffles the others behind it, or restores their original order.
+     */
+    export function setShuffle(app: AppState, shuffle: boolean) {
+        if (shuffle === app.queue.shuffle)
+            return;
+
+        app.setQueue(produce(queue => {
+            const current = queue.entries[queue.current];
+            if (shuffle) {
+                queue.unshuffledOrder = queue.entries.map(entry => entry.id);
+                const rest = queue.entries.filter(entry => entry !== current);
+                shuffleInPlace(rest);
+                queue.entries = current === undefined ? rest : [current, ...rest];
+                queue.current = current === undefined ? -1 : 0;
+            } else {
+                const byId = new Map(queue.entries.map(entry => [entry.id, entry]));
+                const restored = queue.unshuffledOrder.flatMap(id => byId.get(id) ?? []);
+                queue.entries = restored;
+                queue.current = current === undefined ? -1 : restored.indexOf(current);
+                queue.unshuffledOrder = [];
+            }
+            queue.shuffle = shuffle;
+        }));
+    }
+
+    export function setRepeat(app: AppState, repeat: RepeatMode) {
+        app.setQueue("repeat", repeat);
+    }
+
+    /**
+     * Switches to the next repeat mode: off → all → one → off.
+     */
+    export function cycleRepeat(app: AppState) {
+        const order: RepeatMode[] = ["off", "all", "one"];
+        setRepeat(app, order[(order.indexOf(app.queue.repeat) + 1) % order.length]);
+    }
+
+    /**
+     * @param auto Whether the current track ended by itself, see {@link nextIndex}.
+     */
+    export function next(app: AppState, auto: boolean = false): Promise<void> {
+        const index = nextIndex(app.queue, auto);
+        if (index < 0)
+            return Promise.resolve();
+        return play(app, index);
+    }
+
+    /**
+     * Restarts the current track if it has been playing for a while, otherwise goes back one entry.
+     */
+    export function previous(app: AppState): Promise<void> {
+        const { current, entries, repeat } = app.queue;
+        if (app.playerState.position > RESTART_THRESHOLD || current < 0)
+            return Player.seek(0);
+
+        if (current > 0)
+            return play(app, current - 1);
+        if (repeat === "all" && entries.length > 0)
+            return play(app, entries.length - 1);
+        return Player.seek(0);
+    }
+}
@@ -0,0 +1,152 @@
+import { produce } from "solid-js/store";
+import type { AppState } from "./Contexts";
+import { SharedElementTransition, startTransitionSE, TransitionOptions } from "./SharedElement";
+
+/**
+ * A view of the content page.
+ */
+export type Route =
+    | { view: "songs" }
+    | { view: "albums" }
+    | { view: "album", key: string }
+    | { view: "artists" }
+    | { view: "artist", name: string }
+    /**
+     * `path` is null for the list of library folders.
+     */
+    | { view: "folders", path: string | null }
+    | { view: "settings" }
+    | { view: "search", query: string };
+
+export interface RouterState {
+    /**
+     * Visited routes, oldest first. Going back or forward only moves `index`.
+     */
+    entries: Route[];
+    index: number;
+}
+
+export const DEFAULT_ROUTE: Route = { view: "songs" };
+
+export const DEFAULT_ROUTER_STATE: RouterState = {
+    entries: [DEFAULT_ROUTE],
+    index: 0,
+};
+
+/**
+ * Navigation between the views of the content page, in {@link AppState}.
+ *
+ * The current route is mirrored in the location hash, e.g. `#/album/<key>`,
+ * so that views can be linked to.
+ */
+export namespace Router {
+    export const HISTORY_SIZE = 100;
+
+    export const current = (app: AppState) => app.router.entries[app.router.index];
+    export const canGoBack = (app: AppState) => app.router.index > 0;
+    export const canGoForward = (app: AppState) => app.router.index < app.router.entries.length - 1;
+
+    export function toHash(route: Route): string {
+        switch (route.view) {
+            case "album":
+                return `#/album/${encodeURIComponent(route.key)}`;
+            case "artist":
+                return `#/artist/${encodeURIComponent(route.name)}`;
+            case "folders":
+                return route.path === null ? "#/folders" : `#/folders/${encodeURIComponent(route.path)}`;
+            case "search":
+                return route.query === "" ? "#/search" : `#/search/${encodeURIComponent(route.query)}`;
+            default:
+                return `#/${route.view}`;
+        }
+    }
+
+    /**
+     * Returns `undefined` if `hash` is not a valid route.
+     */
+    export function parseHash(hash: string): Route | undefined {
+        const [view, param] = hash.replace(/^#\/?/, "").split(/\/(.*)/s);
+        let value: string | undefined;
+        try {
+            value = param === undefined || param === "" ? undefined : decodeURIComponent(param);
+        } catch {
+            return undefined;
+        }
+
+        switch (view) {
+            case "songs":
+            case "albums":
+            case "artists":
+            case "settings":
+                return value === undefined ? { view } : undefined;
+            case "album":
+                return value === undefined ? undefined : { view, key: value };
+            case "artist":
+                return value === undefined ? undefined : { view, name: value };
+            case "folders":
+                return { view, path: value ?? null };
+            case "search":
+                return { view, query: value ?? "" };
+            default:
+                return undefined;
+        }
+    }
+
+    export const equals = (a: Route, b: Route) => toHash(a) === toHash(b);
+
+    /**
+     * The top level view a route belongs to, used to highlight its side bar item.
+     */
+    export function section(route: Route): Route {
+        switch (route.view) {
+            case "album":
+                return { view: "albums" };
+            case "artist":
+                return { view: "artists" };
+            case "folders":
+                return { view: "folders", path: null };
+            default:
+                return route;
+        }
+    }
+
+    /**
+     * Opens `route`, dropping the routes after the current one.
+     * Shared elements of the old and the new view are animated, interrupting a running transition.
+     *
+     * @returns The transition, or `undefined` if `route` is already open.
+     */
+    export function navigate(app: AppState, route: Route, options?: TransitionOptions): SharedElementTransition | undefined {
+        if (equals(route, current(app)))
+            return undefined;
+
+        return startTransitionSE(() => app.setRouter(router => {
+            const entries = [...router.entries.slice(0, router.index + 1), route].slice(-HISTORY_SIZE);
+            return { entries, index: entries.length - 1 };
+        }), { policy: "interrupt", ...options });
+    }
+
+    /**
+     * Swaps the current route for `route`, without a transition and without adding to
+     * the history.
+     */
+    export function replace(app: AppState, route: Route) {
+        app.setRouter(produce(router => {
+            router.entries[router.index] = route;
+        }));
+    }
+
+    /**
+     * Moves `delta` steps through the history, if possible.
+     */
+    export function go(app: AppState, delta: number): SharedElementTransition | undefined {
+        const index = app.router.index + delta;
+        if (delta == 0 || index < 0 || index >= app.router.entries.length)
+            return undefined;
+
+        return startTransitionSE(() => app.setRouter("index", index), { policy: "interrupt" });
+    }
+
+    export const back = (app: AppState) => go(app, -1);
+    export const forward = (app: AppState) => go(app, 1);
+}
@@ -0,0 +1,142 @@
+import { invoke } from "@tauri-apps/api/core";
+import type { AppState } from "./Contexts";
+import { Album, Library, Track } from "./Library";
+import { Queue } from "./Queue";
+import { Router } from "./Router";
+import { clamp } from "./Util";
+
+/**
+ * Hits of a search as found by the backend, best first.
+ */
+export interface SearchResults {
+    /**
+     * Paths of the tracks.
+     */
+    tracks: string[];
+    /**
+     * Path of a track of each album.
+     */
+    albums: string[];
+    /**
+     * Names of the artists.
+     */
+    artists: string[];
+}
+
+export type SearchItem =
+    | { kind: "track", track: Track }
+    | { kind: "album", album: Album }
+    | { kind: "artist", name: string, albums: number, tracks: number };
+
+export interface SearchState {
+    /**
+     * Hits of the query of the search route: the songs, then the albums, then the artists.
+     */
+    items: SearchItem[];
+    /**
+     * Index in `items` of the hit opened by Enter.
+     */
+    selected: number;
+    /**
+     * Whether `items` are still those of a previous query.
+     */
+    pending: boolean;
+}
+
+export const DEFAULT_SEARCH_STATE: SearchState = {
+    items: [],
+    selected: 0,
+    pending: false,
+};
+
+/**
+ * Searching the library, see `Query::parse` in the backend for the syntax of queries.
+ * The query is part of the search route, so that going back returns to earlier searches.
+ */
+export namespace Search {
+    /**
+     * Hits shown of each kind.
+     */
+    export const LIMIT = 50;
+
+    /**
+     * A query is only sent once it has not been typed on for this long, in milliseconds.
+     */
+    export const DEBOUNCE = 150;
+
+    export const query = (query: string) => invoke<SearchResults>("library_search", { query, limit: LIMIT });
+
+    /**
+     * The query of the current route, empty unless the search view is open.
+     */
+    export function currentQuery(app: AppState): string {
+        const route = Router.current(app);
+        return route.view === "search" ? route.query : "";
+    }
+
+    /**
+     * Opens the search view with `query`. Typing in the open view replaces its route,
+     * rather than adding a route per key.
+     */
+    export function setQuery(app: AppState, query: string) {
+        if (Router.current(app).view === "search")
+            Router.replace(app, { view: "search", query });
+        else
+            Router.navigate(app, { view: "search", query });
+    }
+
+    /**
+     * Looks up the hits in `tracks`. Hits which are not there, e.g. because the library
+     * changed in the meantime, are left out.
+     */
+    export function resolve(tracks: Track[], results: SearchResults): SearchItem[] {
+        const byPath = new Map(tracks.map(track => [track.path, track]));
+        const albums = new Map(Library.groupAlbums(tracks).map(album => [album.key, album]));
+        const artists = new Map(Library.groupArtists(tracks).map(artist => [artist.name, artist]));
+
+        const items: SearchItem[] = [];
+        for (const path of results.tracks) {
+            const track = byPath.get(path);
+            if (track !== undefined)
+                items.push({ kind: "track", track });
+        }
+        for (const path of results.albums) {
+            const track = byPath.get(path);
+            const album = track?.album != null ? albums.get(Library.albumKey(Library.albumArtist(track), track.album)) : undefined;
+            if (album !== undefined)
+                items.push({ kind: "album", album });
+        }
+        for (const name of results.artists) {
+            const artist = artists.get(name);
+            if (artist !== undefined)
+                items.push({ kind: "artist", name, albums: artist.albums.length, tracks: artist.tracks.length });
+        }
+        return items;
+    }
+
+    /**
+     * Plays a song, queueing the songs found along with it, or opens an album or an artist.
+     */
+    export function open(app: AppState, item: SearchItem): Promise<void> {
+        switch (item.kind) {
+            case "track": {
+                const tracks = app.search.items.flatMap(item => item.kind === "track" ? [item.track] : []);
+                return Queue.replace(app, tracks, Math.max(0, tracks.indexOf(item.track)));
+            }
+            case "album":
+                Router.navigate(app, { view: "album", key: item.album.key });
+                return Promise.resolve();
+            case "artist":
+                Router.navigate(app, { view: "artist", name: item.name });
+                return Promise.resolve();
+        }
+    }
+
+    /**
+     * Moves the selection by `delta` hits, stopping at the first and the last one.
+     */
+    export function moveSelection(app: AppState, delta: number) {
+        const last = app.search.items.length - 1;
+        app.setSearch("selected", selected => clamp(0, selected + delta, Math.max(0, last)));
+    }
+}
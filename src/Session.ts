@@ -0,0 +1,69 @@
+import { invoke } from "@tauri-apps/api/core";
+import type { AppState } from "./Contexts";
+import { Player } from "./Player";
+import { Queue, QueueState } from "./Queue";
+
+export interface SessionSettings {
+    /**
+     * Whether playback resumes by itself when the app starts, rather than waiting paused.
+     */
+    autoResume: boolean;
+}
+
+/**
+ * The session saved by the backend when the app last ran.
+ */
+export interface SavedSession {
+    queue: QueueState | null;
+    /**
+     * Path of the loaded file.
+     */
+    path: string | null;
+    /**
+     * Playback position in seconds.
+     */
+    position: number;
+    volume: number;
+}
+
+/**
+ * Restoring the playback session of the previous run. The backend saves it periodically
+ * and when the app exits, the frontend only has to keep it informed of the queue.
+ */
+export namespace Session {
+    export const DEFAULT_SETTINGS: SessionSettings = {
+        autoResume: false,
+    };
+
+    /**
+     * A changed queue is sent once it has not changed for this long, in milliseconds.
+     */
+    export const SEND_DELAY = 300;
+
+    /**
+     * Resolves to null if there is no session to restore.
+     */
+    export const read = () => invoke<SavedSession | null>("session_read");
+    export const setQueue = (queue: QueueState) => invoke<void>("session_set_queue", { queue });
+
+    /**
+     * Puts back the queue, the volume and the loaded track at its position.
+     * Playback stays paused unless `autoResume` is set.
+     */
+    export async function restore(app: AppState, session: SavedSession, autoResume: boolean) {
+        await Player.setVolume(session.volume);
+        if (session.queue === null)
+            return;
+
+        Queue.restore(app, session.queue);
+        const entry = app.queue.entries[app.queue.current];
+        // The track may have been removed from the queue after it was loaded.
+        if (entry === undefined || entry.track.path !== session.path)
+            return;
+        await Player.load(entry.track.path, false);
+        if (session.position > 0)
+            await Player.seek(session.position);
+        if (autoResume)
+            await Player.play();
+    }
+}
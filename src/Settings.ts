@@ -0,0 +1,186 @@
+import { invoke } from "@tauri-apps/api/core";
+import { reconcile, SetStoreFunction } from "solid-js/store";
+import type { AppState } from "./Contexts";
+import { CrossfadeSettings, Player } from "./Player";
+import { Motion, MotionSettings } from "./Motion";
+import { Normalization, NormalizationSettings } from "./Normalization";
+import { Session, SessionSettings } from "./Session";
+import { Shortcuts, ShortcutSettings } from "./Shortcuts";
+import { Theme, ThemeSettings } from "./Theme";
+import { Visualizer, VisualizerSettings } from "./Visualizer";
+import { clamp } from "./Util";
+
+export interface LayoutSettings {
+    /**
+     * Width of the side bar as a fraction of the content page, between
+     * {@link Settings.SIDE_BAR_MIN_WIDTH} and {@link Settings.SIDE_BAR_MAX_WIDTH}.
+     */
+    sideBarWidth: number;
+    showSideBar: boolean;
+    showLogo: boolean;
+}
+
+/**
+ * Everything saved across restarts, by section. Each section is a store of {@link AppState}
+ * under the same name.
+ */
+export interface AppSettings {
+    theme: ThemeSettings;
+    motion: MotionSettings;
+    layout: LayoutSettings;
+    crossfade: CrossfadeSettings;
+    normalization: NormalizationSettings;
+    visualizer: VisualizerSettings;
+    shortcuts: ShortcutSettings;
+    session: SessionSettings;
+}
+
+export type SettingsSection = keyof AppSettings;
+
+/**
+ * Brings saved settings from the version given by its index in the list of migrations
+ * to the next one.
+ */
+type Migration = (settings: Record<string, unknown>) => Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * `stored` laid over `defaults`. Values missing from `stored`, or of another type than
+ * their default, are taken from `defaults`. Records which are empty by default, such as
+ * the shortcut bindings, are taken as stored.
+ */
+function merge<T>(defaults: T, stored: unknown): T {
+    if (isRecord(defaults)) {
+        if (!isRecord(stored))
+            return structuredClone(defaults);
+        if (Object.keys(defaults).length === 0)
+            return structuredClone(stored) as T;
+        return mergeRecord(defaults, stored);
+    }
+    if (stored === undefined || typeof stored !== typeof defaults || Array.isArray(stored) !== Array.isArray(defaults))
+        return structuredClone(defaults);
+    return structuredClone(stored) as T;
+}
+
+function mergeRecord<T extends object>(defaults: T, stored: Record<string, unknown>): T {
+    const merged = { ...defaults };
+    for (const key of Object.keys(defaults) as (keyof T & string)[])
+        merged[key] = merge(defaults[key], stored[key]);
+    return merged;
+}
+
+/**
+ * Loading and saving the settings through the backend, which keeps them in `settings.json`
+ * in the app config dir.
+ */
+export namespace Settings {
+    export const SIDE_BAR_MIN_WIDTH = 0.2;
+    export const SIDE_BAR_MAX_WIDTH = 0.35;
+
+    export const DEFAULT_LAYOUT: LayoutSettings = {
+        sideBarWidth: SIDE_BAR_MIN_WIDTH,
+        showSideBar: true,
+        showLogo: true,
+    };
+
+    export const DEFAULT_SETTINGS: AppSettings = {
+        theme: Theme.DEFAULT_SETTINGS,
+        motion: Motion.DEFAULT_SETTINGS,
+        layout: DEFAULT_LAYOUT,
+        crossfade: Player.DEFAULT_CROSSFADE,
+        normalization: Normalization.DEFAULT_SETTINGS,
+        visualizer: Visualizer.DEFAULT_SETTINGS,
+        shortcuts: Shortcuts.DEFAULT_SETTINGS,
+        session: Session.DEFAULT_SETTINGS,
+    };
+
+    export const SECTIONS = Object.keys(DEFAULT_SETTINGS) as SettingsSection[];
+
+    /**
+     * Changes are saved once the settings have been left alone for this long, in milliseconds.
+     */
+    export const SAVE_DELAY = 500;
+
+    /**
+     * Applied in order to older saved settings. Settings are saved with the number of
+     * migrations as their `version`, so a migration must be appended whenever a change of
+     * {@link AppSettings} would lose or misread what was saved before.
+     */
+    const MIGRATIONS: Migration[] = [
+        // 0 to 1: the width of the side bar was saved in pixels, it is now a fraction of the
+        // content page, which follows it when the window is resized.
+        settings => {
+            const layout = settings.layout;
+            if (!isRecord(layout) || typeof layout.sideBarWidth !== "number")
+                return settings;
+            const { sideBarWidth: pixels, ...rest } = layout;
+            const pageWidth = document.querySelector(".content-page")?.clientWidth ?? 0;
+            // Left to the default if the page cannot be measured.
+            if (pageWidth === 0)
+                return { ...settings, layout: rest };
+            const sideBarWidth = clamp(SIDE_BAR_MIN_WIDTH, pixels / pageWidth, SIDE_BAR_MAX_WIDTH);
+            return { ...settings, layout: { ...rest, sideBarWidth } };
+        },
+    ];
+
+    export const VERSION = MIGRATIONS.length;
+
+    /**
+     * Turns saved settings of any version into the current schema. Anything unknown or
+     * invalid falls back to its default.
+     */
+    export function migrate(stored: unknown): AppSettings {
+        if (!isRecord(stored))
+            return structuredClone(DEFAULT_SETTINGS);
+
+        const version = typeof stored.version === "number" ? stored.version : 0;
+        if (version > VERSION)
+            console.warn(`The settings were saved by a newer version (${version}), reading what is understood.`);
+        const migrated = MIGRATIONS.slice(version).reduce((settings, migration) => migration(settings), stored);
+        return merge(DEFAULT_SETTINGS, migrated);
+    }
+
+    /**
+     * Resolves to the default settings if none have been saved yet.
+     */
+    export const read = () => invoke<unknown>("settings_read").then(migrate);
+    export const write = (settings: AppSettings) => invoke<void>("settings_write", { settings: { version: VERSION, ...settings } });
+
+    const setters = (app: AppState): { [S in SettingsSection]: SetStoreFunction<AppSettings[S]> } => ({
+        theme: app.setTheme,
+        motion: app.setMotion,
+        layout: app.setLayout,
+        crossfade: app.setCrossfade,
+        normalization: app.setNormalization,
+        visualizer: app.setVisualizer,
+        shortcuts: app.setShortcuts,
+        session: app.setSession,
+    });
+
+    /**
+     * The settings in `app`. Reading it inside a tracking scope, e.g. with `JSON.stringify`,
+     * subscribes to every option.
+     */
+    export function current(app: AppState): AppSettings {
+        return Object.fromEntries(SECTIONS.map(section => [section, app[section]])) as unknown as AppSettings;
+    }
+
+    function setSection<S extends SettingsSection>(app: AppState, section: S, value: AppSettings[S]) {
+        const set: SetStoreFunction<AppSettings[S]> = setters(app)[section];
+        set(reconcile(value));
+    }
+
+    export function apply(app: AppState, settings: AppSettings) {
+        for (const section of SECTIONS)
+            setSection(app, section, settings[section]);
+    }
+
+    export const isDefault = (app: AppState, section: SettingsSection) =>
+        JSON.stringify(app[section]) === JSON.stringify(DEFAULT_SETTINGS[section]);
+
+    export function reset(app: AppState, section: SettingsSection) {
+        setSection(app, section, structuredClone(DEFAULT_SETTINGS[section]));
+    }
+}
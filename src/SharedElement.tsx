@@ -1,6 +1,7 @@
 import { Accessor, children, createEffect, createMemo, createSignal, JSX, mergeProps, on, onCleanup, onMount, untrack } from "solid-js";
 import "./SharedElement.scss";
 import { Easings, isElement } from "./Util";
+import { Motion } from "./Motion";
 
 export interface AnimationSettings extends KeyframeEffectOptions {
     enable?: boolean;
@@ -39,27 +40,150 @@ export interface TransitionCallbackState {
  * The state of a single shared element.
  */
 export interface ElementState {
+    name: string;
     el: HTMLElement;
     fadeOutAnimation: AnimationSettings & { initialOpacity?: string };
     fadeInAnimation: AnimationSettings & { initialOpacity?: string };
     onAnimationsReady?: (elements: TransitionCallbackState) => void;
     onAnimationsEnd?: (elements: TransitionCallbackState) => void;
     dependencies: string[];
+    unmatched: UnmatchedBehavior;
 }
 
+/**
+ * What happens to an element whose group has no element on the other side of a transition.
+ * - `crossfade`: it fades in or out.
+ * - `ignore`: it is not animated, e.g. for the items of a grid of which only one morphs into a page.
+ */
+export type UnmatchedBehavior = "crossfade" | "ignore";
+
+/**
+ * The elements sharing a name, or a name and a key.
+ */
 export interface GroupState {
+    name: string;
     elOld?: ElementState;
     rectOld?: DOMRect;
     elements: Accessor<ElementState>[];
 }
 
+/**
+ * What {@link startTransitionSE} does while another transition is running.
+ * - `reject`: logs an error, unless `silentlyFail` is set, and ignores the call.
+ * - `defer`: starts the transition once the running one has finished.
+ * - `interrupt`: starts from where the running animations are, they are stopped and
+ *   their current geometry becomes the old state of the new transition.
+ * - `reverse`: plays the running animations backwards, for a callback undoing the
+ *   change of the running transition.
+ */
+export type TransitionPolicy = "reject" | "defer" | "interrupt" | "reverse";
+
+export interface TransitionOptions {
+    /**
+     * Defaults to {@link globalState.defaultPolicy}.
+     */
+    policy?: TransitionPolicy;
+
+    /**
+     * Waits for the images in the new elements to be decoded before measuring them,
+     * at most {@link IMAGE_DECODE_TIMEOUT} milliseconds.
+     */
+    decodeImages?: boolean;
+}
+
+/**
+ * A transition started by {@link startTransitionSE}, modeled on the `ViewTransition` of the View Transition API.
+ */
+export interface SharedElementTransition {
+    /**
+     * Resolves once the callback has run, or rejects with its error.
+     */
+    updateCallbackDone: Promise<void>;
+
+    /**
+     * Resolves once the new elements are measured and the animations started.
+     * Rejects if the transition did not start: the callback failed, the transition
+     * was rejected because of a running one, or it was skipped before.
+     */
+    ready: Promise<void>;
+
+    /**
+     * Resolves once the animations have ended and the elements are shown in the page again.
+     * Rejects if the callback failed or the transition was rejected.
+     */
+    finished: Promise<void>;
+
+    /**
+     * Ends the animations at once. The callback still runs if it has not yet.
+     */
+    skip(): void;
+}
+
+export const IMAGE_DECODE_TIMEOUT = 300;
+
+/**
+ * What a transition did with a group.
+ */
+export type GroupOutcome = "morphed" | "cross-faded" | "faded-in" | "faded-out" | "ignored" | "skipped" | "removed" | "blocked";
+
+export interface GroupReport {
+    id: string;
+    name: string;
+    outcome: GroupOutcome;
+    /**
+     * Why the group got this outcome, for humans.
+     */
+    reason: string;
+    rectOld?: DOMRect;
+    rectNew?: DOMRect;
+}
+
+/**
+ * Describes a transition, for debugging. See {@link globalState.onReport}.
+ */
+export interface TransitionReport {
+    /**
+     * Reports of the groups, in the order they were ready.
+     */
+    groups: GroupReport[];
+    /**
+     * Whether the dependency depth limit was reached, the groups still waiting are reported as `blocked`.
+     */
+    depthExceeded: boolean;
+}
+
+/**
+ * A group whose transition animations are running.
+ */
+interface RunningGroup {
+    elGroup: HTMLElement;
+    elPair: HTMLElement;
+    /**
+     * The element in the page, hidden until the animations end.
+     */
+    elLive?: HTMLElement;
+    /**
+     * State of the element the group transitions to, or from if the group has no new element.
+     */
+    state: ElementState;
+    animations: Animation[];
+    /**
+     * Removes the transition elements and shows `elLive`. Does nothing once called.
+     */
+    end: () => void;
+    /**
+     * Resolves once `end` has been called.
+     */
+    ended: Promise<void>;
+}
+
 /**
  * Stores the shared elements and their states.
  */
 export const globalState: {
     /**
      * Tracks all shared elements' state.
-     * The key is the shared element's `name` attribute.
+     * The key is the id built by {@link groupId} from the shared element's `name` and `key` attributes.
      */
     groups: Map<string, GroupState>,
 
@@ -71,13 +195,28 @@ export const globalState: {
      */
     isTransitioning: boolean,
 
+    /**
+     * Groups whose animations are running, by id.
+     */
+    running: Map<string, RunningGroup>,
+
     /**
      * The root element of all transitioning elements.
      */
     transitionRoot: HTMLElement,
 
+    /**
+     * Resolves once no animation is running anymore, including those of interrupting transitions.
+     */
     previousTransitionFinished: Promise<void>;
-    allowDefer: boolean,
+
+    /**
+     * Set while a transition waits for its callback, or for images to decode, before measuring the new elements.
+     * Other transitions wait for it, whatever their policy, as the old elements of the waiting one are saved.
+     */
+    capturing: Promise<void> | null,
+
+    defaultPolicy: TransitionPolicy,
 
     /**
      * Whether to silently fail if the transition fails.
@@ -85,10 +224,26 @@ export const globalState: {
     silentlyFail: boolean,
 
     maxDependencyDepth: number,
+
+    /**
+     * Receives a report of every transition once its animations started. Used by the inspector in development.
+     */
+    onReport?: (report: TransitionReport) => void,
+
+    /**
+     * Playback rate of the transition animations, lowered to inspect them. See {@link setTransitionPlaybackRate}.
+     */
+    playbackRate: number,
+
+    /**
+     * Whether transition animations are paused. See {@link setTransitionsPaused}.
+     */
+    paused: boolean,
 } = {
     groups: new Map(),
     transformProperties: new Map(),
     isTransitioning: false,
+    running: new Map(),
     transitionRoot: (() => {
         const el = document.createElement("div");
         el.id = "shared-element-transition-root";
@@ -96,11 +251,58 @@ export const globalState: {
         return el;
     })(),
     previousTransitionFinished: Promise.resolve(),
-    allowDefer: false,
+    capturing: null,
+    defaultPolicy: "reject",
     silentlyFail: false,
     maxDependencyDepth: 100,
+    playbackRate: 1,
+    paused: false,
 };
 
+/**
+ * Report of the transition being performed, if anyone listens.
+ */
+let currentReport: TransitionReport | null = null;
+
+function reportGroup(report: GroupReport) {
+    currentReport?.groups.push(report);
+}
+
+/**
+ * Changes the playback rate of the running and the future transition animations.
+ */
+export function setTransitionPlaybackRate(rate: number) {
+    globalState.playbackRate = rate;
+    globalState.running.forEach(group => group.animations.forEach(anim => {
+        // Keep the direction of reversed animations.
+        anim.playbackRate = Math.sign(anim.playbackRate || 1) * rate;
+    }));
+}
+
+/**
+ * Pauses or resumes the running transition animations. Animations of new transitions start paused while paused.
+ */
+export function setTransitionsPaused(paused: boolean) {
+    globalState.paused = paused;
+    globalState.running.forEach(group => group.animations.forEach(anim => paused ? anim.pause() : anim.play()));
+}
+
+/**
+ * Moves the running transition animations `ms` milliseconds of animation time forward, pausing them.
+ */
+export function stepTransitions(ms: number = 1000 / 60) {
+    setTransitionsPaused(true);
+    globalState.running.forEach(group => group.animations.forEach(anim => {
+        const time = Number(anim.currentTime ?? 0);
+        anim.currentTime = Math.max(0, time + ms * Math.sign(anim.playbackRate || 1));
+    }));
+}
+
+/**
+ * Elements with a key are grouped with those having the same name and key.
+ */
+export const groupId = (name: string, key?: string) => key === undefined ? name : `${name}[${key}]`;
+
 function cloneElementForTransition(el: HTMLElement): HTMLElement {
     const elNew = el.cloneNode(true) as HTMLElement;
     elNew.querySelectorAll(".--se-transition-internal-marker").forEach(elNested => {
@@ -121,14 +323,7 @@ function saveElementsAndBoundingRects() {
             // Hide the nested elements by checking the marker class
             const state = group.elements[0]();
             const el = cloneElementForTransition(state.el);
-            group.elOld = {
-                el,
-                fadeOutAnimation: state.fadeOutAnimation,
-                fadeInAnimation: state.fadeInAnimation,
-                onAnimationsReady: state.onAnimationsReady,
-                onAnimationsEnd: state.onAnimationsEnd,
-                dependencies: state.dependencies,
-            };
+            group.elOld = { ...state, el };
             // Why not use `group.elOld!.el`?
             // It is a copied element, and is not contained in the DOM tree.
             // So `getBoundingClientRect()` will get wrong rectangle.
@@ -152,6 +347,19 @@ export type SharedElementProps = {
      */
     name: string;
 
+    /**
+     * Identifies the element among those with the same name, e.g. the item of a list it shows.
+     * A transition only animates an element into one with the same name and key,
+     * so a whole list of elements can share a name with a single detail element.
+     */
+    key?: string;
+
+    /**
+     * What happens if there is no element with the same name and key on the other side of a transition.
+     * Defaults to `crossfade`.
+     */
+    unmatched?: UnmatchedBehavior;
+
     /**
      * The child element that will be treated as a shared element.
      * It must be a single element; otherwise, a TypeError will be thrown.
@@ -193,12 +401,14 @@ const SharedElementDefaultProps = {
         enable: true,
     },
     dependencies: [],
+    unmatched: "crossfade" as UnmatchedBehavior,
     enable: true,
 };
 
 export function SharedElement(rawProps: SharedElementProps): JSX.Element {
     const props = mergeProps(SharedElementDefaultProps, rawProps);
-    let oldName: string = untrack(() => props.name);
+    const id = () => groupId(props.name, props.key);
+    let oldId: string = untrack(id);
 
     const jsxChild = children(() => props.children);
     if (!isElement(jsxChild())) {
@@ -209,49 +419,44 @@ export function SharedElement(rawProps: SharedElementProps): JSX.Element {
 
     let isRegistered = false;
 
-    const [elementState, setElementState] = createSignal<ElementState>({
+    const currentState = (): ElementState => ({
+        name: props.name,
         el: child(),
         fadeOutAnimation: props.fadeOutAnimationProps,
         fadeInAnimation: props.fadeInAnimationProps,
         onAnimationsReady: props.onAnimationsReady,
         onAnimationsEnd: props.onAnimationsEnd,
         dependencies: props.dependencies,
+        unmatched: props.unmatched,
     });
-    createEffect(() => {
-        setElementState({
-            el: child(),
-            fadeOutAnimation: props.fadeOutAnimationProps,
-            fadeInAnimation: props.fadeInAnimationProps,
-            onAnimationsReady: props.onAnimationsReady,
-            onAnimationsEnd: props.onAnimationsEnd,
-            dependencies: props.dependencies,
-        });
-    });
+    const [elementState, setElementState] = createSignal<ElementState>(untrack(currentState));
+    createEffect(() => setElementState(currentState()));
 
-    const mountAction = (name: string) => {
+    const mountAction = (id: string) => {
         if (isRegistered)
             return;
         else
             isRegistered = true;
 
-        if (globalState.groups.has(name)) {
-            globalState.groups.get(name)!.elements.push(elementState);
+        if (globalState.groups.has(id)) {
+            globalState.groups.get(id)!.elements.push(elementState);
         } else {
             const elements: Accessor<ElementState>[] = [elementState];
-            globalState.groups.set(name, {
+            globalState.groups.set(id, {
+                name: untrack(() => props.name),
                 elements,
             });
         }
     };
-    onMount(() => { if (props.enable) mountAction(props.name) });
+    onMount(() => { if (props.enable) mountAction(id()) });
 
-    const cleanupAction = (name: string) => {
+    const cleanupAction = (id: string) => {
         if (!isRegistered)
             return;
         else
             isRegistered = false;
 
-        const group = globalState.groups.get(name);
+        const group = globalState.groups.get(id);
         if (group) {
             // If exists, remove the element from the list.
             const idx = group.elements.findIndex(val => untrack(() => val().el === child()));
@@ -261,24 +466,26 @@ export function SharedElement(rawProps: SharedElementProps): JSX.Element {
 
             // Delete the unnecessary list to prevent memory leak.
             if (!(globalState.isTransitioning || group.elements.length)) {
-                globalState.groups.delete(name);
+                globalState.groups.delete(id);
             }
         }
     };
-    onCleanup(() => cleanupAction(props.name));
+    onCleanup(() => cleanupAction(oldId));
 
     createEffect(on(() => props.enable, enable => {
         if (enable)
-            mountAction(untrack(() => props.name));
+            mountAction(untrack(id));
         else
-            cleanupAction(oldName);
+            cleanupAction(oldId);
     }, { defer: true }));
 
-    createEffect(on(() => props.name, name => {
-        if (props.name !== oldName) {
-            cleanupAction(oldName);
-            mountAction(name);
-            oldName = name;
+    createEffect(on(id, newId => {
+        if (newId !== oldId) {
+            const enabled = isRegistered;
+            cleanupAction(oldId);
+            oldId = newId;
+            if (enabled)
+                mountAction(newId);
         }
     }, { defer: true }));
 
@@ -294,54 +501,396 @@ export function getTransformProperty(groupName: string): AnimationSettings | und
     return globalState.transformProperties.get(groupName);
 }
 
-export function startTransitionSE(callback: () => void, allowDefer_?: boolean) {
-    const allowDefer = allowDefer_ ?? globalState.allowDefer;
-    if (globalState.isTransitioning) {
-        if (allowDefer) {
-            globalState.previousTransitionFinished.finally(() => performTransition(callback));
-        } else if (!globalState.silentlyFail) {
-            console.error("Previous shared element transition has not finished yet.");
-        }
-    } else {
-        performTransition(callback);
+interface Deferred<T> {
+    promise: Promise<T>;
+    resolve: (value: T) => void;
+    reject: (reason: unknown) => void;
+}
+
+function createDeferred<T = void>(): Deferred<T> {
+    let resolve!: (value: T) => void, reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => [resolve, reject] = [res, rej]);
+    return { promise, resolve, reject };
+}
+
+/**
+ * State of a transition from the call of {@link startTransitionSE} on.
+ */
+interface PendingTransition {
+    callback: (() => void) | (() => Promise<unknown>);
+    policy: TransitionPolicy;
+    decodeImages: boolean;
+    updateCallbackDone: Deferred<void>;
+    ready: Deferred<void>;
+    finished: Deferred<void>;
+    skipped: boolean;
+    /**
+     * Groups animated by this transition.
+     */
+    groups: RunningGroup[];
+}
+
+/**
+ * Runs `callback`, which changes the shared elements, and animates the groups between their old and new state.
+ *
+ * A synchronous callback is measured right after it returns, so the new state is never shown unanimated.
+ * While an asynchronous one runs, the old elements are shown frozen over the page.
+ *
+ * @param options The options, or for compatibility whether to defer the transition if another one is running.
+ */
+export function startTransitionSE(callback: (() => void) | (() => Promise<unknown>), options?: TransitionOptions | boolean): SharedElementTransition {
+    const resolvedOptions: TransitionOptions = typeof options == "boolean"
+        ? { policy: options ? "defer" : "reject" }
+        : options ?? {};
+
+    const transition: PendingTransition = {
+        callback,
+        policy: resolvedOptions.policy ?? globalState.defaultPolicy,
+        decodeImages: resolvedOptions.decodeImages ?? false,
+        updateCallbackDone: createDeferred(),
+        ready: createDeferred(),
+        finished: createDeferred(),
+        skipped: false,
+        groups: [],
+    };
+    // Like the View Transition API, callers do not have to handle these.
+    transition.ready.promise.catch(() => { });
+    transition.finished.promise.catch(() => { });
+
+    dispatchTransition(transition);
+
+    return {
+        updateCallbackDone: transition.updateCallbackDone.promise,
+        ready: transition.ready.promise,
+        finished: transition.finished.promise,
+        skip: () => {
+            transition.skipped = true;
+            transition.groups.forEach(group => group.end());
+        },
+    };
+}
+
+function dispatchTransition(transition: PendingTransition) {
+    const reject = () => {
+        const error = new Error("Previous shared element transition has not finished yet.");
+        if (!globalState.silentlyFail)
+            console.error(error.message);
+        transition.updateCallbackDone.reject(error);
+        transition.ready.reject(error);
+        transition.finished.reject(error);
+    };
+
+    if (globalState.capturing) {
+        if (transition.policy == "reject")
+            reject();
+        else
+            globalState.capturing.finally(() => dispatchTransition(transition));
+        return;
+    }
+
+    if (!globalState.isTransitioning) {
+        performTransition(transition);
+        return;
+    }
+
+    switch (transition.policy) {
+        case "reject":
+            reject();
+            break;
+        case "defer":
+            // Dispatch again, another deferred transition may have started in the meantime.
+            globalState.previousTransitionFinished.finally(() => dispatchTransition(transition));
+            break;
+        case "interrupt":
+            performTransition(transition, interruptRunningGroups());
+            break;
+        case "reverse":
+            reverseRunningGroups(transition);
+            break;
+    }
+}
+
+/**
+ * Runs the callback of `transition`, then `onUpdated` once it and the image decoding are done.
+ * Both are called synchronously if there is nothing to wait for.
+ *
+ * @param onWait Called before waiting.
+ * @param onFailed Called instead of `onUpdated` if the callback throws.
+ */
+function runCallback(transition: PendingTransition, onUpdated: () => void, onWait: () => void, onFailed: () => void) {
+    const fail = (err: unknown) => {
+        transition.updateCallbackDone.reject(err);
+        transition.ready.reject(err);
+        transition.finished.reject(err);
+        onFailed();
+    };
+
+    let result: void | Promise<unknown>;
+    try {
+        result = transition.callback();
+    } catch (err) {
+        fail(err);
+        return;
+    }
+
+    if (!(result instanceof Promise) && !transition.decodeImages) {
+        transition.updateCallbackDone.resolve();
+        onUpdated();
+        return;
     }
+
+    const capture = createDeferred();
+    globalState.capturing = capture.promise;
+    onWait();
+
+    const done = (update: () => void) => {
+        globalState.capturing = null;
+        capture.resolve();
+        update();
+    };
+    Promise.resolve(result)
+        .then(() => {
+            transition.updateCallbackDone.resolve();
+            return transition.decodeImages ? decodeImages() : undefined;
+        })
+        .then(() => done(onUpdated), err => done(() => fail(err)));
 }
 
-function performTransition(callback: () => void) {
-    globalState.isTransitioning = true;
+/**
+ * Waits for the images in the shared elements to be decoded, for at most {@link IMAGE_DECODE_TIMEOUT} milliseconds.
+ */
+async function decodeImages() {
+    const images: HTMLImageElement[] = [];
+    globalState.groups.forEach(group => group.elements.forEach(element => {
+        const el = untrack(element).el;
+        if (el instanceof HTMLImageElement)
+            images.push(el);
+        images.push(...el.querySelectorAll("img"));
+    }));
+
+    await Promise.race([
+        Promise.allSettled(images.map(image => image.decode())),
+        new Promise(resolve => setTimeout(resolve, IMAGE_DECODE_TIMEOUT)),
+    ]);
+}
 
-    let markFinished;
-    globalState.previousTransitionFinished = new Promise<void>((resolve) => {
-        markFinished = resolve;
+/**
+ * Shows the saved old elements where they were, while the page changes below them.
+ * Returns the containers, to be removed once the transition starts. The old elements
+ * are moved out of them by then.
+ */
+function showSavedElements(): HTMLElement[] {
+    const containers: HTMLElement[] = [];
+    globalState.groups.forEach(group => {
+        if (!group.elOld || group.elOld.unmatched == "ignore")
+            return;
+
+        const rect = group.rectOld!;
+        const elOld = group.elOld.el;
+        elOld.classList.add("se-transition-element-old");
+        elOld.style.width = `${rect.width}px`;
+        elOld.style.height = `${rect.height}px`;
+
+        const container = document.createElement("div");
+        container.classList.add("se-transition-group");
+        container.classList.add(`se-transition-group-${group.name}`);
+        container.style.width = `${rect.width}px`;
+        container.style.height = `${rect.height}px`;
+        container.style.transform = `matrix(1, 0, 0, 1, ${rect.x}, ${rect.y})`;
+        container.appendChild(elOld);
+
+        globalState.transitionRoot.appendChild(container);
+        containers.push(container);
     });
+    return containers;
+}
 
-    // Save all old elements' bounding rectangle.
-    saveElementsAndBoundingRects();
+let markFinished: (() => void) | undefined = undefined;
 
-    // Wait shared element to be changed.
-    callback();
+/**
+ * Marks the transition as finished once the last running group has ended.
+ */
+function finishIfIdle() {
+    if (globalState.running.size == 0 && !globalState.capturing && globalState.isTransitioning) {
+        globalState.isTransitioning = false;
+        markFinished?.();
+        markFinished = undefined;
+    }
+}
+
+/**
+ * Resolves once none of `animations` is running, also after they have been restarted, e.g. by `reverse()`.
+ */
+async function animationsSettled(animations: Animation[]) {
+    do {
+        await Promise.allSettled(animations.map(anim => anim.finished));
+    } while (animations.some(anim => anim.playState == "running"));
+}
 
-    const animationPromiseList = new Array<Promise<any>>();
-    const groupsReady = new Array<string>();
+/**
+ * Tracks the animations of a group, and ends it once they have settled.
+ */
+function runGroup(id: string, group: Omit<RunningGroup, "end" | "ended">, onEnd: () => void): RunningGroup {
+    let ended = false;
+    const endedDeferred = createDeferred();
+    const running: RunningGroup = {
+        ...group,
+        ended: endedDeferred.promise,
+        end: () => {
+            if (ended)
+                return;
+            ended = true;
+
+            running.elLive?.classList.remove("--se-transition-internal-hidden");
+            onEnd();
+            running.elGroup.remove();
+
+            if (globalState.running.get(id) === running)
+                globalState.running.delete(id);
+            endedDeferred.resolve();
+            finishIfIdle();
+        },
+    };
+
+    running.animations.forEach(anim => {
+        anim.playbackRate = globalState.playbackRate;
+        if (globalState.paused)
+            anim.pause();
+    });
+
+    globalState.running.get(id)?.end();
+    globalState.running.set(id, running);
+    animationsSettled(running.animations).then(running.end);
+    return running;
+}
 
-    let allReady = false, dependencyDepth = 1;
-    while (!allReady) {
-        if (dependencyDepth > globalState.maxDependencyDepth) {
-            if (!globalState.silentlyFail) {
-                console.error(`Dependency depth exceeded the limitation ${globalState.maxDependencyDepth}`);
+/**
+ * Stops the running animations where they are, and returns what they show as old states for the next transition.
+ */
+function interruptRunningGroups(): Map<string, { state: ElementState, rect: DOMRect }> {
+    const snapshots = new Map<string, { state: ElementState, rect: DOMRect }>();
+
+    for (const [id, running] of [...globalState.running]) {
+        const rect = running.elGroup.getBoundingClientRect();
+        running.animations.forEach(anim => {
+            try {
+                anim.commitStyles();
+            } catch {
+                // The element is not rendered, there is nothing to keep.
             }
-            break;
+            anim.cancel();
+        });
+
+        // The pair is laid out at the size the group had when its transition started,
+        // the group transform scales it to the current size.
+        const [width, height] = [Number.parseFloat(running.elGroup.style.width), Number.parseFloat(running.elGroup.style.height)];
+        const elScale = document.createElement("div");
+        elScale.style.width = `${width}px`;
+        elScale.style.height = `${height}px`;
+        elScale.style.transformOrigin = "top left";
+        elScale.style.transform = `scale(${minScale(rect.width / width)}, ${minScale(rect.height / height)})`;
+        elScale.appendChild(running.elPair);
+
+        const el = document.createElement("div");
+        el.classList.add("se-transition-snapshot");
+        el.appendChild(elScale);
+
+        running.end();
+        if (hasNonZeroArea(rect))
+            snapshots.set(id, { state: { ...running.state, el }, rect });
+    }
+
+    return snapshots;
+}
+
+/**
+ * Runs the callback of `transition` and plays the running animations backwards.
+ * Groups which are not animating anymore change without animation.
+ */
+function reverseRunningGroups(transition: PendingTransition) {
+    runCallback(transition, () => {
+        for (const [id, running] of globalState.running) {
+            const group = globalState.groups.get(id);
+            running.elLive?.classList.remove("--se-transition-internal-hidden");
+            running.elLive = group?.elements.length == 1 ? untrack(group.elements[0]).el : undefined;
+            running.elLive?.classList.add("--se-transition-internal-hidden");
+
+            running.animations.forEach(anim => anim.reverse());
+            transition.groups.push(running);
         }
-        allReady = performTransitionGroups(animationPromiseList, groupsReady);
-        dependencyDepth += 1;
+        startedTransition(transition);
+    }, () => { }, finishIfIdle);
+}
+
+function performTransition(transition: PendingTransition, snapshots?: Map<string, { state: ElementState, rect: DOMRect }>) {
+    if (!globalState.isTransitioning) {
+        globalState.isTransitioning = true;
+        globalState.previousTransitionFinished = new Promise<void>((resolve) => {
+            markFinished = resolve;
+        });
     }
 
-    Promise.all(animationPromiseList).finally(() => {
-        globalState.isTransitioning = false;
-        markFinished!();
+    // Save all old elements' bounding rectangle.
+    saveElementsAndBoundingRects();
+
+    // Interrupted groups start from what their animations showed.
+    snapshots?.forEach(({ state, rect }, id) => {
+        const group = globalState.groups.get(id);
+        if (group) {
+            group.elOld = state;
+            group.rectOld = rect;
+        } else {
+            globalState.groups.set(id, { name: state.name, elOld: state, rectOld: rect, elements: [] });
+        }
     });
 
-    clearSavedElementsAndBoundingRects();
+    let frozen: HTMLElement[] = [];
+    const cleanup = () => {
+        clearSavedElementsAndBoundingRects();
+        frozen.forEach(el => el.remove());
+        finishIfIdle();
+    };
+
+    // Wait shared element to be changed.
+    runCallback(transition, () => {
+        if (!transition.skipped) {
+            const groupsReady = new Array<string>();
+            currentReport = globalState.onReport ? { groups: [], depthExceeded: false } : null;
+
+            let allReady = false, dependencyDepth = 1;
+            while (!allReady) {
+                if (dependencyDepth > globalState.maxDependencyDepth) {
+                    if (!globalState.silentlyFail) {
+                        console.error(`Dependency depth exceeded the limitation ${globalState.maxDependencyDepth}`);
+                    }
+                    reportBlockedGroups(groupsReady);
+                    break;
+                }
+                allReady = performTransitionGroups(groupsReady, transition.groups);
+                dependencyDepth += 1;
+            }
+
+            if (currentReport)
+                globalState.onReport?.(currentReport);
+            currentReport = null;
+        }
+
+        cleanup();
+        startedTransition(transition);
+    }, () => frozen = showSavedElements(), cleanup);
+}
+
+/**
+ * Settles the promises of `transition` once its animations are started.
+ */
+function startedTransition(transition: PendingTransition) {
+    if (transition.skipped) {
+        transition.ready.reject(new DOMException("The transition was skipped.", "AbortError"));
+        transition.groups.forEach(group => group.end());
+    } else {
+        transition.ready.resolve();
+    }
+    Promise.all(transition.groups.map(group => group.ended)).then(() => transition.finished.resolve());
 }
 
 function hasNonZeroArea(rect: DOMRectReadOnly): boolean {
@@ -352,24 +901,56 @@ function minScale(n: number): number {
     return isNaN(n) || n == 0 ? 1 / n : n;
 }
 
-function performTransitionGroups(animationPromiseList: Promise<any>[], groupsReady: string[]): boolean {
+/**
+ * Whether all groups with the names in `dependencies` are ready, whatever their keys.
+ */
+function dependenciesReady(dependencies: string[], groupsReady: string[]): boolean {
+    return dependencies.every(dep => [...globalState.groups].every(([id, group]) => group.name !== dep || groupsReady.includes(id)));
+}
+
+/**
+ * Reports the groups which are not ready, with the dependencies they wait for, usually because of a cycle.
+ */
+function reportBlockedGroups(groupsReady: string[]) {
+    if (!currentReport)
+        return;
+    currentReport.depthExceeded = true;
+
+    for (const [id, group] of globalState.groups) {
+        if (groupsReady.includes(id))
+            continue;
+        const state = group.elements.length == 1 ? untrack(group.elements[0]) : group.elOld;
+        const waiting = state?.dependencies.filter(dep => !dependenciesReady([dep], groupsReady)) ?? [];
+        reportGroup({ id, name: group.name, outcome: "blocked", reason: `Waits for ${waiting.join(", ")}` });
+    }
+}
+
+function performTransitionGroups(groupsReady: string[], started: RunningGroup[]): boolean {
     let allReady = true;
 
     // Perform transition animation on changed elements.
-    for (const [name, group] of globalState.groups) {
-        if (groupsReady.includes(name))
+    for (const [id, group] of globalState.groups) {
+        if (groupsReady.includes(id))
             continue;
+        const name = group.name;
 
         if (group.elements.length > 1) {
-            console.error(`Shared element group '${name}' contains multiple elements(${group.elements.length}). No transition animation will be performed.`)
+            console.error(`Shared element group '${id}' contains multiple elements(${group.elements.length}). Give them different keys to animate them.`)
+            reportGroup({ id, name, outcome: "skipped", reason: `${group.elements.length} elements share the group, they need different keys` });
         } else if (group.elements.length == 1) {
             const elStateNew = group.elements[0]();
 
-            if (!elStateNew.dependencies.every(dep => groupsReady.includes(dep))) {
+            if (!dependenciesReady(elStateNew.dependencies, groupsReady)) {
                 allReady = false;
                 continue;
             }
 
+            if (!group.elOld && elStateNew.unmatched == "ignore") {
+                reportGroup({ id, name, outcome: "ignored", reason: "No old element, and unmatched elements are ignored" });
+                groupsReady.push(id);
+                continue;
+            }
+
             // Set style for old and new element.
             const elOld = group.elOld?.el;
             const styleOld = elOld ? getComputedStyle(elOld) : undefined;
@@ -437,41 +1018,59 @@ function performTransitionGroups(animationPromiseList: Promise<any>[], groupsRea
             elStateNew.el.classList.add("--se-transition-internal-hidden");
 
             // Perform the transition animation
-            if ((getTransformProperty(name)?.enable ?? true) && elOld && hasNonZeroArea(group.rectOld!) && hasNonZeroArea(rectNew)) {
-                elGroup.animate([{
-                    // width: `${rectNew.width}px`,
-                    // height: `${rectNew.height}px`,
-                    transform: `matrix(${rectNew.width / group.rectOld!.width}, 0, 0, ${rectNew.height / group.rectOld!.height}, ${rectNew.x}, ${rectNew.y})`,
-                }], mergeProps({
-                    duration: 560,
-                    easing: Easings.MotionDefault(),
-                    fill: "both" as any,
-                }, getTransformProperty(name)));
+            const rectOld = group.rectOld!;
+            const transformEnabled = getTransformProperty(name)?.enable ?? true;
+            if (!elOld)
+                reportGroup({ id, name, outcome: "faded-in", reason: "No old element", rectNew });
+            else if (!transformEnabled)
+                reportGroup({ id, name, outcome: "cross-faded", reason: "The transform is disabled by setTransformProperty", rectOld, rectNew });
+            else if (!hasNonZeroArea(rectOld) || !hasNonZeroArea(rectNew))
+                reportGroup({ id, name, outcome: "cross-faded", reason: "The old or the new element has no area", rectOld, rectNew });
+            else if (Motion.level() == "reduced")
+                reportGroup({ id, name, outcome: "cross-faded", reason: "Motion is reduced", rectOld, rectNew });
+            else
+                reportGroup({ id, name, outcome: "morphed", reason: "Matched an old element", rectOld, rectNew });
+
+            if (transformEnabled && elOld && hasNonZeroArea(rectOld) && hasNonZeroArea(rectNew)) {
+                const [scaleX, scaleY] = [rectNew.width / rectOld.width, rectNew.height / rectOld.height];
+                const transformNew = `matrix(${scaleX}, 0, 0, ${scaleY}, ${rectNew.x}, ${rectNew.y})`;
+                if (Motion.level() == "reduced") {
+                    // No movement: the group is put where the new element is, and the old element
+                    // is moved back to where it was inside of it, so that they only cross-fade.
+                    elGroup.style.transform = transformNew;
+                    elOld.style.transformOrigin = "top left";
+                    elOld.style.transform = `matrix(${1 / scaleX}, 0, 0, ${1 / scaleY}, ${(rectOld.x - rectNew.x) / scaleX}, ${(rectOld.y - rectNew.y) / scaleY})`;
+                } else {
+                    Motion.animate(elGroup, [{
+                        transform: transformNew,
+                    }], mergeProps({
+                        duration: 560,
+                        easing: Easings.MotionDefault(),
+                        fill: "both" as any,
+                    }, getTransformProperty(name)));
+                }
             }
 
-            const fadeAnimations: Animation[] = [];
             if (elStateNew.fadeInAnimation.enable ?? true) {
-                const anim = elNew.animate([{
+                Motion.animate(elNew, [{
                     opacity: 1,
                 }], mergeProps({
                     duration: 150,
                     easing: Easings.OpacityDefault(),
                     fill: "both" as any,
                 }, elStateNew.fadeInAnimation));
-                fadeAnimations.push(anim);
             } else {
                 elNew.style.opacity = elStateNew.fadeInAnimation.initialOpacity ?? "";
             }
 
             if (elOld && (group.elOld!.fadeOutAnimation.enable ?? true)) {
-                const anim = elOld.animate([{
+                Motion.animate(elOld, [{
                     opacity: 0,
                 }], mergeProps({
                     duration: 150,
                     easing: Easings.OpacityDefault(),
                     fill: "both" as any,
                 }, group.elOld!.fadeOutAnimation));
-                fadeAnimations.push(anim);
             }
 
             const transitionElements = {
@@ -495,24 +1094,37 @@ function performTransitionGroups(animationPromiseList: Promise<any>[], groupsRea
             };
             elStateNew.onAnimationsReady?.(cbStateNew);
 
-            const animations = elGroup.getAnimations({ subtree: true });
-            const animationsEnd = Promise.all(animations.map(anim => anim.finished));
-            animationsEnd.finally(() => {
-                elStateNew.el.classList.remove("--se-transition-internal-hidden");
+            const elStateOld = group.elOld;
+            started.push(runGroup(id, {
+                elGroup,
+                elPair,
+                elLive: elStateNew.el,
+                state: elStateNew,
+                animations: elGroup.getAnimations({ subtree: true }),
+            }, () => {
                 elStateNew.onAnimationsEnd?.(cbStateNew);
-                group.elOld?.onAnimationsEnd?.(cbStateOld);
-                fadeAnimations.forEach(anim => anim.finish());
-                elGroup.remove();
-            });
-            animationPromiseList.push(animationsEnd);
+                elStateOld?.onAnimationsEnd?.(cbStateOld);
+            }));
+        } else if (group.elOld === undefined) {
+            // The group only outlived its elements because they were removed during a transition.
+            globalState.groups.delete(id);
+            reportGroup({ id, name, outcome: "removed", reason: "No element since the previous transition" });
         } else {
-            const elStateOld = group.elOld!;
+            const elStateOld = group.elOld;
 
-            if (!elStateOld.dependencies.every(dep => groupsReady.includes(dep))) {
+            if (!dependenciesReady(elStateOld.dependencies, groupsReady)) {
                 allReady = false;
                 continue;
             }
 
+            if (elStateOld.unmatched == "ignore") {
+                reportGroup({ id, name, outcome: "ignored", reason: "No new element, and unmatched elements are ignored", rectOld: group.rectOld });
+                groupsReady.push(id);
+                continue;
+            }
+
+            reportGroup({ id, name, outcome: "faded-out", reason: "No new element", rectOld: group.rectOld });
+
             const elOld = elStateOld.el;
             elOld.classList.add("se-transition-element-old");
             elOld.classList.add(`se-transition-element-old-${name}`);
@@ -538,7 +1150,7 @@ function performTransitionGroups(animationPromiseList: Promise<any>[], groupsRea
             globalState.transitionRoot.appendChild(elGroup);
 
             if ((elStateOld.fadeOutAnimation.enable ?? true) && elOld) {
-                elOld.animate([{
+                Motion.animate(elOld, [{
                     opacity: 0,
                 }], mergeProps({
                     duration: 150,
@@ -558,16 +1170,15 @@ function performTransitionGroups(animationPromiseList: Promise<any>[], groupsRea
 
             elStateOld.onAnimationsReady?.(cbStateOld);
 
-            const animations = elGroup.getAnimations({ subtree: true });
-            const animationsEnd = Promise.all(animations.map(anim => anim.finished));
-            animationsEnd.finally(() => {
-                elStateOld.onAnimationsEnd?.(cbStateOld);
-                elGroup.remove();
-            });
-            animationPromiseList.push(animationsEnd);
+            started.push(runGroup(id, {
+                elGroup,
+                elPair,
+                state: elStateOld,
+                animations: elGroup.getAnimations({ subtree: true }),
+            }, () => elStateOld.onAnimationsEnd?.(cbStateOld)));
         }
 
-        groupsReady.push(name);
+        groupsReady.push(id);
     }
 
     return allReady;
@@ -0,0 +1,281 @@
+import { onCleanup } from "solid-js";
+import type { AppState } from "./Contexts";
+
+export type CommandId =
+    | "playPause"
+    | "next"
+    | "previous"
+    | "seekForward"
+    | "seekBackward"
+    | "seekForwardLong"
+    | "seekBackwardLong"
+    | "volumeUp"
+    | "volumeDown"
+    | "togglePlayPage"
+    | "toggleQueue"
+    | "toggleSideBar"
+    | "focusSearch"
+    | "showShortcuts";
+
+export interface Command {
+    id: CommandId;
+    title: string;
+    group: "Playback" | "Interface";
+    defaultBindings: string[];
+}
+
+export interface ShortcutSettings {
+    /**
+     * Bindings which replace the default ones of a command, an empty list unbinds it.
+     */
+    bindings: Partial<Record<CommandId, string[]>>;
+}
+
+/**
+ * Binding shared by two commands, or which makes the other one unreachable as it starts its chord.
+ */
+export interface Conflict {
+    binding: string;
+    command: CommandId;
+}
+
+const MODIFIERS = ["Ctrl", "Alt", "Shift", "Meta"] as const;
+
+/**
+ * `KeyboardEvent.key` values which are modifiers themselves, never a stroke on their own.
+ */
+const MODIFIER_KEYS = ["Control", "Alt", "AltGraph", "Shift", "Meta", "OS", "CapsLock", "NumLock", "Dead", "Unidentified"];
+
+const KEY_NAMES: Record<string, string> = {
+    " ": "Space",
+    "ArrowLeft": "Left",
+    "ArrowRight": "Right",
+    "ArrowUp": "Up",
+    "ArrowDown": "Down",
+    "Escape": "Esc",
+};
+
+const TEXT_INPUT_TYPES = ["text", "search", "email", "password", "tel", "url", "number", "date", "time", "datetime-local", "month", "week"];
+
+const handlers = new Map<CommandId, () => void>();
+
+/**
+ * Set while a binding is being recorded, so that the strokes do not run commands.
+ */
+let recording = false;
+
+/**
+ * The keyboard commands of the app and their bindings.
+ *
+ * A binding is a chord of up to {@link MAX_STROKES} strokes separated by spaces, e.g. `Ctrl+K Ctrl+S`.
+ * A stroke is the modifiers followed by the key, e.g. `Ctrl+Shift+Left`. Letters are named by their
+ * position on a US keyboard, so bindings work on every layout, other symbols by the character typed.
+ */
+export namespace Shortcuts {
+    export const COMMANDS: Command[] = [
+        { id: "playPause", title: "Play or pause", group: "Playback", defaultBindings: ["Space"] },
+        { id: "next", title: "Next track", group: "Playback", defaultBindings: ["Ctrl+Right"] },
+        { id: "previous", title: "Previous track", group: "Playback", defaultBindings: ["Ctrl+Left"] },
+        { id: "seekForward", title: "Forward 5 seconds", group: "Playback", defaultBindings: ["Right"] },
+        { id: "seekBackward", title: "Back 5 seconds", group: "Playback", defaultBindings: ["Left"] },
+        { id: "seekForwardLong", title: "Forward 30 seconds", group: "Playback", defaultBindings: ["Shift+Right"] },
+        { id: "seekBackwardLong", title: "Back 30 seconds", group: "Playback", defaultBindings: ["Shift+Left"] },
+        { id: "volumeUp", title: "Volume up", group: "Playback", defaultBindings: ["Ctrl+Up"] },
+        { id: "volumeDown", title: "Volume down", group: "Playback", defaultBindings: ["Ctrl+Down"] },
+        { id: "togglePlayPage", title: "Show or hide the play page", group: "Interface", defaultBindings: ["P"] },
+        { id: "toggleQueue", title: "Show or hide the queue", group: "Interface", defaultBindings: ["Q"] },
+        { id: "toggleSideBar", title: "Show or hide the side bar", group: "Interface", defaultBindings: ["Ctrl+B"] },
+        { id: "focusSearch", title: "Search", group: "Interface", defaultBindings: ["Ctrl+F", "/"] },
+        { id: "showShortcuts", title: "Keyboard shortcuts", group: "Interface", defaultBindings: ["?", "Ctrl+K Ctrl+S"] },
+    ];
+
+    export const DEFAULT_SETTINGS: ShortcutSettings = {
+        bindings: {},
+    };
+
+    export const MAX_STROKES = 2;
+
+    /**
+     * Milliseconds to wait for the next stroke of a chord.
+     */
+    export const CHORD_TIMEOUT = 1500;
+
+    export const command = (id: CommandId) => COMMANDS.find(command => command.id === id)!;
+
+    export const bindings = (settings: ShortcutSettings, id: CommandId) =>
+        settings.bindings[id] ?? command(id).defaultBindings;
+
+    export const isDefault = (settings: ShortcutSettings, id: CommandId) => settings.bindings[id] === undefined;
+
+    export function setBindings(app: AppState, id: CommandId, bindings: string[]) {
+        const unchanged = bindings.length === command(id).defaultBindings.length
+            && bindings.every((binding, i) => binding === command(id).defaultBindings[i]);
+        app.setShortcuts("bindings", id, unchanged ? undefined : [...bindings]);
+    }
+
+    export const resetBindings = (app: AppState, id: CommandId) => app.setShortcuts("bindings", id, undefined);
+
+    /**
+     * The stroke of a key press, or null for modifier keys.
+     */
+    export function strokeOf(e: KeyboardEvent): string | null {
+        if (MODIFIER_KEYS.includes(e.key))
+            return null;
+
+        let key: string;
+        let shift = e.shiftKey;
+        if (/^Key[A-Z]$/.test(e.code))
+            key = e.code.slice(3);
+        else if (/^Digit[0-9]$/.test(e.code))
+            key = e.code.slice(5);
+        else if (e.key.length === 1 && e.key !== " ") {
+            // Typing the symbol may take Shift, it is part of the key already.
+            key = e.key;
+            shift = false;
+        } else
+            key = KEY_NAMES[e.key] ?? e.key;
+
+        const modifiers = [e.ctrlKey, e.altKey, shift, e.metaKey];
+        return [...MODIFIERS.filter((_, i) => modifiers[i]), key].join("+");
+    }
+
+    /**
+     * Whether keys pressed in `target` are meant as text rather than shortcuts.
+     */
+    export function isTextInput(target: EventTarget | null): boolean {
+        if (!(target instanceof HTMLElement))
+            return false;
+        if (target instanceof HTMLInputElement)
+            return TEXT_INPUT_TYPES.includes(target.type);
+        return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || target.isContentEditable;
+    }
+
+    /**
+     * The other bindings which clash with `binding` of command `id`.
+     */
+    export function conflicts(settings: ShortcutSettings, id: CommandId, binding: string): Conflict[] {
+        const clashes = (a: string, b: string) => a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+        return COMMANDS
+            .filter(command => command.id !== id)
+            .flatMap(command => bindings(settings, command.id)
+                .filter(other => clashes(binding, other))
+                .map(other => ({ binding: other, command: command.id })));
+    }
+
+    /**
+     * Runs `handler` for the command while the calling component lives.
+     */
+    export function useHandler(id: CommandId, handler: () => void) {
+        handlers.set(id, handler);
+        onCleanup(() => {
+            if (handlers.get(id) === handler)
+                handlers.delete(id);
+        });
+    }
+
+    /**
+     * Runs the command as if its binding was typed, if a component handles it.
+     */
+    export const run = (id: CommandId) => handlers.get(id)?.();
+
+    /**
+     * Listens to the keyboard and runs the commands bound in `app`. Keys typed in text inputs
+     * are left alone.
+     */
+    export function listen(app: AppState) {
+        let pending: string[] = [];
+        let timeout: number | undefined = undefined;
+        const clearPending = () => {
+            pending = [];
+            clearTimeout(timeout);
+        };
+
+        const find = (sequence: string[]): CommandId | "prefix" | null => {
+            const typed = sequence.join(" ");
+            let prefix = false;
+            for (const command of COMMANDS) {
+                for (const binding of bindings(app.shortcuts, command.id)) {
+                    if (binding === typed && handlers.has(command.id))
+                        return command.id;
+                    prefix ||= binding.startsWith(`${typed} `);
+                }
+            }
+            return prefix ? "prefix" : null;
+        };
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (recording || e.defaultPrevented)
+                return;
+            if (isTextInput(e.target)) {
+                clearPending();
+                return;
+            }
+            const stroke = strokeOf(e);
+            if (stroke === null)
+                return;
+
+            let sequence = [...pending, stroke];
+            let found = find(sequence);
+            // A stroke which does not continue the chord may start a binding of its own.
+            if (found === null && pending.length > 0) {
+                sequence = [stroke];
+                found = find(sequence);
+            }
+            clearPending();
+            if (found === null)
+                return;
+
+            e.preventDefault();
+            if (found === "prefix") {
+                pending = sequence;
+                timeout = window.setTimeout(clearPending, CHORD_TIMEOUT);
+            } else
+                handlers.get(found)!();
+        };
+
+        window.addEventListener("keydown", onKeyDown);
+        onCleanup(() => {
+            window.removeEventListener("keydown", onKeyDown);
+            clearPending();
+        });
+    }
+
+    /**
+     * Records the next binding typed, up to {@link MAX_STROKES} strokes. It resolves to null
+     * if Escape is pressed, and commands do not run meanwhile.
+     */
+    export function record(): Promise<string | null> {
+        return new Promise(resolve => {
+            const strokes: string[] = [];
+            let timeout: number | undefined = undefined;
+
+            const finish = (binding: string | null) => {
+                clearTimeout(timeout);
+                window.removeEventListener("keydown", onKeyDown, true);
+                recording = false;
+                resolve(binding);
+            };
+            const onKeyDown = (e: KeyboardEvent) => {
+                e.preventDefault();
+                e.stopPropagation();
+                const stroke = strokeOf(e);
+                if (stroke === null)
+                    return;
+                if (stroke === "Esc") {
+                    finish(null);
+                    return;
+                }
+
+                strokes.push(stroke);
+                clearTimeout(timeout);
+                if (strokes.length >= MAX_STROKES)
+                    finish(strokes.join(" "));
+                else
+                    timeout = window.setTimeout(() => finish(strokes.join(" ")), CHORD_TIMEOUT);
+            };
+
+            recording = true;
+            window.addEventListener("keydown", onKeyDown, true);
+        });
+    }
+}
@@ -0,0 +1,99 @@
+import { Color, Palette } from "./Palette";
+
+/**
+ * Where the accent color comes from: the cover of the playing track, or a color picked by the user.
+ */
+export type AccentMode = "adaptive" | "fixed";
+
+export type ColorScheme = "system" | "light" | "dark";
+
+export interface ThemeSettings {
+    accent: AccentMode;
+    /**
+     * Accent color used in fixed mode, and in adaptive mode while there is no cover.
+     */
+    fixedAccent: string;
+    scheme: ColorScheme;
+}
+
+/**
+ * Computes the CSS variables of the app theme.
+ */
+export namespace Theme {
+    export const DEFAULT_SETTINGS: ThemeSettings = {
+        accent: "adaptive",
+        fixedAccent: "#c1d3fe",
+        scheme: "system",
+    };
+
+    export const ACCENT_MODES: [AccentMode, string][] = [
+        ["adaptive", "From cover"],
+        ["fixed", "Fixed"],
+    ];
+
+    export const COLOR_SCHEMES: [ColorScheme, string][] = [
+        ["system", "System"],
+        ["light", "Light"],
+        ["dark", "Dark"],
+    ];
+
+    /**
+     * Duration of the transition between two themes in milliseconds.
+     */
+    export const TRANSITION_DURATION = 800;
+
+    /**
+     * Variables holding colors. They are registered as `<color>` so that they can be animated.
+     */
+    export const COLOR_VARIABLES = [
+        "--theme-color",
+        "--accent-color",
+        "--accent-text-color",
+        "--text-color",
+        "--shadow-color",
+        "--deep-shadow-color",
+    ];
+
+    /**
+     * Lightness of the theme color in the light and the dark scheme.
+     */
+    const LIGHT_THEME_LIGHTNESS = 0.87;
+    const DARK_THEME_LIGHTNESS = 0.2;
+
+    /**
+     * Registers the color variables, so that transitions interpolate them instead of switching at once.
+     */
+    export function registerProperties() {
+        if (!("registerProperty" in CSS))
+            return;
+        for (const name of COLOR_VARIABLES) {
+            try {
+                CSS.registerProperty({ name, syntax: "<color>", inherits: true, initialValue: "transparent" });
+            } catch {
+                // Already registered, e.g. after a hot reload.
+            }
+        }
+    }
+
+    /**
+     * @param palette Palette of the cover of the playing track, if it has one.
+     * @param systemDark Whether the system prefers a dark color scheme, used in the "system" scheme.
+     */
+    export function variables(settings: ThemeSettings, palette: Palette | undefined, systemDark: boolean): Record<string, string> {
+        const dark = settings.scheme === "dark" || (settings.scheme === "system" && systemDark);
+        const swatch = palette && (palette.vibrant ?? palette.muted ?? palette.dominant);
+        const accent = settings.accent === "adaptive" && swatch ? swatch.color : settings.fixedAccent;
+
+        const theme = Color.withLightness(accent, dark ? DARK_THEME_LIGHTNESS : LIGHT_THEME_LIGHTNESS, 0.7);
+        const accentColor = Color.ensureContrast(accent, theme, 3);
+
+        return {
+            "--theme-color": theme,
+            "--accent-color": accentColor,
+            "--accent-text-color": Color.readableText(accentColor),
+            "--text-color": Color.readableText(theme),
+            "--shadow-color": dark ? "#00000044" : "#2f2f2f22",
+            "--deep-shadow-color": dark ? "#00000088" : "#2f2f2f55",
+        };
+    }
+}
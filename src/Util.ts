@@ -1,13 +1,98 @@
-import { JSX } from "solid-js";
+import { JSX, onCleanup, onMount } from "solid-js";
 
 export function clamp(min: number, num: number, max: number) {
     return Math.min(Math.max(num, min), max);
 }
 
+/**
+ * Rejection handler logging that `action` failed, as in `.catch(logError("seek"))`.
+ */
+export const logError = (action: string) => (err: unknown) => console.error(`Failed to ${action}:`, err);
+
 export const isElement = (obj: JSX.Element) => (typeof obj === "object") && !(obj instanceof Array);
 
 export const isList = (obj: JSX.Element) => obj instanceof Array;
 
+/**
+ * Formats seconds as `m:ss`, or `h:mm:ss` from one hour on.
+ */
+export function formatTime(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const [h, m, s] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+export interface PointerDragOptions {
+    onStart?: (e: PointerEvent) => void;
+    onMove?: (e: PointerEvent) => void;
+    onEnd?: (e: PointerEvent) => void;
+    /**
+     * Class added to `document.body` while dragging, to keep the cursor outside of the element.
+     */
+    bodyClass?: string;
+}
+
+/**
+ * Follows a pointer from `pointerdown` until it is released, also after it leaves the element.
+ * Must be called inside a component.
+ *
+ * @returns The handler to attach to `onPointerDown`.
+ */
+export function createPointerDrag(options: PointerDragOptions): (e: PointerEvent) => void {
+    let dragPointerId: number | undefined = undefined;
+
+    const startDrag = (e: PointerEvent) => {
+        if (dragPointerId !== undefined)
+            return;
+        options.onStart?.(e);
+
+        dragPointerId = e.pointerId;
+        e.stopImmediatePropagation();
+        e.preventDefault();
+
+        if (options.bodyClass)
+            document.body.classList.add(options.bodyClass);
+    };
+
+    const drag = (e: PointerEvent) => {
+        if (dragPointerId === e.pointerId) {
+            options.onMove?.(e);
+            e.stopImmediatePropagation();
+            e.preventDefault();
+        }
+    };
+
+    const endDrag = (e: PointerEvent) => {
+        if (dragPointerId === e.pointerId) {
+            options.onEnd?.(e);
+
+            dragPointerId = undefined;
+            e.stopImmediatePropagation();
+            e.preventDefault();
+
+            if (options.bodyClass)
+                document.body.classList.remove(options.bodyClass);
+        }
+    };
+
+    onMount(() => {
+        document.addEventListener("pointermove", drag);
+        document.addEventListener("pointerup", endDrag);
+        document.addEventListener("pointercancel", endDrag);
+
+        onCleanup(() => {
+            document.removeEventListener("pointermove", drag);
+            document.removeEventListener("pointerup", endDrag);
+            document.removeEventListener("pointercancel", endDrag);
+            if (dragPointerId !== undefined && options.bodyClass)
+                document.body.classList.remove(options.bodyClass);
+        });
+    });
+
+    return startDrag;
+}
+
 export namespace Easings {
     export const MdCrossAxis = "cubic-bezier(0.4, 0, 0.2, 1)";
 
@@ -0,0 +1,177 @@
+import { Accessor, createSignal, onCleanup } from "solid-js";
+import type { VisualizerFrame } from "./Player";
+
+export type VisualizerStyle = "bars" | "oscilloscope" | "circular";
+
+export interface VisualizerSettings {
+    /**
+     * Whether the play page shows the visualizer instead of the lyrics.
+     */
+    enabled: boolean;
+    style: VisualizerStyle;
+}
+
+export interface VisualizerColors {
+    accent: string;
+    text: string;
+}
+
+/**
+ * Drawing of the visualizer frames on a 2D canvas, which works without a GPU.
+ */
+export namespace Visualizer {
+    export const DEFAULT_SETTINGS: VisualizerSettings = {
+        enabled: false,
+        style: "bars",
+    };
+
+    export const STYLES: [VisualizerStyle, string][] = [
+        ["bars", "Bars"],
+        ["oscilloscope", "Oscilloscope"],
+        ["circular", "Circular"],
+    ];
+
+    /**
+     * How fast the bands fall back, in full heights per second.
+     */
+    const FALL_SPEED = 1.8;
+
+    const BAR_GAP = 0.25;
+
+    /**
+     * Colors of the current theme, read from the variables set on the body.
+     */
+    export function themeColors(): VisualizerColors {
+        const style = getComputedStyle(document.body);
+        return {
+            accent: style.getPropertyValue("--accent-color").trim() || "#888888",
+            text: style.getPropertyValue("--text-color").trim() || "#000000",
+        };
+    }
+
+    /**
+     * Colors of the current theme, read again once a change of the theme colors is over.
+     * Cheaper than {@link themeColors} for what is redrawn often, but skips the transition
+     * between the themes.
+     */
+    export function createThemeColors(): Accessor<VisualizerColors> {
+        const [colors, setColors] = createSignal(themeColors(), {
+            equals: (a, b) => a.accent === b.accent && a.text === b.text,
+        });
+        const onTransitionEnd = (e: TransitionEvent) => {
+            if (e.target === document.body && (e.propertyName === "--accent-color" || e.propertyName === "--text-color"))
+                setColors(themeColors());
+        };
+        document.body.addEventListener("transitionend", onTransitionEnd);
+        onCleanup(() => document.body.removeEventListener("transitionend", onTransitionEnd));
+        return colors;
+    }
+
+    /**
+     * Moves the frame shown towards `target`, or towards silence if it is null.
+     * The bands rise at once and fall back slowly.
+     *
+     * @param elapsed Seconds since the previous step.
+     */
+    export function smooth(shown: VisualizerFrame, target: VisualizerFrame | null, elapsed: number): VisualizerFrame {
+        const fall = FALL_SPEED * elapsed;
+        const spectrum = target?.spectrum ?? shown.spectrum.map(() => 0);
+        return {
+            spectrum: spectrum.map((level, i) => Math.max(level, (shown.spectrum[i] ?? 0) - fall)),
+            waveform: target?.waveform ?? shown.waveform.map(sample => sample * Math.max(0, 1 - fall * 4)),
+        };
+    }
+
+    export function draw(ctx: CanvasRenderingContext2D, style: VisualizerStyle, frame: VisualizerFrame, colors: VisualizerColors) {
+        const { width, height } = ctx.canvas;
+        ctx.clearRect(0, 0, width, height);
+        switch (style) {
+            case "bars":
+                drawBars(ctx, frame.spectrum, colors);
+                break;
+            case "oscilloscope":
+                drawOscilloscope(ctx, frame.waveform, colors);
+                break;
+            case "circular":
+                drawCircular(ctx, frame.spectrum, colors);
+                break;
+        }
+    }
+
+    function drawBars(ctx: CanvasRenderingContext2D, spectrum: number[], colors: VisualizerColors) {
+        const { width, height } = ctx.canvas;
+        const slot = width / Math.max(spectrum.length, 1);
+        const barWidth = slot * (1 - BAR_GAP);
+        const radius = Math.min(barWidth / 2, 4 * devicePixelRatio);
+
+        ctx.fillStyle = colors.accent;
+        spectrum.forEach((level, i) => {
+            const barHeight = Math.max(level * height, radius * 2);
+            ctx.beginPath();
+            ctx.roundRect(i * slot + (slot - barWidth) / 2, height - barHeight, barWidth, barHeight, [radius, radius, 0, 0]);
+            ctx.fill();
+        });
+    }
+
+    function drawOscilloscope(ctx: CanvasRenderingContext2D, waveform: number[], colors: VisualizerColors) {
+        const { width, height } = ctx.canvas;
+        const middle = height / 2;
+
+        ctx.strokeStyle = colors.text;
+        ctx.globalAlpha = 0.2;
+        ctx.lineWidth = devicePixelRatio;
+        ctx.beginPath();
+        ctx.moveTo(0, middle);
+        ctx.lineTo(width, middle);
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+
+        if (waveform.length < 2)
+            return;
+        ctx.strokeStyle = colors.accent;
+        ctx.lineWidth = 2 * devicePixelRatio;
+        ctx.lineJoin = "round";
+        ctx.beginPath();
+        waveform.forEach((sample, i) => {
+            const x = i / (waveform.length - 1) * width;
+            const y = middle - sample * middle * 0.9;
+            if (i == 0)
+                ctx.moveTo(x, y);
+            else
+                ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+    }
+
+    /**
+     * Bars around a circle, the spectrum mirrored so that the low bands meet at the top.
+     */
+    function drawCircular(ctx: CanvasRenderingContext2D, spectrum: number[], colors: VisualizerColors) {
+        const { width, height } = ctx.canvas;
+        const size = Math.min(width, height);
+        const inner = size * 0.22;
+        const length = size * 0.25;
+        const bars = [...spectrum, ...[...spectrum].reverse()];
+
+        ctx.strokeStyle = colors.accent;
+        ctx.lineWidth = Math.max(2 * Math.PI * inner / Math.max(bars.length, 1) * (1 - BAR_GAP), devicePixelRatio);
+        ctx.lineCap = "round";
+        ctx.beginPath();
+        bars.forEach((level, i) => {
+            const angle = i / bars.length * 2 * Math.PI - Math.PI / 2;
+            const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+            const outer = inner + Math.max(level * length, ctx.lineWidth);
+            ctx.moveTo(width / 2 + cos * inner, height / 2 + sin * inner);
+            ctx.lineTo(width / 2 + cos * outer, height / 2 + sin * outer);
+        });
+        ctx.stroke();
+
+        ctx.strokeStyle = colors.text;
+        ctx.globalAlpha = 0.25;
+        ctx.lineWidth = devicePixelRatio;
+        ctx.beginPath();
+        ctx.arc(width / 2, height / 2, inner - 4 * devicePixelRatio, 0, 2 * Math.PI);
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+    }
+}
@@ -1,6 +1,10 @@
 import { children, createSignal, For, JSX, onCleanup, onMount, Show } from "solid-js";
 import "./ContentPage.scss";
-import { useApp } from "../Contexts";
+import { SideBarItem, useApp } from "../Contexts";
+import { Router } from "../Router";
+import { Settings } from "../Settings";
+import { clamp, createPointerDrag } from "../Util";
+import { SearchBox } from "./SearchBox";
 
 interface SideBarProps {
     draggerWidth: number;
@@ -14,48 +18,14 @@ interface SideBarProps {
 
 function SideBar(props: SideBarProps): JSX.Element {
     const app = useApp();
-    let dragPointerId: Number | undefined = undefined;
-
-    const startDrag = (e: PointerEvent) => {
-        props.onDragStart?.();
-
-        dragPointerId = e.pointerId;
-        e.stopImmediatePropagation();
-        e.preventDefault();
-
-        document.body.classList.add("--content-page-side-bar-drag-cursor");
-    };
-
-    const drag = (e: PointerEvent) => {
-        if (dragPointerId === e.pointerId) {
-            props.onWidthUpdated?.(e.movementX);
-            e.stopImmediatePropagation();
-            e.preventDefault();
-        }
-    };
-
-    const endDrag = (e: PointerEvent) => {
-        if (dragPointerId === e.pointerId) {
-            props.onDragEnd?.();
-
-            dragPointerId = undefined;
-            e.stopImmediatePropagation();
-            e.preventDefault();
-
-            document.body.classList.remove("--content-page-side-bar-drag-cursor");
-        }
-    };
-
-    onMount(() => {
-        document.addEventListener("pointermove", drag);
-        document.addEventListener("pointerup", endDrag);
-        document.addEventListener("pointercancel", endDrag);
-
-        onCleanup(() => {
-            document.removeEventListener("pointermove", drag);
-            document.removeEventListener("pointerup", endDrag);
-            document.removeEventListener("pointercancel", endDrag);
-        });
+    const isActive = (item: SideBarItem) =>
+        item.route !== undefined && Router.equals(item.route, Router.section(Router.current(app)));
+
+    const startDrag = createPointerDrag({
+        onStart: () => props.onDragStart?.(),
+        onMove: e => props.onWidthUpdated?.(e.movementX),
+        onEnd: () => props.onDragEnd?.(),
+        bodyClass: "--content-page-side-bar-drag-cursor",
     });
 
     return <div class="content-page-side-bar" style={{ "flex-basis": `${Math.min(Math.max(props.minWidth, props.width), props.maxWidth)}px` }}>
@@ -65,19 +35,27 @@ function SideBar(props: SideBarProps): JSX.Element {
             onPointerDown={startDrag}
         />
 
-        <Show when={app.sideBarSettings.withLogo}>
+        <Show when={app.layout.showLogo}>
             <div class="content-page-side-bar-item content-page-side-bar-item-no-shadow">
                 <img class="content-page-side-bar-logo" src="/src-tauri/icons/icon.png" />
                 <a class="content-page-side-bar-logo-text">HachiPlayer</a>
             </div>
         </Show>
 
+        <SearchBox />
+
         <For each={app.sideBarSettings.items}>
             {(item) => {
                 return <div
                     classList={{
                         "content-page-side-bar-item": true,
                         "content-page-side-bar-item-no-shadow": item().noShadow ?? false,
+                        "content-page-side-bar-item-active": isActive(item()),
+                    }}
+                    onClick={() => {
+                        const route = item().route;
+                        if (route)
+                            Router.navigate(app, route);
                     }}
                 >{item().el}</div>;
             }}
@@ -87,45 +65,46 @@ function SideBar(props: SideBarProps): JSX.Element {
 
 export interface ContentPageProps {
     children?: JSX.Element;
+    /**
+     * Defaults to true.
+     */
+    showSideBar?: boolean;
 }
 
 export function ContentPage(props: ContentPageProps): JSX.Element {
-    const [width, setWidth] = createSignal(100);
-    const [minWidth, setMinWidth] = createSignal(0);
-    const [maxWidth, setMaxWidth] = createSignal(Number.parseFloat("+inf"));
-    const adjustWidth = () => setWidth(width => Math.min(Math.max(minWidth(), width), maxWidth()));
+    const app = useApp();
+    const [pageWidth, setPageWidth] = createSignal(0);
+    // Clamped when a drag starts and ends. In between, the width runs past the limits with
+    // the pointer, so that the side bar only follows it again once it is back.
+    const adjustWidth = () => app.setLayout("sideBarWidth", width => clamp(Settings.SIDE_BAR_MIN_WIDTH, width, Settings.SIDE_BAR_MAX_WIDTH));
 
     const resolvedChildren = children(() => props.children);
 
     let contentPage;
 
     onMount(() => {
-        const updateWidthRestriction = (n: number) => {
-            setMinWidth(n * 0.2);
-            setMaxWidth(n * 0.35);
-        };
         const resizeObserver = new ResizeObserver(entries => {
-            if (entries.length > 0) {
-                updateWidthRestriction(entries[0].contentRect.width);
-                adjustWidth();
-            }
+            if (entries.length > 0)
+                setPageWidth(entries[0].contentRect.width);
         });
-        updateWidthRestriction((contentPage! as HTMLElement).getBoundingClientRect().width);
+        setPageWidth((contentPage! as HTMLElement).getBoundingClientRect().width);
         resizeObserver.observe(contentPage!);
 
         onCleanup(() => resizeObserver.disconnect());
     });
 
     return <div class="content-page" ref={contentPage}>
-        <SideBar
-            draggerWidth={4}
-            minWidth={minWidth()}
-            maxWidth={maxWidth()}
-            width={width()}
-            onDragStart={() => adjustWidth()}
-            onDragEnd={() => adjustWidth()}
-            onWidthUpdated={delta => setWidth(width => width + delta)}
-        />
+        <Show when={props.showSideBar ?? true}>
+            <SideBar
+                draggerWidth={4}
+                minWidth={pageWidth() * Settings.SIDE_BAR_MIN_WIDTH}
+                maxWidth={pageWidth() * Settings.SIDE_BAR_MAX_WIDTH}
+                width={pageWidth() * app.layout.sideBarWidth}
+                onDragStart={() => adjustWidth()}
+                onDragEnd={() => adjustWidth()}
+                onWidthUpdated={delta => pageWidth() > 0 && app.setLayout("sideBarWidth", width => width + delta / pageWidth())}
+            />
+        </Show>
         <div class="content-page-container">{resolvedChildren()}</div>
     </div>;
 }
\ No newline at end of file
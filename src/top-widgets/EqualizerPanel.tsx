@@ -0,0 +1,263 @@
+import { createSignal, For, Index, JSX, Show } from "solid-js";
+import "./EqualizerPanel.scss";
+import { useApp } from "../Contexts";
+import { AssignmentScope, Equalizer, EqualizerSettings, FilterKind, ParametricBand } from "../Equalizer";
+import { AddRounded, CloseRounded, DeleteRounded } from "../MaterialSymbolsLight";
+import { logError } from "../Util";
+
+/**
+ * Range of the response curve in dB, above and below 0 dB.
+ */
+const CURVE_RANGE = 18;
+const CURVE_POINTS = 128;
+const CURVE_MIN_FREQUENCY = 20;
+const CURVE_MAX_FREQUENCY = 20000;
+
+const CURVE_FREQUENCIES = Array.from({ length: CURVE_POINTS }, (_, i) =>
+    CURVE_MIN_FREQUENCY * Math.pow(CURVE_MAX_FREQUENCY / CURVE_MIN_FREQUENCY, i / (CURVE_POINTS - 1)));
+
+const FILTER_KINDS: { kind: FilterKind, label: string }[] = [
+    { kind: "peaking", label: "Peak" },
+    { kind: "lowShelf", label: "Low shelf" },
+    { kind: "highShelf", label: "High shelf" },
+];
+
+const DEFAULT_PARAMETRIC_BAND: ParametricBand = { kind: "peaking", frequency: 1000, gain: 0, q: 1 };
+
+const formatFrequency = (frequency: number) =>
+    frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+
+/**
+ * Horizontal position of a frequency on the curve, between 0 and 1.
+ */
+const frequencyToX = (frequency: number) =>
+    Math.log(frequency / CURVE_MIN_FREQUENCY) / Math.log(CURVE_MAX_FREQUENCY / CURVE_MIN_FREQUENCY);
+
+function ResponseCurve(props: { settings: EqualizerSettings }): JSX.Element {
+    const path = () => Equalizer.response(props.settings, CURVE_FREQUENCIES)
+        .map((db, i) => {
+            const x = i / (CURVE_POINTS - 1) * 100;
+            const y = 50 - Math.min(Math.max(db, -CURVE_RANGE), CURVE_RANGE) / CURVE_RANGE * 50;
+            return `${i == 0 ? "M" : "L"}${x.toFixed(2)} ${y.toFixed(2)}`;
+        })
+        .join(" ");
+
+    return <svg class="equalizer-panel-curve" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <For each={Equalizer.FREQUENCIES}>
+            {frequency => <line class="equalizer-panel-curve-grid" x1={frequencyToX(frequency) * 100} x2={frequencyToX(frequency) * 100} y1={0} y2={100} />}
+        </For>
+        <line class="equalizer-panel-curve-grid" x1={0} x2={100} y1={50} y2={50} />
+        <path
+            classList={{ "equalizer-panel-curve-line": true, "equalizer-panel-curve-line-disabled": !props.settings.enabled }}
+            d={path()}
+        />
+    </svg>;
+}
+
+export interface EqualizerPanelProps {
+    onClose?: () => void;
+}
+
+/**
+ * The panel to edit the equalizer, manage presets and assign them to the playing track or album.
+ */
+export function EqualizerPanel(props: EqualizerPanelProps): JSX.Element {
+    const app = useApp();
+    const [presetName, setPresetName] = createSignal("");
+
+    // Editing the settings detaches them from the preset they were loaded from.
+    const setPreamp = (preamp: number) => {
+        app.setEqualizer("settings", "preamp", preamp);
+        app.setEqualizer("preset", null);
+    };
+
+    const setBand = (i: number, gain: number) => {
+        app.setEqualizer("settings", "bands", i, gain);
+        app.setEqualizer("preset", null);
+    };
+
+    const setParametric = (update: (bands: ParametricBand[]) => ParametricBand[]) => {
+        app.setEqualizer("settings", "parametric", update);
+        app.setEqualizer("preset", null);
+    };
+
+    const setParametricBand = (i: number, changes: Partial<ParametricBand>) => {
+        app.setEqualizer("settings", "parametric", i, changes);
+        app.setEqualizer("preset", null);
+    };
+
+    const currentPreset = () => app.equalizer.presets.find(preset => preset.name === app.equalizer.preset);
+
+    const reloadPresets = () => Equalizer.listPresets().then(presets => app.setEqualizer("presets", presets));
+
+    const loadPreset = (name: string) => {
+        const preset = app.equalizer.presets.find(preset => preset.name === name);
+        if (preset)
+            app.setEqualizer({ settings: structuredClone(preset.settings), preset: preset.name });
+    };
+
+    const savePreset = async () => {
+        const name = presetName().trim();
+        if (name.length == 0)
+            return;
+        const settings = JSON.parse(JSON.stringify(app.equalizer.settings));
+        await Equalizer.savePreset(name, settings);
+        await reloadPresets();
+        app.setEqualizer("preset", name);
+        setPresetName("");
+    };
+
+    const deletePreset = async () => {
+        const preset = currentPreset();
+        if (!preset || preset.builtin)
+            return;
+        await Equalizer.deletePreset(preset.name);
+        await reloadPresets();
+        app.setEqualizer("preset", null);
+    };
+
+    const assign = async (scope: AssignmentScope, assigned: boolean) => {
+        const path = app.playerState.path;
+        if (path === null)
+            return;
+        await Equalizer.assign(scope, path, assigned ? app.equalizer.preset : null);
+        app.setEqualizer("assignment", await Equalizer.getAssignment(path));
+    };
+
+    return <div class="equalizer-panel">
+        <div class="equalizer-panel-header">
+            <div class="equalizer-panel-title">Equalizer</div>
+            <label class="equalizer-panel-toggle">
+                <input
+                    type="checkbox"
+                    checked={app.equalizer.settings.enabled}
+                    onChange={e => app.setEqualizer("settings", "enabled", e.currentTarget.checked)}
+                />
+                Enabled
+            </label>
+            <div class="equalizer-panel-button" title="Close" onClick={props.onClose}>
+                <CloseRounded class="equalizer-panel-svg-fill-parent" />
+            </div>
+        </div>
+
+        <div class="equalizer-panel-row">
+            <select
+                class="equalizer-panel-preset-select"
+                value={app.equalizer.preset ?? ""}
+                onChange={e => loadPreset(e.currentTarget.value)}
+            >
+                <option value="" disabled>Custom</option>
+                <For each={app.equalizer.presets}>
+                    {preset => <option value={preset.name}>{preset.name}</option>}
+                </For>
+            </select>
+            <Show when={currentPreset() && !currentPreset()!.builtin}>
+                <div class="equalizer-panel-button" title="Delete preset" onClick={() => deletePreset().catch(logError("delete the preset"))}>
+                    <DeleteRounded class="equalizer-panel-svg-fill-parent" />
+                </div>
+            </Show>
+            <input
+                class="equalizer-panel-preset-name"
+                placeholder="Preset name"
+                value={presetName()}
+                onInput={e => setPresetName(e.currentTarget.value)}
+                onKeyDown={e => e.key === "Enter" && savePreset().catch(logError("save the preset"))}
+            />
+            <button
+                class="equalizer-panel-text-button"
+                disabled={presetName().trim().length == 0}
+                onClick={() => savePreset().catch(logError("save the preset"))}
+            >Save</button>
+        </div>
+
+        <ResponseCurve settings={app.equalizer.settings} />
+
+        <div class="equalizer-panel-bands">
+            <div class="equalizer-panel-band equalizer-panel-band-preamp">
+                <div class="equalizer-panel-band-value">{app.equalizer.settings.preamp.toFixed(1)}</div>
+                <input
+                    class="equalizer-panel-band-slider"
+                    type="range"
+                    min={-Equalizer.MAX_GAIN}
+                    max={0}
+                    step={0.5}
+                    value={app.equalizer.settings.preamp}
+                    onInput={e => setPreamp(e.currentTarget.valueAsNumber)}
+                />
+                <div class="equalizer-panel-band-label">Pre</div>
+            </div>
+            <Index each={app.equalizer.settings.bands}>
+                {(gain, i) => <div class="equalizer-panel-band">
+                    <div class="equalizer-panel-band-value">{gain().toFixed(1)}</div>
+                    <input
+                        class="equalizer-panel-band-slider"
+                        type="range"
+                        min={-12}
+                        max={12}
+                        step={0.5}
+                        value={gain()}
+                        onInput={e => setBand(i, e.currentTarget.valueAsNumber)}
+                        onDblClick={() => setBand(i, 0)}
+                    />
+                    <div class="equalizer-panel-band-label">{formatFrequency(Equalizer.FREQUENCIES[i])}</div>
+                </div>}
+            </Index>
+        </div>
+
+        <div class="equalizer-panel-section-title">
+            Parametric bands
+            <div class="equalizer-panel-button" title="Add band" onClick={() => setParametric(bands => [...bands, { ...DEFAULT_PARAMETRIC_BAND }])}>
+                <AddRounded class="equalizer-panel-svg-fill-parent" />
+            </div>
+        </div>
+        <Index each={app.equalizer.settings.parametric}>
+            {(band, i) => <div class="equalizer-panel-row equalizer-panel-parametric">
+                <select value={band().kind} onChange={e => setParametricBand(i, { kind: e.currentTarget.value as FilterKind })}>
+                    <For each={FILTER_KINDS}>
+                        {kind => <option value={kind.kind}>{kind.label}</option>}
+                    </For>
+                </select>
+                <label>
+                    Hz
+                    <input type="number" min={20} max={20000} step={1} value={band().frequency}
+                        onChange={e => setParametricBand(i, { frequency: e.currentTarget.valueAsNumber || DEFAULT_PARAMETRIC_BAND.frequency })} />
+                </label>
+                <label>
+                    dB
+                    <input type="number" min={-Equalizer.MAX_GAIN} max={Equalizer.MAX_GAIN} step={0.5} value={band().gain}
+                        onChange={e => setParametricBand(i, { gain: e.currentTarget.valueAsNumber || 0 })} />
+                </label>
+                <label>
+                    Q
+                    <input type="number" min={0.1} max={20} step={0.1} value={band().q}
+                        onChange={e => setParametricBand(i, { q: e.currentTarget.valueAsNumber || DEFAULT_PARAMETRIC_BAND.q })} />
+                </label>
+                <div class="equalizer-panel-button" title="Remove band" onClick={() => setParametric(bands => bands.filter((_, j) => j !== i))}>
+                    <DeleteRounded class="equalizer-panel-svg-fill-parent" />
+                </div>
+            </div>}
+        </Index>
+
+        <Show when={app.playerState.path !== null}>
+            <div class="equalizer-panel-section-title">Assign preset</div>
+            <label class="equalizer-panel-assignment">
+                <input
+                    type="checkbox"
+                    checked={app.equalizer.assignment.track !== null}
+                    disabled={app.equalizer.preset === null && app.equalizer.assignment.track === null}
+                    onChange={e => assign("track", e.currentTarget.checked).catch(logError("assign the preset"))}
+                />
+                This track{app.equalizer.assignment.track !== null ? `: ${app.equalizer.assignment.track}` : ""}
+            </label>
+            <label class="equalizer-panel-assignment">
+                <input
+                    type="checkbox"
+                    checked={app.equalizer.assignment.album !== null}
+                    disabled={!app.musicInfo.album || (app.equalizer.preset === null && app.equalizer.assignment.album === null)}
+                    onChange={e => assign("album", e.currentTarget.checked).catch(logError("assign the preset"))}
+                />
+                This album{app.equalizer.assignment.album !== null ? `: ${app.equalizer.assignment.album}` : ""}
+            </label>
+        </Show>
+    </div>;
+}
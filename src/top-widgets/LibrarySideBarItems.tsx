@@ -0,0 +1,30 @@
+import { Accessor, JSX } from "solid-js";
+import "./LibrarySideBarItems.scss";
+import { SideBarItem, useSideBarItems } from "../Contexts";
+import { Route } from "../Router";
+import { AlbumRounded, FolderRounded, MusicNoteRounded, PersonRounded } from "../MaterialSymbolsLight";
+
+const ITEM_GROUP = "library";
+
+function item(name: string, label: string, icon: (props: any) => JSX.Element, route: Route): Accessor<SideBarItem> {
+    const Icon = icon;
+    const el = <div class="library-side-bar-item">
+        <Icon class="library-side-bar-item-icon" />
+        <div class="library-side-bar-item-text">{label}</div>
+    </div>;
+    const sideBarItem = { name: `${ITEM_GROUP}:${name}`, route, el };
+    return () => sideBarItem;
+}
+
+/**
+ * Shows the items opening the library views in the side bar.
+ */
+export function useLibrarySideBarItems() {
+    const items = [
+        item("songs", "Songs", MusicNoteRounded, { view: "songs" }),
+        item("albums", "Albums", AlbumRounded, { view: "albums" }),
+        item("artists", "Artists", PersonRounded, { view: "artists" }),
+        item("folders", "Folders", FolderRounded, { view: "folders", path: null }),
+    ];
+    useSideBarItems(ITEM_GROUP, () => items);
+}
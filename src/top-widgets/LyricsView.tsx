@@ -0,0 +1,95 @@
+import { createEffect, createMemo, createSignal, For, JSX, on, Show } from "solid-js";
+import "./LyricsView.scss";
+import { createLivePosition, useApp } from "../Contexts";
+import { Lyrics, LyricLine, TrackLyrics } from "../Lyrics";
+import { Player } from "../Player";
+import { Motion } from "../Motion";
+import { logError } from "../Util";
+
+/**
+ * How long auto-scrolling stays off after the user scrolled the lyrics, in milliseconds.
+ */
+const MANUAL_SCROLL_TIMEOUT = 3000;
+
+/**
+ * Lyrics of the playing track.
+ * Synchronized lyrics follow playback and seek when a line is clicked, others are shown as plain text.
+ */
+export function LyricsView(): JSX.Element {
+    const app = useApp();
+    const position = createLivePosition(app);
+    const [lyrics, setLyrics] = createSignal<TrackLyrics | null>(null);
+
+    let container: HTMLDivElement | undefined;
+    let lineElements: HTMLElement[] = [];
+    let manualScrollUntil = 0;
+
+    createEffect(on(() => app.playerState.path, path => {
+        setLyrics(null);
+        lineElements = [];
+        if (path === null)
+            return;
+
+        Lyrics.read(path)
+            .then(lyrics => {
+                // Another track may have been loaded in the meantime.
+                if (app.playerState.path === path)
+                    setLyrics(lyrics);
+            })
+            .catch(logError(`read the lyrics of ${path}`));
+    }));
+
+    const synced = () => lyrics()?.synced ?? false;
+    const current = createMemo(() => synced() ? Lyrics.indexAt(lyrics()!.lines, position()) : -1);
+
+    const onManualScroll = () => manualScrollUntil = performance.now() + MANUAL_SCROLL_TIMEOUT;
+
+    createEffect(on(current, index => {
+        const line = lineElements[index];
+        if (!container || !line || performance.now() < manualScrollUntil)
+            return;
+        container.scrollTo({
+            top: line.offsetTop - container.clientHeight / 2 + line.offsetHeight / 2,
+            behavior: Motion.level() === "full" ? "smooth" : "auto",
+        });
+    }));
+
+    const seekTo = (line: LyricLine) => {
+        if (line.time === null)
+            return;
+        manualScrollUntil = 0;
+        Player.seek(line.time).catch(logError("seek"));
+    };
+
+    return <div
+        classList={{ "lyrics-view": true, "lyrics-view-synced": synced() }}
+        ref={container}
+        onWheel={onManualScroll}
+        onTouchMove={onManualScroll}
+    >
+        <Show when={lyrics()} fallback={<div class="lyrics-view-empty">No lyrics</div>}>
+            {lyrics => <For each={lyrics().lines}>
+                {(line, index) => <div
+                    classList={{
+                        "lyrics-view-line": true,
+                        "lyrics-view-line-current": index() === current(),
+                        "lyrics-view-line-past": index() < current(),
+                    }}
+                    ref={el => lineElements[index()] = el}
+                    onClick={() => seekTo(line)}
+                >
+                    <Show when={line.words.length > 0} fallback={line.text || " "}>
+                        <For each={line.words}>
+                            {word => <span
+                                classList={{
+                                    "lyrics-view-word": true,
+                                    "lyrics-view-word-sung": index() < current() || (index() === current() && word.time <= position()),
+                                }}
+                            >{word.text}</span>}
+                        </For>
+                    </Show>
+                </div>}
+            </For>}
+        </Show>
+    </div>;
+}
@@ -1,26 +1,37 @@
 import { JSX, mergeProps, Show, splitProps } from "solid-js";
 import "./MusicBar.scss";
-import { PauseRounded } from "../MaterialSymbolsLight";
+import { EqualizerRounded, PauseRounded, PlayArrowRounded, QueueMusicRounded, SkipNextRounded, SkipPreviousRounded } from "../MaterialSymbolsLight";
 import { SharedElement } from "../SharedElement";
 import { useApp } from "../Contexts";
+import { Player } from "../Player";
+import { Queue } from "../Queue";
+import { SeekBar } from "./SeekBar";
+import { logError } from "../Util";
 
 const defaultProps = {
     showPicture: true,
     showInfoText: true,
+    showSeekBar: true,
 };
 
 export interface MusicBarProps extends JSX.HTMLAttributes<HTMLDivElement> {
     onSwitchPage?: () => void;
+    onToggleQueue?: () => void;
+    onToggleEqualizer?: () => void;
     showPicture?: boolean,
     showInfoText?: boolean,
+    showSeekBar?: boolean,
 }
 
 export function MusicBar(rawProps: MusicBarProps): JSX.Element {
     const filledProps = mergeProps(defaultProps, rawProps);
     const [props, opacityProps] = splitProps(filledProps, [
         "onSwitchPage",
+        "onToggleQueue",
+        "onToggleEqualizer",
         "showPicture",
         "showInfoText",
+        "showSeekBar",
     ]);
     const app = useApp();
 
@@ -28,7 +39,11 @@ export function MusicBar(rawProps: MusicBarProps): JSX.Element {
         <div class="music-bar-info" onClick={props.onSwitchPage}>
             <Show when={props.showPicture}>
                 <SharedElement name="music-info-picture">
-                    <div class="music-bar-info-picture">{app.musicInfo.picture}</div>
+                    <div class="music-bar-info-picture">
+                        <Show when={app.musicInfo.picture}>
+                            <img class="music-info-picture-image" src={app.musicInfo.picture} draggable={false} />
+                        </Show>
+                    </div>
                 </SharedElement>
             </Show>
             <Show when={props.showInfoText}>
@@ -46,13 +61,54 @@ export function MusicBar(rawProps: MusicBarProps): JSX.Element {
             </Show>
         </div>
         <div class="music-bar-controls">
-            <SharedElement name="music-bar-controls-play-or-pause">
-                <div class="music-bar-controls-play-or-pause"><PauseRounded class="music-bar-svg-fill-parent" /></div>
-            </SharedElement>
+            <div class="music-bar-controls-buttons">
+                <SharedElement name="music-bar-controls-previous">
+                    <div class="music-bar-controls-button" onClick={() => Queue.previous(app).catch(logError("play the previous track"))}>
+                        <SkipPreviousRounded class="music-bar-svg-fill-parent" />
+                    </div>
+                </SharedElement>
+                <SharedElement name="music-bar-controls-play-or-pause">
+                    <div
+                        class="music-bar-controls-play-or-pause"
+                        onClick={() => Player.toggle().catch(logError("toggle playback"))}
+                    >
+                        <Show
+                            when={app.playerState.status === "playing"}
+                            fallback={<PlayArrowRounded class="music-bar-svg-fill-parent" />}
+                        >
+                            <PauseRounded class="music-bar-svg-fill-parent" />
+                        </Show>
+                    </div>
+                </SharedElement>
+                <SharedElement name="music-bar-controls-next">
+                    <div class="music-bar-controls-button" onClick={() => Queue.next(app).catch(logError("play the next track"))}>
+                        <SkipNextRounded class="music-bar-svg-fill-parent" />
+                    </div>
+                </SharedElement>
+            </div>
+            <Show when={props.showSeekBar}>
+                <SharedElement name="seek-bar">
+                    <div class="music-bar-seek-bar">
+                        <SeekBar compact />
+                    </div>
+                </SharedElement>
+            </Show>
         </div>
         <div class="music-bar-utilities">
-            <div class="music-bar-utilities-equalizer"></div>
-            <div class="music-bar-utilities-playlist"></div>
+            <div
+                classList={{
+                    "music-bar-utilities-equalizer": true,
+                    "music-bar-utilities-button": true,
+                    "music-bar-utilities-button-active": app.equalizer.settings.enabled,
+                }}
+                title="Equalizer"
+                onClick={props.onToggleEqualizer}
+            >
+                <EqualizerRounded class="music-bar-svg-fill-parent" />
+            </div>
+            <div class="music-bar-utilities-playlist music-bar-utilities-button" title="Queue" onClick={props.onToggleQueue}>
+                <QueueMusicRounded class="music-bar-svg-fill-parent" />
+            </div>
         </div>
     </div>);
 };
\ No newline at end of file
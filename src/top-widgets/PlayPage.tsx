@@ -1,13 +1,19 @@
-import { JSX } from "solid-js";
+import { For, JSX, Show } from "solid-js";
 import "./PlayPage.scss";
 import { SharedElement } from "../SharedElement";
-import { Easings } from "../Util";
+import { Easings, logError } from "../Util";
 import { useApp } from "../Contexts";
+import { Player } from "../Player";
+import { SeekBar } from "./SeekBar";
+import { LyricsView } from "./LyricsView";
+import { VisualizerView } from "./VisualizerView";
+import { Motion } from "../Motion";
+import { Visualizer, VisualizerStyle } from "../Visualizer";
 
 export interface PlayPageProps extends JSX.HTMLAttributes<HTMLDivElement> {}
 
 function PlayPageInfo() {
-    const { musicInfo } = useApp();
+    const { musicInfo, nextMusicInfo } = useApp();
 
     return <div class="play-page-info">
         <SharedElement name="music-info-title">
@@ -19,17 +25,52 @@ function PlayPageInfo() {
         <SharedElement name="music-info-album">
             <div class="play-page-info-album">{musicInfo.album}</div>
         </SharedElement>
+        <Show when={nextMusicInfo.title}>
+            <div class="play-page-info-next">
+                Next: {nextMusicInfo.title}
+                <Show when={nextMusicInfo.artist?.length}> · {nextMusicInfo.artist!.join(", ")}</Show>
+            </div>
+        </Show>
+    </div>;
+}
+
+/**
+ * Switches between the lyrics and the visualizer, and picks the style of the latter.
+ */
+function PlayPageControls() {
+    const { visualizer, setVisualizer } = useApp();
+
+    return <div class="play-page-controls">
+        <div
+            classList={{ "play-page-control": true, "play-page-control-active": !visualizer.enabled }}
+            onClick={() => setVisualizer("enabled", false)}
+        >Lyrics</div>
+        <div
+            classList={{ "play-page-control": true, "play-page-control-active": visualizer.enabled }}
+            onClick={() => setVisualizer("enabled", true)}
+        >Visualizer</div>
+        <Show when={visualizer.enabled}>
+            <select
+                class="play-page-select"
+                value={visualizer.style}
+                onChange={ev => setVisualizer("style", ev.currentTarget.value as VisualizerStyle)}
+            >
+                <For each={Visualizer.STYLES}>{([style, name]) => <option value={style}>{name}</option>}</For>
+            </select>
+        </Show>
     </div>;
 }
 
 export function PlayPage(props: PlayPageProps): JSX.Element {
+    const { musicInfo, playerState, visualizer } = useApp();
+
     return <SharedElement
         name="play-page"
-        dependencies={["music-info-picture", "music-info-title", "music-info-artist", "music-info-album"]}
+        dependencies={["music-info-picture", "music-info-title", "music-info-artist", "music-info-album", "seek-bar"]}
         fadeInAnimationProps={{ enable: false }}
         fadeOutAnimationProps={{ enable: false }}
         onAnimationsReady={(state) => {
-            state.elGroup.animate([{
+            Motion.animate(state.elGroup, [{
                 transform: "translateY(120%)",
             }, {
                 transform: "translateY(0)",
@@ -44,11 +85,30 @@ export function PlayPage(props: PlayPageProps): JSX.Element {
         <div class="play-page" {...props}>
             <div class="play-page-area-a">
                 <SharedElement name="music-info-picture">
-                    <div class="play-page-picture"></div>
+                    <div
+                        classList={{
+                            "play-page-picture": true,
+                            "play-page-picture-paused": playerState.status !== "playing",
+                        }}
+                        onClick={() => Player.toggle().catch(logError("toggle playback"))}
+                    >
+                        <Show when={musicInfo.picture}>
+                            <img class="music-info-picture-image" src={musicInfo.picture} draggable={false} />
+                        </Show>
+                    </div>
                 </SharedElement>
                 <PlayPageInfo />
             </div>
             <div class="play-page-area-b">
+                <PlayPageControls />
+                <Show when={visualizer.enabled} fallback={<LyricsView />}>
+                    <VisualizerView />
+                </Show>
+                <SharedElement name="seek-bar">
+                    <div class="play-page-seek-bar">
+                        <SeekBar />
+                    </div>
+                </SharedElement>
             </div>
         </div>
     </SharedElement>;
@@ -0,0 +1,174 @@
+import { Accessor, createSignal, JSX, mapArray, onMount, Show } from "solid-js";
+import { ask, message, open, save } from "@tauri-apps/plugin-dialog";
+import "./PlaylistSideBarItems.scss";
+import { AppState, SideBarItem, useApp, useSideBarItems } from "../Contexts";
+import { Playlist, PlaylistSummary } from "../Playlist";
+import { Queue } from "../Queue";
+import { AddRounded, DeleteRounded, DownloadRounded, EditRounded, UploadRounded } from "../MaterialSymbolsLight";
+import { logError } from "../Util";
+
+const ITEM_GROUP = "playlist";
+
+/**
+ * Number of unresolved entries listed after an import, the rest are only counted.
+ */
+const UNRESOLVED_SHOWN = 10;
+
+const FILTERS = [{ name: "Playlists", extensions: Playlist.EXTENSIONS }];
+
+async function importPlaylist() {
+    const path = await open({ title: "Import playlist", filters: FILTERS });
+    if (path === null)
+        return;
+
+    const report = await Playlist.importFile(path);
+    if (report.unresolved.length == 0)
+        return;
+
+    const shown = report.unresolved.slice(0, UNRESOLVED_SHOWN).join("\n");
+    const more = report.unresolved.length - UNRESOLVED_SHOWN;
+    await message(
+        `${report.unresolved.length} entries of "${report.playlist.name}" are not in the library:\n\n${shown}`
+        + (more > 0 ? `\n… and ${more} more` : ""),
+        { title: "Import playlist", kind: "warning" },
+    );
+}
+
+async function exportPlaylist(playlist: PlaylistSummary) {
+    const path = await save({ title: "Export playlist", defaultPath: `${playlist.name}.m3u8`, filters: FILTERS });
+    if (path === null)
+        return;
+
+    const relative = await ask("Write the paths relative to the playlist file?", {
+        title: "Export playlist",
+        okLabel: "Relative",
+        cancelLabel: "Absolute",
+    });
+    await Playlist.exportFile(playlist.id, path, relative);
+}
+
+async function playPlaylist(app: AppState, playlist: PlaylistSummary) {
+    const tracks = await Playlist.getTracks(playlist.id);
+    await Queue.replace(app, tracks);
+}
+
+interface NameInputProps {
+    initial: string;
+    placeholder?: string;
+    onSubmit: (name: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Edits the name of a playlist in place. Enter submits a name which is not blank,
+ * Escape or leaving the field cancels.
+ */
+function NameInput(props: NameInputProps): JSX.Element {
+    let input: HTMLInputElement | undefined;
+    onMount(() => {
+        input!.focus();
+        input!.select();
+    });
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.key === "Enter") {
+            const name = input!.value.trim();
+            if (name !== "")
+                props.onSubmit(name);
+        } else if (e.key === "Escape") {
+            props.onCancel();
+        }
+    };
+
+    return <input
+        ref={input}
+        class="playlist-side-bar-item-input"
+        type="text"
+        value={props.initial}
+        placeholder={props.placeholder}
+        onKeyDown={onKeyDown}
+        onBlur={() => props.onCancel()}
+    />;
+}
+
+function NewPlaylistItem(): JSX.Element {
+    const app = useApp();
+    const [editing, setEditing] = createSignal(false);
+
+    const create = (name: string) => {
+        setEditing(false);
+        Playlist.create(name, app.queue.entries.map(entry => entry.track.path)).catch(logError("create the playlist"));
+    };
+
+    return <div class="playlist-side-bar-item" title="Saves the tracks of the queue as a playlist" onClick={() => setEditing(true)}>
+        <AddRounded class="playlist-side-bar-item-icon" />
+        <Show when={editing()} fallback={<div class="playlist-side-bar-item-text">New playlist</div>}>
+            <NameInput initial="" placeholder="Playlist name" onSubmit={create} onCancel={() => setEditing(false)} />
+        </Show>
+    </div>;
+}
+
+function ImportItem(): JSX.Element {
+    return <div class="playlist-side-bar-item" onClick={() => importPlaylist().catch(logError("import the playlist"))}>
+        <UploadRounded class="playlist-side-bar-item-icon" />
+        <div class="playlist-side-bar-item-text">Import playlist</div>
+    </div>;
+}
+
+function PlaylistItem(props: { playlist: PlaylistSummary }): JSX.Element {
+    const app = useApp();
+
+    const [renaming, setRenaming] = createSignal(false);
+
+    const rename = (name: string) => {
+        setRenaming(false);
+        if (name !== props.playlist.name)
+            Playlist.rename(props.playlist.id, name).catch(logError("rename the playlist"));
+    };
+
+    const remove = async () => {
+        if (await ask(`Delete the playlist "${props.playlist.name}"?`, { title: "Delete playlist", kind: "warning" }))
+            await Playlist.remove(props.playlist.id);
+    };
+
+    return <div class="playlist-side-bar-item">
+        <Show
+            when={renaming()}
+            fallback={<div
+                class="playlist-side-bar-item-text"
+                title="Play"
+                onClick={() => playPlaylist(app, props.playlist).catch(logError("play the playlist"))}
+            >
+                <div class="playlist-side-bar-item-name">{props.playlist.name}</div>
+                <div class="playlist-side-bar-item-count">{props.playlist.trackCount} tracks</div>
+            </div>}
+        >
+            <NameInput initial={props.playlist.name} onSubmit={rename} onCancel={() => setRenaming(false)} />
+        </Show>
+        <div class="playlist-side-bar-item-button" title="Rename" onClick={() => setRenaming(true)}>
+            <EditRounded class="playlist-side-bar-svg-fill-parent" />
+        </div>
+        <div class="playlist-side-bar-item-button" title="Export" onClick={() => exportPlaylist(props.playlist).catch(logError("export the playlist"))}>
+            <DownloadRounded class="playlist-side-bar-svg-fill-parent" />
+        </div>
+        <div class="playlist-side-bar-item-button" title="Delete" onClick={() => remove().catch(logError("delete the playlist"))}>
+            <DeleteRounded class="playlist-side-bar-svg-fill-parent" />
+        </div>
+    </div>;
+}
+
+/**
+ * Lists the user playlists in the side bar, after items to create and to import one.
+ */
+export function usePlaylistSideBarItems() {
+    const app = useApp();
+
+    const newItem: SideBarItem = { name: `${ITEM_GROUP}:new`, el: <NewPlaylistItem /> };
+    const importItem: SideBarItem = { name: `${ITEM_GROUP}:import`, el: <ImportItem /> };
+    const playlistItems = mapArray(() => app.library.playlists, (playlist): Accessor<SideBarItem> => {
+        const item = { name: `${ITEM_GROUP}:${playlist.id}`, el: <PlaylistItem playlist={playlist} /> };
+        return () => item;
+    });
+
+    useSideBarItems(ITEM_GROUP, () => [() => newItem, () => importItem, ...playlistItems()]);
+}
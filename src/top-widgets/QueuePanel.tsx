@@ -0,0 +1,221 @@
+import { createSignal, For, JSX, onCleanup, onMount, Show } from "solid-js";
+import "./QueuePanel.scss";
+import { useApp } from "../Contexts";
+import { Queue } from "../Queue";
+import { CrossfadeCurve, Player } from "../Player";
+import { Normalization, NormalizationMode } from "../Normalization";
+import { CloseRounded, DeleteSweepRounded, DragIndicator, RepeatOneRounded, RepeatRounded, ShuffleRounded } from "../MaterialSymbolsLight";
+import { logError } from "../Util";
+
+/**
+ * Number of history entries shown below the queue.
+ */
+const HISTORY_SHOWN = 20;
+
+interface DragState {
+    pointerId: number;
+    from: number;
+    to: number;
+}
+
+function QueueList(): JSX.Element {
+    const app = useApp();
+    const [drag, setDrag] = createSignal<DragState>();
+
+    let list: HTMLDivElement | undefined;
+
+    /**
+     * Finds the index an entry dragged to `y` would be moved to.
+     */
+    const dropIndex = (y: number, from: number) => {
+        const items = Array.from(list!.children).filter(el => el.classList.contains("queue-panel-item"));
+        let index = items.findIndex(item => {
+            const rect = item.getBoundingClientRect();
+            return y < rect.top + rect.height / 2;
+        });
+        if (index < 0)
+            index = items.length;
+        // The dragged entry itself is removed before inserting.
+        return index > from ? index - 1 : index;
+    };
+
+    const startDrag = (e: PointerEvent, from: number) => {
+        setDrag({ pointerId: e.pointerId, from, to: from });
+        e.stopImmediatePropagation();
+        e.preventDefault();
+
+        document.body.classList.add("--queue-panel-drag-cursor");
+    };
+
+    const dragMove = (e: PointerEvent) => {
+        const state = drag();
+        if (state?.pointerId === e.pointerId) {
+            setDrag({ ...state, to: dropIndex(e.clientY, state.from) });
+            e.stopImmediatePropagation();
+            e.preventDefault();
+        }
+    };
+
+    const endDrag = (e: PointerEvent) => {
+        const state = drag();
+        if (state?.pointerId === e.pointerId) {
+            if (e.type === "pointerup")
+                Queue.move(app, state.from, state.to);
+
+            setDrag(undefined);
+            e.stopImmediatePropagation();
+            e.preventDefault();
+
+            document.body.classList.remove("--queue-panel-drag-cursor");
+        }
+    };
+
+    onMount(() => {
+        document.addEventListener("pointermove", dragMove);
+        document.addEventListener("pointerup", endDrag);
+        document.addEventListener("pointercancel", endDrag);
+
+        onCleanup(() => {
+            document.removeEventListener("pointermove", dragMove);
+            document.removeEventListener("pointerup", endDrag);
+            document.removeEventListener("pointercancel", endDrag);
+            document.body.classList.remove("--queue-panel-drag-cursor");
+        });
+    });
+
+    return <div class="queue-panel-list" ref={list}>
+        <For each={app.queue.entries} fallback={<div class="queue-panel-empty">The queue is empty.</div>}>
+            {(entry, index) => {
+                const isDropTarget = () => {
+                    const state = drag();
+                    return state !== undefined && state.to === index() && state.from !== index();
+                };
+
+                return <div
+                    classList={{
+                        "queue-panel-item": true,
+                        "queue-panel-item-current": index() === app.queue.current,
+                        "queue-panel-item-dragging": drag()?.from === index(),
+                        "queue-panel-item-drop-before": isDropTarget() && drag()!.to < drag()!.from,
+                        "queue-panel-item-drop-after": isDropTarget() && drag()!.to > drag()!.from,
+                    }}
+                >
+                    <div
+                        class="queue-panel-item-handle --queue-panel-drag-cursor"
+                        onPointerDown={e => startDrag(e, index())}
+                    >
+                        <DragIndicator class="queue-panel-svg-fill-parent" />
+                    </div>
+                    <div class="queue-panel-item-text" onClick={() => Queue.play(app, index()).catch(logError("play the entry"))}>
+                        <div class="queue-panel-item-title">{entry.track.title}</div>
+                        <div class="queue-panel-item-artist">{entry.track.artists.join(", ")}</div>
+                    </div>
+                    <div class="queue-panel-button" onClick={() => Queue.remove(app, entry.id).catch(logError("remove the entry"))}>
+                        <CloseRounded class="queue-panel-svg-fill-parent" />
+                    </div>
+                </div>;
+            }}
+        </For>
+    </div>;
+}
+
+export interface QueuePanelProps {
+    onClose?: () => void;
+}
+
+/**
+ * The slide-out panel listing the play queue and the recently played tracks.
+ */
+export function QueuePanel(props: QueuePanelProps): JSX.Element {
+    const app = useApp();
+
+    const playAgain = (index: number) => {
+        Queue.playNext(app, [app.queue.history[index]]);
+        Queue.next(app).catch(logError("play the track"));
+    };
+
+    return <div class="queue-panel">
+        <div class="queue-panel-header">
+            <div class="queue-panel-title">Queue</div>
+            <div
+                classList={{ "queue-panel-button": true, "queue-panel-button-active": app.queue.shuffle }}
+                title="Shuffle"
+                onClick={() => Queue.setShuffle(app, !app.queue.shuffle)}
+            >
+                <ShuffleRounded class="queue-panel-svg-fill-parent" />
+            </div>
+            <div
+                classList={{ "queue-panel-button": true, "queue-panel-button-active": app.queue.repeat !== "off" }}
+                title={`Repeat: ${app.queue.repeat}`}
+                onClick={() => Queue.cycleRepeat(app)}
+            >
+                <Show when={app.queue.repeat === "one"} fallback={<RepeatRounded class="queue-panel-svg-fill-parent" />}>
+                    <RepeatOneRounded class="queue-panel-svg-fill-parent" />
+                </Show>
+            </div>
+            <div class="queue-panel-button" title="Clear" onClick={() => Queue.clear(app).catch(logError("clear the queue"))}>
+                <DeleteSweepRounded class="queue-panel-svg-fill-parent" />
+            </div>
+            <div class="queue-panel-button" title="Close" onClick={props.onClose}>
+                <CloseRounded class="queue-panel-svg-fill-parent" />
+            </div>
+        </div>
+
+        <label class="queue-panel-options" title="Tracks of the same album are never cross-faded">
+            <span class="queue-panel-options-label">Crossfade</span>
+            <select
+                class="queue-panel-select"
+                value={app.crossfade.duration}
+                onChange={e => app.setCrossfade("duration", Number.parseFloat(e.currentTarget.value))}
+            >
+                <For each={Player.CROSSFADE_DURATIONS}>
+                    {duration => <option value={duration}>{duration == 0 ? "Off" : `${duration} s`}</option>}
+                </For>
+            </select>
+            <select
+                class="queue-panel-select"
+                value={app.crossfade.curve}
+                disabled={app.crossfade.duration == 0}
+                onChange={e => app.setCrossfade("curve", e.currentTarget.value as CrossfadeCurve)}
+            >
+                <For each={Player.CROSSFADE_CURVES}>{([curve, label]) => <option value={curve}>{label}</option>}</For>
+            </select>
+        </label>
+
+        <div class="queue-panel-options" title="Auto uses the album gain while tracks of the same album follow each other">
+            <span class="queue-panel-options-label">Normalize</span>
+            <select
+                class="queue-panel-select"
+                value={app.normalization.mode}
+                onChange={e => app.setNormalization("mode", e.currentTarget.value as NormalizationMode)}
+            >
+                <For each={Normalization.MODES}>{([mode, label]) => <option value={mode}>{label}</option>}</For>
+            </select>
+            <label class="queue-panel-checkbox" title="Lowers the gain of tracks whose peaks would clip">
+                <input
+                    type="checkbox"
+                    checked={app.normalization.preventClipping}
+                    disabled={app.normalization.mode == "off"}
+                    onChange={e => app.setNormalization("preventClipping", e.currentTarget.checked)}
+                />
+                No clipping
+            </label>
+        </div>
+
+        <QueueList />
+
+        <Show when={app.queue.history.length > 0}>
+            <div class="queue-panel-section-title">Recently played</div>
+            <div class="queue-panel-list">
+                <For each={app.queue.history.slice(0, HISTORY_SHOWN)}>
+                    {(track, index) => <div class="queue-panel-item queue-panel-item-history">
+                        <div class="queue-panel-item-text" onClick={() => playAgain(index())}>
+                            <div class="queue-panel-item-title">{track.title}</div>
+                            <div class="queue-panel-item-artist">{track.artists.join(", ")}</div>
+                        </div>
+                    </div>}
+                </For>
+            </div>
+        </Show>
+    </div>;
+}
@@ -0,0 +1,61 @@
+import { JSX } from "solid-js";
+import "./SearchBox.scss";
+import { useApp } from "../Contexts";
+import { Search } from "../Search";
+import { Shortcuts } from "../Shortcuts";
+import { SearchRounded } from "../MaterialSymbolsLight";
+import { logError } from "../Util";
+
+/**
+ * The search field of the side bar. Typing opens the search view, whose hits are picked with
+ * the arrow keys and opened with Enter.
+ */
+export function SearchBox(): JSX.Element {
+    const app = useApp();
+    let input: HTMLInputElement | undefined;
+
+    Shortcuts.useHandler("focusSearch", () => {
+        input!.focus();
+        input!.select();
+    });
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        switch (e.key) {
+            case "ArrowDown":
+                Search.moveSelection(app, 1);
+                break;
+            case "ArrowUp":
+                Search.moveSelection(app, -1);
+                break;
+            case "Enter": {
+                const item = app.search.pending ? undefined : app.search.items[app.search.selected];
+                if (item !== undefined)
+                    Search.open(app, item).catch(logError("open the search result"));
+                break;
+            }
+            case "Escape":
+                if (input!.value === "")
+                    input!.blur();
+                else
+                    Search.setQuery(app, "");
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    };
+
+    return <label class="search-box">
+        <SearchRounded class="search-box-icon" />
+        <input
+            ref={input}
+            class="search-box-input"
+            type="search"
+            placeholder="Search"
+            spellcheck={false}
+            value={Search.currentQuery(app)}
+            onInput={e => Search.setQuery(app, e.currentTarget.value)}
+            onKeyDown={onKeyDown}
+        />
+    </label>;
+}
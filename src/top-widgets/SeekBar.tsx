@@ -0,0 +1,255 @@
+import { createEffect, createMemo, createSignal, JSX, on, onCleanup, onMount, Show } from "solid-js";
+import "./SeekBar.scss";
+import { createLivePosition, useApp } from "../Contexts";
+import { Library, PeakLevel, Peaks } from "../Library";
+import { Player } from "../Player";
+import { clamp, createPointerDrag, formatTime, logError } from "../Util";
+import { Visualizer, VisualizerColors } from "../Visualizer";
+
+/**
+ * Seconds skipped by the arrow keys, and by Page Up/Down.
+ */
+const KEY_STEP = 5;
+const KEY_PAGE_STEP = 30;
+
+/**
+ * Width of the bars of the waveform and of the gaps between them, in CSS pixels.
+ */
+const PEAK_BAR_WIDTH = 2;
+const PEAK_BAR_GAP = 1;
+
+export interface SeekBarProps {
+    /**
+     * Hides the time labels, for small spaces such as the music bar.
+     */
+    compact?: boolean;
+}
+
+/**
+ * The waveform of a track drawn once in the played and once in the unplayed style, so that
+ * showing the progress only copies parts of them.
+ */
+interface Waveform {
+    played: HTMLCanvasElement;
+    unplayed: HTMLCanvasElement;
+    /**
+     * Width of a bar and the gap after it, in device pixels.
+     */
+    slot: number;
+}
+
+/**
+ * Draws the peaks as bars mirrored around the middle, in the fill style of `ctx`.
+ */
+function drawPeaks(ctx: CanvasRenderingContext2D, peaks: Peaks, slot: number) {
+    const { width, height } = ctx.canvas;
+    const columns = Math.floor(width / slot);
+    if (columns <= 0)
+        return;
+    // The coarsest level with a bucket for every bar.
+    const level: PeakLevel = peaks.levels.find(level => level.min.length >= columns) ?? peaks.levels[peaks.levels.length - 1];
+    const buckets = level.min.length;
+    const middle = height / 2;
+
+    for (let column = 0; column < columns; column++) {
+        const first = Math.floor(column * buckets / columns);
+        const last = Math.max(first + 1, Math.floor((column + 1) * buckets / columns));
+        let min = 0, max = 0;
+        for (let bucket = first; bucket < last && bucket < buckets; bucket++) {
+            min = Math.min(min, level.min[bucket]);
+            max = Math.max(max, level.max[bucket]);
+        }
+
+        const top = middle - max / 127 * middle;
+        const bottom = middle - min / 127 * middle;
+        ctx.fillRect(column * slot, Math.min(top, middle - devicePixelRatio / 2), PEAK_BAR_WIDTH * devicePixelRatio, Math.max(bottom - top, devicePixelRatio));
+    }
+}
+
+function renderWaveform(peaks: Peaks, width: number, height: number, colors: VisualizerColors): Waveform {
+    const slot = (PEAK_BAR_WIDTH + PEAK_BAR_GAP) * devicePixelRatio;
+    const layer = (color: string, alpha: number) => {
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d")!;
+        ctx.fillStyle = color;
+        ctx.globalAlpha = alpha;
+        drawPeaks(ctx, peaks, slot);
+        return canvas;
+    };
+    return { played: layer(colors.accent, 1), unplayed: layer(colors.text, 0.35), slot };
+}
+
+/**
+ * Shows the bars before `played` (a fraction of the track) in the played style, the others
+ * in the unplayed one. A bar counts as played once the position passed its middle.
+ */
+function drawProgress(ctx: CanvasRenderingContext2D, waveform: Waveform, played: number) {
+    const { width, height } = ctx.canvas;
+    ctx.clearRect(0, 0, width, height);
+    if (width === 0 || height === 0)
+        return;
+
+    const { slot } = waveform;
+    const split = clamp(0, Math.ceil((played * width - slot / 2) / slot) * slot, width);
+    if (split > 0)
+        ctx.drawImage(waveform.played, 0, 0, split, height, 0, 0, split, height);
+    if (split < width)
+        ctx.drawImage(waveform.unplayed, split, 0, width - split, height, split, 0, width - split, height);
+}
+
+/**
+ * A slider showing the playback position and the decoded part of the track.
+ * Can be dragged with the pointer, or moved with the arrow keys, Page Up/Down, Home and End.
+ *
+ * Once the peaks of the track are extracted, it shows its waveform instead of a plain bar.
+ */
+export function SeekBar(props: SeekBarProps): JSX.Element {
+    const app = useApp();
+    const livePosition = createLivePosition(app);
+
+    /**
+     * Position under the pointer while scrubbing, the player is only asked to seek on release.
+     */
+    const [scrubPosition, setScrubPosition] = createSignal<number | null>(null);
+    const [hoverPosition, setHoverPosition] = createSignal<number | null>(null);
+    const [peaks, setPeaks] = createSignal<Peaks | null>(null);
+
+    const duration = () => app.playerState.duration ?? 0;
+    const position = () => scrubPosition() ?? livePosition();
+    const fraction = (seconds: number) => duration() > 0 ? clamp(0, seconds / duration(), 1) : 0;
+
+    let track: HTMLDivElement | undefined;
+    const positionAt = (clientX: number) => {
+        const rect = track!.getBoundingClientRect();
+        return rect.width > 0 ? clamp(0, (clientX - rect.left) / rect.width, 1) * duration() : 0;
+    };
+
+    createEffect(on(() => app.playerState.path, path => {
+        setPeaks(null);
+        if (!path)
+            return;
+        let current = true;
+        onCleanup(() => current = false);
+        Library.getPeaks(path)
+            .then(peaks => current && setPeaks(peaks))
+            .catch(logError(`read the peaks of ${path}`));
+    }));
+
+    let canvas: HTMLCanvasElement | undefined;
+    const [canvasSize, setCanvasSize] = createSignal({ width: 0, height: 0 });
+    onMount(() => {
+        const observer = new ResizeObserver(() => setCanvasSize({
+            width: Math.round(track!.clientWidth * devicePixelRatio),
+            height: Math.round(track!.clientHeight * devicePixelRatio),
+        }));
+        observer.observe(track!);
+        onCleanup(() => observer.disconnect());
+    });
+
+    // The waveform is only drawn again when the peaks, the size or the colors change,
+    // position updates just copy its played and unplayed parts.
+    const colors = Visualizer.createThemeColors();
+    const waveform = createMemo(() => {
+        const shown = peaks();
+        const { width, height } = canvasSize();
+        return shown && width > 0 && height > 0 ? renderWaveform(shown, width, height, colors()) : null;
+    });
+
+    createEffect(() => {
+        const shown = waveform();
+        if (!shown || !canvas)
+            return;
+        const { width, height } = shown.played;
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+        }
+        drawProgress(canvas.getContext("2d")!, shown, fraction(position()));
+    });
+
+    const seek = (seconds: number) => {
+        Player.seek(clamp(0, seconds, duration())).catch(logError("seek"));
+    };
+
+    const startDrag = createPointerDrag({
+        onStart: e => setScrubPosition(positionAt(e.clientX)),
+        onMove: e => setScrubPosition(positionAt(e.clientX)),
+        onEnd: e => {
+            seek(positionAt(e.clientX));
+            setScrubPosition(null);
+        },
+        bodyClass: "--seek-bar-drag-cursor",
+    });
+
+    const onPointerDown = (e: PointerEvent) => {
+        if (e.button !== 0 || duration() <= 0)
+            return;
+        (e.currentTarget as HTMLElement).focus();
+        startDrag(e);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (duration() <= 0)
+            return;
+
+        const steps: Record<string, number> = {
+            ArrowLeft: -KEY_STEP,
+            ArrowDown: -KEY_STEP,
+            ArrowRight: KEY_STEP,
+            ArrowUp: KEY_STEP,
+            PageDown: -KEY_PAGE_STEP,
+            PageUp: KEY_PAGE_STEP,
+        };
+        if (e.key in steps)
+            seek(livePosition() + steps[e.key]);
+        else if (e.key === "Home")
+            seek(0);
+        else if (e.key === "End")
+            seek(duration());
+        else
+            return;
+
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    return <div classList={{ "seek-bar": true, "seek-bar-compact": props.compact ?? false }}>
+        <div class="seek-bar-time">{formatTime(position())}</div>
+        <div
+            class="seek-bar-slider --seek-bar-drag-cursor"
+            classList={{ "seek-bar-slider-scrubbing": scrubPosition() !== null }}
+            tabIndex={0}
+            role="slider"
+            aria-label="Seek"
+            aria-valuemin={0}
+            aria-valuemax={Math.floor(duration())}
+            aria-valuenow={Math.floor(position())}
+            aria-valuetext={`${formatTime(position())} of ${formatTime(duration())}`}
+            onPointerDown={onPointerDown}
+            onPointerMove={e => setHoverPosition(duration() > 0 ? positionAt(e.clientX) : null)}
+            onPointerLeave={() => setHoverPosition(null)}
+            onKeyDown={onKeyDown}
+        >
+            <div classList={{ "seek-bar-track": true, "seek-bar-track-waveform": peaks() !== null }} ref={track}>
+                <Show
+                    when={peaks()}
+                    fallback={<>
+                        <div class="seek-bar-buffered" style={{ width: `${fraction(app.playerState.buffered) * 100}%` }} />
+                        <div class="seek-bar-played" style={{ width: `${fraction(position()) * 100}%` }} />
+                    </>}
+                >
+                    <canvas class="seek-bar-waveform" ref={canvas} />
+                </Show>
+                <div class="seek-bar-thumb" style={{ left: `${fraction(position()) * 100}%` }} />
+            </div>
+            <Show when={hoverPosition() !== null && scrubPosition() === null}>
+                <div class="seek-bar-hover" style={{ left: `${fraction(hoverPosition()!) * 100}%` }}>
+                    {formatTime(hoverPosition()!)}
+                </div>
+            </Show>
+        </div>
+        <div class="seek-bar-time">-{formatTime(duration() - position())}</div>
+    </div>;
+}
@@ -0,0 +1,21 @@
+import { JSX } from "solid-js";
+import "./SettingsSideBarItem.scss";
+import { useSideBarItems } from "../Contexts";
+import { SettingsRounded } from "../MaterialSymbolsLight";
+
+const ITEM_GROUP = "settings";
+
+function SettingsItem(): JSX.Element {
+    return <div class="settings-side-bar-item">
+        <SettingsRounded class="settings-side-bar-item-icon" />
+        <div class="settings-side-bar-item-text">Settings</div>
+    </div>;
+}
+
+/**
+ * Shows the item opening the settings view in the side bar.
+ */
+export function useSettingsSideBarItem() {
+    const item = { name: `${ITEM_GROUP}:open`, route: { view: "settings" } as const, el: <SettingsItem /> };
+    useSideBarItems(ITEM_GROUP, () => [() => item]);
+}
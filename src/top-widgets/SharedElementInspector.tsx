@@ -0,0 +1,205 @@
+import { createSignal, For, JSX, onCleanup, onMount, Show } from "solid-js";
+import "./SharedElementInspector.scss";
+import {
+    globalState,
+    GroupReport,
+    setTransitionPlaybackRate,
+    setTransitionsPaused,
+    stepTransitions,
+    TransitionReport,
+} from "../SharedElement";
+import { CloseRounded } from "../MaterialSymbolsLight";
+
+/**
+ * Interval at which the list of registered groups is refreshed, in milliseconds.
+ */
+const REFRESH_INTERVAL = 500;
+
+const PLAYBACK_RATES = [1, 0.5, 0.25, 0.1];
+
+interface GroupInfo {
+    id: string;
+    name: string;
+    elements: number;
+    /**
+     * Dependencies of the element of the group, or of its old element.
+     */
+    dependencies: string[];
+}
+
+function readGroups(): GroupInfo[] {
+    return [...globalState.groups].map(([id, group]) => {
+        const state = group.elements.length > 0 ? group.elements[0]() : group.elOld;
+        return { id, name: group.name, elements: group.elements.length, dependencies: state?.dependencies ?? [] };
+    });
+}
+
+/**
+ * Orders the group names so that dependencies come first, the way transitions process them.
+ * Names in a dependency cycle are returned separately.
+ */
+function dependencyOrder(groups: GroupInfo[]): { order: string[], cycle: string[] } {
+    const dependencies = new Map<string, Set<string>>();
+    groups.forEach(group => {
+        const deps = dependencies.get(group.name) ?? new Set();
+        group.dependencies.forEach(dep => deps.add(dep));
+        dependencies.set(group.name, deps);
+    });
+
+    const order: string[] = [];
+    const remaining = new Set(dependencies.keys());
+    let progress = true;
+    while (progress) {
+        progress = false;
+        for (const name of remaining) {
+            // Dependencies without registered group never block.
+            if ([...dependencies.get(name)!].every(dep => !remaining.has(dep))) {
+                order.push(name);
+                remaining.delete(name);
+                progress = true;
+            }
+        }
+    }
+    return { order, cycle: [...remaining] };
+}
+
+function GroupRects(props: { reports: GroupReport[] }): JSX.Element {
+    const style = (rect: DOMRect) => ({
+        left: `${rect.x}px`,
+        top: `${rect.y}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+    });
+
+    return <div class="se-inspector-rects">
+        <For each={props.reports}>
+            {report => <>
+                <Show when={report.rectOld}>
+                    {rect => <div class="se-inspector-rect se-inspector-rect-old" style={style(rect())}>
+                        <span class="se-inspector-rect-label">{report.id} (old)</span>
+                    </div>}
+                </Show>
+                <Show when={report.rectNew}>
+                    {rect => <div class="se-inspector-rect se-inspector-rect-new" style={style(rect())}>
+                        <span class="se-inspector-rect-label">{report.id} (new)</span>
+                    </div>}
+                </Show>
+            </>}
+        </For>
+    </div>;
+}
+
+/**
+ * Shows the registered shared element groups and what the last transition did with them,
+ * and lets the animations be slowed down or stepped through. Only meant for development.
+ */
+export function SharedElementInspector(): JSX.Element {
+    const [open, setOpen] = createSignal(false);
+    const [groups, setGroups] = createSignal<GroupInfo[]>([]);
+    const [report, setReport] = createSignal<TransitionReport>();
+    const [showRects, setShowRects] = createSignal(true);
+    const [playbackRate, setPlaybackRate] = createSignal(globalState.playbackRate);
+    const [paused, setPaused] = createSignal(globalState.paused);
+
+    const order = () => dependencyOrder(groups());
+
+    onMount(() => {
+        globalState.onReport = report => {
+            setReport(report);
+            setGroups(readGroups());
+        };
+        const interval = setInterval(() => {
+            if (open())
+                setGroups(readGroups());
+        }, REFRESH_INTERVAL);
+
+        onCleanup(() => {
+            globalState.onReport = undefined;
+            clearInterval(interval);
+            setTransitionPlaybackRate(1);
+            setTransitionsPaused(false);
+        });
+    });
+
+    const changeRate = (rate: number) => {
+        setPlaybackRate(rate);
+        setTransitionPlaybackRate(rate);
+    };
+    const changePaused = (value: boolean) => {
+        setPaused(value);
+        setTransitionsPaused(value);
+    };
+
+    return <>
+        <Show when={open() && showRects() && report()}>
+            {report => <GroupRects reports={report().groups} />}
+        </Show>
+        <Show
+            when={open()}
+            fallback={<div class="se-inspector-toggle" title="Shared element inspector" onClick={() => setOpen(true)}>SE</div>}
+        >
+            <div class="se-inspector">
+                <div class="se-inspector-header">
+                    <div class="se-inspector-title">Shared elements</div>
+                    <div class="se-inspector-button" title="Close" onClick={() => setOpen(false)}>
+                        <CloseRounded class="se-inspector-svg-fill-parent" />
+                    </div>
+                </div>
+
+                <div class="se-inspector-controls">
+                    <select value={playbackRate()} onChange={e => changeRate(Number.parseFloat(e.currentTarget.value))}>
+                        <For each={PLAYBACK_RATES}>{rate => <option value={rate}>{rate}×</option>}</For>
+                    </select>
+                    <button onClick={() => changePaused(!paused())}>{paused() ? "Resume" : "Pause"}</button>
+                    <button onClick={() => {
+                        setPaused(true);
+                        stepTransitions();
+                    }}>Step</button>
+                    <label>
+                        <input type="checkbox" checked={showRects()} onChange={e => setShowRects(e.currentTarget.checked)} />
+                        Rects
+                    </label>
+                </div>
+
+                <div class="se-inspector-section-title">Groups ({groups().length})</div>
+                <table class="se-inspector-table">
+                    <tbody>
+                        <For each={groups()}>
+                            {group => <tr classList={{ "se-inspector-warning": group.elements > 1 }}>
+                                <td>{group.id}</td>
+                                <td>{group.elements}</td>
+                                <td>{group.dependencies.length > 0 ? `→ ${group.dependencies.join(", ")}` : ""}</td>
+                            </tr>}
+                        </For>
+                    </tbody>
+                </table>
+
+                <div class="se-inspector-section-title">Dependency order</div>
+                <div class="se-inspector-order">{order().order.join(" → ") || "—"}</div>
+                <Show when={order().cycle.length > 0}>
+                    <div class="se-inspector-warning">Cycle: {order().cycle.join(", ")}</div>
+                </Show>
+
+                <div class="se-inspector-section-title">Last transition</div>
+                <Show when={report()} fallback={<div class="se-inspector-empty">None yet</div>}>
+                    {report => <>
+                        <Show when={report().depthExceeded}>
+                            <div class="se-inspector-warning">Dependency depth exceeded</div>
+                        </Show>
+                        <table class="se-inspector-table">
+                            <tbody>
+                                <For each={report().groups}>
+                                    {group => <tr class={`se-inspector-outcome-${group.outcome}`}>
+                                        <td>{group.id}</td>
+                                        <td>{group.outcome}</td>
+                                        <td>{group.reason}</td>
+                                    </tr>}
+                                </For>
+                            </tbody>
+                        </table>
+                    </>}
+                </Show>
+            </div>
+        </Show>
+    </>;
+}
@@ -0,0 +1,87 @@
+import { createSignal, For, JSX, Show } from "solid-js";
+import "./ShortcutSheet.scss";
+import { useApp } from "../Contexts";
+import { Command, CommandId, Shortcuts } from "../Shortcuts";
+import { AddRounded, CloseRounded } from "../MaterialSymbolsLight";
+
+const GROUPS: Command["group"][] = ["Playback", "Interface"];
+
+export interface ShortcutSheetProps {
+    onClose?: () => void;
+}
+
+function Binding(props: { command: CommandId, binding: string, onRemove: () => void }): JSX.Element {
+    const app = useApp();
+    const conflicts = () => Shortcuts.conflicts(app.shortcuts, props.command, props.binding);
+    const title = () => conflicts().length === 0
+        ? "Remove"
+        : `Conflicts with ${conflicts().map(conflict => `${Shortcuts.command(conflict.command).title} (${conflict.binding})`).join(", ")}`;
+
+    return <span
+        classList={{ "shortcut-sheet-binding": true, "shortcut-sheet-binding-conflict": conflicts().length > 0 }}
+        title={title()}
+        onClick={() => props.onRemove()}
+    >
+        <For each={props.binding.split(" ")}>{stroke => <kbd class="shortcut-sheet-key">{stroke}</kbd>}</For>
+    </span>;
+}
+
+/**
+ * Lists the keyboard shortcuts. Clicking a binding removes it, new ones are recorded from the keyboard.
+ */
+export function ShortcutSheet(props: ShortcutSheetProps): JSX.Element {
+    const app = useApp();
+    const [recording, setRecording] = createSignal<CommandId | null>(null);
+
+    const record = (id: CommandId) => {
+        setRecording(id);
+        Shortcuts.record().then(binding => {
+            setRecording(null);
+            const bindings = Shortcuts.bindings(app.shortcuts, id);
+            if (binding !== null && !bindings.includes(binding))
+                Shortcuts.setBindings(app, id, [...bindings, binding]);
+        });
+    };
+    const remove = (id: CommandId, binding: string) =>
+        Shortcuts.setBindings(app, id, Shortcuts.bindings(app.shortcuts, id).filter(other => other !== binding));
+
+    return <div class="shortcut-sheet-backdrop" onClick={e => e.target === e.currentTarget && recording() === null && props.onClose?.()}>
+        <div class="shortcut-sheet">
+            <div class="shortcut-sheet-header">
+                <div class="shortcut-sheet-title">Keyboard shortcuts</div>
+                <div class="shortcut-sheet-button" title="Close" onClick={props.onClose}>
+                    <CloseRounded class="shortcut-sheet-svg-fill-parent" />
+                </div>
+            </div>
+            <div class="shortcut-sheet-hint">
+                Shortcuts are off while typing. Chords are typed one stroke after another, Esc cancels recording.
+            </div>
+
+            <For each={GROUPS}>
+                {group => <>
+                    <div class="shortcut-sheet-section-title">{group}</div>
+                    <For each={Shortcuts.COMMANDS.filter(command => command.group === group)}>
+                        {command => <div class="shortcut-sheet-row">
+                            <span class="shortcut-sheet-command">{command.title}</span>
+                            <span class="shortcut-sheet-bindings">
+                                <For each={Shortcuts.bindings(app.shortcuts, command.id)}>
+                                    {binding => <Binding command={command.id} binding={binding} onRemove={() => remove(command.id, binding)} />}
+                                </For>
+                                <Show when={recording() === command.id}>
+                                    <span class="shortcut-sheet-recording">Press keys…</span>
+                                </Show>
+                            </span>
+                            <div class="shortcut-sheet-button" title="Add binding" onClick={() => recording() === null && record(command.id)}>
+                                <AddRounded class="shortcut-sheet-svg-fill-parent" />
+                            </div>
+                            <div
+                                classList={{ "shortcut-sheet-reset": true, "shortcut-sheet-reset-hidden": Shortcuts.isDefault(app.shortcuts, command.id) }}
+                                onClick={() => Shortcuts.resetBindings(app, command.id)}
+                            >Reset</div>
+                        </div>}
+                    </For>
+                </>}
+            </For>
+        </div>
+    </div>;
+}
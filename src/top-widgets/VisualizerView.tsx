@@ -0,0 +1,62 @@
+import { createEffect, createSignal, JSX, onCleanup, onMount } from "solid-js";
+import "./VisualizerView.scss";
+import { useApp } from "../Contexts";
+import { Player, VisualizerFrame } from "../Player";
+import { Visualizer } from "../Visualizer";
+import { logError } from "../Util";
+
+/**
+ * Whether the window is shown. The visualizer stops while it is hidden or minimized.
+ */
+function createDocumentVisible() {
+    const [visible, setVisible] = createSignal(!document.hidden);
+    const onChange = () => setVisible(!document.hidden);
+    document.addEventListener("visibilitychange", onChange);
+    onCleanup(() => document.removeEventListener("visibilitychange", onChange));
+    return visible;
+}
+
+/**
+ * The spectrum or the waveform of the playing audio, in the style set in the app state.
+ */
+export function VisualizerView(): JSX.Element {
+    const app = useApp();
+    const visible = createDocumentVisible();
+    let canvas: HTMLCanvasElement | undefined;
+    let latest: VisualizerFrame | null = null;
+
+    // Frames are only streamed while they can be seen.
+    createEffect(() => {
+        if (!visible())
+            return;
+        const stop = Player.streamVisualizer(frame => latest = frame);
+        stop.catch(logError("start the visualizer"));
+        onCleanup(() => {
+            latest = null;
+            stop.then(stop => stop()).catch(logError("stop the visualizer"));
+        });
+    });
+
+    onMount(() => {
+        const ctx = canvas!.getContext("2d")!;
+        let shown: VisualizerFrame = { spectrum: [], waveform: [] };
+        let last = performance.now();
+        let frame = requestAnimationFrame(function render(now) {
+            frame = requestAnimationFrame(render);
+            const width = Math.round(canvas!.clientWidth * devicePixelRatio);
+            const height = Math.round(canvas!.clientHeight * devicePixelRatio);
+            if (canvas!.width !== width || canvas!.height !== height) {
+                canvas!.width = width;
+                canvas!.height = height;
+            }
+
+            const target = app.playerState.status === "playing" ? latest : null;
+            shown = Visualizer.smooth(shown, target, (now - last) / 1000);
+            last = now;
+            Visualizer.draw(ctx, app.visualizer.style, shown, Visualizer.themeColors());
+        });
+        onCleanup(() => cancelAnimationFrame(frame));
+    });
+
+    return <canvas class="visualizer-view" ref={canvas} />;
+}
@@ -0,0 +1,32 @@
+import { createEffect, createSignal, JSX, on, Show } from "solid-js";
+import "./AlbumCover.scss";
+import { Library } from "../Library";
+import { AlbumRounded } from "../MaterialSymbolsLight";
+
+export interface AlbumCoverProps {
+    /**
+     * Track the cover is read from, or null to show a placeholder.
+     */
+    path: string | null;
+    /**
+     * Size in CSS pixels the cover is shown at, which picks the thumbnail served.
+     */
+    size: number;
+    class?: string;
+}
+
+/**
+ * A square cover image, with a placeholder if there is none.
+ */
+export function AlbumCover(props: AlbumCoverProps): JSX.Element {
+    const src = () => props.path === null ? undefined : Library.coverUrl(props.path, props.size);
+    const [failed, setFailed] = createSignal(false);
+    createEffect(on(src, () => setFailed(false)));
+
+    return <div class={`album-cover ${props.class ?? ""}`}>
+        <Show when={src() !== undefined && !failed()} fallback={<AlbumRounded class="album-cover-placeholder" />}>
+            {/* The backend answers 404 if the track has no cover. */}
+            <img class="album-cover-image" src={src()} draggable={false} onError={() => setFailed(true)} />
+        </Show>
+    </div>;
+}
@@ -0,0 +1,47 @@
+import { createMemo, JSX, Show } from "solid-js";
+import "./AlbumView.scss";
+import { useApp } from "../Contexts";
+import { Library } from "../Library";
+import { Queue } from "../Queue";
+import { Router } from "../Router";
+import { SharedElement } from "../SharedElement";
+import { formatTime, logError } from "../Util";
+import { PlayArrowRounded } from "../MaterialSymbolsLight";
+import { AlbumCover } from "./AlbumCover";
+import { ALBUM_COVER_ELEMENT, ALBUM_COVER_SIZE } from "./AlbumsView";
+import { TrackList } from "./TrackList";
+
+export function AlbumView(props: { albumKey: string }): JSX.Element {
+    const app = useApp();
+    const album = createMemo(() => Library.groupAlbums(app.library.tracks).find(album => album.key === props.albumKey));
+    const duration = () => album()?.tracks.reduce((sum, track) => sum + track.duration, 0) ?? 0;
+
+    return <div class="library-view">
+        <div class="album-view-header">
+            <SharedElement name={ALBUM_COVER_ELEMENT} key={props.albumKey}>
+                <AlbumCover class="album-view-cover" path={album()?.coverPath ?? null} size={ALBUM_COVER_SIZE} />
+            </SharedElement>
+            <Show when={album()} fallback={<div class="library-view-empty">Album not found</div>}>
+                {album => <div class="album-view-info">
+                    <div class="album-view-title">{album().title}</div>
+                    <a class="album-view-artist" onClick={() => Router.navigate(app, { view: "artist", name: album().artist })}>
+                        {album().artist}
+                    </a>
+                    <div class="album-view-details">
+                        {[album().year, `${album().tracks.length} tracks`, formatTime(duration())].filter(Boolean).join(" · ")}
+                    </div>
+                    <div
+                        class="album-view-play"
+                        title="Play"
+                        onClick={() => Queue.replace(app, album().tracks).catch(logError("play the album"))}
+                    >
+                        <PlayArrowRounded class="album-view-svg-fill-parent" />
+                    </div>
+                </div>}
+            </Show>
+        </div>
+        <Show when={album()}>
+            {album => <TrackList tracks={album().tracks} trackNumbers showAlbum={false} />}
+        </Show>
+    </div>;
+}
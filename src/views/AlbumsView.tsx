@@ -0,0 +1,60 @@
+import { createMemo, For, JSX, Show } from "solid-js";
+import "./AlbumsView.scss";
+import { useApp } from "../Contexts";
+import { Album, Library } from "../Library";
+import { Router } from "../Router";
+import { SharedElement } from "../SharedElement";
+import { AlbumCover } from "./AlbumCover";
+
+/**
+ * Name of the shared elements of the album covers, keyed by album, so that a cover morphs between the grid and the album view.
+ */
+export const ALBUM_COVER_ELEMENT = "album-cover";
+
+/**
+ * Size of the covers in CSS pixels, about the size of the cover of the album view. The grid
+ * and the album view load the same thumbnail, which is cached when a cover morphs.
+ */
+export const ALBUM_COVER_SIZE = 192;
+
+export interface AlbumGridProps {
+    albums: Album[];
+    /**
+     * Shows the artist below the title.
+     */
+    showArtist?: boolean;
+}
+
+export function AlbumGrid(props: AlbumGridProps): JSX.Element {
+    const app = useApp();
+
+    // The cover is cached by now, wait for the album view to decode it so that it morphs into the image.
+    const open = (album: Album) => Router.navigate(app, { view: "album", key: album.key }, { decodeImages: true });
+
+    return <div class="album-grid">
+        <For each={props.albums}>
+            {album => <div class="album-grid-item" title={album.title} onClick={() => open(album)}>
+                {/* The other covers may be scrolled out of view, they would fly in from outside the page. */}
+                <SharedElement name={ALBUM_COVER_ELEMENT} key={album.key} unmatched="ignore">
+                    <AlbumCover class="album-grid-item-cover" path={album.coverPath} size={ALBUM_COVER_SIZE} />
+                </SharedElement>
+                <div class="album-grid-item-title">{album.title}</div>
+                <Show when={props.showArtist ?? true}>
+                    <div class="album-grid-item-artist">{album.artist}</div>
+                </Show>
+            </div>}
+        </For>
+    </div>;
+}
+
+export function AlbumsView(): JSX.Element {
+    const app = useApp();
+    const albums = createMemo(() => Library.groupAlbums(app.library.tracks));
+
+    return <div class="library-view">
+        <div class="library-view-title">Albums</div>
+        <Show when={albums().length > 0} fallback={<div class="library-view-empty">No albums</div>}>
+            <AlbumGrid albums={albums()} />
+        </Show>
+    </div>;
+}
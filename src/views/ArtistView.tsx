@@ -0,0 +1,24 @@
+import { createMemo, JSX, Show } from "solid-js";
+import { useApp } from "../Contexts";
+import { Library } from "../Library";
+import { AlbumGrid } from "./AlbumsView";
+import { TrackList } from "./TrackList";
+
+export function ArtistView(props: { name: string }): JSX.Element {
+    const app = useApp();
+    const artist = createMemo(() => Library.groupArtists(app.library.tracks).find(artist => artist.name === props.name));
+
+    return <div class="library-view">
+        <div class="library-view-title">{props.name}</div>
+        <Show when={artist()} fallback={<div class="library-view-empty">Artist not found</div>}>
+            {artist => <>
+                <Show when={artist().albums.length > 0}>
+                    <div class="library-view-section-title">Albums</div>
+                    <AlbumGrid albums={artist().albums} showArtist={false} />
+                </Show>
+                <div class="library-view-section-title">Tracks</div>
+                <TrackList tracks={artist().tracks} />
+            </>}
+        </Show>
+    </div>;
+}
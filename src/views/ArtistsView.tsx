@@ -0,0 +1,30 @@
+import { createMemo, For, JSX, Show } from "solid-js";
+import "./ArtistsView.scss";
+import { useApp } from "../Contexts";
+import { Library } from "../Library";
+import { Router } from "../Router";
+import { PersonRounded } from "../MaterialSymbolsLight";
+
+export function ArtistsView(): JSX.Element {
+    const app = useApp();
+    const artists = createMemo(() => Library.groupArtists(app.library.tracks));
+
+    return <div class="library-view">
+        <div class="library-view-title">Artists</div>
+        <Show when={artists().length > 0} fallback={<div class="library-view-empty">No artists</div>}>
+            <div class="artists-view-list">
+                <For each={artists()}>
+                    {artist => <div class="artists-view-item" onClick={() => Router.navigate(app, { view: "artist", name: artist.name })}>
+                        <PersonRounded class="artists-view-item-icon" />
+                        <div class="artists-view-item-text">
+                            <div class="artists-view-item-name">{artist.name}</div>
+                            <div class="artists-view-item-count">
+                                {artist.albums.length} albums · {artist.tracks.length} tracks
+                            </div>
+                        </div>
+                    </div>}
+                </For>
+            </div>
+        </Show>
+    </div>;
+}
@@ -0,0 +1,131 @@
+import { createMemo, For, JSX, Show } from "solid-js";
+import { open } from "@tauri-apps/plugin-dialog";
+import "./FoldersView.scss";
+import { useApp } from "../Contexts";
+import { Library, Track } from "../Library";
+import { Router } from "../Router";
+import { AddRounded, ArrowBackRounded, DeleteRounded, FolderRounded } from "../MaterialSymbolsLight";
+import { TrackList } from "./TrackList";
+import { logError } from "../Util";
+
+const separatorOf = (path: string) => path.includes("/") || !path.includes("\\") ? "/" : "\\";
+
+const baseName = (path: string) => path.slice(path.lastIndexOf(separatorOf(path)) + 1) || path;
+
+interface FolderContent {
+    /**
+     * Full paths of the sub folders containing tracks, sorted by name.
+     */
+    folders: string[];
+    tracks: Track[];
+}
+
+/**
+ * Lists the tracks directly in `folder`, and the sub folders with tracks somewhere below them.
+ */
+function folderContent(tracks: Track[], folder: string): FolderContent {
+    const separator = separatorOf(folder);
+    const prefix = folder.endsWith(separator) ? folder : folder + separator;
+
+    const folders = new Set<string>();
+    const files: Track[] = [];
+    for (const track of tracks) {
+        if (!track.path.startsWith(prefix))
+            continue;
+
+        const rest = track.path.slice(prefix.length);
+        const end = rest.indexOf(separator);
+        if (end < 0)
+            files.push(track);
+        else
+            folders.add(prefix + rest.slice(0, end));
+    }
+
+    return {
+        folders: [...folders].sort((a, b) => baseName(a).localeCompare(baseName(b))),
+        tracks: files.sort((a, b) => baseName(a.path).localeCompare(baseName(b.path))),
+    };
+}
+
+async function addFolder() {
+    const path = await open({ title: "Add folder to the library", directory: true });
+    if (path !== null)
+        await Library.addFolder(path);
+}
+
+function FolderItem(props: { path: string, label?: string, children?: JSX.Element }): JSX.Element {
+    const app = useApp();
+
+    return <div class="folders-view-item" title={props.path} onClick={() => Router.navigate(app, { view: "folders", path: props.path })}>
+        <FolderRounded class="folders-view-item-icon" />
+        <div class="folders-view-item-name">{props.label ?? baseName(props.path)}</div>
+        {props.children}
+    </div>;
+}
+
+function LibraryFolders(): JSX.Element {
+    const app = useApp();
+    const refreshFolders = () => Library.getFolders().then(folders => app.setLibrary("folders", folders));
+
+    const remove = (e: MouseEvent, path: string) => {
+        e.stopPropagation();
+        Library.removeFolder(path)
+            .then(refreshFolders)
+            .catch(logError("remove the folder"));
+    };
+
+    return <div class="folders-view-list">
+        <For each={app.library.folders}>
+            {path => <FolderItem path={path} label={path}>
+                <div class="folders-view-item-button" title="Remove from the library" onClick={e => remove(e, path)}>
+                    <DeleteRounded class="folders-view-svg-fill-parent" />
+                </div>
+            </FolderItem>}
+        </For>
+        <div
+            class="folders-view-item"
+            onClick={() => addFolder().then(refreshFolders).catch(logError("add the folder"))}
+        >
+            <AddRounded class="folders-view-item-icon" />
+            <div class="folders-view-item-name">Add folder</div>
+        </div>
+    </div>;
+}
+
+function Folder(props: { path: string }): JSX.Element {
+    const app = useApp();
+    const content = createMemo(() => folderContent(app.library.tracks, props.path));
+
+    const parent = (): string | null => {
+        if (app.library.folders.includes(props.path))
+            return null;
+        const end = props.path.lastIndexOf(separatorOf(props.path));
+        return end > 0 ? props.path.slice(0, end) : null;
+    };
+
+    return <>
+        <div class="folders-view-list">
+            <div class="folders-view-item" onClick={() => Router.navigate(app, { view: "folders", path: parent() })}>
+                <ArrowBackRounded class="folders-view-item-icon" />
+                <div class="folders-view-item-name">{parent() === null ? "Library folders" : baseName(parent()!)}</div>
+            </div>
+            <For each={content().folders}>
+                {path => <FolderItem path={path} />}
+            </For>
+        </div>
+        <Show when={content().tracks.length > 0}>
+            <TrackList tracks={content().tracks} />
+        </Show>
+    </>;
+}
+
+export function FoldersView(props: { path: string | null }): JSX.Element {
+    return <div class="library-view">
+        <div class="library-view-title" title={props.path ?? undefined}>
+            {props.path === null ? "Folders" : baseName(props.path)}
+        </div>
+        <Show when={props.path} fallback={<LibraryFolders />}>
+            {path => <Folder path={path()} />}
+        </Show>
+    </div>;
+}
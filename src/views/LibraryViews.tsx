@@ -0,0 +1,80 @@
+import { JSX, Match, Switch } from "solid-js";
+import "./LibraryViews.scss";
+import { useApp } from "../Contexts";
+import { Route, Router } from "../Router";
+import { ArrowBackRounded, ArrowForwardRounded } from "../MaterialSymbolsLight";
+import { SongsView } from "./SongsView";
+import { AlbumsView } from "./AlbumsView";
+import { AlbumView } from "./AlbumView";
+import { ArtistsView } from "./ArtistsView";
+import { ArtistView } from "./ArtistView";
+import { FoldersView } from "./FoldersView";
+import { SettingsView } from "./SettingsView";
+import { SearchView } from "./SearchView";
+
+/**
+ * Narrows the current route to one view, for `Match`.
+ */
+const routeOf = <V extends Route["view"]>(route: Route, view: V) =>
+    route.view === view ? route as Extract<Route, { view: V }> : undefined;
+
+function NavigationBar(): JSX.Element {
+    const app = useApp();
+
+    return <div class="library-views-navigation">
+        <div
+            classList={{ "library-views-button": true, "library-views-button-disabled": !Router.canGoBack(app) }}
+            title="Back"
+            onClick={() => Router.back(app)}
+        >
+            <ArrowBackRounded class="library-views-svg-fill-parent" />
+        </div>
+        <div
+            classList={{ "library-views-button": true, "library-views-button-disabled": !Router.canGoForward(app) }}
+            title="Forward"
+            onClick={() => Router.forward(app)}
+        >
+            <ArrowForwardRounded class="library-views-svg-fill-parent" />
+        </div>
+    </div>;
+}
+
+/**
+ * Shows the view of the current route, see {@link Router}.
+ */
+export function LibraryViews(): JSX.Element {
+    const app = useApp();
+    const route = () => Router.current(app);
+
+    return <div class="library-views">
+        <NavigationBar />
+        <div class="library-views-content">
+            <Switch>
+                <Match when={route().view === "songs"}>
+                    <SongsView />
+                </Match>
+                <Match when={route().view === "albums"}>
+                    <AlbumsView />
+                </Match>
+                <Match when={routeOf(route(), "album")}>
+                    {album => <AlbumView albumKey={album().key} />}
+                </Match>
+                <Match when={route().view === "artists"}>
+                    <ArtistsView />
+                </Match>
+                <Match when={routeOf(route(), "artist")}>
+                    {artist => <ArtistView name={artist().name} />}
+                </Match>
+                <Match when={routeOf(route(), "folders")}>
+                    {folders => <FoldersView path={folders().path} />}
+                </Match>
+                <Match when={route().view === "settings"}>
+                    <SettingsView />
+                </Match>
+                <Match when={route().view === "search"}>
+                    <SearchView />
+                </Match>
+            </Switch>
+        </div>
+    </div>;
+}
@@ -0,0 +1,110 @@
+import { createEffect, For, JSX, Show } from "solid-js";
+import "./SearchView.scss";
+import { useApp } from "../Contexts";
+import { Search, SearchItem } from "../Search";
+import { formatTime, logError } from "../Util";
+import { MusicNoteRounded, PersonRounded } from "../MaterialSymbolsLight";
+import { AlbumCover } from "./AlbumCover";
+
+/**
+ * Size of the album covers in CSS pixels.
+ */
+const COVER_SIZE = 48;
+
+function ItemContent(props: { item: SearchItem }): JSX.Element {
+    const item = props.item;
+    switch (item.kind) {
+        case "track":
+            return <>
+                <MusicNoteRounded class="search-view-item-icon" />
+                <div class="search-view-item-text">
+                    <div class="search-view-item-name">{item.track.title}</div>
+                    <div class="search-view-item-detail">
+                        {[item.track.artists.join(", "), item.track.album].filter(Boolean).join(" · ")}
+                    </div>
+                </div>
+                <div class="search-view-item-duration">{formatTime(item.track.duration)}</div>
+            </>;
+        case "album":
+            return <>
+                <AlbumCover class="search-view-item-cover" path={item.album.coverPath} size={COVER_SIZE} />
+                <div class="search-view-item-text">
+                    <div class="search-view-item-name">{item.album.title}</div>
+                    <div class="search-view-item-detail">
+                        {[item.album.artist, item.album.year, `${item.album.tracks.length} tracks`].filter(Boolean).join(" · ")}
+                    </div>
+                </div>
+            </>;
+        case "artist":
+            return <>
+                <PersonRounded class="search-view-item-icon search-view-item-icon-round" />
+                <div class="search-view-item-text">
+                    <div class="search-view-item-name">{item.name}</div>
+                    <div class="search-view-item-detail">{item.albums} albums · {item.tracks} tracks</div>
+                </div>
+            </>;
+    }
+}
+
+function Item(props: { item: SearchItem, index: number }): JSX.Element {
+    const app = useApp();
+    const selected = () => app.search.selected === props.index;
+    let el: HTMLDivElement | undefined;
+
+    createEffect(() => {
+        if (selected())
+            el!.scrollIntoView({ block: "nearest" });
+    });
+
+    return <div
+        ref={el}
+        classList={{ "search-view-item": true, "search-view-item-selected": selected() }}
+        onPointerMove={() => app.setSearch("selected", props.index)}
+        onClick={() => Search.open(app, props.item).catch(logError("open the search result"))}
+    >
+        <ItemContent item={props.item} />
+    </div>;
+}
+
+function Group(props: { title: string, kind: SearchItem["kind"] }): JSX.Element {
+    const app = useApp();
+    const items = () => app.search.items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.kind === props.kind);
+
+    return <Show when={items().length > 0}>
+        <div class="library-view-section-title">{props.title}</div>
+        <div class="search-view-list">
+            <For each={items()}>{({ item, index }) => <Item item={item} index={index} />}</For>
+        </div>
+    </Show>;
+}
+
+/**
+ * The hits of the query typed in the search box, grouped by kind.
+ */
+export function SearchView(): JSX.Element {
+    const app = useApp();
+    const query = () => Search.currentQuery(app).trim();
+
+    return <div class="library-view search-view">
+        <div class="library-view-title">{query() === "" ? "Search" : `Results for “${query()}”`}</div>
+        <Show
+            when={query() !== ""}
+            fallback={<div class="library-view-empty">
+                Search by title, artist, album, genre or file name, e.g. <code>artist:beatles year:&gt;1965</code>
+            </div>}
+        >
+            <Show
+                when={app.search.items.length > 0 || app.search.pending}
+                fallback={<div class="library-view-empty">Nothing found</div>}
+            >
+                <div classList={{ "search-view-results": true, "search-view-results-pending": app.search.pending }}>
+                    <Group title="Songs" kind="track" />
+                    <Group title="Albums" kind="album" />
+                    <Group title="Artists" kind="artist" />
+                </div>
+            </Show>
+        </Show>
+    </div>;
+}
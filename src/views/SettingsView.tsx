@@ -0,0 +1,195 @@
+import { For, JSX } from "solid-js";
+import "./SettingsView.scss";
+import { useApp } from "../Contexts";
+import { Settings, SettingsSection } from "../Settings";
+import { AccentMode, ColorScheme, Theme } from "../Theme";
+import { Motion, MotionMode } from "../Motion";
+import { CrossfadeCurve, Player } from "../Player";
+import { Normalization, NormalizationMode } from "../Normalization";
+import { Visualizer, VisualizerStyle } from "../Visualizer";
+import { Shortcuts } from "../Shortcuts";
+
+interface SectionProps {
+    section: SettingsSection;
+    title: string;
+    children: JSX.Element;
+}
+
+/**
+ * A group of options, with a button restoring their defaults.
+ */
+function Section(props: SectionProps): JSX.Element {
+    const app = useApp();
+
+    return <div class="settings-view-section">
+        <div class="settings-view-section-header">
+            <div class="library-view-section-title settings-view-section-title">{props.title}</div>
+            <button
+                class="settings-view-button"
+                disabled={Settings.isDefault(app, props.section)}
+                onClick={() => Settings.reset(app, props.section)}
+            >Reset</button>
+        </div>
+        {props.children}
+    </div>;
+}
+
+function Row(props: { label: string, children: JSX.Element }): JSX.Element {
+    return <label class="settings-view-row">
+        <span class="settings-view-label">{props.label}</span>
+        <div class="settings-view-control">{props.children}</div>
+    </label>;
+}
+
+function Select<T extends string | number>(props: { value: T, options: [T, string][], disabled?: boolean, onChange: (value: string) => void }): JSX.Element {
+    return <select
+        class="settings-view-select"
+        value={props.value}
+        disabled={props.disabled}
+        onChange={e => props.onChange(e.currentTarget.value)}
+    >
+        <For each={props.options}>{([value, label]) => <option value={value}>{label}</option>}</For>
+    </select>;
+}
+
+/**
+ * All options of the app. They apply at once and are saved across restarts.
+ */
+export function SettingsView(): JSX.Element {
+    const app = useApp();
+    const customBindings = () => Shortcuts.COMMANDS.filter(command => !Shortcuts.isDefault(app.shortcuts, command.id)).length;
+
+    return <div class="library-view settings-view">
+        <div class="library-view-title">Settings</div>
+
+        <Section section="theme" title="Appearance">
+            <Row label="Accent color">
+                <Select
+                    value={app.theme.accent}
+                    options={Theme.ACCENT_MODES}
+                    onChange={value => app.setTheme("accent", value as AccentMode)}
+                />
+                <input
+                    class="settings-view-color"
+                    type="color"
+                    title={app.theme.accent === "adaptive" ? "Used while there is no cover" : "Accent color"}
+                    value={app.theme.fixedAccent}
+                    onInput={e => app.setTheme("fixedAccent", e.currentTarget.value)}
+                />
+            </Row>
+            <Row label="Color scheme">
+                <Select
+                    value={app.theme.scheme}
+                    options={Theme.COLOR_SCHEMES}
+                    onChange={value => app.setTheme("scheme", value as ColorScheme)}
+                />
+            </Row>
+        </Section>
+
+        <Section section="motion" title="Motion">
+            <Row label="Animations">
+                <Select
+                    value={app.motion.mode}
+                    options={Motion.MODES}
+                    onChange={value => app.setMotion("mode", value as MotionMode)}
+                />
+            </Row>
+            <Row label="Animation speed">
+                <Select
+                    value={app.motion.speed}
+                    options={Motion.SPEEDS.map(speed => [speed, `${speed}×`])}
+                    disabled={Motion.level() === "none"}
+                    onChange={value => app.setMotion("speed", Number.parseFloat(value))}
+                />
+            </Row>
+        </Section>
+
+        <Section section="layout" title="Layout">
+            <Row label="Show the side bar">
+                <input
+                    type="checkbox"
+                    checked={app.layout.showSideBar}
+                    onChange={e => app.setLayout("showSideBar", e.currentTarget.checked)}
+                />
+            </Row>
+            <Row label="Show the logo">
+                <input
+                    type="checkbox"
+                    checked={app.layout.showLogo}
+                    onChange={e => app.setLayout("showLogo", e.currentTarget.checked)}
+                />
+            </Row>
+            <div class="settings-view-hint">The side bar is resized by dragging its edge.</div>
+        </Section>
+
+        <Section section="crossfade" title="Crossfade">
+            <Row label="Duration">
+                <Select
+                    value={app.crossfade.duration}
+                    options={Player.CROSSFADE_DURATIONS.map(duration => [duration, duration === 0 ? "Off" : `${duration} s`])}
+                    onChange={value => app.setCrossfade("duration", Number.parseFloat(value))}
+                />
+            </Row>
+            <Row label="Curve">
+                <Select
+                    value={app.crossfade.curve}
+                    options={Player.CROSSFADE_CURVES}
+                    disabled={app.crossfade.duration === 0}
+                    onChange={value => app.setCrossfade("curve", value as CrossfadeCurve)}
+                />
+            </Row>
+        </Section>
+
+        <Section section="normalization" title="Loudness normalization">
+            <Row label="Gain">
+                <Select
+                    value={app.normalization.mode}
+                    options={Normalization.MODES}
+                    onChange={value => app.setNormalization("mode", value as NormalizationMode)}
+                />
+            </Row>
+            <Row label="Prevent clipping">
+                <input
+                    type="checkbox"
+                    checked={app.normalization.preventClipping}
+                    disabled={app.normalization.mode === "off"}
+                    onChange={e => app.setNormalization("preventClipping", e.currentTarget.checked)}
+                />
+            </Row>
+        </Section>
+
+        <Section section="visualizer" title="Visualizer">
+            <Row label="Show instead of the lyrics">
+                <input
+                    type="checkbox"
+                    checked={app.visualizer.enabled}
+                    onChange={e => app.setVisualizer("enabled", e.currentTarget.checked)}
+                />
+            </Row>
+            <Row label="Style">
+                <Select
+                    value={app.visualizer.style}
+                    options={Visualizer.STYLES}
+                    onChange={value => app.setVisualizer("style", value as VisualizerStyle)}
+                />
+            </Row>
+        </Section>
+
+        <Section section="session" title="Session">
+            <Row label="Resume playback on launch">
+                <input
+                    type="checkbox"
+                    checked={app.session.autoResume}
+                    onChange={e => app.setSession("autoResume", e.currentTarget.checked)}
+                />
+            </Row>
+            <div class="settings-view-hint">The queue and the position are restored either way, paused unless this is on.</div>
+        </Section>
+
+        <Section section="shortcuts" title="Keyboard shortcuts">
+            <Row label={customBindings() === 0 ? "Default bindings" : `${customBindings()} commands rebound`}>
+                <button class="settings-view-button" onClick={() => Shortcuts.run("showShortcuts")}>Edit</button>
+            </Row>
+        </Section>
+    </div>;
+}
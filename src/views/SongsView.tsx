@@ -0,0 +1,12 @@
+import { JSX } from "solid-js";
+import { useApp } from "../Contexts";
+import { TrackList } from "./TrackList";
+
+export function SongsView(): JSX.Element {
+    const app = useApp();
+
+    return <div class="library-view">
+        <div class="library-view-title">Songs</div>
+        <TrackList tracks={app.library.tracks} emptyText="Add a folder to the library to see its songs here" />
+    </div>;
+}
@@ -0,0 +1,75 @@
+import { For, JSX, Show } from "solid-js";
+import "./TrackList.scss";
+import { useApp } from "../Contexts";
+import { Library, Track } from "../Library";
+import { Queue } from "../Queue";
+import { Router } from "../Router";
+import { formatTime, logError } from "../Util";
+
+export interface TrackListProps {
+    tracks: Track[];
+    /**
+     * Shows the track numbers instead of the position in the list, for album tracks.
+     */
+    trackNumbers?: boolean;
+    showAlbum?: boolean;
+    /**
+     * Shown instead of the table when there are no tracks.
+     */
+    emptyText?: string;
+}
+
+/**
+ * A table of tracks. Double-clicking a row replaces the queue with the listed tracks, starting at that row.
+ */
+export function TrackList(props: TrackListProps): JSX.Element {
+    const app = useApp();
+
+    const play = (index: number) => Queue.replace(app, props.tracks, index).catch(logError("play the track"));
+
+    return <Show when={props.tracks.length > 0} fallback={<div class="track-list-empty">{props.emptyText ?? "No tracks"}</div>}>
+        <table class="track-list">
+            <thead>
+                <tr>
+                    <th class="track-list-number">#</th>
+                    <th>Title</th>
+                    <th>Artist</th>
+                    <Show when={props.showAlbum ?? true}>
+                        <th>Album</th>
+                    </Show>
+                    <th class="track-list-duration">Duration</th>
+                </tr>
+            </thead>
+            <tbody>
+                <For each={props.tracks}>
+                    {(track, index) => <tr
+                        classList={{ "track-list-row": true, "track-list-row-playing": app.playerState.path === track.path }}
+                        onDblClick={() => play(index())}
+                    >
+                        <td class="track-list-number">{props.trackNumbers ? track.trackNumber ?? "" : index() + 1}</td>
+                        <td>{track.title}</td>
+                        <td>
+                            <For each={track.artists}>
+                                {(artist, i) => <>
+                                    <Show when={i() > 0}>, </Show>
+                                    <a class="track-list-link" onClick={() => Router.navigate(app, { view: "artist", name: artist })}>{artist}</a>
+                                </>}
+                            </For>
+                        </td>
+                        <Show when={props.showAlbum ?? true}>
+                            <td>
+                                <Show when={track.album}>
+                                    {album => <a
+                                        class="track-list-link"
+                                        onClick={() => Router.navigate(app, { view: "album", key: Library.albumKey(Library.albumArtist(track), album()) })}
+                                    >{album()}</a>}
+                                </Show>
+                            </td>
+                        </Show>
+                        <td class="track-list-duration">{formatTime(track.duration)}</td>
+                    </tr>}
+                </For>
+            </tbody>
+        </table>
+    </Show>;
+}